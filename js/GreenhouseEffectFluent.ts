@@ -49,6 +49,8 @@ addToMapIfDefined( 'sliderAndFluxMeterControls', 'sliderAndFluxMeterControlsStri
 addToMapIfDefined( 'concentrationPanel_greenhouseGasConcentration', 'concentrationPanel.greenhouseGasConcentrationStringProperty' );
 addToMapIfDefined( 'fluxMeter_title', 'fluxMeter.titleStringProperty' );
 addToMapIfDefined( 'fluxMeter_energyFlux', 'fluxMeter.energyFluxStringProperty' );
+addToMapIfDefined( 'fluxMeter_bandFluxPattern', 'fluxMeter.bandFluxPatternStringProperty' );
+addToMapIfDefined( 'fluxMeter_bandFluxTitle', 'fluxMeter.bandFluxTitleStringProperty' );
 addToMapIfDefined( 'concentrationPanel_lots', 'concentrationPanel.lotsStringProperty' );
 addToMapIfDefined( 'concentrationPanel_none', 'concentrationPanel.noneStringProperty' );
 addToMapIfDefined( 'concentrationPanel_iceAge', 'concentrationPanel.iceAgeStringProperty' );
@@ -92,6 +94,65 @@ addToMapIfDefined( 'openSciEd_energySource', 'openSciEd.energySourceStringProper
 addToMapIfDefined( 'energyBalance', 'energyBalanceStringProperty' );
 addToMapIfDefined( 'absorbingLayers', 'absorbingLayersStringProperty' );
 addToMapIfDefined( 'temperatureUnits', 'temperatureUnitsStringProperty' );
+addToMapIfDefined( 'skipToEquilibrium', 'skipToEquilibriumStringProperty' );
+addToMapIfDefined( 'temperatureGraph_title', 'temperatureGraph.titleStringProperty' );
+addToMapIfDefined( 'temperatureGraph_surfaceTemperaturePattern', 'temperatureGraph.surfaceTemperaturePatternStringProperty' );
+addToMapIfDefined( 'temperatureGraph_energyRate', 'temperatureGraph.energyRateStringProperty' );
+addToMapIfDefined( 'temperatureGraph_time', 'temperatureGraph.timeStringProperty' );
+addToMapIfDefined( 'temperatureGraph_eruption', 'temperatureGraph.eruptionStringProperty' );
+addToMapIfDefined( 'temperatureGraph_responseTime', 'temperatureGraph.responseTimeStringProperty' );
+addToMapIfDefined( 'dataRecorder_recordData', 'dataRecorder.recordDataStringProperty' );
+addToMapIfDefined( 'dataRecorder_downloadCSV', 'dataRecorder.downloadCSVStringProperty' );
+addToMapIfDefined( 'dataRecorder_downloadJSON', 'dataRecorder.downloadJSONStringProperty' );
+addToMapIfDefined( 'dataRecorder_sampleIntervalPattern', 'dataRecorder.sampleIntervalPatternStringProperty' );
+addToMapIfDefined( 'temperatureProfile_title', 'temperatureProfile.titleStringProperty' );
+addToMapIfDefined( 'temperatureProfile_temperaturePattern', 'temperatureProfile.temperaturePatternStringProperty' );
+addToMapIfDefined( 'temperatureProfile_altitude', 'temperatureProfile.altitudeStringProperty' );
+addToMapIfDefined( 'surfaceEmissivity', 'surfaceEmissivityStringProperty' );
+addToMapIfDefined( 'energyBalancePanel_convection', 'energyBalancePanel.convectionStringProperty' );
+addToMapIfDefined( 'latitude', 'latitudeStringProperty' );
+addToMapIfDefined( 'dayOfYear', 'dayOfYearStringProperty' );
+addToMapIfDefined( 'insolationPattern', 'insolationPatternStringProperty' );
+addToMapIfDefined( 'localSunlight', 'localSunlightStringProperty' );
+addToMapIfDefined( 'globalAverageInsolationPattern', 'globalAverageInsolationPatternStringProperty' );
+addToMapIfDefined( 'dayNightCycle', 'dayNightCycleStringProperty' );
+addToMapIfDefined( 'dayLength', 'dayLengthStringProperty' );
+addToMapIfDefined( 'planet', 'planetStringProperty' );
+addToMapIfDefined( 'planets_earth', 'planets.earthStringProperty' );
+addToMapIfDefined( 'planets_venus', 'planets.venusStringProperty' );
+addToMapIfDefined( 'planets_mars', 'planets.marsStringProperty' );
+addToMapIfDefined( 'planets_snowballEarth', 'planets.snowballEarthStringProperty' );
+addToMapIfDefined( 'concentrationPanel_waterVaporFeedback', 'concentrationPanel.waterVaporFeedbackStringProperty' );
+addToMapIfDefined( 'concentrationPanel_waterVaporChangePattern', 'concentrationPanel.waterVaporChangePatternStringProperty' );
+addToMapIfDefined( 'concentrationPanel_yearBCEPattern', 'concentrationPanel.yearBCEPatternStringProperty' );
+addToMapIfDefined( 'cloudCover', 'cloudCoverStringProperty' );
+addToMapIfDefined( 'cloudCoverChangesWithTemperature', 'cloudCoverChangesWithTemperatureStringProperty' );
+addToMapIfDefined( 'cloudAltitudeChange', 'cloudAltitudeChangeStringProperty' );
+addToMapIfDefined( 'cloudType', 'cloudTypeStringProperty' );
+addToMapIfDefined( 'lowStratusCloud', 'lowStratusCloudStringProperty' );
+addToMapIfDefined( 'highCirrusCloud', 'highCirrusCloudStringProperty' );
+addToMapIfDefined( 'volcanicEruption', 'volcanicEruptionStringProperty' );
+addToMapIfDefined( 'aerosolAltitude', 'aerosolAltitudeStringProperty' );
+addToMapIfDefined( 'erupt', 'eruptStringProperty' );
+addToMapIfDefined( 'gasConcentrations', 'gasConcentrationsStringProperty' );
+addToMapIfDefined( 'emissions', 'emissionsStringProperty' );
+addToMapIfDefined( 'concentrationFromEmissions', 'concentrationFromEmissionsStringProperty' );
+addToMapIfDefined( 'customEmissions', 'customEmissionsStringProperty' );
+addToMapIfDefined( 'veryLowEmissions', 'veryLowEmissionsStringProperty' );
+addToMapIfDefined( 'intermediateEmissions', 'intermediateEmissionsStringProperty' );
+addToMapIfDefined( 'veryHighEmissions', 'veryHighEmissionsStringProperty' );
+addToMapIfDefined( 'climateResponse', 'climateResponseStringProperty' );
+addToMapIfDefined( 'setBaseline', 'setBaselineStringProperty' );
+addToMapIfDefined( 'notAvailable', 'notAvailableStringProperty' );
+addToMapIfDefined( 'surfaceType', 'surfaceTypeStringProperty' );
+addToMapIfDefined( 'land', 'landStringProperty' );
+addToMapIfDefined( 'ocean', 'oceanStringProperty' );
+addToMapIfDefined( 'spectralBand_ultraviolet', 'spectralBand.ultravioletStringProperty' );
+addToMapIfDefined( 'spectralBand_visible', 'spectralBand.visibleStringProperty' );
+addToMapIfDefined( 'spectralBand_nearInfrared', 'spectralBand.nearInfraredStringProperty' );
+addToMapIfDefined( 'spectralBand_waterVaporInfrared', 'spectralBand.waterVaporInfraredStringProperty' );
+addToMapIfDefined( 'spectralBand_atmosphericWindow', 'spectralBand.atmosphericWindowStringProperty' );
+addToMapIfDefined( 'spectralBand_carbonDioxideInfrared', 'spectralBand.carbonDioxideInfraredStringProperty' );
 addToMapIfDefined( 'a11y_observationWindowLabel', 'a11y.observationWindowLabelStringProperty' );
 addToMapIfDefined( 'a11y_energyBalance_accessibleHelpText', 'a11y.energyBalance.accessibleHelpTextStringProperty' );
 addToMapIfDefined( 'a11y_fluxMeter_accessibleHelpText', 'a11y.fluxMeter.accessibleHelpTextStringProperty' );
@@ -110,6 +171,11 @@ addToMapIfDefined( 'a11y_negligible', 'a11y.negligibleStringProperty' );
 addToMapIfDefined( 'a11y_aboveCloud', 'a11y.aboveCloudStringProperty' );
 addToMapIfDefined( 'a11y_belowCloud', 'a11y.belowCloudStringProperty' );
 addToMapIfDefined( 'a11y_surfaceThermometer_accessibleHelpText', 'a11y.surfaceThermometer.accessibleHelpTextStringProperty' );
+addToMapIfDefined( 'a11y_carbonDioxide', 'a11y.carbonDioxideStringProperty' );
+addToMapIfDefined( 'a11y_methane', 'a11y.methaneStringProperty' );
+addToMapIfDefined( 'a11y_nitrousOxide', 'a11y.nitrousOxideStringProperty' );
+addToMapIfDefined( 'a11y_waterVapor', 'a11y.waterVaporStringProperty' );
+addToMapIfDefined( 'a11y_gasConcentrationSliderHelpText', 'a11y.gasConcentrationSliderHelpTextStringProperty' );
 addToMapIfDefined( 'a11y_showSurfaceTemperature_accessibleHelpText', 'a11y.showSurfaceTemperature.accessibleHelpTextStringProperty' );
 addToMapIfDefined( 'a11y_surfaceTemperatureScaleHidden', 'a11y.surfaceTemperatureScaleHiddenStringProperty' );
 addToMapIfDefined( 'a11y_historicalRelativeDescriptions_high', 'a11y.historicalRelativeDescriptions.highStringProperty' );
@@ -199,6 +265,16 @@ addToMapIfDefined( 'a11y_layerModel_observationWindow_surface', 'a11y.layerModel
 addToMapIfDefined( 'a11y_layerModel_observationWindow_multipleLayersAdded', 'a11y.layerModel.observationWindow.multipleLayersAddedStringProperty' );
 addToMapIfDefined( 'a11y_layerModel_observationWindow_multipleLayersRemoved', 'a11y.layerModel.observationWindow.multipleLayersRemovedStringProperty' );
 addToMapIfDefined( 'a11y_layerModel_observationWindow_fullAbsorptionContextResponse', 'a11y.layerModel.observationWindow.fullAbsorptionContextResponseStringProperty' );
+addToMapIfDefined( 'a11y_layerModel_surfaceEmissivityHelpText', 'a11y.layerModel.surfaceEmissivityHelpTextStringProperty' );
+addToMapIfDefined( 'a11y_layerModel_latitudeHelpText', 'a11y.layerModel.latitudeHelpTextStringProperty' );
+addToMapIfDefined( 'a11y_layerModel_dayOfYearHelpText', 'a11y.layerModel.dayOfYearHelpTextStringProperty' );
+addToMapIfDefined( 'a11y_layerModel_localSunlightHelpText', 'a11y.layerModel.localSunlightHelpTextStringProperty' );
+addToMapIfDefined( 'a11y_layerModel_planetHelpText', 'a11y.layerModel.planetHelpTextStringProperty' );
+addToMapIfDefined( 'a11y_layerModel_planetPattern', 'a11y.layerModel.planetPatternStringProperty' );
+addToMapIfDefined( 'a11y_layerModel_earthLandscape', 'a11y.layerModel.earthLandscapeStringProperty' );
+addToMapIfDefined( 'a11y_layerModel_venusLandscape', 'a11y.layerModel.venusLandscapeStringProperty' );
+addToMapIfDefined( 'a11y_layerModel_marsLandscape', 'a11y.layerModel.marsLandscapeStringProperty' );
+addToMapIfDefined( 'a11y_layerModel_snowballEarthLandscape', 'a11y.layerModel.snowballEarthLandscapeStringProperty' );
 addToMapIfDefined( 'a11y_thereAreManyHomesAndFactories', 'a11y.thereAreManyHomesAndFactoriesStringProperty' );
 addToMapIfDefined( 'a11y_thereAreAFewHomesAndFactories', 'a11y.thereAreAFewHomesAndFactoriesStringProperty' );
 addToMapIfDefined( 'a11y_thereIsAFarm', 'a11y.thereIsAFarmStringProperty' );
@@ -240,14 +316,17 @@ addToMapIfDefined( 'a11y_concentrationPanel_timePeriod_yearTwentyTwenty', 'a11y.
 addToMapIfDefined( 'a11y_concentrationPanel_timePeriod_yearNineteenFifty', 'a11y.concentrationPanel.timePeriod.yearNineteenFiftyStringProperty' );
 addToMapIfDefined( 'a11y_concentrationPanel_timePeriod_yearSeventeenFifty', 'a11y.concentrationPanel.timePeriod.yearSeventeenFiftyStringProperty' );
 addToMapIfDefined( 'a11y_concentrationPanel_timePeriod_iceAge', 'a11y.concentrationPanel.timePeriod.iceAgeStringProperty' );
+addToMapIfDefined( 'a11y_concentrationPanel_timePeriod_timelineHelpText', 'a11y.concentrationPanel.timePeriod.timelineHelpTextStringProperty' );
 addToMapIfDefined( 'a11y_concentrationPanel_concentration_greenhouseGasConcentration', 'a11y.concentrationPanel.concentration.greenhouseGasConcentrationStringProperty' );
 addToMapIfDefined( 'a11y_concentrationPanel_concentration_concentrationSliderHelpText', 'a11y.concentrationPanel.concentration.concentrationSliderHelpTextStringProperty' );
+addToMapIfDefined( 'a11y_concentrationPanel_waterVaporFeedbackHelpText', 'a11y.concentrationPanel.waterVaporFeedbackHelpTextStringProperty' );
 addToMapIfDefined( 'a11y_timeControls_simPausedEmitterOnAlert', 'a11y.timeControls.simPausedEmitterOnAlertStringProperty' );
 addToMapIfDefined( 'a11y_timeControls_playPauseButtonObservationWindowPlayingDescription', 'a11y.timeControls.playPauseButtonObservationWindowPlayingDescriptionStringProperty' );
 addToMapIfDefined( 'a11y_timeControls_playPauseButtonObservationWindowPausedDescription', 'a11y.timeControls.playPauseButtonObservationWindowPausedDescriptionStringProperty' );
 addToMapIfDefined( 'a11y_timeControls_playPauseButtonObservationWindowPlayingWithSpeedDescription', 'a11y.timeControls.playPauseButtonObservationWindowPlayingWithSpeedDescriptionStringProperty' );
 addToMapIfDefined( 'a11y_timeControls_playPauseButtonObservationWindowPausedWithSpeedDescription', 'a11y.timeControls.playPauseButtonObservationWindowPausedWithSpeedDescriptionStringProperty' );
 addToMapIfDefined( 'a11y_timeControls_speedRadioButtonsDescription', 'a11y.timeControls.speedRadioButtonsDescriptionStringProperty' );
+addToMapIfDefined( 'a11y_timeControls_skipToEquilibriumButtonHelpText', 'a11y.timeControls.skipToEquilibriumButtonHelpTextStringProperty' );
 addToMapIfDefined( 'a11y_micro_microwaveCapitalized', 'a11y.micro.microwaveCapitalizedStringProperty' );
 addToMapIfDefined( 'a11y_micro_infraredCapitalized', 'a11y.micro.infraredCapitalizedStringProperty' );
 addToMapIfDefined( 'a11y_micro_visibleCapitalized', 'a11y.micro.visibleCapitalizedStringProperty' );
@@ -389,6 +468,31 @@ addToMapIfDefined( 'a11y_micro_spectrumWindowLabelledSpectrumXrayFrequencyDescri
 addToMapIfDefined( 'a11y_micro_spectrumWindowLabelledSpectrumXrayWavelengthDescription', 'a11y.micro.spectrumWindowLabelledSpectrumXrayWavelengthDescriptionStringProperty' );
 addToMapIfDefined( 'a11y_micro_spectrumWindowLabelledSpectrumGammaRayFrequencyDescription', 'a11y.micro.spectrumWindowLabelledSpectrumGammaRayFrequencyDescriptionStringProperty' );
 addToMapIfDefined( 'a11y_micro_spectrumWindowLabelledSpectrumGammaRayWavelengthDescription', 'a11y.micro.spectrumWindowLabelledSpectrumGammaRayWavelengthDescriptionStringProperty' );
+addToMapIfDefined( 'a11y_temperatureGraph_accessibleHelpText', 'a11y.temperatureGraph.accessibleHelpTextStringProperty' );
+addToMapIfDefined( 'a11y_temperatureGraph_checkedAlert', 'a11y.temperatureGraph.checkedAlertStringProperty' );
+addToMapIfDefined( 'a11y_temperatureGraph_uncheckedAlert', 'a11y.temperatureGraph.uncheckedAlertStringProperty' );
+addToMapIfDefined( 'a11y_dataRecorder_recordDataHelpText', 'a11y.dataRecorder.recordDataHelpTextStringProperty' );
+addToMapIfDefined( 'a11y_dataRecorder_recordingStartedAlert', 'a11y.dataRecorder.recordingStartedAlertStringProperty' );
+addToMapIfDefined( 'a11y_dataRecorder_recordingStoppedAlert', 'a11y.dataRecorder.recordingStoppedAlertStringProperty' );
+addToMapIfDefined( 'a11y_dataRecorder_downloadHelpText', 'a11y.dataRecorder.downloadHelpTextStringProperty' );
+addToMapIfDefined( 'a11y_dataRecorder_sampleIntervalHelpText', 'a11y.dataRecorder.sampleIntervalHelpTextStringProperty' );
+addToMapIfDefined( 'a11y_temperatureProfile_accessibleHelpText', 'a11y.temperatureProfile.accessibleHelpTextStringProperty' );
+addToMapIfDefined( 'a11y_temperatureProfile_checkedAlert', 'a11y.temperatureProfile.checkedAlertStringProperty' );
+addToMapIfDefined( 'a11y_temperatureProfile_uncheckedAlert', 'a11y.temperatureProfile.uncheckedAlertStringProperty' );
+addToMapIfDefined( 'a11y_cloudCoverHelpText', 'a11y.cloudCoverHelpTextStringProperty' );
+addToMapIfDefined( 'a11y_cloudCoverChangesWithTemperatureHelpText', 'a11y.cloudCoverChangesWithTemperatureHelpTextStringProperty' );
+addToMapIfDefined( 'a11y_cloudAltitudeChangeHelpText', 'a11y.cloudAltitudeChangeHelpTextStringProperty' );
+addToMapIfDefined( 'a11y_cloudTypeHelpText', 'a11y.cloudTypeHelpTextStringProperty' );
+addToMapIfDefined( 'a11y_aerosolAltitudeHelpText', 'a11y.aerosolAltitudeHelpTextStringProperty' );
+addToMapIfDefined( 'a11y_eruptHelpText', 'a11y.eruptHelpTextStringProperty' );
+addToMapIfDefined( 'a11y_dayNightCycleHelpText', 'a11y.dayNightCycleHelpTextStringProperty' );
+addToMapIfDefined( 'a11y_dayLengthHelpText', 'a11y.dayLengthHelpTextStringProperty' );
+addToMapIfDefined( 'a11y_concentrationFromEmissionsHelpText', 'a11y.concentrationFromEmissionsHelpTextStringProperty' );
+addToMapIfDefined( 'a11y_emissionsScenarioHelpText', 'a11y.emissionsScenarioHelpTextStringProperty' );
+addToMapIfDefined( 'a11y_carbonDioxideEmissions', 'a11y.carbonDioxideEmissionsStringProperty' );
+addToMapIfDefined( 'a11y_emissionRateHelpText', 'a11y.emissionRateHelpTextStringProperty' );
+addToMapIfDefined( 'a11y_setBaselineHelpText', 'a11y.setBaselineHelpTextStringProperty' );
+addToMapIfDefined( 'a11y_surfaceTypeHelpText', 'a11y.surfaceTypeHelpTextStringProperty' );
 
 // A function that creates contents for a new Fluent file, which will be needed if any string changes.
 const createFluentFile = (): string => {
@@ -436,18 +540,25 @@ const GreenhouseEffectFluent = {
     iceAgeStringProperty: _.get( GreenhouseEffectStrings, 'concentrationPanel.iceAgeStringProperty' ),
     carbonDioxideConcentrationPatternStringProperty: _.get( GreenhouseEffectStrings, 'concentrationPanel.carbonDioxideConcentrationPatternStringProperty' ),
     methaneConcentrationPatternStringProperty: _.get( GreenhouseEffectStrings, 'concentrationPanel.methaneConcentrationPatternStringProperty' ),
-    nitrousOxideConcentrationPatternStringProperty: _.get( GreenhouseEffectStrings, 'concentrationPanel.nitrousOxideConcentrationPatternStringProperty' )
+    nitrousOxideConcentrationPatternStringProperty: _.get( GreenhouseEffectStrings, 'concentrationPanel.nitrousOxideConcentrationPatternStringProperty' ),
+    waterVaporConcentrationPatternStringProperty: _.get( GreenhouseEffectStrings, 'concentrationPanel.waterVaporConcentrationPatternStringProperty' ),
+    waterVaporFeedbackStringProperty: _.get( GreenhouseEffectStrings, 'concentrationPanel.waterVaporFeedbackStringProperty' ),
+    waterVaporChangePatternStringProperty: _.get( GreenhouseEffectStrings, 'concentrationPanel.waterVaporChangePatternStringProperty' ),
+    yearBCEPatternStringProperty: _.get( GreenhouseEffectStrings, 'concentrationPanel.yearBCEPatternStringProperty' )
   },
   fluxMeter: {
     titleStringProperty: _.get( GreenhouseEffectStrings, 'fluxMeter.titleStringProperty' ),
-    energyFluxStringProperty: _.get( GreenhouseEffectStrings, 'fluxMeter.energyFluxStringProperty' )
+    energyFluxStringProperty: _.get( GreenhouseEffectStrings, 'fluxMeter.energyFluxStringProperty' ),
+    bandFluxPatternStringProperty: _.get( GreenhouseEffectStrings, 'fluxMeter.bandFluxPatternStringProperty' ),
+    bandFluxTitleStringProperty: _.get( GreenhouseEffectStrings, 'fluxMeter.bandFluxTitleStringProperty' )
   },
   energyBalancePanel: {
     titleStringProperty: _.get( GreenhouseEffectStrings, 'energyBalancePanel.titleStringProperty' ),
     subTitleStringProperty: _.get( GreenhouseEffectStrings, 'energyBalancePanel.subTitleStringProperty' ),
     inStringProperty: _.get( GreenhouseEffectStrings, 'energyBalancePanel.inStringProperty' ),
     outStringProperty: _.get( GreenhouseEffectStrings, 'energyBalancePanel.outStringProperty' ),
-    netStringProperty: _.get( GreenhouseEffectStrings, 'energyBalancePanel.netStringProperty' )
+    netStringProperty: _.get( GreenhouseEffectStrings, 'energyBalancePanel.netStringProperty' ),
+    convectionStringProperty: _.get( GreenhouseEffectStrings, 'energyBalancePanel.convectionStringProperty' )
   },
   temperature: {
     units: {
@@ -500,6 +611,77 @@ const GreenhouseEffectFluent = {
   energyBalanceStringProperty: _.get( GreenhouseEffectStrings, 'energyBalanceStringProperty' ),
   absorbingLayersStringProperty: _.get( GreenhouseEffectStrings, 'absorbingLayersStringProperty' ),
   temperatureUnitsStringProperty: _.get( GreenhouseEffectStrings, 'temperatureUnitsStringProperty' ),
+  skipToEquilibriumStringProperty: _.get( GreenhouseEffectStrings, 'skipToEquilibriumStringProperty' ),
+  temperatureGraph: {
+    titleStringProperty: _.get( GreenhouseEffectStrings, 'temperatureGraph.titleStringProperty' ),
+    surfaceTemperaturePatternStringProperty: _.get( GreenhouseEffectStrings, 'temperatureGraph.surfaceTemperaturePatternStringProperty' ),
+    energyRateStringProperty: _.get( GreenhouseEffectStrings, 'temperatureGraph.energyRateStringProperty' ),
+    timeStringProperty: _.get( GreenhouseEffectStrings, 'temperatureGraph.timeStringProperty' ),
+    eruptionStringProperty: _.get( GreenhouseEffectStrings, 'temperatureGraph.eruptionStringProperty' ),
+    responseTimeStringProperty: _.get( GreenhouseEffectStrings, 'temperatureGraph.responseTimeStringProperty' )
+  },
+  dataRecorder: {
+    recordDataStringProperty: _.get( GreenhouseEffectStrings, 'dataRecorder.recordDataStringProperty' ),
+    downloadCSVStringProperty: _.get( GreenhouseEffectStrings, 'dataRecorder.downloadCSVStringProperty' ),
+    downloadJSONStringProperty: _.get( GreenhouseEffectStrings, 'dataRecorder.downloadJSONStringProperty' ),
+    sampleIntervalPatternStringProperty: _.get( GreenhouseEffectStrings, 'dataRecorder.sampleIntervalPatternStringProperty' )
+  },
+  temperatureProfile: {
+    titleStringProperty: _.get( GreenhouseEffectStrings, 'temperatureProfile.titleStringProperty' ),
+    temperaturePatternStringProperty: _.get( GreenhouseEffectStrings, 'temperatureProfile.temperaturePatternStringProperty' ),
+    altitudeStringProperty: _.get( GreenhouseEffectStrings, 'temperatureProfile.altitudeStringProperty' )
+  },
+  surfaceEmissivityStringProperty: _.get( GreenhouseEffectStrings, 'surfaceEmissivityStringProperty' ),
+  latitudeStringProperty: _.get( GreenhouseEffectStrings, 'latitudeStringProperty' ),
+  dayOfYearStringProperty: _.get( GreenhouseEffectStrings, 'dayOfYearStringProperty' ),
+  insolationPatternStringProperty: _.get( GreenhouseEffectStrings, 'insolationPatternStringProperty' ),
+  localSunlightStringProperty: _.get( GreenhouseEffectStrings, 'localSunlightStringProperty' ),
+  globalAverageInsolationPatternStringProperty: _.get( GreenhouseEffectStrings, 'globalAverageInsolationPatternStringProperty' ),
+  dayNightCycleStringProperty: _.get( GreenhouseEffectStrings, 'dayNightCycleStringProperty' ),
+  dayLengthStringProperty: _.get( GreenhouseEffectStrings, 'dayLengthStringProperty' ),
+  planetStringProperty: _.get( GreenhouseEffectStrings, 'planetStringProperty' ),
+  planets: {
+    earthStringProperty: _.get( GreenhouseEffectStrings, 'planets.earthStringProperty' ),
+    venusStringProperty: _.get( GreenhouseEffectStrings, 'planets.venusStringProperty' ),
+    marsStringProperty: _.get( GreenhouseEffectStrings, 'planets.marsStringProperty' ),
+    snowballEarthStringProperty: _.get( GreenhouseEffectStrings, 'planets.snowballEarthStringProperty' )
+  },
+  cloudCoverStringProperty: _.get( GreenhouseEffectStrings, 'cloudCoverStringProperty' ),
+  cloudCoverChangesWithTemperatureStringProperty: _.get( GreenhouseEffectStrings, 'cloudCoverChangesWithTemperatureStringProperty' ),
+  cloudAltitudeChangeStringProperty: _.get( GreenhouseEffectStrings, 'cloudAltitudeChangeStringProperty' ),
+  cloudTypeStringProperty: _.get( GreenhouseEffectStrings, 'cloudTypeStringProperty' ),
+  lowStratusCloudStringProperty: _.get( GreenhouseEffectStrings, 'lowStratusCloudStringProperty' ),
+  highCirrusCloudStringProperty: _.get( GreenhouseEffectStrings, 'highCirrusCloudStringProperty' ),
+  volcanicEruptionStringProperty: _.get( GreenhouseEffectStrings, 'volcanicEruptionStringProperty' ),
+  aerosolAltitudeStringProperty: _.get( GreenhouseEffectStrings, 'aerosolAltitudeStringProperty' ),
+  eruptStringProperty: _.get( GreenhouseEffectStrings, 'eruptStringProperty' ),
+  gasConcentrationsStringProperty: _.get( GreenhouseEffectStrings, 'gasConcentrationsStringProperty' ),
+  emissionsStringProperty: _.get( GreenhouseEffectStrings, 'emissionsStringProperty' ),
+  concentrationFromEmissionsStringProperty: _.get( GreenhouseEffectStrings, 'concentrationFromEmissionsStringProperty' ),
+  customEmissionsStringProperty: _.get( GreenhouseEffectStrings, 'customEmissionsStringProperty' ),
+  veryLowEmissionsStringProperty: _.get( GreenhouseEffectStrings, 'veryLowEmissionsStringProperty' ),
+  intermediateEmissionsStringProperty: _.get( GreenhouseEffectStrings, 'intermediateEmissionsStringProperty' ),
+  veryHighEmissionsStringProperty: _.get( GreenhouseEffectStrings, 'veryHighEmissionsStringProperty' ),
+  emissionRatePatternStringProperty: _.get( GreenhouseEffectStrings, 'emissionRatePatternStringProperty' ),
+  yearPatternStringProperty: _.get( GreenhouseEffectStrings, 'yearPatternStringProperty' ),
+  climateResponseStringProperty: _.get( GreenhouseEffectStrings, 'climateResponseStringProperty' ),
+  setBaselineStringProperty: _.get( GreenhouseEffectStrings, 'setBaselineStringProperty' ),
+  radiativeForcingPatternStringProperty: _.get( GreenhouseEffectStrings, 'radiativeForcingPatternStringProperty' ),
+  equilibriumWarmingPatternStringProperty: _.get( GreenhouseEffectStrings, 'equilibriumWarmingPatternStringProperty' ),
+  warmingToComePatternStringProperty: _.get( GreenhouseEffectStrings, 'warmingToComePatternStringProperty' ),
+  climateSensitivityPatternStringProperty: _.get( GreenhouseEffectStrings, 'climateSensitivityPatternStringProperty' ),
+  notAvailableStringProperty: _.get( GreenhouseEffectStrings, 'notAvailableStringProperty' ),
+  surfaceTypeStringProperty: _.get( GreenhouseEffectStrings, 'surfaceTypeStringProperty' ),
+  landStringProperty: _.get( GreenhouseEffectStrings, 'landStringProperty' ),
+  oceanStringProperty: _.get( GreenhouseEffectStrings, 'oceanStringProperty' ),
+  spectralBand: {
+    ultravioletStringProperty: _.get( GreenhouseEffectStrings, 'spectralBand.ultravioletStringProperty' ),
+    visibleStringProperty: _.get( GreenhouseEffectStrings, 'spectralBand.visibleStringProperty' ),
+    nearInfraredStringProperty: _.get( GreenhouseEffectStrings, 'spectralBand.nearInfraredStringProperty' ),
+    waterVaporInfraredStringProperty: _.get( GreenhouseEffectStrings, 'spectralBand.waterVaporInfraredStringProperty' ),
+    atmosphericWindowStringProperty: _.get( GreenhouseEffectStrings, 'spectralBand.atmosphericWindowStringProperty' ),
+    carbonDioxideInfraredStringProperty: _.get( GreenhouseEffectStrings, 'spectralBand.carbonDioxideInfraredStringProperty' )
+  },
   a11y: {
     _comment_0: new FluentComment( {"comment":"..................................................","associatedKey":"observationWindowLabel"} ),
     _comment_1: new FluentComment( {"comment":"State descriptions for PLAY AREA","associatedKey":"observationWindowLabel"} ),
@@ -538,6 +720,12 @@ const GreenhouseEffectFluent = {
     carbonDioxidePPMPatternStringProperty: _.get( GreenhouseEffectStrings, 'a11y.carbonDioxidePPMPatternStringProperty' ),
     methanePPMPatternStringProperty: _.get( GreenhouseEffectStrings, 'a11y.methanePPMPatternStringProperty' ),
     nitrousOxidePPMPatternStringProperty: _.get( GreenhouseEffectStrings, 'a11y.nitrousOxidePPMPatternStringProperty' ),
+    waterVaporPPMPatternStringProperty: _.get( GreenhouseEffectStrings, 'a11y.waterVaporPPMPatternStringProperty' ),
+    carbonDioxideStringProperty: new FluentConstant( fluentSupport.bundleProperty, 'a11y_carbonDioxide', _.get( GreenhouseEffectStrings, 'a11y.carbonDioxideStringProperty' ) ),
+    methaneStringProperty: new FluentConstant( fluentSupport.bundleProperty, 'a11y_methane', _.get( GreenhouseEffectStrings, 'a11y.methaneStringProperty' ) ),
+    nitrousOxideStringProperty: new FluentConstant( fluentSupport.bundleProperty, 'a11y_nitrousOxide', _.get( GreenhouseEffectStrings, 'a11y.nitrousOxideStringProperty' ) ),
+    waterVaporStringProperty: new FluentConstant( fluentSupport.bundleProperty, 'a11y_waterVapor', _.get( GreenhouseEffectStrings, 'a11y.waterVaporStringProperty' ) ),
+    gasConcentrationSliderHelpTextStringProperty: new FluentConstant( fluentSupport.bundleProperty, 'a11y_gasConcentrationSliderHelpText', _.get( GreenhouseEffectStrings, 'a11y.gasConcentrationSliderHelpTextStringProperty' ) ),
     showSurfaceTemperature: {
       accessibleHelpTextStringProperty: new FluentConstant( fluentSupport.bundleProperty, 'a11y_showSurfaceTemperature_accessibleHelpText', _.get( GreenhouseEffectStrings, 'a11y.showSurfaceTemperature.accessibleHelpTextStringProperty' ) )
     },
@@ -703,7 +891,17 @@ const GreenhouseEffectFluent = {
         absorptionChangeContextResponsePatternStringProperty: _.get( GreenhouseEffectStrings, 'a11y.layerModel.observationWindow.absorptionChangeContextResponsePatternStringProperty' ),
         absorptionChangeWithNoLayersContextResponsePatternStringProperty: _.get( GreenhouseEffectStrings, 'a11y.layerModel.observationWindow.absorptionChangeWithNoLayersContextResponsePatternStringProperty' ),
         temperatureUnitsPatternStringProperty: _.get( GreenhouseEffectStrings, 'a11y.layerModel.observationWindow.temperatureUnitsPatternStringProperty' )
-      }
+      },
+      surfaceEmissivityHelpTextStringProperty: new FluentConstant( fluentSupport.bundleProperty, 'a11y_layerModel_surfaceEmissivityHelpText', _.get( GreenhouseEffectStrings, 'a11y.layerModel.surfaceEmissivityHelpTextStringProperty' ) ),
+      latitudeHelpTextStringProperty: new FluentConstant( fluentSupport.bundleProperty, 'a11y_layerModel_latitudeHelpText', _.get( GreenhouseEffectStrings, 'a11y.layerModel.latitudeHelpTextStringProperty' ) ),
+      dayOfYearHelpTextStringProperty: new FluentConstant( fluentSupport.bundleProperty, 'a11y_layerModel_dayOfYearHelpText', _.get( GreenhouseEffectStrings, 'a11y.layerModel.dayOfYearHelpTextStringProperty' ) ),
+      localSunlightHelpTextStringProperty: new FluentConstant( fluentSupport.bundleProperty, 'a11y_layerModel_localSunlightHelpText', _.get( GreenhouseEffectStrings, 'a11y.layerModel.localSunlightHelpTextStringProperty' ) ),
+      planetHelpTextStringProperty: new FluentConstant( fluentSupport.bundleProperty, 'a11y_layerModel_planetHelpText', _.get( GreenhouseEffectStrings, 'a11y.layerModel.planetHelpTextStringProperty' ) ),
+      planetPatternStringProperty: new FluentConstant( fluentSupport.bundleProperty, 'a11y_layerModel_planetPattern', _.get( GreenhouseEffectStrings, 'a11y.layerModel.planetPatternStringProperty' ) ),
+      earthLandscapeStringProperty: new FluentConstant( fluentSupport.bundleProperty, 'a11y_layerModel_earthLandscape', _.get( GreenhouseEffectStrings, 'a11y.layerModel.earthLandscapeStringProperty' ) ),
+      venusLandscapeStringProperty: new FluentConstant( fluentSupport.bundleProperty, 'a11y_layerModel_venusLandscape', _.get( GreenhouseEffectStrings, 'a11y.layerModel.venusLandscapeStringProperty' ) ),
+      marsLandscapeStringProperty: new FluentConstant( fluentSupport.bundleProperty, 'a11y_layerModel_marsLandscape', _.get( GreenhouseEffectStrings, 'a11y.layerModel.marsLandscapeStringProperty' ) ),
+      snowballEarthLandscapeStringProperty: new FluentConstant( fluentSupport.bundleProperty, 'a11y_layerModel_snowballEarthLandscape', _.get( GreenhouseEffectStrings, 'a11y.layerModel.snowballEarthLandscapeStringProperty' ) )
     },
     greenhouseGasesInAtmospherePatternStringProperty: _.get( GreenhouseEffectStrings, 'a11y.greenhouseGasesInAtmospherePatternStringProperty' ),
     greenhouseGasesValuePatternStringProperty: _.get( GreenhouseEffectStrings, 'a11y.greenhouseGasesValuePatternStringProperty' ),
@@ -773,12 +971,14 @@ const GreenhouseEffectFluent = {
         yearTwentyTwentyStringProperty: new FluentConstant( fluentSupport.bundleProperty, 'a11y_concentrationPanel_timePeriod_yearTwentyTwenty', _.get( GreenhouseEffectStrings, 'a11y.concentrationPanel.timePeriod.yearTwentyTwentyStringProperty' ) ),
         yearNineteenFiftyStringProperty: new FluentConstant( fluentSupport.bundleProperty, 'a11y_concentrationPanel_timePeriod_yearNineteenFifty', _.get( GreenhouseEffectStrings, 'a11y.concentrationPanel.timePeriod.yearNineteenFiftyStringProperty' ) ),
         yearSeventeenFiftyStringProperty: new FluentConstant( fluentSupport.bundleProperty, 'a11y_concentrationPanel_timePeriod_yearSeventeenFifty', _.get( GreenhouseEffectStrings, 'a11y.concentrationPanel.timePeriod.yearSeventeenFiftyStringProperty' ) ),
-        iceAgeStringProperty: new FluentConstant( fluentSupport.bundleProperty, 'a11y_concentrationPanel_timePeriod_iceAge', _.get( GreenhouseEffectStrings, 'a11y.concentrationPanel.timePeriod.iceAgeStringProperty' ) )
+        iceAgeStringProperty: new FluentConstant( fluentSupport.bundleProperty, 'a11y_concentrationPanel_timePeriod_iceAge', _.get( GreenhouseEffectStrings, 'a11y.concentrationPanel.timePeriod.iceAgeStringProperty' ) ),
+        timelineHelpTextStringProperty: new FluentConstant( fluentSupport.bundleProperty, 'a11y_concentrationPanel_timePeriod_timelineHelpText', _.get( GreenhouseEffectStrings, 'a11y.concentrationPanel.timePeriod.timelineHelpTextStringProperty' ) )
       },
       concentration: {
         greenhouseGasConcentrationStringProperty: new FluentConstant( fluentSupport.bundleProperty, 'a11y_concentrationPanel_concentration_greenhouseGasConcentration', _.get( GreenhouseEffectStrings, 'a11y.concentrationPanel.concentration.greenhouseGasConcentrationStringProperty' ) ),
         concentrationSliderHelpTextStringProperty: new FluentConstant( fluentSupport.bundleProperty, 'a11y_concentrationPanel_concentration_concentrationSliderHelpText', _.get( GreenhouseEffectStrings, 'a11y.concentrationPanel.concentration.concentrationSliderHelpTextStringProperty' ) )
-      }
+      },
+      waterVaporFeedbackHelpTextStringProperty: new FluentConstant( fluentSupport.bundleProperty, 'a11y_concentrationPanel_waterVaporFeedbackHelpText', _.get( GreenhouseEffectStrings, 'a11y.concentrationPanel.waterVaporFeedbackHelpTextStringProperty' ) )
     },
     timeControls: {
       simPausedEmitterOnAlertStringProperty: new FluentConstant( fluentSupport.bundleProperty, 'a11y_timeControls_simPausedEmitterOnAlert', _.get( GreenhouseEffectStrings, 'a11y.timeControls.simPausedEmitterOnAlertStringProperty' ) ),
@@ -786,7 +986,8 @@ const GreenhouseEffectFluent = {
       playPauseButtonObservationWindowPausedDescriptionStringProperty: new FluentConstant( fluentSupport.bundleProperty, 'a11y_timeControls_playPauseButtonObservationWindowPausedDescription', _.get( GreenhouseEffectStrings, 'a11y.timeControls.playPauseButtonObservationWindowPausedDescriptionStringProperty' ) ),
       playPauseButtonObservationWindowPlayingWithSpeedDescriptionStringProperty: new FluentConstant( fluentSupport.bundleProperty, 'a11y_timeControls_playPauseButtonObservationWindowPlayingWithSpeedDescription', _.get( GreenhouseEffectStrings, 'a11y.timeControls.playPauseButtonObservationWindowPlayingWithSpeedDescriptionStringProperty' ) ),
       playPauseButtonObservationWindowPausedWithSpeedDescriptionStringProperty: new FluentConstant( fluentSupport.bundleProperty, 'a11y_timeControls_playPauseButtonObservationWindowPausedWithSpeedDescription', _.get( GreenhouseEffectStrings, 'a11y.timeControls.playPauseButtonObservationWindowPausedWithSpeedDescriptionStringProperty' ) ),
-      speedRadioButtonsDescriptionStringProperty: new FluentConstant( fluentSupport.bundleProperty, 'a11y_timeControls_speedRadioButtonsDescription', _.get( GreenhouseEffectStrings, 'a11y.timeControls.speedRadioButtonsDescriptionStringProperty' ) )
+      speedRadioButtonsDescriptionStringProperty: new FluentConstant( fluentSupport.bundleProperty, 'a11y_timeControls_speedRadioButtonsDescription', _.get( GreenhouseEffectStrings, 'a11y.timeControls.speedRadioButtonsDescriptionStringProperty' ) ),
+      skipToEquilibriumButtonHelpTextStringProperty: new FluentConstant( fluentSupport.bundleProperty, 'a11y_timeControls_skipToEquilibriumButtonHelpText', _.get( GreenhouseEffectStrings, 'a11y.timeControls.skipToEquilibriumButtonHelpTextStringProperty' ) )
     },
     _comment_5: new FluentComment( {"comment":"Accessibility Strings that are specific to the 'micro' screen - these are all used in","associatedKey":"micro"} ),
     _comment_6: new FluentComment( {"comment":"molecules-and-light.","associatedKey":"micro"} ),
@@ -1110,7 +1311,43 @@ const GreenhouseEffectFluent = {
       _comment_175: new FluentComment( {"comment":"Gamma ray","associatedKey":"spectrumWindowLabelledSpectrumGammaRayFrequencyDescription"} ),
       spectrumWindowLabelledSpectrumGammaRayFrequencyDescriptionStringProperty: new FluentConstant( fluentSupport.bundleProperty, 'a11y_micro_spectrumWindowLabelledSpectrumGammaRayFrequencyDescription', _.get( GreenhouseEffectStrings, 'a11y.micro.spectrumWindowLabelledSpectrumGammaRayFrequencyDescriptionStringProperty' ) ),
       spectrumWindowLabelledSpectrumGammaRayWavelengthDescriptionStringProperty: new FluentConstant( fluentSupport.bundleProperty, 'a11y_micro_spectrumWindowLabelledSpectrumGammaRayWavelengthDescription', _.get( GreenhouseEffectStrings, 'a11y.micro.spectrumWindowLabelledSpectrumGammaRayWavelengthDescriptionStringProperty' ) )
-    }
+    },
+    temperatureGraph: {
+      accessibleHelpTextStringProperty: new FluentConstant( fluentSupport.bundleProperty, 'a11y_temperatureGraph_accessibleHelpText', _.get( GreenhouseEffectStrings, 'a11y.temperatureGraph.accessibleHelpTextStringProperty' ) ),
+      checkedAlertStringProperty: new FluentConstant( fluentSupport.bundleProperty, 'a11y_temperatureGraph_checkedAlert', _.get( GreenhouseEffectStrings, 'a11y.temperatureGraph.checkedAlertStringProperty' ) ),
+      uncheckedAlertStringProperty: new FluentConstant( fluentSupport.bundleProperty, 'a11y_temperatureGraph_uncheckedAlert', _.get( GreenhouseEffectStrings, 'a11y.temperatureGraph.uncheckedAlertStringProperty' ) )
+    },
+    dataRecorder: {
+      recordDataHelpTextStringProperty: new FluentConstant( fluentSupport.bundleProperty, 'a11y_dataRecorder_recordDataHelpText', _.get( GreenhouseEffectStrings, 'a11y.dataRecorder.recordDataHelpTextStringProperty' ) ),
+      recordingStartedAlertStringProperty: new FluentConstant( fluentSupport.bundleProperty, 'a11y_dataRecorder_recordingStartedAlert', _.get( GreenhouseEffectStrings, 'a11y.dataRecorder.recordingStartedAlertStringProperty' ) ),
+      recordingStoppedAlertStringProperty: new FluentConstant( fluentSupport.bundleProperty, 'a11y_dataRecorder_recordingStoppedAlert', _.get( GreenhouseEffectStrings, 'a11y.dataRecorder.recordingStoppedAlertStringProperty' ) ),
+      downloadHelpTextStringProperty: new FluentConstant( fluentSupport.bundleProperty, 'a11y_dataRecorder_downloadHelpText', _.get( GreenhouseEffectStrings, 'a11y.dataRecorder.downloadHelpTextStringProperty' ) ),
+      sampleIntervalHelpTextStringProperty: new FluentConstant( fluentSupport.bundleProperty, 'a11y_dataRecorder_sampleIntervalHelpText', _.get( GreenhouseEffectStrings, 'a11y.dataRecorder.sampleIntervalHelpTextStringProperty' ) )
+    },
+    temperatureProfile: {
+      accessibleHelpTextStringProperty: new FluentConstant( fluentSupport.bundleProperty, 'a11y_temperatureProfile_accessibleHelpText', _.get( GreenhouseEffectStrings, 'a11y.temperatureProfile.accessibleHelpTextStringProperty' ) ),
+      checkedAlertStringProperty: new FluentConstant( fluentSupport.bundleProperty, 'a11y_temperatureProfile_checkedAlert', _.get( GreenhouseEffectStrings, 'a11y.temperatureProfile.checkedAlertStringProperty' ) ),
+      uncheckedAlertStringProperty: new FluentConstant( fluentSupport.bundleProperty, 'a11y_temperatureProfile_uncheckedAlert', _.get( GreenhouseEffectStrings, 'a11y.temperatureProfile.uncheckedAlertStringProperty' ) )
+    },
+    cloudCoverHelpTextStringProperty: new FluentConstant( fluentSupport.bundleProperty, 'a11y_cloudCoverHelpText', _.get( GreenhouseEffectStrings, 'a11y.cloudCoverHelpTextStringProperty' ) ),
+    cloudCoverChangesWithTemperatureHelpTextStringProperty: new FluentConstant( fluentSupport.bundleProperty, 'a11y_cloudCoverChangesWithTemperatureHelpText', _.get( GreenhouseEffectStrings, 'a11y.cloudCoverChangesWithTemperatureHelpTextStringProperty' ) ),
+    cloudAltitudeChangeHelpTextStringProperty: new FluentConstant( fluentSupport.bundleProperty, 'a11y_cloudAltitudeChangeHelpText', _.get( GreenhouseEffectStrings, 'a11y.cloudAltitudeChangeHelpTextStringProperty' ) ),
+    cloudTypeHelpTextStringProperty: new FluentConstant( fluentSupport.bundleProperty, 'a11y_cloudTypeHelpText', _.get( GreenhouseEffectStrings, 'a11y.cloudTypeHelpTextStringProperty' ) ),
+    aerosolAltitudeHelpTextStringProperty: new FluentConstant( fluentSupport.bundleProperty, 'a11y_aerosolAltitudeHelpText', _.get( GreenhouseEffectStrings, 'a11y.aerosolAltitudeHelpTextStringProperty' ) ),
+    eruptHelpTextStringProperty: new FluentConstant( fluentSupport.bundleProperty, 'a11y_eruptHelpText', _.get( GreenhouseEffectStrings, 'a11y.eruptHelpTextStringProperty' ) ),
+    dayNightCycleHelpTextStringProperty: new FluentConstant( fluentSupport.bundleProperty, 'a11y_dayNightCycleHelpText', _.get( GreenhouseEffectStrings, 'a11y.dayNightCycleHelpTextStringProperty' ) ),
+    dayLengthHelpTextStringProperty: new FluentConstant( fluentSupport.bundleProperty, 'a11y_dayLengthHelpText', _.get( GreenhouseEffectStrings, 'a11y.dayLengthHelpTextStringProperty' ) ),
+    concentrationFromEmissionsHelpTextStringProperty: new FluentConstant( fluentSupport.bundleProperty, 'a11y_concentrationFromEmissionsHelpText', _.get( GreenhouseEffectStrings, 'a11y.concentrationFromEmissionsHelpTextStringProperty' ) ),
+    emissionsScenarioHelpTextStringProperty: new FluentConstant( fluentSupport.bundleProperty, 'a11y_emissionsScenarioHelpText', _.get( GreenhouseEffectStrings, 'a11y.emissionsScenarioHelpTextStringProperty' ) ),
+    carbonDioxideEmissionsStringProperty: new FluentConstant( fluentSupport.bundleProperty, 'a11y_carbonDioxideEmissions', _.get( GreenhouseEffectStrings, 'a11y.carbonDioxideEmissionsStringProperty' ) ),
+    emissionRatePatternStringProperty: _.get( GreenhouseEffectStrings, 'a11y.emissionRatePatternStringProperty' ),
+    emissionRateHelpTextStringProperty: new FluentConstant( fluentSupport.bundleProperty, 'a11y_emissionRateHelpText', _.get( GreenhouseEffectStrings, 'a11y.emissionRateHelpTextStringProperty' ) ),
+    setBaselineHelpTextStringProperty: new FluentConstant( fluentSupport.bundleProperty, 'a11y_setBaselineHelpText', _.get( GreenhouseEffectStrings, 'a11y.setBaselineHelpTextStringProperty' ) ),
+    climateResponsePatternStringProperty: _.get( GreenhouseEffectStrings, 'a11y.climateResponsePatternStringProperty' ),
+    climateResponseSmallForcingPatternStringProperty: _.get( GreenhouseEffectStrings, 'a11y.climateResponseSmallForcingPatternStringProperty' ),
+    surfaceTypeHelpTextStringProperty: new FluentConstant( fluentSupport.bundleProperty, 'a11y_surfaceTypeHelpText', _.get( GreenhouseEffectStrings, 'a11y.surfaceTypeHelpTextStringProperty' ) ),
+    landSurfaceResponsePatternStringProperty: _.get( GreenhouseEffectStrings, 'a11y.landSurfaceResponsePatternStringProperty' ),
+    oceanSurfaceResponsePatternStringProperty: _.get( GreenhouseEffectStrings, 'a11y.oceanSurfaceResponsePatternStringProperty' )
   }
 };
 
@@ -45,10 +45,16 @@ type StringsType = {
     'carbonDioxideConcentrationPatternStringProperty': LocalizedStringProperty;
     'methaneConcentrationPatternStringProperty': LocalizedStringProperty;
     'nitrousOxideConcentrationPatternStringProperty': LocalizedStringProperty;
+    'waterVaporConcentrationPatternStringProperty': LocalizedStringProperty;
+    'waterVaporFeedbackStringProperty': LocalizedStringProperty;
+    'waterVaporChangePatternStringProperty': LocalizedStringProperty;
+    'yearBCEPatternStringProperty': LocalizedStringProperty;
   };
   'fluxMeter': {
     'titleStringProperty': LocalizedStringProperty;
     'energyFluxStringProperty': LocalizedStringProperty;
+    'bandFluxPatternStringProperty': LocalizedStringProperty;
+    'bandFluxTitleStringProperty': LocalizedStringProperty;
   };
   'energyBalancePanel': {
     'titleStringProperty': LocalizedStringProperty;
@@ -56,6 +62,7 @@ type StringsType = {
     'inStringProperty': LocalizedStringProperty;
     'outStringProperty': LocalizedStringProperty;
     'netStringProperty': LocalizedStringProperty;
+    'convectionStringProperty': LocalizedStringProperty;
   };
   'temperature': {
     'units': {
@@ -108,6 +115,77 @@ type StringsType = {
   'energyBalanceStringProperty': LocalizedStringProperty;
   'absorbingLayersStringProperty': LocalizedStringProperty;
   'temperatureUnitsStringProperty': LocalizedStringProperty;
+  'skipToEquilibriumStringProperty': LocalizedStringProperty;
+  'temperatureGraph': {
+    'titleStringProperty': LocalizedStringProperty;
+    'surfaceTemperaturePatternStringProperty': LocalizedStringProperty;
+    'energyRateStringProperty': LocalizedStringProperty;
+    'timeStringProperty': LocalizedStringProperty;
+    'eruptionStringProperty': LocalizedStringProperty;
+    'responseTimeStringProperty': LocalizedStringProperty;
+  };
+  'dataRecorder': {
+    'recordDataStringProperty': LocalizedStringProperty;
+    'downloadCSVStringProperty': LocalizedStringProperty;
+    'downloadJSONStringProperty': LocalizedStringProperty;
+    'sampleIntervalPatternStringProperty': LocalizedStringProperty;
+  };
+  'temperatureProfile': {
+    'titleStringProperty': LocalizedStringProperty;
+    'temperaturePatternStringProperty': LocalizedStringProperty;
+    'altitudeStringProperty': LocalizedStringProperty;
+  };
+  'surfaceEmissivityStringProperty': LocalizedStringProperty;
+  'latitudeStringProperty': LocalizedStringProperty;
+  'dayOfYearStringProperty': LocalizedStringProperty;
+  'insolationPatternStringProperty': LocalizedStringProperty;
+  'localSunlightStringProperty': LocalizedStringProperty;
+  'globalAverageInsolationPatternStringProperty': LocalizedStringProperty;
+  'dayNightCycleStringProperty': LocalizedStringProperty;
+  'dayLengthStringProperty': LocalizedStringProperty;
+  'planetStringProperty': LocalizedStringProperty;
+  'planets': {
+    'earthStringProperty': LocalizedStringProperty;
+    'venusStringProperty': LocalizedStringProperty;
+    'marsStringProperty': LocalizedStringProperty;
+    'snowballEarthStringProperty': LocalizedStringProperty;
+  };
+  'cloudCoverStringProperty': LocalizedStringProperty;
+  'cloudCoverChangesWithTemperatureStringProperty': LocalizedStringProperty;
+  'cloudAltitudeChangeStringProperty': LocalizedStringProperty;
+  'cloudTypeStringProperty': LocalizedStringProperty;
+  'lowStratusCloudStringProperty': LocalizedStringProperty;
+  'highCirrusCloudStringProperty': LocalizedStringProperty;
+  'volcanicEruptionStringProperty': LocalizedStringProperty;
+  'aerosolAltitudeStringProperty': LocalizedStringProperty;
+  'eruptStringProperty': LocalizedStringProperty;
+  'gasConcentrationsStringProperty': LocalizedStringProperty;
+  'emissionsStringProperty': LocalizedStringProperty;
+  'concentrationFromEmissionsStringProperty': LocalizedStringProperty;
+  'customEmissionsStringProperty': LocalizedStringProperty;
+  'veryLowEmissionsStringProperty': LocalizedStringProperty;
+  'intermediateEmissionsStringProperty': LocalizedStringProperty;
+  'veryHighEmissionsStringProperty': LocalizedStringProperty;
+  'emissionRatePatternStringProperty': LocalizedStringProperty;
+  'yearPatternStringProperty': LocalizedStringProperty;
+  'climateResponseStringProperty': LocalizedStringProperty;
+  'setBaselineStringProperty': LocalizedStringProperty;
+  'radiativeForcingPatternStringProperty': LocalizedStringProperty;
+  'equilibriumWarmingPatternStringProperty': LocalizedStringProperty;
+  'warmingToComePatternStringProperty': LocalizedStringProperty;
+  'climateSensitivityPatternStringProperty': LocalizedStringProperty;
+  'notAvailableStringProperty': LocalizedStringProperty;
+  'surfaceTypeStringProperty': LocalizedStringProperty;
+  'landStringProperty': LocalizedStringProperty;
+  'oceanStringProperty': LocalizedStringProperty;
+  'spectralBand': {
+    'ultravioletStringProperty': LocalizedStringProperty;
+    'visibleStringProperty': LocalizedStringProperty;
+    'nearInfraredStringProperty': LocalizedStringProperty;
+    'waterVaporInfraredStringProperty': LocalizedStringProperty;
+    'atmosphericWindowStringProperty': LocalizedStringProperty;
+    'carbonDioxideInfraredStringProperty': LocalizedStringProperty;
+  };
   'a11y': {
     'observationWindowLabelStringProperty': LocalizedStringProperty;
     'energyBalance': {
@@ -141,6 +219,12 @@ type StringsType = {
     'carbonDioxidePPMPatternStringProperty': LocalizedStringProperty;
     'methanePPMPatternStringProperty': LocalizedStringProperty;
     'nitrousOxidePPMPatternStringProperty': LocalizedStringProperty;
+    'waterVaporPPMPatternStringProperty': LocalizedStringProperty;
+    'carbonDioxideStringProperty': LocalizedStringProperty;
+    'methaneStringProperty': LocalizedStringProperty;
+    'nitrousOxideStringProperty': LocalizedStringProperty;
+    'waterVaporStringProperty': LocalizedStringProperty;
+    'gasConcentrationSliderHelpTextStringProperty': LocalizedStringProperty;
     'showSurfaceTemperature': {
       'accessibleHelpTextStringProperty': LocalizedStringProperty;
     };
@@ -307,6 +391,16 @@ type StringsType = {
         'absorptionChangeWithNoLayersContextResponsePatternStringProperty': LocalizedStringProperty;
         'temperatureUnitsPatternStringProperty': LocalizedStringProperty;
       }
+      'surfaceEmissivityHelpTextStringProperty': LocalizedStringProperty;
+      'latitudeHelpTextStringProperty': LocalizedStringProperty;
+      'dayOfYearHelpTextStringProperty': LocalizedStringProperty;
+      'localSunlightHelpTextStringProperty': LocalizedStringProperty;
+      'planetHelpTextStringProperty': LocalizedStringProperty;
+      'planetPatternStringProperty': LocalizedStringProperty;
+      'earthLandscapeStringProperty': LocalizedStringProperty;
+      'venusLandscapeStringProperty': LocalizedStringProperty;
+      'marsLandscapeStringProperty': LocalizedStringProperty;
+      'snowballEarthLandscapeStringProperty': LocalizedStringProperty;
     };
     'greenhouseGasesInAtmospherePatternStringProperty': LocalizedStringProperty;
     'greenhouseGasesValuePatternStringProperty': LocalizedStringProperty;
@@ -377,11 +471,13 @@ type StringsType = {
         'yearNineteenFiftyStringProperty': LocalizedStringProperty;
         'yearSeventeenFiftyStringProperty': LocalizedStringProperty;
         'iceAgeStringProperty': LocalizedStringProperty;
+        'timelineHelpTextStringProperty': LocalizedStringProperty;
       };
       'concentration': {
         'greenhouseGasConcentrationStringProperty': LocalizedStringProperty;
         'concentrationSliderHelpTextStringProperty': LocalizedStringProperty;
-      }
+      };
+      'waterVaporFeedbackHelpTextStringProperty': LocalizedStringProperty;
     };
     'timeControls': {
       'simPausedEmitterOnAlertStringProperty': LocalizedStringProperty;
@@ -390,6 +486,7 @@ type StringsType = {
       'playPauseButtonObservationWindowPlayingWithSpeedDescriptionStringProperty': LocalizedStringProperty;
       'playPauseButtonObservationWindowPausedWithSpeedDescriptionStringProperty': LocalizedStringProperty;
       'speedRadioButtonsDescriptionStringProperty': LocalizedStringProperty;
+      'skipToEquilibriumButtonHelpTextStringProperty': LocalizedStringProperty;
     };
     'micro': {
       'microwaveCapitalizedStringProperty': LocalizedStringProperty;
@@ -535,7 +632,43 @@ type StringsType = {
       'spectrumWindowLabelledSpectrumXrayWavelengthDescriptionStringProperty': LocalizedStringProperty;
       'spectrumWindowLabelledSpectrumGammaRayFrequencyDescriptionStringProperty': LocalizedStringProperty;
       'spectrumWindowLabelledSpectrumGammaRayWavelengthDescriptionStringProperty': LocalizedStringProperty;
-    }
+    };
+    'temperatureGraph': {
+      'accessibleHelpTextStringProperty': LocalizedStringProperty;
+      'checkedAlertStringProperty': LocalizedStringProperty;
+      'uncheckedAlertStringProperty': LocalizedStringProperty;
+    };
+    'dataRecorder': {
+      'recordDataHelpTextStringProperty': LocalizedStringProperty;
+      'recordingStartedAlertStringProperty': LocalizedStringProperty;
+      'recordingStoppedAlertStringProperty': LocalizedStringProperty;
+      'downloadHelpTextStringProperty': LocalizedStringProperty;
+      'sampleIntervalHelpTextStringProperty': LocalizedStringProperty;
+    };
+    'temperatureProfile': {
+      'accessibleHelpTextStringProperty': LocalizedStringProperty;
+      'checkedAlertStringProperty': LocalizedStringProperty;
+      'uncheckedAlertStringProperty': LocalizedStringProperty;
+    };
+    'cloudCoverHelpTextStringProperty': LocalizedStringProperty;
+    'cloudCoverChangesWithTemperatureHelpTextStringProperty': LocalizedStringProperty;
+    'cloudAltitudeChangeHelpTextStringProperty': LocalizedStringProperty;
+    'cloudTypeHelpTextStringProperty': LocalizedStringProperty;
+    'aerosolAltitudeHelpTextStringProperty': LocalizedStringProperty;
+    'eruptHelpTextStringProperty': LocalizedStringProperty;
+    'dayNightCycleHelpTextStringProperty': LocalizedStringProperty;
+    'dayLengthHelpTextStringProperty': LocalizedStringProperty;
+    'concentrationFromEmissionsHelpTextStringProperty': LocalizedStringProperty;
+    'emissionsScenarioHelpTextStringProperty': LocalizedStringProperty;
+    'carbonDioxideEmissionsStringProperty': LocalizedStringProperty;
+    'emissionRatePatternStringProperty': LocalizedStringProperty;
+    'emissionRateHelpTextStringProperty': LocalizedStringProperty;
+    'setBaselineHelpTextStringProperty': LocalizedStringProperty;
+    'climateResponsePatternStringProperty': LocalizedStringProperty;
+    'climateResponseSmallForcingPatternStringProperty': LocalizedStringProperty;
+    'surfaceTypeHelpTextStringProperty': LocalizedStringProperty;
+    'landSurfaceResponsePatternStringProperty': LocalizedStringProperty;
+    'oceanSurfaceResponsePatternStringProperty': LocalizedStringProperty;
   }
 };
 
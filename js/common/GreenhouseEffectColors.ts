@@ -53,6 +53,48 @@ const GreenhouseEffectColors = {
     {
       default: new Color( 0, 148, 189 )
     }
+  ),
+  surfaceTemperaturePlotColorProperty: new ProfileColorProperty(
+    greenhouseEffect,
+    'surfaceTemperaturePlot',
+    {
+      default: new Color( 204, 0, 0 )
+    }
+  ),
+  energyInPlotColorProperty: new ProfileColorProperty(
+    greenhouseEffect,
+    'energyInPlot',
+    {
+      default: new Color( 230, 160, 0 )
+    }
+  ),
+  energyOutPlotColorProperty: new ProfileColorProperty(
+    greenhouseEffect,
+    'energyOutPlot',
+    {
+      default: new Color( 150, 0, 150 )
+    }
+  ),
+  netEnergyPlotColorProperty: new ProfileColorProperty(
+    greenhouseEffect,
+    'netEnergyPlot',
+    {
+      default: new Color( 0, 187, 115 )
+    }
+  ),
+  eruptionMarkerColorProperty: new ProfileColorProperty(
+    greenhouseEffect,
+    'eruptionMarker',
+    {
+      default: new Color( 90, 90, 90 )
+    }
+  ),
+  responseTimeMarkerColorProperty: new ProfileColorProperty(
+    greenhouseEffect,
+    'responseTimeMarker',
+    {
+      default: new Color( 0, 110, 200 )
+    }
   )
 };
 
@@ -50,6 +50,16 @@ const GreenhouseEffectConstants = {
   // like a sidewalk that extends from one side of the model to the other.
   SUNLIGHT_SPAN: new Dimension2( 85000, 1 ),
 
+  // the altitude of the top of the modeled atmosphere, in meters
+  HEIGHT_OF_ATMOSPHERE: 50000,
+
+  // the number of layers in the atmosphere when not otherwise specified, empirically determined to give good behavior
+  // for temperature and energy flux
+  DEFAULT_NUMBER_OF_ATMOSPHERE_LAYERS: 12,
+
+  // the largest number of layers that the atmosphere can have, limited by the performance of the model and the view
+  MAX_NUMBER_OF_ATMOSPHERE_LAYERS: 50,
+
   // wavelengths of light used, in meters
   VISIBLE_WAVELENGTH: 500E-9,
   INFRARED_WAVELENGTH: 10E-6,
@@ -7,6 +7,9 @@
  */
 
 import { QueryStringMachine } from '../../../query-string-machine/js/QueryStringMachineModule.js';
+import GreenhouseEffectConstants from './GreenhouseEffectConstants.js';
+
+const METERS_PER_KILOMETER = 1000;
 
 const GreenhouseEffectQueryParameters = QueryStringMachine.getAll( {
 
@@ -27,6 +30,126 @@ const GreenhouseEffectQueryParameters = QueryStringMachine.getAll( {
     public: true
   },
 
+  // The number of energy absorbing and emitting layers in the atmosphere on the screens where the greenhouse gas
+  // concentration is controlled (Waves and Photons).  This is ignored if atmosphereLayerAltitudes is specified.
+  numberOfAtmosphereLayers: {
+    type: 'number',
+    defaultValue: GreenhouseEffectConstants.DEFAULT_NUMBER_OF_ATMOSPHERE_LAYERS,
+    isValidValue: ( value: number ) => Number.isInteger( value ) && value >= 1 &&
+                                       value <= GreenhouseEffectConstants.MAX_NUMBER_OF_ATMOSPHERE_LAYERS,
+    public: true
+  },
+
+  // How the atmosphere layers are distributed in altitude on the screens where the greenhouse gas concentration is
+  // controlled.  'even' spaces them evenly between the ground and the top of the atmosphere, 'logPressure' spaces them
+  // evenly in pressure, which puts them closer together near the ground.  This is ignored if atmosphereLayerAltitudes
+  // is specified.
+  atmosphereLayerSpacing: {
+    type: 'string',
+    validValues: [ 'even', 'logPressure' ],
+    defaultValue: 'even',
+    public: true
+  },
+
+  // Altitudes of the atmosphere layers in kilometers, in ascending order, for the screens where the greenhouse gas
+  // concentration is controlled, e.g. atmosphereLayerAltitudes=2,5,10,20.  When specified, this overrides both the
+  // number and spacing of the layers.
+  atmosphereLayerAltitudes: {
+    type: 'array',
+    elementSchema: { type: 'number' },
+    defaultValue: null,
+    isValidValue: ( altitudes: number[] | null ) => altitudes === null || (
+      altitudes.length > 0 && altitudes.length <= GreenhouseEffectConstants.MAX_NUMBER_OF_ATMOSPHERE_LAYERS &&
+      altitudes.every( ( altitude, index ) =>
+        altitude > 0 && altitude < GreenhouseEffectConstants.HEIGHT_OF_ATMOSPHERE / METERS_PER_KILOMETER &&
+        ( index === 0 || altitude > altitudes[ index - 1 ] )
+      )
+    ),
+    public: true
+  },
+
+  // Spread the energy emitted by the sun, the ground, and the atmosphere across several spectral bands based on the
+  // temperature of the emitter, instead of using a single wavelength for visible light and another for infrared.  This
+  // applies to the screens that use the energy packet model for temperature.
+  multiBandEmission: { type: 'flag' },
+
+  // Move heat from the ground into the lower atmosphere by convection and by the evaporation and condensation of water,
+  // in addition to the radiative transfer of energy.  This applies to the screens that use the energy packet model for
+  // temperature.
+  convectiveHeatTransfer: { type: 'flag' },
+
+  // Make the albedo of the ground change with the amount of ice on the surface, which grows as the surface cools and
+  // shrinks as it warms.  This applies to the screens where the greenhouse gas concentration can be changed.
+  iceAlbedoFeedback: { type: 'flag', public: true },
+
+  // Show a control in the greenhouse gas concentration panel for making the amount of water vapor in the atmosphere,
+  // and thus the absorption of infrared energy by the atmosphere, change with the surface temperature.
+  waterVaporFeedback: { type: 'flag', public: true },
+
+  // Show controls for the coverage of additional clouds at different altitudes, which can optionally change with the
+  // surface temperature.  This applies to the Photons and Waves screens.
+  cloudCover: { type: 'flag', public: true },
+
+  // Show a control for choosing the type of the cloud, either a low stratus cloud or a high cirrus cloud, when the
+  // concentration is controlled manually.  This applies to the Photons and Waves screens.
+  cloudTypeSelector: { type: 'flag', public: true },
+
+  // Include reflective aerosols in the models and show a control for triggering a volcanic eruption, which injects
+  // them into the atmosphere at a chosen altitude.  This applies to the Photons, Waves, and Layer Model screens.
+  volcanicEruption: { type: 'flag', public: true },
+
+  // Replace the buttons for choosing a time period with a slider that moves continuously through the years from the
+  // last ice age to the end of this century, with the greenhouse gas concentrations interpolated from historical
+  // records and projections.  This applies to the screens where the greenhouse gas concentration can be changed.
+  concentrationTimeline: { type: 'flag', public: true },
+
+  // Start with controls for the amounts of the individual greenhouse gases - carbon dioxide, methane, and nitrous
+  // oxide - which together set the concentration when it is controlled by value.  Each gas has its own effect on the
+  // absorption of infrared energy.  This applies to the Photons and Waves screens.
+  gasConcentrationControls: { type: 'flag', public: true },
+
+  // Show controls for setting the concentration through the annual emissions of carbon dioxide, either set directly or
+  // from preset scenarios, which build up in the atmosphere over simulated years.  This applies to the Photons and
+  // Waves screens.
+  emissionsScenario: { type: 'flag', public: true },
+
+  // Show readouts of the radiative forcing and the resulting equilibrium warming for the change in concentration from a
+  // baseline, along with the warming that is still to come and the climate sensitivity.  This applies to the Photons
+  // and Waves screens, since the Layer Model screen has no greenhouse gas concentration.
+  climateResponseReadouts: { type: 'flag', public: true },
+
+  // Add a deep ocean to the model and show radio buttons for choosing whether the ground is land or ocean.  The ocean
+  // surface, along with the deep ocean below it, responds much more slowly than land, so the warming lags behind
+  // changes in the atmosphere, and the temperature graph marks how long the response takes.  This applies to the
+  // Photons and Waves screens.
+  surfaceTypeSelector: { type: 'flag', public: true },
+
+  // Make the output of the sun vary over the course of a day, with no sunlight at night, instead of being constant, and
+  // show controls for turning this on and off and for setting the length of the day.  The average output over a full
+  // day is the same as the constant output.  This applies to the screens that use the energy packet model for
+  // temperature.
+  diurnalCycle: { type: 'flag', public: true },
+
+  // The length of a full day and night in seconds of model time when the diurnal cycle is enabled.
+  dayLength: {
+    type: 'number',
+    defaultValue: 60,
+    isValidValue: ( value: number ) => value >= 10 && value <= 600,
+    public: true
+  },
+
+  // Base the output of the sun on a latitude and day of the year instead of using the average for the whole Earth, and
+  // show controls on the Layer Model screen for turning this on and off and for choosing the latitude and day.
+  localInsolation: { type: 'flag', public: true },
+
+  // Show a control on the Layer Model screen for the emissivity of the ground, which determines how much infrared
+  // energy it radiates at a given temperature.
+  surfaceEmissivityControl: { type: 'flag', public: true },
+
+  // Show a control on the Layer Model screen for selecting a planet, which sets the sun, ground, and atmosphere to
+  // values that approximate that planet.
+  planetSelector: { type: 'flag', public: true },
+
   // a flag that starts the launches the sim with the sunlight initially started, for ease of development
   initiallyStarted: { type: 'boolean', defaultValue: false },
 
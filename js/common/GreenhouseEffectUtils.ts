@@ -6,6 +6,8 @@
  * @author Jesse Greenberg (PhET Interactive Simulations)
  */
 
+import TemperatureUnits from './model/TemperatureUnits.js';
+
 const GreenhouseEffectUtils = {
 
   /**
@@ -20,6 +22,28 @@ const GreenhouseEffectUtils = {
    */
   kelvinToCelsius( kelvin: number ): number {
     return kelvin - 273.15;
+  },
+
+  /**
+   * Converts a temperature in Kelvin to the provided units.
+   */
+  kelvinToUnits( kelvin: number, units: TemperatureUnits ): number {
+    return units === TemperatureUnits.KELVIN ? kelvin :
+           units === TemperatureUnits.CELSIUS ? GreenhouseEffectUtils.kelvinToCelsius( kelvin ) :
+           GreenhouseEffectUtils.kelvinToFahrenheit( kelvin );
+  },
+
+  /**
+   * Move a value part of the way towards a target value for a time step, such that it follows changes to the target
+   * with a lag.  The proportion of the remaining difference that is covered is the time step divided by the response
+   * time, and the value never overshoots the target.
+   * @param value - the current value
+   * @param targetValue - the value being approached
+   * @param dt - delta time, in seconds
+   * @param responseTime - time constant for the approach, in seconds
+   */
+  approachTargetValue( value: number, targetValue: number, dt: number, responseTime: number ): number {
+    return value + ( targetValue - value ) * Math.min( dt / responseTime, 1 );
   }
 };
 
@@ -0,0 +1,71 @@
+// Copyright 2026, University of Colorado Boulder
+
+/**
+ * QueryParameterModelOptions provides the options for the models that are set through query parameters.  The models
+ * don't read the query parameters themselves so that they can be created and run outside of the browser, such as by
+ * LayersModelRunner, so the screens use these functions to get the options when they create their models.
+ *
+ * @author John Blanco (PhET Interactive Simulations)
+ */
+
+import StrictOmit from '../../../phet-core/js/types/StrictOmit.js';
+import GreenhouseEffectQueryParameters from './GreenhouseEffectQueryParameters.js';
+import AtmosphereLayerSpacing from './model/AtmosphereLayerSpacing.js';
+import { ConcentrationModelOptions } from './model/ConcentrationModel.js';
+import GreenhouseEffectPreferences from './model/GreenhouseEffectPreferences.js';
+import { LayersModelOptions } from './model/LayersModel.js';
+
+// map used to set the atmosphere layer spacing based on the value of a query parameter
+const mapNameToAtmosphereLayerSpacing = new Map<string, AtmosphereLayerSpacing>( [
+  [ 'even', AtmosphereLayerSpacing.EVEN ],
+  [ 'logPressure', AtmosphereLayerSpacing.LOG_PRESSURE ]
+] );
+
+const QueryParameterModelOptions = {
+
+  /**
+   * Get the options for any model that is a LayersModel.
+   */
+  getLayersModelOptions(): StrictOmit<LayersModelOptions, 'tandem'> {
+    const queryParameters = GreenhouseEffectQueryParameters;
+    return {
+      multiBandEmission: queryParameters.multiBandEmission,
+      convectiveHeatTransferPresent: queryParameters.convectiveHeatTransfer,
+      aerosolLayerPresent: queryParameters.volcanicEruption,
+      sunEnergySourceOptions: {
+        initiallyShining: queryParameters.initiallyStarted,
+        diurnalCycleInitiallyEnabled: queryParameters.diurnalCycle,
+        initialDayLength: queryParameters.dayLength,
+        localInsolationInitiallyEnabled: queryParameters.localInsolation
+      },
+      defaultTemperatureUnitsProperty: GreenhouseEffectPreferences.defaultTemperatureUnitsProperty
+    };
+  },
+
+  /**
+   * Get the options for the models where the greenhouse gas concentration can be changed, which includes the options
+   * for the layout of the atmosphere layers.
+   */
+  getConcentrationModelOptions(): StrictOmit<ConcentrationModelOptions, 'tandem'> {
+    const queryParameters = GreenhouseEffectQueryParameters;
+    return {
+      ...QueryParameterModelOptions.getLayersModelOptions(),
+      numberOfAtmosphereLayers: queryParameters.numberOfAtmosphereLayers,
+      atmosphereLayerSpacing: mapNameToAtmosphereLayerSpacing.get( queryParameters.atmosphereLayerSpacing ) ||
+                              AtmosphereLayerSpacing.EVEN,
+      atmosphereLayerAltitudes: queryParameters.atmosphereLayerAltitudes ?
+                                queryParameters.atmosphereLayerAltitudes.map( altitudeInKm => altitudeInKm * 1000 ) :
+                                null,
+      deepOceanPresent: queryParameters.surfaceTypeSelector,
+      timelineEnabled: queryParameters.concentrationTimeline,
+      gasCompositionPresent: queryParameters.gasConcentrationControls,
+      carbonCyclePresent: queryParameters.emissionsScenario,
+      iceAlbedoFeedbackPresent: queryParameters.iceAlbedoFeedback,
+      waterVaporFeedbackPresent: queryParameters.waterVaporFeedback,
+      cloudCoverPresent: queryParameters.cloudCover,
+      climateResponsePresent: queryParameters.climateResponseReadouts
+    };
+  }
+};
+
+export default QueryParameterModelOptions;
@@ -0,0 +1,179 @@
+// Copyright 2026, University of Colorado Boulder
+
+/**
+ * AerosolLayer models a thin layer of reflective aerosols, such as the sulfate droplets that form after a large
+ * volcanic eruption, that spans the full width of the sunlight at a single altitude.  The aerosols reflect some of the
+ * visible light that passes through them in both the up and down directions and are essentially transparent to
+ * infrared light, so they reduce the amount of sunlight that reaches the ground and cool the surface.
+ *
+ * Aerosols are added to the layer by an injection, which is what happens during an eruption, and are then gradually
+ * removed from the atmosphere over a period of simulated months.  Multiple injections add together.  This allows the
+ * cooling that followed events like the 1991 eruption of Mt. Pinatubo to be replayed.
+ *
+ * @author John Blanco (PhET Interactive Simulations)
+ */
+
+import Emitter from '../../../../axon/js/Emitter.js';
+import NumberProperty from '../../../../axon/js/NumberProperty.js';
+import Range from '../../../../dot/js/Range.js';
+import optionize from '../../../../phet-core/js/optionize.js';
+import WithRequired from '../../../../phet-core/js/types/WithRequired.js';
+import PhetioObject, { PhetioObjectOptions } from '../../../../tandem/js/PhetioObject.js';
+import EMEnergyPacket from './EMEnergyPacket.js';
+import EnergyDirection from './EnergyDirection.js';
+import energyPacketCrossedAltitude from './energyPacketCrossedAltitude.js';
+import isSunlight from './isSunlight.js';
+
+// The range of altitudes, in meters, at which the aerosols can be placed.  This spans the altitudes reached by the
+// plumes of large eruptions.
+const ALTITUDE_RANGE = new Range( 10000, 30000 );
+
+// the default altitude, in meters, which is roughly where the aerosols from the eruption of Mt. Pinatubo ended up
+const DEFAULT_ALTITUDE = 20000;
+
+// range of the proportion of the visible light crossing the layer that is reflected
+const REFLECTIVITY_RANGE = new Range( 0, 0.5 );
+
+// Reflectivity values below this are treated as zero so that the aerosols eventually disappear completely.
+const MINIMUM_REFLECTIVITY = 0.001;
+
+// The sim doesn't otherwise relate model time to calendar time, so this sets how many months are simulated for each
+// second of model time.  The value was chosen so that the decay of the aerosols, which takes a year or two in reality,
+// plays out over a period in which the surface temperature can visibly respond.
+const SIMULATED_MONTHS_PER_SECOND = 1;
+
+type SelfOptions = {
+
+  // the amount by which the reflectivity of the layer increases with each injection of aerosols
+  reflectivityPerInjection?: number;
+
+  // the time, in simulated months, for the reflectivity to decay to 1/e of its value
+  decayTime?: number;
+};
+export type AerosolLayerOptions = SelfOptions & WithRequired<PhetioObjectOptions, 'tandem'>;
+
+class AerosolLayer extends PhetioObject {
+
+  // the altitude of the aerosols, in meters
+  public readonly altitudeProperty: NumberProperty;
+
+  // the proportion of the visible light crossing the layer in either direction that is reflected by the aerosols
+  public readonly reflectivityProperty: NumberProperty;
+
+  // Fires when aerosols are injected into the layer.  This can be emitted through the PhET-iO API to trigger an
+  // injection, and is used by the view to mark the time of the injection.
+  public readonly injectionEmitter: Emitter;
+
+  private readonly decayTime: number;
+
+  public constructor( providedOptions: AerosolLayerOptions ) {
+
+    const options = optionize<AerosolLayerOptions, SelfOptions, PhetioObjectOptions>()( {
+      reflectivityPerInjection: 0.1,
+      decayTime: 12,
+
+      // phet-io
+      phetioState: false,
+      phetioDocumentation: 'A layer of reflective aerosols, such as those produced by a large volcanic eruption, ' +
+                           'that reflects some of the visible light and gradually decays.',
+      isDisposable: false
+    }, providedOptions );
+
+    super( options );
+
+    this.decayTime = options.decayTime;
+
+    this.altitudeProperty = new NumberProperty( DEFAULT_ALTITUDE, {
+      range: ALTITUDE_RANGE,
+      units: 'm',
+      tandem: options.tandem.createTandem( 'altitudeProperty' ),
+      phetioFeatured: true,
+      phetioDocumentation: 'The altitude at which the aerosols are injected and reside.'
+    } );
+
+    this.reflectivityProperty = new NumberProperty( 0, {
+      range: REFLECTIVITY_RANGE,
+      tandem: options.tandem.createTandem( 'reflectivityProperty' ),
+      phetioReadOnly: true,
+      phetioFeatured: true,
+      phetioHighFrequency: true,
+      phetioDocumentation: 'The proportion of the visible light passing through the aerosols that is reflected.'
+    } );
+
+    this.injectionEmitter = new Emitter( {
+      tandem: options.tandem.createTandem( 'injectionEmitter' ),
+      phetioFeatured: true,
+      phetioDocumentation: 'Emits when reflective aerosols are injected into the atmosphere, as happens in a large ' +
+                           'volcanic eruption.  Emit this to trigger an injection.'
+    } );
+
+    // Add the aerosols to the layer.
+    this.injectionEmitter.addListener( () => {
+      this.reflectivityProperty.set( REFLECTIVITY_RANGE.constrainValue(
+        this.reflectivityProperty.value + options.reflectivityPerInjection
+      ) );
+    } );
+  }
+
+  /**
+   * Inject a batch of aerosols into the layer, as happens in a large volcanic eruption.
+   */
+  public inject(): void {
+    this.injectionEmitter.emit();
+  }
+
+  /**
+   * Remove aerosols from the atmosphere as time passes.
+   * @param dt - delta time, in seconds
+   */
+  public step( dt: number ): void {
+    const reflectivity = this.reflectivityProperty.value;
+    if ( reflectivity > 0 ) {
+      const decayedReflectivity = reflectivity * Math.exp( -dt * SIMULATED_MONTHS_PER_SECOND / this.decayTime );
+      this.reflectivityProperty.set( decayedReflectivity < MINIMUM_REFLECTIVITY ? 0 : decayedReflectivity );
+    }
+  }
+
+  /**
+   * Interact with the provided energy.  Visible light that crosses the altitude of the aerosols is partially reflected,
+   * and infrared light passes through unaffected.
+   * @param emEnergyPackets - energy packets that are moving within the system
+   */
+  public interactWithEnergy( emEnergyPackets: EMEnergyPacket[] ): void {
+
+    const reflectivity = this.reflectivityProperty.value;
+
+    if ( reflectivity > 0 ) {
+
+      // convenience variable
+      const altitude = this.altitudeProperty.value;
+
+      emEnergyPackets.forEach( emEnergyPacket => {
+        if ( isSunlight( emEnergyPacket ) && energyPacketCrossedAltitude( emEnergyPacket, altitude ) ) {
+
+          // Attenuate the packet and create a new one with the reflected energy, heading in the opposite direction.
+          const reflectedEnergy = emEnergyPacket.energy * reflectivity;
+          emEnergyPacket.energy = emEnergyPacket.energy - reflectedEnergy;
+          emEnergyPackets.push( new EMEnergyPacket(
+            emEnergyPacket.wavelength,
+            reflectedEnergy,
+            altitude,
+            EnergyDirection.getOpposite( emEnergyPacket.direction )
+          ) );
+        }
+      } );
+    }
+  }
+
+  /**
+   * Return to the initial state, with no aerosols present.
+   */
+  public reset(): void {
+    this.altitudeProperty.reset();
+    this.reflectivityProperty.reset();
+  }
+
+  public static readonly ALTITUDE_RANGE = ALTITUDE_RANGE;
+}
+
+export default AerosolLayer;
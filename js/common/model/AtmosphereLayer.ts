@@ -8,14 +8,31 @@
  */
 
 import BooleanProperty from '../../../../axon/js/BooleanProperty.js';
+import Multilink from '../../../../axon/js/Multilink.js';
+import Property from '../../../../axon/js/Property.js';
 import optionize from '../../../../phet-core/js/optionize.js';
 import WithRequired from '../../../../phet-core/js/types/WithRequired.js';
+import NullableIO from '../../../../tandem/js/types/NullableIO.js';
+import NumberIO from '../../../../tandem/js/types/NumberIO.js';
 import GreenhouseEffectConstants from '../GreenhouseEffectConstants.js';
 import EMEnergyPacket from './EMEnergyPacket.js';
 import EnergyAbsorbingEmittingLayer, { EnergyAbsorbingEmittingLayerOptions } from './EnergyAbsorbingEmittingLayer.js';
+import SpectralBand from './SpectralBand.js';
+
+// A map of spectral bands to the proportion of the energy in that band that is absorbed when crossing the layer, from
+// 0 to 1.  Thermal infrared bands that aren't included in the map absorb the proportion specified by the layer's
+// energyAbsorptionProportionProperty, and other bands that aren't included don't absorb any energy.
+export type AbsorptionSpectrum = Map<SpectralBand, number>;
 
 type SelfOptions = {
   initiallyActive?: boolean;
+
+  // initial absorption proportions for specific spectral bands, see AbsorptionSpectrum
+  absorptionSpectrum?: AbsorptionSpectrum;
+
+  // Whether the emissivity of this layer tracks its infrared absorption proportion, as described by Kirchhoff's law of
+  // thermal radiation.  When false, the emissivity is independent of the absorption.
+  emissivityMatchesAbsorption?: boolean;
 };
 export type AtmosphereLayerOptions =
   SelfOptions &
@@ -24,12 +41,20 @@ export type AtmosphereLayerOptions =
 class AtmosphereLayer extends EnergyAbsorbingEmittingLayer {
   public readonly isActiveProperty: BooleanProperty;
 
+  // The proportion of the energy in each spectral band that is absorbed when crossing this layer, from 0 to 1, or null
+  // if the default for the band is used, see AbsorptionSpectrum.
+  public readonly bandAbsorptionProportionProperties: Map<SpectralBand, Property<number | null>>;
+
+  private readonly emissivityMatchesAbsorption: boolean;
+
   public constructor( altitude: number, providedOptions?: AtmosphereLayerOptions ) {
 
     const options = optionize<AtmosphereLayerOptions, SelfOptions, EnergyAbsorbingEmittingLayerOptions>()( {
 
       substance: EnergyAbsorbingEmittingLayer.Substance.GLASS,
       initiallyActive: true,
+      absorptionSpectrum: new Map<SpectralBand, number>(),
+      emissivityMatchesAbsorption: false,
 
       // phet-io
       phetioReadOnly: true,
@@ -39,6 +64,28 @@ class AtmosphereLayer extends EnergyAbsorbingEmittingLayer {
 
     super( altitude, options );
 
+    this.bandAbsorptionProportionProperties = new Map<SpectralBand, Property<number | null>>();
+    SpectralBand.enumeration.values.forEach( band => {
+      const initialProportion = options.absorptionSpectrum.has( band ) ? options.absorptionSpectrum.get( band )! : null;
+      this.bandAbsorptionProportionProperties.set( band, new Property<number | null>( initialProportion, {
+        isValidValue: proportion => proportion === null || ( proportion >= 0 && proportion <= 1 ),
+        tandem: options.tandem.createTandem( `${_.camelCase( band.name )}AbsorptionProportionProperty` ),
+        phetioValueType: NullableIO( NumberIO ),
+        phetioDocumentation: `The proportion of the energy in the ${_.lowerCase( band.name )} band that is ` +
+                             'absorbed when crossing this layer, from 0 to 1.  When null, thermal infrared bands use ' +
+                             'the value of energyAbsorptionProportionProperty and other bands absorb no energy.'
+      } ) );
+    } );
+
+    // If so configured, keep the emissivity in sync with the infrared absorption.
+    this.emissivityMatchesAbsorption = options.emissivityMatchesAbsorption;
+    if ( this.emissivityMatchesAbsorption ) {
+      Multilink.multilinkAny(
+        [ this.energyAbsorptionProportionProperty, ...this.bandAbsorptionProportionProperties.values() ],
+        () => this.updateEmissivityFromAbsorption()
+      );
+    }
+
     // The isActiveProperty determines whether this layer will interact with the energy that passes through it.
     this.isActiveProperty = new BooleanProperty( options.initiallyActive, {
       tandem: options.tandem.createTandem( 'isActiveProperty' ),
@@ -53,6 +100,33 @@ class AtmosphereLayer extends EnergyAbsorbingEmittingLayer {
     } );
   }
 
+  /**
+   * Get the proportion of the energy at the provided wavelength that this layer absorbs when the energy crosses it.
+   * @param wavelength - in meters
+   */
+  public getAbsorptionProportion( wavelength: number ): number {
+    const band = SpectralBand.fromWavelength( wavelength );
+    const bandAbsorptionProportion = this.bandAbsorptionProportionProperties.get( band )!.value;
+    let absorptionProportion = 0;
+    if ( bandAbsorptionProportion !== null ) {
+      absorptionProportion = bandAbsorptionProportion;
+    }
+    else if ( band.isThermalInfrared ) {
+      absorptionProportion = this.energyAbsorptionProportionProperty.value;
+    }
+    return absorptionProportion;
+  }
+
+  /**
+   * Set the emissivity to match the proportion of infrared energy absorbed by this layer.  The emissivity can't go all
+   * the way to zero, so it is constrained to its allowed range.
+   */
+  private updateEmissivityFromAbsorption(): void {
+    this.emissivityProperty.set( EnergyAbsorbingEmittingLayer.EMISSIVITY_RANGE.constrainValue(
+      this.getAbsorptionProportion( GreenhouseEffectConstants.INFRARED_WAVELENGTH )
+    ) );
+  }
+
   /**
    * Interact with the provided energy packets in a way that is specific to the atmospheric layers.
    */
@@ -60,11 +134,9 @@ class AtmosphereLayer extends EnergyAbsorbingEmittingLayer {
     let absorbedEnergy = 0;
     emEnergyPackets.forEach( energyPacket => {
 
-      // Absorb energy from IR packets that cross this layer.
-      if ( energyPacket.wavelength === GreenhouseEffectConstants.INFRARED_WAVELENGTH &&
-           this.energyPacketCrossedThisLayer( energyPacket ) ) {
-
-        const energyToAbsorb = energyPacket.energy * this.energyAbsorptionProportionProperty.value;
+      // Absorb energy from packets that cross this layer based on the absorption for their wavelength.
+      if ( this.energyPacketCrossedThisLayer( energyPacket ) ) {
+        const energyToAbsorb = energyPacket.energy * this.getAbsorptionProportion( energyPacket.wavelength );
         absorbedEnergy += energyToAbsorb;
         energyPacket.energy -= energyToAbsorb;
       }
@@ -72,6 +144,14 @@ class AtmosphereLayer extends EnergyAbsorbingEmittingLayer {
     return absorbedEnergy;
   }
 
+  public override reset(): void {
+    super.reset();
+    this.bandAbsorptionProportionProperties.forEach( property => property.reset() );
+    if ( this.emissivityMatchesAbsorption ) {
+      this.updateEmissivityFromAbsorption();
+    }
+  }
+
   /**
    * see base class for details
    */
@@ -0,0 +1,29 @@
+// Copyright 2026, University of Colorado Boulder
+
+/**
+ * AtmosphereLayerSpacing is an enumeration of the ways in which the energy absorbing and emitting layers of the
+ * atmosphere can be distributed between the ground and the top of the atmosphere.
+ *
+ * @author John Blanco (PhET Interactive Simulations)
+ */
+
+import Enumeration from '../../../../phet-core/js/Enumeration.js';
+import EnumerationValue from '../../../../phet-core/js/EnumerationValue.js';
+
+class AtmosphereLayerSpacing extends EnumerationValue {
+
+  // The layers are the same distance apart from one another, from the ground, and from the top of the atmosphere.
+  public static readonly EVEN = new AtmosphereLayerSpacing();
+
+  // The layers are placed at pressure levels that are evenly spaced between the pressure at the ground and the
+  // pressure at the top of the atmosphere, so each layer represents the same mass of air.  The altitudes are derived
+  // from the logarithm of the pressure, so the layers are closer together near the ground where the air is denser.
+  public static readonly LOG_PRESSURE = new AtmosphereLayerSpacing();
+
+  // Gets a list of keys, values and mapping between them.  For use in EnumerationProperty and PhET-iO
+  public static readonly enumeration = new Enumeration( AtmosphereLayerSpacing, {
+    phetioDocumentation: 'The way in which the atmosphere layers are distributed in altitude.'
+  } );
+}
+
+export default AtmosphereLayerSpacing;
@@ -0,0 +1,74 @@
+// Copyright 2026, University of Colorado Boulder
+
+/**
+ * BlackbodySpectrum contains functions for calculating how the energy radiated by a blackbody is distributed across
+ * the spectral bands used in the model.  This is based on Planck's law, see
+ * https://en.wikipedia.org/wiki/Planck%27s_law.  The distribution depends only on temperature, so hotter objects put a
+ * larger proportion of their energy into the shorter wavelengths.  For example, the sun emits mostly ultraviolet,
+ * visible, and near infrared light, whereas the Earth emits in the thermal infrared.
+ *
+ * @author John Blanco (PhET Interactive Simulations)
+ */
+
+import SpectralBand from './SpectralBand.js';
+
+// constants
+const SECOND_RADIATION_CONSTANT = 1.438777E-2; // in meter-Kelvins, equal to hc/k
+
+// Upper limit on the number of terms used in the series that calculates the emission below a given wavelength.  The
+// series converges quickly for all but the longest wavelengths, and this is enough for good accuracy in all cases.
+const MAX_SERIES_TERMS = 500;
+const SERIES_TERM_THRESHOLD = 1E-12;
+
+// the effective temperature of the sun's surface, in Kelvin
+const SUN_TEMPERATURE = 5772;
+
+const BlackbodySpectrum = {
+
+  /**
+   * Get the proportion of the total energy radiated by a blackbody at the provided temperature that is emitted at
+   * wavelengths shorter than the provided wavelength.  This uses a series expansion of the integral of Planck's law,
+   * see https://en.wikipedia.org/wiki/Planck%27s_law#Percentiles.
+   * @param wavelength - in meters
+   * @param temperature - in Kelvin
+   * @returns a value from 0 to 1
+   */
+  getProportionBelowWavelength( wavelength: number, temperature: number ): number {
+    assert && assert( wavelength > 0 && temperature > 0, 'wavelength and temperature must be positive' );
+    const x = SECOND_RADIATION_CONSTANT / ( wavelength * temperature );
+    let sum = 0;
+    for ( let n = 1; n <= MAX_SERIES_TERMS; n++ ) {
+      const term = ( Math.exp( -n * x ) / n ) * ( x * x * x + 3 * x * x / n + 6 * x / ( n * n ) + 6 / ( n * n * n ) );
+      sum += term;
+      if ( term < SERIES_TERM_THRESHOLD ) {
+        break;
+      }
+    }
+
+    return Math.min( 15 * sum / Math.pow( Math.PI, 4 ), 1 );
+  },
+
+  /**
+   * Get the proportion of the energy radiated by a blackbody at the provided temperature that falls into each of the
+   * spectral bands.  Energy at wavelengths beyond the ends of the modeled spectrum is included in the band at that
+   * end, so the proportions add up to 1.
+   * @param temperature - in Kelvin
+   */
+  getBandProportions( temperature: number ): Map<SpectralBand, number> {
+    const bandProportions = new Map<SpectralBand, number>();
+    const bands = SpectralBand.enumeration.values;
+    let proportionBelowBand = 0;
+    bands.forEach( ( band, index ) => {
+      const proportionBelowBandMax = index === bands.length - 1 ?
+                                     1 :
+                                     BlackbodySpectrum.getProportionBelowWavelength( band.maxWavelength, temperature );
+      bandProportions.set( band, proportionBelowBandMax - proportionBelowBand );
+      proportionBelowBand = proportionBelowBandMax;
+    } );
+    return bandProportions;
+  },
+
+  SUN_TEMPERATURE: SUN_TEMPERATURE
+};
+
+export default BlackbodySpectrum;
@@ -0,0 +1,219 @@
+// Copyright 2026, University of Colorado Boulder
+
+/**
+ * CarbonCycle models the build-up of carbon dioxide in the atmosphere from a rate of emissions, so that the
+ * concentration can be set by the emissions instead of directly.  This shows the difference between emissions and
+ * concentration - the concentration keeps rising for as long as there are emissions, even if the rate of emissions is
+ * falling, and it only comes down slowly when the emissions stop.
+ *
+ * The uptake of carbon dioxide by the oceans and the land is modeled with the impulse response function from Joos et
+ * al. (2013), which describes how much of a pulse of emissions remains in the atmosphere over time as the sum of a
+ * permanent part and several parts that decay at different rates.  Each part is a box that receives its share of the
+ * emissions and decays with its own time constant, and the carbon dioxide in the atmosphere is the pre-industrial
+ * amount plus the contents of all the boxes.  The model starts in 2020 with the excess carbon dioxide at that time
+ * divided among the boxes in proportions that approximate the history of emissions, and simulated years advance while
+ * the sun is shining.
+ *
+ * @author John Blanco (PhET Interactive Simulations)
+ */
+
+import BooleanProperty from '../../../../axon/js/BooleanProperty.js';
+import EnumerationProperty from '../../../../axon/js/EnumerationProperty.js';
+import Multilink from '../../../../axon/js/Multilink.js';
+import NumberProperty from '../../../../axon/js/NumberProperty.js';
+import { TReadOnlyProperty } from '../../../../axon/js/TReadOnlyProperty.js';
+import Range from '../../../../dot/js/Range.js';
+import optionize from '../../../../phet-core/js/optionize.js';
+import WithRequired from '../../../../phet-core/js/types/WithRequired.js';
+import isSettingPhetioStateProperty from '../../../../tandem/js/isSettingPhetioStateProperty.js';
+import PhetioObject, { PhetioObjectOptions } from '../../../../tandem/js/PhetioObject.js';
+import EmissionsScenario from './EmissionsScenario.js';
+import GreenhouseGasHistory from './GreenhouseGasHistory.js';
+
+// the range of simulated years, starting from the present
+const YEAR_RANGE = new Range( 2020, 2300 );
+
+// the amounts of carbon dioxide in the atmosphere before the industrial era and at the start of the model, in ppm
+const PRE_INDUSTRIAL_CARBON_DIOXIDE = GreenhouseGasHistory.getCarbonDioxideConcentration( 1750 );
+const INITIAL_CARBON_DIOXIDE = GreenhouseGasHistory.getCarbonDioxideConcentration( YEAR_RANGE.min );
+const INITIAL_EXCESS_CARBON_DIOXIDE = INITIAL_CARBON_DIOXIDE - PRE_INDUSTRIAL_CARBON_DIOXIDE;
+
+// the rate of emissions at the start of the model, in gigatonnes of carbon dioxide per year
+const INITIAL_EMISSION_RATE = 40;
+
+// the mass of carbon dioxide, in gigatonnes, that raises the concentration in the atmosphere by one ppm
+const GIGATONNES_PER_PPM = 7.81;
+
+// The boxes of the impulse response function, each with its share of the emissions and its time constant in years.
+// The proportions of the initial excess carbon dioxide in each box were estimated by running the model over the
+// history of emissions, and are normalized so that the model starts at the measured concentration.
+const BOXES = [
+  { emissionsShare: 0.2173, timeConstant: Number.POSITIVE_INFINITY, initialShare: 0.39 },
+  { emissionsShare: 0.2240, timeConstant: 394.4, initialShare: 0.36 },
+  { emissionsShare: 0.2824, timeConstant: 36.54, initialShare: 0.21 },
+  { emissionsShare: 0.2763, timeConstant: 4.304, initialShare: 0.04 }
+];
+
+type SelfOptions = {
+
+  // whether the concentration is initially set by the emissions
+  initiallyEnabled?: boolean;
+
+  // the number of simulated years that pass for each second of model time
+  yearsPerSecond?: number;
+};
+export type CarbonCycleOptions = SelfOptions & WithRequired<PhetioObjectOptions, 'tandem'>;
+
+class CarbonCycle extends PhetioObject {
+
+  // whether the concentration is set by the carbon dioxide that builds up from the emissions
+  public readonly enabledProperty: BooleanProperty;
+
+  // the scenario that determines the emission rate, or whether it is set by the user
+  public readonly scenarioProperty: EnumerationProperty<EmissionsScenario>;
+
+  // the rate of emissions, in gigatonnes of carbon dioxide per year, which can be negative to represent removal
+  public readonly emissionRateProperty: NumberProperty;
+
+  // the current simulated year
+  public readonly yearProperty: NumberProperty;
+
+  // the amount of carbon dioxide in the atmosphere, in parts per million (ppm)
+  public readonly carbonDioxideProperty: NumberProperty;
+
+  // The excess carbon dioxide in each of the boxes, in ppm.  These are instrumented so that they are included in the
+  // PhET-iO state along with the carbon dioxide that they add up to.
+  private readonly boxContentsProperties: NumberProperty[];
+
+  private readonly isSunShiningProperty: TReadOnlyProperty<boolean>;
+  private readonly yearsPerSecond: number;
+
+  public constructor( isSunShiningProperty: TReadOnlyProperty<boolean>, providedOptions: CarbonCycleOptions ) {
+
+    const options = optionize<CarbonCycleOptions, SelfOptions, PhetioObjectOptions>()( {
+      initiallyEnabled: false,
+      yearsPerSecond: 2,
+
+      // phet-io
+      phetioState: false,
+      phetioDocumentation: 'The build-up of carbon dioxide in the atmosphere from the emissions, which can be used ' +
+                           'to set the greenhouse gas concentration.',
+      isDisposable: false
+    }, providedOptions );
+
+    super( options );
+
+    this.isSunShiningProperty = isSunShiningProperty;
+    this.yearsPerSecond = options.yearsPerSecond;
+    this.boxContentsProperties = BOXES.map( ( box, index ) => new NumberProperty(
+      box.initialShare * INITIAL_EXCESS_CARBON_DIOXIDE,
+      {
+        tandem: options.tandem.createTandem( `box${index + 1}ContentsProperty` ),
+        phetioReadOnly: true,
+        phetioHighFrequency: true,
+        phetioDocumentation: 'The excess carbon dioxide, in parts per million, in one of the boxes that decay at ' +
+                             'different rates as the carbon dioxide is taken up by the oceans and the land.'
+      }
+    ) );
+
+    this.enabledProperty = new BooleanProperty( options.initiallyEnabled, {
+      tandem: options.tandem.createTandem( 'enabledProperty' ),
+      phetioFeatured: true,
+      phetioDocumentation: 'Whether the greenhouse gas concentration is set by the carbon dioxide that builds up ' +
+                           'from the emissions when the concentration is controlled by value.'
+    } );
+
+    this.scenarioProperty = new EnumerationProperty( EmissionsScenario.CUSTOM, {
+      tandem: options.tandem.createTandem( 'scenarioProperty' ),
+      phetioFeatured: true,
+      phetioDocumentation: 'The scenario that sets the emission rate, or CUSTOM if the rate is set by the user.'
+    } );
+
+    this.emissionRateProperty = new NumberProperty( INITIAL_EMISSION_RATE, {
+      range: new Range( -20, 140 ),
+      units: 'Gt/yr',
+      tandem: options.tandem.createTandem( 'emissionRateProperty' ),
+      phetioFeatured: true,
+      phetioDocumentation: 'The emissions of carbon dioxide in gigatonnes per year.  Negative values represent the ' +
+                           'removal of carbon dioxide from the atmosphere.'
+    } );
+
+    this.yearProperty = new NumberProperty( YEAR_RANGE.min, {
+      range: YEAR_RANGE,
+      tandem: options.tandem.createTandem( 'yearProperty' ),
+      phetioReadOnly: true,
+      phetioFeatured: true,
+      phetioHighFrequency: true,
+      phetioDocumentation: 'The simulated year, which advances while the concentration is set by the emissions.'
+    } );
+
+    this.carbonDioxideProperty = new NumberProperty( INITIAL_CARBON_DIOXIDE, {
+      tandem: options.tandem.createTandem( 'carbonDioxideProperty' ),
+      phetioReadOnly: true,
+      phetioFeatured: true,
+      phetioHighFrequency: true,
+      phetioDocumentation: 'The amount of carbon dioxide in the atmosphere, in parts per million.'
+    } );
+
+    // The preset scenarios set the emission rate for the current year.
+    Multilink.multilink( [ this.scenarioProperty, this.yearProperty ], ( scenario, year ) => {
+      if ( scenario.isPreset ) {
+        const emissionRate = scenario.getEmissionRate( year );
+        this.emissionRateProperty.set( this.emissionRateProperty.range.constrainValue( emissionRate ) );
+      }
+    } );
+
+    // Start over from the present whenever the concentration starts being set by the emissions.  This is skipped while
+    // setting the PhET-iO state, since the state includes the year and the contents of the boxes.
+    this.enabledProperty.lazyLink( enabled => {
+      if ( enabled && !isSettingPhetioStateProperty.value ) {
+        this.restart();
+      }
+    } );
+  }
+
+  /**
+   * Add the emissions for the elapsed time to the atmosphere, let the boxes decay, and advance the year.
+   * @param dt - delta time, in seconds
+   */
+  public step( dt: number ): void {
+    const year = this.yearProperty.value;
+    if ( this.enabledProperty.value && this.isSunShiningProperty.value && year < YEAR_RANGE.max ) {
+      const elapsedYears = Math.min( dt * this.yearsPerSecond, YEAR_RANGE.max - year );
+      const emissions = this.emissionRateProperty.value * elapsedYears / GIGATONNES_PER_PPM;
+      BOXES.forEach( ( box, index ) => {
+        const boxContentsProperty = this.boxContentsProperties[ index ];
+        boxContentsProperty.set(
+          boxContentsProperty.value * Math.exp( -elapsedYears / box.timeConstant ) + box.emissionsShare * emissions
+        );
+      } );
+      const excessCarbonDioxide = _.sumBy( this.boxContentsProperties, property => property.value );
+      this.carbonDioxideProperty.set( Math.max( PRE_INDUSTRIAL_CARBON_DIOXIDE + excessCarbonDioxide, 0 ) );
+      this.yearProperty.set( year + elapsedYears );
+    }
+  }
+
+  /**
+   * Return the year and the carbon dioxide to their values for the present without changing the emissions settings.
+   */
+  private restart(): void {
+    this.boxContentsProperties.forEach( boxContentsProperty => boxContentsProperty.reset() );
+    this.yearProperty.reset();
+    this.carbonDioxideProperty.reset();
+  }
+
+  /**
+   * Return to the initial state.
+   */
+  public reset(): void {
+    this.enabledProperty.reset();
+    this.scenarioProperty.reset();
+    this.emissionRateProperty.reset();
+    this.restart();
+  }
+
+  // the year at which the model starts
+  public static readonly INITIAL_YEAR = YEAR_RANGE.min;
+}
+
+export default CarbonCycle;
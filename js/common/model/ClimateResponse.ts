@@ -0,0 +1,241 @@
+// Copyright 2026, University of Colorado Boulder
+
+/**
+ * ClimateResponse calculates the quantities that climate scientists use to describe how the climate responds to a
+ * change in greenhouse gases, so that they can be read directly instead of being inferred from the energy balance.
+ * These are all relative to a baseline concentration, which can be set to the current concentration at any time.
+ *
+ *  - The radiative forcing is the imbalance between the energy coming in and the energy going out that the change in
+ *    concentration from the baseline produces before any of the temperatures respond.  It is found by holding the
+ *    ground and atmosphere layers at their equilibrium temperatures for the baseline concentration and calculating the
+ *    energy that leaves the atmosphere with the current concentration.
+ *  - The equilibrium warming is the difference between the equilibrium surface temperatures for the current and
+ *    baseline concentrations.
+ *  - The warming to come is the part of the equilibrium warming that hasn't happened yet.  This is found from the net
+ *    inflow of energy, since each degree of warming that is still to come shows up as a shortfall in the outgoing
+ *    energy, and it is zero when the model is in radiative balance.
+ *  - The climate sensitivity is the equilibrium warming for the forcing of a doubling of carbon dioxide, and is found
+ *    by scaling the equilibrium warming by the ratio of that forcing to the current one.
+ *
+ * The other settings of the model, such as the clouds and the albedo of the ground, are the same for the current and
+ * baseline concentrations, and the feedbacks that change the model over time are left as they currently are.  The
+ * values are only updated while the sun is shining, since the model has no energy balance without the sun.  Solving
+ * for the equilibrium is too expensive to do on every step, so the forcing and the equilibrium warming are only
+ * recalculated when the description of the model for either concentration changes.
+ *
+ * @author John Blanco (PhET Interactive Simulations)
+ */
+
+import BooleanProperty from '../../../../axon/js/BooleanProperty.js';
+import NumberProperty from '../../../../axon/js/NumberProperty.js';
+import Property from '../../../../axon/js/Property.js';
+import { TReadOnlyProperty } from '../../../../axon/js/TReadOnlyProperty.js';
+import Range from '../../../../dot/js/Range.js';
+import optionize from '../../../../phet-core/js/optionize.js';
+import WithRequired from '../../../../phet-core/js/types/WithRequired.js';
+import PhetioObject, { PhetioObjectOptions } from '../../../../tandem/js/PhetioObject.js';
+import NullableIO from '../../../../tandem/js/types/NullableIO.js';
+import NumberIO from '../../../../tandem/js/types/NumberIO.js';
+import RadiativeEquilibriumSolver, { EquilibriumSpec } from './RadiativeEquilibriumSolver.js';
+
+// the radiative forcing of a doubling of carbon dioxide, in W/m², which is the conventional reference for sensitivity
+const CARBON_DIOXIDE_DOUBLING_FORCING = 3.7;
+
+// The smallest radiative forcing, in W/m², for which the sensitivity is calculated.  Below this, the ratio of the
+// warming to the forcing isn't meaningful.
+const MINIMUM_FORCING_FOR_SENSITIVITY = 0.1;
+
+type SelfOptions = {
+
+  // whether the values are initially calculated
+  initiallyEnabled?: boolean;
+
+  // the concentration to which the forcing and warming are initially relative
+  initialBaselineConcentration?: number;
+};
+export type ClimateResponseOptions = SelfOptions & WithRequired<PhetioObjectOptions, 'tandem'>;
+
+class ClimateResponse extends PhetioObject {
+
+  // whether the values are being calculated
+  public readonly enabledProperty: BooleanProperty;
+
+  // the concentration to which the forcing and the warming are relative
+  public readonly baselineConcentrationProperty: NumberProperty;
+
+  // the radiative forcing of the change in concentration from the baseline, in W/m²
+  public readonly radiativeForcingProperty: NumberProperty;
+
+  // the change in surface temperature, in Kelvin, once the model reaches equilibrium with the current concentration
+  public readonly equilibriumWarmingProperty: NumberProperty;
+
+  // the part of the equilibrium warming, in Kelvin, that hasn't happened yet, null if the forcing is too small
+  public readonly warmingToComeProperty: Property<number | null>;
+
+  // the equilibrium warming, in Kelvin, for a doubling of carbon dioxide, null if the forcing is too small
+  public readonly climateSensitivityProperty: Property<number | null>;
+
+  private readonly concentrationProperty: TReadOnlyProperty<number>;
+  private readonly netInflowOfEnergyProperty: TReadOnlyProperty<number>;
+  private readonly inRadiativeBalanceProperty: TReadOnlyProperty<boolean>;
+  private readonly isSunShiningProperty: TReadOnlyProperty<boolean>;
+  private readonly getEquilibriumSpec: ( concentration: number ) => EquilibriumSpec;
+
+  // the specs for the baseline and current concentrations for which the forcing and warming were last calculated
+  private calculatedSpecs: { baseline: EquilibriumSpec; current: EquilibriumSpec } | null = null;
+
+  /**
+   * @param concentrationProperty - the concentration set by the user
+   * @param netInflowOfEnergyProperty - in W/m², the energy coming into the atmosphere minus the energy leaving it
+   * @param inRadiativeBalanceProperty - whether the energy coming in and going out are close enough to be in balance
+   * @param isSunShiningProperty
+   * @param getEquilibriumSpec - a function that describes the model, as it is now, with the provided concentration
+   * @param providedOptions
+   */
+  public constructor( concentrationProperty: TReadOnlyProperty<number>,
+                      netInflowOfEnergyProperty: TReadOnlyProperty<number>,
+                      inRadiativeBalanceProperty: TReadOnlyProperty<boolean>,
+                      isSunShiningProperty: TReadOnlyProperty<boolean>,
+                      getEquilibriumSpec: ( concentration: number ) => EquilibriumSpec,
+                      providedOptions: ClimateResponseOptions ) {
+
+    const options = optionize<ClimateResponseOptions, SelfOptions, PhetioObjectOptions>()( {
+      initiallyEnabled: false,
+      initialBaselineConcentration: 0,
+
+      // phet-io
+      phetioState: false,
+      phetioDocumentation: 'The radiative forcing and the resulting warming for the change in concentration from a ' +
+                           'baseline, and the climate sensitivity that they imply.',
+      isDisposable: false
+    }, providedOptions );
+
+    super( options );
+
+    this.concentrationProperty = concentrationProperty;
+    this.netInflowOfEnergyProperty = netInflowOfEnergyProperty;
+    this.inRadiativeBalanceProperty = inRadiativeBalanceProperty;
+    this.isSunShiningProperty = isSunShiningProperty;
+    this.getEquilibriumSpec = getEquilibriumSpec;
+
+    this.enabledProperty = new BooleanProperty( options.initiallyEnabled, {
+      tandem: options.tandem.createTandem( 'enabledProperty' ),
+      phetioFeatured: true,
+      phetioDocumentation: 'Whether the radiative forcing, warming, and climate sensitivity are calculated and shown.'
+    } );
+
+    this.baselineConcentrationProperty = new NumberProperty( options.initialBaselineConcentration, {
+      range: new Range( 0, 1 ),
+      tandem: options.tandem.createTandem( 'baselineConcentrationProperty' ),
+      phetioFeatured: true,
+      phetioDocumentation: 'The concentration to which the radiative forcing and the warming are relative.'
+    } );
+
+    this.radiativeForcingProperty = new NumberProperty( 0, {
+      units: 'W/m^2',
+      tandem: options.tandem.createTandem( 'radiativeForcingProperty' ),
+      phetioReadOnly: true,
+      phetioFeatured: true,
+      phetioHighFrequency: true,
+      phetioDocumentation: 'The radiative forcing of the change in concentration from the baseline.'
+    } );
+
+    this.equilibriumWarmingProperty = new NumberProperty( 0, {
+      units: 'K',
+      tandem: options.tandem.createTandem( 'equilibriumWarmingProperty' ),
+      phetioReadOnly: true,
+      phetioFeatured: true,
+      phetioHighFrequency: true,
+      phetioDocumentation: 'The change in the equilibrium surface temperature from that for the baseline concentration.'
+    } );
+
+    this.warmingToComeProperty = new Property<number | null>( null, {
+      tandem: options.tandem.createTandem( 'warmingToComeProperty' ),
+      phetioValueType: NullableIO( NumberIO ),
+      phetioReadOnly: true,
+      phetioFeatured: true,
+      phetioHighFrequency: true,
+      phetioDocumentation: 'The warming, in Kelvin, that will happen before the model reaches equilibrium, or null ' +
+                           'if the radiative forcing is too small to find it.'
+    } );
+
+    this.climateSensitivityProperty = new Property<number | null>( null, {
+      tandem: options.tandem.createTandem( 'climateSensitivityProperty' ),
+      phetioValueType: NullableIO( NumberIO ),
+      phetioReadOnly: true,
+      phetioFeatured: true,
+      phetioHighFrequency: true,
+      phetioDocumentation: 'The equilibrium warming, in Kelvin, for a doubling of carbon dioxide, or null if the ' +
+                           'radiative forcing is too small to find it.'
+    } );
+  }
+
+  /**
+   * Update the values for the current state of the model.
+   */
+  public step(): void {
+    if ( this.enabledProperty.value && this.isSunShiningProperty.value ) {
+
+      const baselineSpec = this.getEquilibriumSpec( this.baselineConcentrationProperty.value );
+      const currentSpec = this.getEquilibriumSpec( this.concentrationProperty.value );
+      if ( !this.calculatedSpecs ||
+           !RadiativeEquilibriumSolver.isSameSpec( baselineSpec, this.calculatedSpecs.baseline ) ||
+           !RadiativeEquilibriumSolver.isSameSpec( currentSpec, this.calculatedSpecs.current ) ) {
+
+        const baselineSolution = RadiativeEquilibriumSolver.solve( baselineSpec );
+        const currentSolution = RadiativeEquilibriumSolver.solve( currentSpec );
+
+        // The forcing is the imbalance with the current concentration while the temperatures are still at the
+        // baseline.
+        const outgoingEnergyRateAtBaseline = RadiativeEquilibriumSolver.calculateOutgoingEnergyRate(
+          currentSpec,
+          baselineSolution.groundTemperature,
+          baselineSolution.atmosphereLayerTemperatures
+        );
+        this.radiativeForcingProperty.set( currentSpec.incomingSolarEnergyRate - outgoingEnergyRateAtBaseline );
+        this.equilibriumWarmingProperty.set( currentSolution.groundTemperature - baselineSolution.groundTemperature );
+        this.calculatedSpecs = { baseline: baselineSpec, current: currentSpec };
+      }
+
+      const radiativeForcing = this.radiativeForcingProperty.value;
+      const equilibriumWarming = this.equilibriumWarmingProperty.value;
+
+      if ( Math.abs( radiativeForcing ) >= MINIMUM_FORCING_FOR_SENSITIVITY ) {
+
+        // the warming for each W/m² of forcing, in K per W/m²
+        const warmingPerForcing = equilibriumWarming / radiativeForcing;
+
+        this.climateSensitivityProperty.set( warmingPerForcing * CARBON_DIOXIDE_DOUBLING_FORCING );
+        this.warmingToComeProperty.set(
+          this.inRadiativeBalanceProperty.value ? 0 : warmingPerForcing * this.netInflowOfEnergyProperty.value
+        );
+      }
+      else {
+        this.climateSensitivityProperty.set( null );
+        this.warmingToComeProperty.set( null );
+      }
+    }
+  }
+
+  /**
+   * Use the current concentration as the baseline.
+   */
+  public setBaselineToCurrent(): void {
+    this.baselineConcentrationProperty.set( this.concentrationProperty.value );
+  }
+
+  /**
+   * Return to the initial state.
+   */
+  public reset(): void {
+    this.enabledProperty.reset();
+    this.baselineConcentrationProperty.reset();
+    this.radiativeForcingProperty.reset();
+    this.equilibriumWarmingProperty.reset();
+    this.warmingToComeProperty.reset();
+    this.climateSensitivityProperty.reset();
+    this.calculatedSpecs = null;
+  }
+}
+
+export default ClimateResponse;
@@ -10,11 +10,15 @@
  * For the purposes of the view, the shape of the cloud is modelled as an ellipse that is created from the provided
  * width, height and center position.  This shape is used when doing things like reflecting waves or bouncing photons,
  * but that sort of behavior is generally handled by the model that contains the cloud, and not the Cloud instances.
+ * The altitude of the cloud can optionally be controlled by a Property, in which case the position and shape move up
+ * and down with it.
  *
  * @author John Blanco (PhET Interactive Simulations)
  * @author Jesse Greenberg (PhET Interactive Simulations)
  */
 
+import DerivedProperty from '../../../../axon/js/DerivedProperty.js';
+import Property from '../../../../axon/js/Property.js';
 import ReadOnlyProperty from '../../../../axon/js/ReadOnlyProperty.js';
 import { TReadOnlyProperty } from '../../../../axon/js/TReadOnlyProperty.js';
 import Vector2 from '../../../../dot/js/Vector2.js';
@@ -24,10 +28,10 @@ import WithRequired from '../../../../phet-core/js/types/WithRequired.js';
 import PhetioObject, { PhetioObjectOptions } from '../../../../tandem/js/PhetioObject.js';
 import EMEnergyPacket from './EMEnergyPacket.js';
 import EnergyDirection from './EnergyDirection.js';
-import isVisible from './isVisible.js';
+import isSunlight from './isSunlight.js';
 import LayersModel from './LayersModel.js';
 
-type ReflectivityValues = {
+export type ReflectivityValues = {
 
   // proportion of the visible light that hits this cloud from above and is subsequently reflected back up
   topVisibleLightReflectivity: number;
@@ -42,16 +46,25 @@ type ReflectivityValues = {
   bottomInfraredLightReflectivity: number;
 };
 
-type SelfOptions = Partial<ReflectivityValues>;
+type SelfOptions = Partial<ReflectivityValues> & {
+
+  // If provided, the reflectivity values are taken from this Property instead of from the individual options, which
+  // allows the reflectivity of the cloud to change, such as when the type of cloud is changed.
+  reflectivityValuesProperty?: TReadOnlyProperty<ReflectivityValues> | null;
+
+  // If provided, the altitude of the cloud is taken from this Property instead of from the provided position, which
+  // allows the cloud to move up and down.
+  altitudeProperty?: TReadOnlyProperty<number> | null;
+};
 export type CloudOptions = SelfOptions & WithRequired<PhetioObjectOptions, 'tandem'>;
 
 class Cloud extends PhetioObject {
-  public readonly position: Vector2;
+  public readonly positionProperty: TReadOnlyProperty<Vector2>;
   public readonly width: number;
   public readonly height: number;
   public readonly enabledProperty: TReadOnlyProperty<boolean>;
-  public readonly modelShape: Shape;
-  private readonly reflectivityValues: ReflectivityValues;
+  private readonly modelShapeProperty: TReadOnlyProperty<Shape>;
+  private readonly reflectivityValuesProperty: TReadOnlyProperty<ReflectivityValues>;
 
   public constructor( position: Vector2,
                       width: number,
@@ -64,6 +77,8 @@ class Cloud extends PhetioObject {
       bottomVisibleLightReflectivity: 0,
       topInfraredLightReflectivity: 0,
       bottomInfraredLightReflectivity: 0,
+      reflectivityValuesProperty: null,
+      altitudeProperty: null,
 
       // phet-io
       phetioState: false,
@@ -75,18 +90,27 @@ class Cloud extends PhetioObject {
     super( options );
 
     // Make the reflectivity values available to the methods.
-    this.reflectivityValues = {
+    this.reflectivityValuesProperty = options.reflectivityValuesProperty || new Property( {
       topVisibleLightReflectivity: options.topVisibleLightReflectivity,
       bottomVisibleLightReflectivity: options.bottomVisibleLightReflectivity,
       topInfraredLightReflectivity: options.topInfraredLightReflectivity,
       bottomInfraredLightReflectivity: options.bottomInfraredLightReflectivity
-    };
+    } );
 
     // parameter checking
     assert && assert( width <= LayersModel.SUNLIGHT_SPAN.width, 'cloud can\'t exceed the sunlight span' );
 
     // position in model space of the center of this cloud
-    this.position = position;
+    const altitudeProperty = options.altitudeProperty;
+    if ( altitudeProperty ) {
+      this.positionProperty = new DerivedProperty(
+        [ altitudeProperty ],
+        altitude => new Vector2( position.x, altitude )
+      );
+    }
+    else {
+      this.positionProperty = new Property( position );
+    }
 
     // size of the cloud
     this.width = width;
@@ -95,8 +119,25 @@ class Cloud extends PhetioObject {
     // controls whether the cloud is interacting with light
     this.enabledProperty = enabledProperty;
 
-    // elliptical shape that defines the space which the cloud occupies
-    this.modelShape = Shape.ellipse( position.x, position.y, width / 2, height / 2, 0 );
+    // elliptical shape that defines the space which the cloud occupies, which moves with the cloud
+    this.modelShapeProperty = new DerivedProperty(
+      [ this.positionProperty ],
+      position => Shape.ellipse( position.x, position.y, width / 2, height / 2, 0 )
+    );
+  }
+
+  /**
+   * Get the position in model space of the center of this cloud.
+   */
+  public get position(): Vector2 {
+    return this.positionProperty.value;
+  }
+
+  /**
+   * Get the elliptical shape that defines the space which the cloud currently occupies.
+   */
+  public get modelShape(): Shape {
+    return this.modelShapeProperty.value;
   }
 
   /**
@@ -107,8 +148,6 @@ class Cloud extends PhetioObject {
 
     if ( this.enabledProperty.value ) {
 
-      const sunlightSpanWidthProportion = this.width / LayersModel.SUNLIGHT_SPAN.width;
-
       emEnergyPackets.forEach( emEnergyPacket => {
 
         // convenience variable
@@ -118,16 +157,10 @@ class Cloud extends PhetioObject {
 
         // Check whether this energy packet has interacted with the cloud and, if so, calculate the reflection.
         if ( emEnergyPacket.previousAltitude > altitude && emEnergyPacket.altitude <= altitude ) {
-          const reflectivity = isVisible( emEnergyPacket ) ?
-                               this.reflectivityValues.topVisibleLightReflectivity :
-                               this.reflectivityValues.topInfraredLightReflectivity;
-          reflectedEnergy = emEnergyPacket.energy * reflectivity * sunlightSpanWidthProportion;
+          reflectedEnergy = emEnergyPacket.energy * this.getReflectedProportion( isSunlight( emEnergyPacket ), true );
         }
         else if ( emEnergyPacket.previousAltitude < altitude && emEnergyPacket.altitude >= altitude ) {
-          const reflectivity = isVisible( emEnergyPacket ) ?
-                               this.reflectivityValues.bottomVisibleLightReflectivity :
-                               this.reflectivityValues.bottomInfraredLightReflectivity;
-          reflectedEnergy = emEnergyPacket.energy * reflectivity * sunlightSpanWidthProportion;
+          reflectedEnergy = emEnergyPacket.energy * this.getReflectedProportion( isSunlight( emEnergyPacket ), false );
         }
 
         if ( reflectedEnergy > 0 ) {
@@ -146,6 +179,37 @@ class Cloud extends PhetioObject {
       } );
     }
   }
+
+  /**
+   * Get the proportion of the energy moving through the full span of the sunlight that will be reflected by this cloud.
+   * This accounts for the cloud only occupying a portion of the horizontal space.
+   * @param visible - true for visible light, false for infrared
+   * @param fromAbove - true for light that hits the cloud from above, false for light that hits it from below
+   */
+  public getReflectedProportion( visible: boolean, fromAbove: boolean ): number {
+    return this.getReflectivity( visible, fromAbove ) * this.width / LayersModel.SUNLIGHT_SPAN.width;
+  }
+
+  /**
+   * Get the proportion of the light that hits this cloud and is reflected by it.
+   * @param visible - true for visible light, false for infrared
+   * @param fromAbove - true for light that hits the cloud from above, false for light that hits it from below
+   */
+  public getReflectivity( visible: boolean, fromAbove: boolean ): number {
+    const reflectivityValues = this.reflectivityValuesProperty.value;
+    let reflectivity: number;
+    if ( fromAbove ) {
+      reflectivity = visible ?
+                     reflectivityValues.topVisibleLightReflectivity :
+                     reflectivityValues.topInfraredLightReflectivity;
+    }
+    else {
+      reflectivity = visible ?
+                     reflectivityValues.bottomVisibleLightReflectivity :
+                     reflectivityValues.bottomInfraredLightReflectivity;
+    }
+    return reflectivity;
+  }
 }
 
 export default Cloud;
@@ -0,0 +1,272 @@
+// Copyright 2026, University of Colorado Boulder
+
+/**
+ * CloudCover is a set of clouds, in addition to the main cloud used in the concentration-based models, whose coverage
+ * of the sky can be varied.  The clouds are at different altitudes and have different reflectivity values, with the
+ * low clouds reflecting a lot of sunlight and a little infrared energy, and the high clouds reflecting less sunlight
+ * and more infrared energy.  The altitudes of the clouds can be raised or lowered together, which changes where in the
+ * atmosphere they reflect the energy.
+ *
+ * The coverage is the proportion of the horizontal span of the sunlight that is covered by these clouds.  Since the
+ * clouds have fixed sizes, the coverage is realized by enabling the clouds one at a time as it increases, so the
+ * actual coverage is the nearest value that the clouds can produce.
+ *
+ * Optionally, the coverage can change with the surface temperature, increasing as the surface warms and more water
+ * evaporates, and decreasing as it cools.  This change is kept separate from the coverage set by the user so that the
+ * two can be compared.  Like the other feedbacks in this sim, the change doesn't happen instantly, but instead moves
+ * gradually towards the value that corresponds to the current temperature, and only while the sun is shining.  Since
+ * the temperature depends on the greenhouse gas concentration, the coverage is indirectly driven by the concentration
+ * too.
+ *
+ * @author John Blanco (PhET Interactive Simulations)
+ */
+
+import BooleanProperty from '../../../../axon/js/BooleanProperty.js';
+import DerivedProperty from '../../../../axon/js/DerivedProperty.js';
+import NumberProperty from '../../../../axon/js/NumberProperty.js';
+import { TReadOnlyProperty } from '../../../../axon/js/TReadOnlyProperty.js';
+import Range from '../../../../dot/js/Range.js';
+import Vector2 from '../../../../dot/js/Vector2.js';
+import optionize from '../../../../phet-core/js/optionize.js';
+import WithRequired from '../../../../phet-core/js/types/WithRequired.js';
+import PhetioObject, { PhetioObjectOptions } from '../../../../tandem/js/PhetioObject.js';
+import BooleanIO from '../../../../tandem/js/types/BooleanIO.js';
+import NumberIO from '../../../../tandem/js/types/NumberIO.js';
+import GreenhouseEffectConstants from '../GreenhouseEffectConstants.js';
+import GreenhouseEffectUtils from '../GreenhouseEffectUtils.js';
+import Cloud from './Cloud.js';
+
+type CloudSpec = {
+
+  // position of the center of the cloud, in meters, where y is the altitude
+  position: Vector2;
+
+  // size of the cloud, in meters
+  width: number;
+  height: number;
+
+  // proportion of the visible light hitting the top of the cloud that is reflected back up
+  visibleLightReflectivity: number;
+
+  // proportion of the infrared light hitting the bottom of the cloud that is reflected back down
+  infraredLightReflectivity: number;
+};
+
+// The clouds in the order in which they appear as the coverage increases.  The positions were chosen to look good in
+// the view and so that the clouds don't overlap each other or the main cloud horizontally, which keeps the
+// interactions with the photons and waves simple.  The clouds stay within the atmosphere when raised or lowered by
+// any amount in ALTITUDE_OFFSET_RANGE.  The reflectivity values are rough approximations of the behavior of low, thick
+// clouds and high, thin ones.
+const CLOUD_SPECS: CloudSpec[] = [
+  {
+    position: new Vector2( 7000, 12000 ),
+    width: 12000,
+    height: 3500,
+    visibleLightReflectivity: 0.6,
+    infraredLightReflectivity: 0.1
+  },
+  {
+    position: new Vector2( 22000, 32000 ),
+    width: 16000,
+    height: 2000,
+    visibleLightReflectivity: 0.25,
+    infraredLightReflectivity: 0.4
+  },
+  {
+    position: new Vector2( -34000, 14000 ),
+    width: 12000,
+    height: 3500,
+    visibleLightReflectivity: 0.6,
+    infraredLightReflectivity: 0.1
+  },
+  {
+    position: new Vector2( 36000, 16000 ),
+    width: 10000,
+    height: 3000,
+    visibleLightReflectivity: 0.5,
+    infraredLightReflectivity: 0.15
+  }
+];
+
+// range of the amount by which the clouds can be raised or lowered from the altitudes in the specs, in meters
+const ALTITUDE_OFFSET_RANGE = new Range( -6000, 6000 );
+
+type SelfOptions = {
+
+  // the surface temperature, in Kelvin, at which the temperature doesn't change the coverage
+  referenceTemperature?: number;
+
+  // change in coverage for each degree Kelvin that the surface temperature is above the reference temperature
+  coverageChangePerKelvin?: number;
+
+  // time constant, in seconds, for the coverage to approach the value that corresponds to the surface temperature
+  responseTime?: number;
+};
+export type CloudCoverOptions = SelfOptions & WithRequired<PhetioObjectOptions, 'tandem'>;
+
+class CloudCover extends PhetioObject {
+
+  // the clouds, in the order in which they appear as the coverage increases
+  public readonly clouds: Cloud[];
+
+  // the proportion of the sky covered by these clouds as set by the user
+  public readonly coverageProperty: NumberProperty;
+
+  // the amount, in meters, by which the clouds are raised (positive) or lowered (negative) from their default altitudes
+  public readonly altitudeOffsetProperty: NumberProperty;
+
+  // whether the coverage changes with the surface temperature
+  public readonly temperatureDrivenProperty: BooleanProperty;
+
+  // the change in coverage caused by the surface temperature, which is zero when not temperature driven
+  public readonly coverageChangeProperty: NumberProperty;
+
+  // the coverage that determines which clouds are present, which includes the temperature-driven change
+  public readonly totalCoverageProperty: TReadOnlyProperty<number>;
+
+  private readonly surfaceTemperatureProperty: TReadOnlyProperty<number>;
+  private readonly isSunShiningProperty: TReadOnlyProperty<boolean>;
+  private readonly referenceTemperature: number;
+  private readonly coverageChangePerKelvin: number;
+  private readonly responseTime: number;
+
+  public constructor( surfaceTemperatureProperty: TReadOnlyProperty<number>,
+                      isSunShiningProperty: TReadOnlyProperty<boolean>,
+                      providedOptions: CloudCoverOptions ) {
+
+    const options = optionize<CloudCoverOptions, SelfOptions, PhetioObjectOptions>()( {
+      referenceTemperature: 287,
+      coverageChangePerKelvin: 0.02,
+      responseTime: 10,
+
+      // phet-io
+      phetioState: false,
+      phetioDocumentation: 'A set of clouds, in addition to the main cloud, whose coverage of the sky and ' +
+                           'altitude can be varied.',
+      isDisposable: false
+    }, providedOptions );
+
+    super( options );
+
+    this.surfaceTemperatureProperty = surfaceTemperatureProperty;
+    this.isSunShiningProperty = isSunShiningProperty;
+    this.referenceTemperature = options.referenceTemperature;
+    this.coverageChangePerKelvin = options.coverageChangePerKelvin;
+    this.responseTime = options.responseTime;
+
+    const sunlightSpanWidth = GreenhouseEffectConstants.SUNLIGHT_SPAN.width;
+    const coverageRange = new Range(
+      0,
+      CLOUD_SPECS.reduce( ( totalWidth, cloudSpec ) => totalWidth + cloudSpec.width, 0 ) / sunlightSpanWidth
+    );
+
+    this.coverageProperty = new NumberProperty( 0, {
+      range: coverageRange,
+      tandem: options.tandem.createTandem( 'coverageProperty' ),
+      phetioFeatured: true,
+      phetioDocumentation: 'The proportion of the sky covered by the additional clouds, as set by the user.'
+    } );
+
+    this.altitudeOffsetProperty = new NumberProperty( 0, {
+      range: ALTITUDE_OFFSET_RANGE,
+      units: 'm',
+      tandem: options.tandem.createTandem( 'altitudeOffsetProperty' ),
+      phetioFeatured: true,
+      phetioDocumentation: 'The amount by which the additional clouds are raised (positive) or lowered ' +
+                           '(negative) from their default altitudes.'
+    } );
+
+    this.temperatureDrivenProperty = new BooleanProperty( false, {
+      tandem: options.tandem.createTandem( 'temperatureDrivenProperty' ),
+      phetioFeatured: true,
+      phetioDocumentation: 'Whether the coverage of the additional clouds changes with the surface temperature.'
+    } );
+
+    this.coverageChangeProperty = new NumberProperty( 0, {
+      range: new Range( -coverageRange.max, coverageRange.max ),
+      tandem: options.tandem.createTandem( 'coverageChangeProperty' ),
+      phetioReadOnly: true,
+      phetioHighFrequency: true,
+      phetioDocumentation: 'The change in the coverage of the additional clouds caused by the surface temperature.'
+    } );
+
+    this.totalCoverageProperty = new DerivedProperty(
+      [ this.coverageProperty, this.coverageChangeProperty ],
+      ( coverage, coverageChange ) => coverageRange.constrainValue( coverage + coverageChange ),
+      {
+        tandem: options.tandem.createTandem( 'totalCoverageProperty' ),
+        phetioValueType: NumberIO,
+        phetioFeatured: true,
+        phetioDocumentation: 'The proportion of the sky covered by the additional clouds, including any change ' +
+                             'caused by the surface temperature.'
+      }
+    );
+
+    // The coverage returns to the value set by the user when it stops being driven by the temperature.
+    this.temperatureDrivenProperty.lazyLink( temperatureDriven => {
+      if ( !temperatureDriven ) {
+        this.coverageChangeProperty.reset();
+      }
+    } );
+
+    // Create the clouds.  Each one is present when the coverage is at least halfway through the portion of the range
+    // that it covers, which makes the actual coverage as close as possible to the total coverage.
+    let coverageBeforeThisCloud = 0;
+    this.clouds = CLOUD_SPECS.map( ( cloudSpec, index ) => {
+      const cloudCoverage = cloudSpec.width / sunlightSpanWidth;
+      const coverageThreshold = coverageBeforeThisCloud + cloudCoverage / 2;
+      coverageBeforeThisCloud += cloudCoverage;
+      const cloudTandem = options.tandem.createTandem( `cloud${index + 1}` );
+      const cloudEnabledProperty = new DerivedProperty(
+        [ this.totalCoverageProperty ],
+        totalCoverage => totalCoverage >= coverageThreshold,
+        {
+          tandem: cloudTandem.createTandem( 'enabledProperty' ),
+          phetioValueType: BooleanIO,
+          phetioDocumentation: 'Whether this cloud is present, which is determined by the total coverage.'
+        }
+      );
+      const cloudAltitudeProperty = new DerivedProperty(
+        [ this.altitudeOffsetProperty ],
+        altitudeOffset => cloudSpec.position.y + altitudeOffset
+      );
+      return new Cloud( cloudSpec.position, cloudSpec.width, cloudSpec.height, cloudEnabledProperty, {
+        altitudeProperty: cloudAltitudeProperty,
+        topVisibleLightReflectivity: cloudSpec.visibleLightReflectivity,
+        bottomInfraredLightReflectivity: cloudSpec.infraredLightReflectivity,
+        tandem: cloudTandem
+      } );
+    } );
+  }
+
+  /**
+   * Move the coverage change towards the value for the current surface temperature if the coverage is driven by the
+   * temperature.
+   * @param dt - delta time, in seconds
+   */
+  public step( dt: number ): void {
+    if ( this.temperatureDrivenProperty.value && this.isSunShiningProperty.value ) {
+      const targetChange = this.coverageChangeProperty.range.constrainValue(
+        this.coverageChangePerKelvin * ( this.surfaceTemperatureProperty.value - this.referenceTemperature )
+      );
+      this.coverageChangeProperty.set( GreenhouseEffectUtils.approachTargetValue(
+        this.coverageChangeProperty.value,
+        targetChange,
+        dt,
+        this.responseTime
+      ) );
+    }
+  }
+
+  /**
+   * Return to the initial state.
+   */
+  public reset(): void {
+    this.coverageProperty.reset();
+    this.altitudeOffsetProperty.reset();
+    this.temperatureDrivenProperty.reset();
+    this.coverageChangeProperty.reset();
+  }
+}
+
+export default CloudCover;
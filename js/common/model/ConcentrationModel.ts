@@ -2,7 +2,11 @@
 
 /**
  * ConcentrationModel is a GreenhouseEffectModel that adds in the ability to set the concentration of greenhouse gases
- * in the atmosphere and adjusts the attributes of the atmospheric layers accordingly.
+ * in the atmosphere and adjusts the attributes of the atmospheric layers accordingly.  Optionally, the albedo of the
+ * ground can change with the extent of the ice on the surface, which in turn depends on the surface temperature, the
+ * concentration for Earth's history can be chosen from a continuous timeline of years rather than from a few dates, and
+ * the concentration can be set through the amounts of the individual greenhouse gases or built up from the emissions of
+ * carbon dioxide.  The radiative forcing and the resulting warming for a change in concentration can also be found.
  *
  * @author Jesse Greenberg (PhET Interactive Simulations)
  * @author John Blanco (PhET Interactive Simulations)
@@ -14,24 +18,63 @@ import EnumerationProperty from '../../../../axon/js/EnumerationProperty.js';
 import Multilink from '../../../../axon/js/Multilink.js';
 import NumberProperty from '../../../../axon/js/NumberProperty.js';
 import Property from '../../../../axon/js/Property.js';
+import TinyProperty from '../../../../axon/js/TinyProperty.js';
 import { TReadOnlyProperty } from '../../../../axon/js/TReadOnlyProperty.js';
 import Range from '../../../../dot/js/Range.js';
+import Utils from '../../../../dot/js/Utils.js';
 import Vector2 from '../../../../dot/js/Vector2.js';
 import Enumeration from '../../../../phet-core/js/Enumeration.js';
 import EnumerationValue from '../../../../phet-core/js/EnumerationValue.js';
-import { EmptySelfOptions } from '../../../../phet-core/js/optionize.js';
+import optionize from '../../../../phet-core/js/optionize.js';
+import isSettingPhetioStateProperty from '../../../../tandem/js/isSettingPhetioStateProperty.js';
 import BooleanIO from '../../../../tandem/js/types/BooleanIO.js';
 import IOType from '../../../../tandem/js/types/IOType.js';
 import NumberIO from '../../../../tandem/js/types/NumberIO.js';
-import Cloud from './Cloud.js';
+import AtmosphereLayer from './AtmosphereLayer.js';
+import CarbonCycle from './CarbonCycle.js';
+import ClimateResponse from './ClimateResponse.js';
+import Cloud, { ReflectivityValues } from './Cloud.js';
+import CloudCover from './CloudCover.js';
+import GreenhouseGasComposition from './GreenhouseGasComposition.js';
+import GreenhouseGasHistory from './GreenhouseGasHistory.js';
 import GroundLayer from './GroundLayer.js';
+import IceAlbedoFeedback from './IceAlbedoFeedback.js';
 import LayersModel, { LayersModelOptions, LayersModelStateObject } from './LayersModel.js';
+import { EquilibriumSpec } from './RadiativeEquilibriumSolver.js';
+import SpectralBand from './SpectralBand.js';
+import WaterVaporFeedback from './WaterVaporFeedback.js';
 
-type SelfOptions = EmptySelfOptions;
+type SelfOptions = {
+
+  // whether the concentration for Earth's history is chosen from a continuous timeline of years rather than by date
+  timelineEnabled?: boolean;
+
+  // whether the model includes the amounts of the individual greenhouse gases, which set the concentration when they
+  // are in use, see GreenhouseGasComposition
+  gasCompositionPresent?: boolean;
+
+  // whether the model includes the feedback between the surface temperature, the amount of ice, and the albedo, see
+  // IceAlbedoFeedback
+  iceAlbedoFeedbackPresent?: boolean;
+
+  // whether the model includes the feedback between the surface temperature, the amount of water vapor, and the
+  // concentration, see WaterVaporFeedback
+  waterVaporFeedbackPresent?: boolean;
+
+  // whether the model includes the build-up of carbon dioxide from emissions, see CarbonCycle
+  carbonCyclePresent?: boolean;
+
+  // whether the model includes a set of additional clouds whose coverage of the sky and altitude can vary, see
+  // CloudCover
+  cloudCoverPresent?: boolean;
+
+  // whether the model includes the radiative forcing and the resulting warming for the change in concentration from a
+  // baseline, see ClimateResponse
+  climateResponsePresent?: boolean;
+};
 type ConcentrationModelOptions = SelfOptions & LayersModelOptions;
 
 // constants
-const SCALE_HEIGHT_OF_ATMOSPHERE = 8400; // in meters, taken from a Wikipedia article
 const CLOUD_WIDTH = 18000; // in meters, empirically determined to look good
 
 // In the 1/19/2022 design meeting, we decided that when the cloud is on, the total amount of reflected light should go
@@ -69,6 +112,54 @@ class ConcentrationDate extends EnumerationValue {
   } );
 }
 
+// The reflectivity of the cloud when the concentration is set by date.  The concentration values for the dates were
+// calibrated with a cloud that only reflects sunlight, so the cloud type doesn't apply in that mode.
+const CALIBRATED_CLOUD_REFLECTIVITY_VALUES: ReflectivityValues = {
+  topVisibleLightReflectivity: CLOUD_VISIBLE_REFLECTIVITY,
+  bottomVisibleLightReflectivity: 0,
+  topInfraredLightReflectivity: 0,
+  bottomInfraredLightReflectivity: 0
+};
+
+// Types of cloud that can be chosen when the concentration is controlled manually.  A low, thick stratus cloud
+// reflects a lot of sunlight and only a little of the infrared energy coming up from below, so its net effect is to
+// cool the surface.  A high, thin cirrus cloud reflects little sunlight but traps much of the infrared energy, so its
+// net effect is to warm the surface.  The infrared values are rough approximations chosen to make this noticeable.
+// The altitudes are scaled to the height of the modeled atmosphere rather than being realistic, and the stratus
+// altitude is the one for which the "by date" mode was calibrated.
+class CloudType extends EnumerationValue {
+  public static readonly STRATUS = new CloudType( {
+    topVisibleLightReflectivity: CLOUD_VISIBLE_REFLECTIVITY,
+    bottomVisibleLightReflectivity: 0,
+    topInfraredLightReflectivity: 0,
+    bottomInfraredLightReflectivity: 0.15
+  }, 20000 );
+  public static readonly CIRRUS = new CloudType( {
+    topVisibleLightReflectivity: 0.15,
+    bottomVisibleLightReflectivity: 0,
+    topInfraredLightReflectivity: 0,
+    bottomInfraredLightReflectivity: 0.6
+  }, 34000 );
+
+  // Gets a list of keys, values and mapping between them.  For use in EnumerationProperty and PhET-iO
+  public static readonly enumeration = new Enumeration( CloudType, {
+    phetioDocumentation: 'Types of cloud, which differ in altitude and in how much sunlight and infrared ' +
+                         'energy they reflect.'
+  } );
+
+  // proportions of the light hitting a cloud of this type that are reflected
+  public readonly reflectivityValues: ReflectivityValues;
+
+  // altitude of the center of a cloud of this type, in meters
+  public readonly altitude: number;
+
+  public constructor( reflectivityValues: ReflectivityValues, altitude: number ) {
+    super();
+    this.reflectivityValues = reflectivityValues;
+    this.altitude = altitude;
+  }
+}
+
 // Map of dates to concentration values.  These values were determined empirically to make the equilibrium temperature
 // reached in the sim match the values specified in the design doc.
 const DATE_TO_CONCENTRATION_MAP = new Map<ConcentrationDate, number>( [
@@ -79,6 +170,107 @@ const DATE_TO_CONCENTRATION_MAP = new Map<ConcentrationDate, number>( [
 ] );
 const CONCENTRATION_RANGE: Range = new Range( 0, 1 );
 
+// The year on the timeline that corresponds to each date.  The ice age is represented by the coldest part of the last
+// glacial period.
+const DATE_TO_YEAR_MAP = new Map<ConcentrationDate, number>( [
+  [ ConcentrationDate.ICE_AGE, -20000 ],
+  [ ConcentrationDate.YEAR_1750, 1750 ],
+  [ ConcentrationDate.YEAR_1950, 1950 ],
+  [ ConcentrationDate.YEAR_2020, 2020 ]
+] );
+
+// The eras on the timeline, in chronological order, each with the first year in the era and the date that represents
+// it.  The date determines things like the depiction of the landscape and the descriptions, so the art changes at the
+// boundaries between the eras.  The ice age ends with the start of the Holocene, and the other boundaries are roughly
+// midway between the dates.
+const TIMELINE_ERAS = [
+  { startYear: Number.NEGATIVE_INFINITY, date: ConcentrationDate.ICE_AGE },
+  { startYear: -9700, date: ConcentrationDate.YEAR_1750 },
+  { startYear: 1850, date: ConcentrationDate.YEAR_1950 },
+  { startYear: 1985, date: ConcentrationDate.YEAR_2020 }
+];
+
+/**
+ * Get the total radiative forcing, in W/m², of the greenhouse gases for the provided year on the timeline.  The water
+ * vapor is at its reference level, since the timeline doesn't include it.
+ */
+const getRadiativeForcingForYear = ( year: number ): number => {
+  return GreenhouseGasComposition.getRadiativeForcing(
+    GreenhouseGasHistory.getCarbonDioxideConcentration( year ),
+    GreenhouseGasHistory.getMethaneConcentration( year ),
+    GreenhouseGasHistory.getNitrousOxideConcentration( year ),
+    GreenhouseGasComposition.REFERENCE_WATER_VAPOR
+  );
+};
+
+// Points that relate the total radiative forcing of the greenhouse gases, in W/m², to the calibrated concentration
+// value for each of the dates, in order of increasing forcing.  These are used to map the forcing for any combination
+// of gases, such as those for a year on the timeline or those set individually by the user, to a concentration value
+// for the model.  This way, the gases for each of the dates produce the same concentration no matter how they are set.
+const RADIATIVE_FORCING_TO_CONCENTRATION_POINTS = ConcentrationDate.enumeration.values.map( date => new Vector2(
+  getRadiativeForcingForYear( DATE_TO_YEAR_MAP.get( date )! ),
+  DATE_TO_CONCENTRATION_MAP.get( date )!
+) );
+assert && assert(
+  RADIATIVE_FORCING_TO_CONCENTRATION_POINTS.every(
+    ( point, index, points ) => index === 0 || point.x > points[ index - 1 ].x
+  ),
+  'radiative forcing values for the dates must be in increasing order'
+);
+
+/**
+ * Map a total radiative forcing, in W/m², to a concentration value for the model by interpolating between the values
+ * for the dates.  Values beyond those for the dates are extrapolated from the nearest pair.
+ */
+const getConcentrationForRadiativeForcing = ( radiativeForcing: number ): number => {
+  const points = RADIATIVE_FORCING_TO_CONCENTRATION_POINTS;
+  const index = points.findIndex( point => point.x >= radiativeForcing );
+  const upperPointIndex = index === -1 ? points.length - 1 : Math.max( index, 1 );
+  const lowerPoint = points[ upperPointIndex - 1 ];
+  const upperPoint = points[ upperPointIndex ];
+  return CONCENTRATION_RANGE.constrainValue(
+    Utils.linear( lowerPoint.x, upperPoint.x, lowerPoint.y, upperPoint.y, radiativeForcing )
+  );
+};
+
+/**
+ * Get the concentration value for the model for the provided year on the timeline.
+ */
+const getConcentrationForYear = ( year: number ): number => {
+  return getConcentrationForRadiativeForcing( getRadiativeForcingForYear( year ) );
+};
+
+/**
+ * Get the concentration value for the model for the provided amount of carbon dioxide, in ppm, with the other gases at
+ * their amounts for the year in which the carbon cycle starts.
+ */
+const getConcentrationForCarbonDioxide = ( carbonDioxide: number ): number => {
+  return getConcentrationForRadiativeForcing( GreenhouseGasComposition.getRadiativeForcing(
+    carbonDioxide,
+    GreenhouseGasHistory.getMethaneConcentration( CarbonCycle.INITIAL_YEAR ),
+    GreenhouseGasHistory.getNitrousOxideConcentration( CarbonCycle.INITIAL_YEAR ),
+    GreenhouseGasComposition.REFERENCE_WATER_VAPOR
+  ) );
+};
+
+/**
+ * Get the date that represents the era containing the provided year on the timeline.
+ */
+const getDateForYear = ( year: number ): ConcentrationDate => {
+  return _.findLast( TIMELINE_ERAS, era => year >= era.startYear )!.date;
+};
+
+// The thickness of the portion of the atmosphere represented by each layer in the default layer configuration, which is
+// the configuration for which the absorption values were calibrated, in meters.
+const CALIBRATION_LAYER_THICKNESS = LayersModel.HEIGHT_OF_ATMOSPHERE /
+                                    ( LayersModel.DEFAULT_NUMBER_OF_ATMOSPHERE_LAYERS + 1 );
+
+// The range of altitudes of the ozone layer, in meters, and the proportion of the ultraviolet light crossing each of
+// the atmosphere layers in this range that is absorbed.  This only has an effect when the sun emits energy in more
+// than one band.
+const OZONE_ALTITUDE_RANGE = new Range( 15000, 35000 );
+const OZONE_ULTRAVIOLET_ABSORPTION_PROPORTION = 0.5;
+
 class ConcentrationModel extends LayersModel {
 
   // How the concentration can be changed, either by directly modifying the value or by selecting a value for Earth's
@@ -88,6 +280,24 @@ class ConcentrationModel extends LayersModel {
   // selected date that, depending on the mode, may define the value used for greenhouse gas concentration
   public readonly dateProperty: EnumerationProperty<ConcentrationDate>;
 
+  // Whether the concentration for Earth's history is chosen from a continuous timeline of years rather than by date.
+  // When it is, the date is set to the one that represents the era containing the selected year.
+  public readonly timelineEnabled: boolean;
+
+  // selected year on the timeline, where negative values are BCE, which is only used when the timeline is enabled
+  public readonly yearProperty: NumberProperty;
+
+  // The optional amounts of the individual greenhouse gases.  When enabled, these set the manually controlled
+  // concentration.
+  public readonly gasComposition: GreenhouseGasComposition | null;
+
+  // The optional build-up of carbon dioxide from the emissions, which sets the concentration in 'by value' mode when
+  // enabled.
+  public readonly carbonCycle: CarbonCycle | null;
+
+  // the optional radiative forcing and the resulting warming for the change in concentration from a baseline
+  public readonly climateResponse: ClimateResponse | null;
+
   // Property for the concentration when the concentration is controlled directly by value
   public readonly manuallyControlledConcentrationProperty: NumberProperty;
 
@@ -97,7 +307,52 @@ class ConcentrationModel extends LayersModel {
   // A property that determines whether the reflective cloud is enabled when manually controlling gas concentrations.
   public readonly cloudEnabledInManualConcentrationModeProperty: Property<boolean>;
 
-  public constructor( options: ConcentrationModelOptions ) {
+  // the type of the cloud when manually controlling gas concentrations
+  public readonly cloudTypeInManualConcentrationModeProperty: EnumerationProperty<CloudType>;
+
+  // the type of the cloud in the model, which is always a stratus cloud when the concentration is set by date
+  public readonly cloudTypeProperty: TReadOnlyProperty<CloudType>;
+
+  // the optional dynamic coupling between the surface temperature, the amount of water vapor, and the concentration
+  public readonly waterVaporFeedback: WaterVaporFeedback | null;
+
+  // The concentration that determines the infrared absorption of the atmosphere.  This is the same as the concentration
+  // set by the user unless the water vapor feedback is in effect, in which case it includes the change caused by the
+  // water vapor.
+  public readonly totalConcentrationProperty: TReadOnlyProperty<number>;
+
+  // the optional dynamic coupling between the surface temperature, the amount of ice, and the albedo
+  public readonly iceAlbedoFeedback: IceAlbedoFeedback | null;
+
+  // a set of additional clouds whose coverage of the sky and altitude can vary
+  public readonly cloudCover: CloudCover | null;
+
+  // The size of the glacier relative to the one depicted for the ice age, from 0 (no glacier) to 1.  When the
+  // ice-albedo feedback is not in effect, the glacier is only present for the ice age.
+  public readonly glacierExtentProperty: TReadOnlyProperty<number>;
+
+  // whether there is any glacier on the ground
+  public readonly glacierPresentProperty: TReadOnlyProperty<boolean>;
+
+  public constructor( providedOptions: ConcentrationModelOptions ) {
+
+    const options = optionize<ConcentrationModelOptions, SelfOptions, LayersModelOptions>()( {
+      timelineEnabled: false,
+      gasCompositionPresent: false,
+      iceAlbedoFeedbackPresent: false,
+      waterVaporFeedbackPresent: false,
+      cloudCoverPresent: false,
+      climateResponsePresent: false,
+
+      // The layers in the ozone layer absorb ultraviolet light, and the absorption in the other bands is left to the
+      // concentration.
+      getAtmosphereLayerAbsorptionSpectrum: altitude => new Map<SpectralBand, number>(
+        OZONE_ALTITUDE_RANGE.contains( altitude ) ?
+        [ [ SpectralBand.ULTRAVIOLET, OZONE_ULTRAVIOLET_ABSORPTION_PROPORTION ] ] :
+        []
+      )
+    }, providedOptions );
+
     super( options );
 
     // For grouping model elements, see https://github.com/phetsims/greenhouse-effect/issues/281
@@ -107,22 +362,110 @@ class ConcentrationModel extends LayersModel {
       tandem: concentrationTandem.createTandem( 'dateProperty' ),
       phetioFeatured: true
     } );
-    this.manuallyControlledConcentrationProperty = new NumberProperty( 0.5, {
+    this.timelineEnabled = options.timelineEnabled;
+    this.yearProperty = new NumberProperty( DATE_TO_YEAR_MAP.get( this.dateProperty.value )!, {
+      range: GreenhouseGasHistory.YEAR_RANGE,
+      numberType: 'Integer',
+      tandem: concentrationTandem.createTandem( 'yearProperty' ),
+      phetioFeatured: true,
+      phetioDocumentation: 'The year on the concentration timeline, where negative values are BCE.  This is only ' +
+                           'used when the sim is configured to choose the concentration from a timeline.'
+    } );
+    if ( this.timelineEnabled ) {
+      this.yearProperty.link( year => this.dateProperty.set( getDateForYear( year ) ) );
+    }
+
+    // Create the individual gases if they are present in this model.  They start out setting the concentration, and
+    // PhET-iO clients can turn this off.
+    const gasComposition = options.gasCompositionPresent ?
+                           new GreenhouseGasComposition( {
+                             initiallyEnabled: true,
+                             tandem: concentrationTandem.createTandem( 'gasComposition' )
+                           } ) :
+                           null;
+    this.gasComposition = gasComposition;
+
+    // When the gases set the concentration, start with the value for the initial amounts of the gases.
+    const initialManuallyControlledConcentration = gasComposition && gasComposition.enabledProperty.value ?
+                                                   getConcentrationForRadiativeForcing(
+                                                     gasComposition.radiativeForcingProperty.value
+                                                   ) :
+                                                   0.5;
+    this.manuallyControlledConcentrationProperty = new NumberProperty( initialManuallyControlledConcentration, {
       range: CONCENTRATION_RANGE,
       tandem: concentrationTandem.createTandem( 'manuallyControlledConcentrationProperty' ),
       phetioFeatured: true,
-      phetioDocumentation: 'The concentration value as set by the slider when in \'by value\' mode.'
+      phetioDocumentation: 'The concentration value as set by the slider when in \'by value\' mode, by the ' +
+                           'amounts of the individual gases when they are controlled separately, ' +
+                           'or by the carbon dioxide built up from the emissions when that is enabled.'
     } );
+
+    // Create the carbon cycle if it is present in this model.
+    const carbonCycle = options.carbonCyclePresent ?
+                        new CarbonCycle( this.sunEnergySource.isShiningProperty, {
+                          tandem: concentrationTandem.createTandem( 'carbonCycle' )
+                        } ) :
+                        null;
+    this.carbonCycle = carbonCycle;
+
+    // The concentration can be set by the emissions or by the individual gases, but not by both at once, so turning
+    // one of these on turns the other off.  The emissions take precedence if both start out on.  This is skipped while
+    // setting the PhET-iO state, which is consistent on its own.
+    if ( gasComposition && carbonCycle ) {
+      carbonCycle.enabledProperty.link( carbonCycleEnabled => {
+        if ( carbonCycleEnabled && !isSettingPhetioStateProperty.value ) {
+          gasComposition.enabledProperty.set( false );
+        }
+      } );
+      gasComposition.enabledProperty.lazyLink( gasCompositionEnabled => {
+        if ( gasCompositionEnabled && !isSettingPhetioStateProperty.value ) {
+          carbonCycle.enabledProperty.set( false );
+        }
+      } );
+    }
+
+    // When the concentration is built up from the emissions, it follows the carbon dioxide in the atmosphere.
+    // Otherwise, when the gases are controlled individually, each gas contributes to the concentration through its
+    // radiative forcing.
+    Multilink.multilink(
+      [
+        carbonCycle ? carbonCycle.enabledProperty : new TinyProperty( false ),
+        carbonCycle ? carbonCycle.carbonDioxideProperty : new TinyProperty( 0 ),
+        gasComposition ? gasComposition.enabledProperty : new TinyProperty( false ),
+        gasComposition ? gasComposition.radiativeForcingProperty : new TinyProperty( 0 )
+      ],
+      ( carbonCycleEnabled, carbonDioxide, gasCompositionEnabled, radiativeForcing ) => {
+        if ( carbonCycleEnabled ) {
+          this.manuallyControlledConcentrationProperty.set( getConcentrationForCarbonDioxide( carbonDioxide ) );
+        }
+        else if ( gasCompositionEnabled ) {
+          this.manuallyControlledConcentrationProperty.set( getConcentrationForRadiativeForcing( radiativeForcing ) );
+        }
+      }
+    );
     this.concentrationControlModeProperty = new EnumerationProperty( ConcentrationControlMode.BY_VALUE, {
       tandem: concentrationTandem.createTandem( 'concentrationControlModeProperty' ),
       phetioFeatured: true
     } );
     this.concentrationProperty = new DerivedProperty(
-      [ this.concentrationControlModeProperty, this.dateProperty, this.manuallyControlledConcentrationProperty ],
-      ( concentrationControl, date, manuallyControlledConcentration ) => {
-        return concentrationControl === ConcentrationControlMode.BY_VALUE ?
-               manuallyControlledConcentration :
-               DATE_TO_CONCENTRATION_MAP.get( date )!;
+      [
+        this.concentrationControlModeProperty,
+        this.dateProperty,
+        this.yearProperty,
+        this.manuallyControlledConcentrationProperty
+      ],
+      ( concentrationControl, date, year, manuallyControlledConcentration ) => {
+        let concentration;
+        if ( concentrationControl === ConcentrationControlMode.BY_VALUE ) {
+          concentration = manuallyControlledConcentration;
+        }
+        else if ( this.timelineEnabled ) {
+          concentration = getConcentrationForYear( year );
+        }
+        else {
+          concentration = DATE_TO_CONCENTRATION_MAP.get( date )!;
+        }
+        return concentration;
       },
       {
         tandem: concentrationTandem.createTandem( 'concentrationProperty' ),
@@ -132,31 +475,100 @@ class ConcentrationModel extends LayersModel {
       }
     );
 
-    // Hook up the concentration to the layers created in the parent class.
-    this.concentrationProperty.link( concentration => {
-
-      // Map the normalized concentration to a value for the layer absorption proportion.  The higher layers absorb
-      // less.  This numerical mapping is very important to the correct operation of the simulation with respect to
-      // temperature, and was empirically adjusted to make the concentration slider correspond to the temperatures in a
-      // linear fashion.
-      this.atmosphereLayers.forEach( atmosphereLayer => {
+    // Include the concentration in the data that can be recorded and exported.
+    this.dataRecorder.addQuantity( 'concentration', '', () => this.concentrationProperty.value );
+
+    // Create the water vapor feedback if it is present in this model.
+    const waterVaporFeedback = options.waterVaporFeedbackPresent ?
+                               new WaterVaporFeedback(
+                                 this.groundLayer.temperatureProperty,
+                                 this.sunEnergySource.isShiningProperty,
+                                 {
+                                   tandem: options.tandem.createTandem( 'waterVaporFeedback' )
+                                 }
+                               ) :
+                               null;
+    this.waterVaporFeedback = waterVaporFeedback;
+
+    this.totalConcentrationProperty = new DerivedProperty(
+      [
+        this.concentrationProperty,
+        waterVaporFeedback ? waterVaporFeedback.enabledProperty : new TinyProperty( false ),
+        waterVaporFeedback ? waterVaporFeedback.concentrationChangeProperty : new TinyProperty( 0 )
+      ],
+      ( concentration, waterVaporFeedbackEnabled, waterVaporConcentrationChange ) => {
+        return waterVaporFeedbackEnabled ?
+               CONCENTRATION_RANGE.constrainValue( concentration + waterVaporConcentrationChange ) :
+               concentration;
+      },
+      {
+        tandem: concentrationTandem.createTandem( 'totalConcentrationProperty' ),
+        phetioValueType: NumberIO,
+        phetioDocumentation: 'The concentration value that determines the absorption of the atmosphere, which ' +
+                             'includes the change due to water vapor when the water vapor feedback is in effect.'
+      }
+    );
 
-        // The multiplier used in this calculation was empirically determined to make the model equilibrate at the max
-        // temperature value defined in the spec (295 K as of this writing).  This may need to change if the number of
-        // layers is adjusted or other changes are made to the model.
-        const proportionToAbsorbAtSeaLevel = 0.85 * concentration;
+    // Include the water vapor in the data that can be recorded and exported.
+    if ( waterVaporFeedback ) {
+      this.dataRecorder.addQuantity(
+        'waterVaporConcentrationChange',
+        '',
+        () => waterVaporFeedback.concentrationChangeProperty.value
+      );
+    }
 
-        // Adjust the energy absorption amounts for each of the layers based on their altitude.  The calculation uses
-        // the barometric formula, see https://en.wikipedia.org/wiki/Barometric_formula.
-        const altitudeProportionFactor = Math.exp( -atmosphereLayer.altitude / SCALE_HEIGHT_OF_ATMOSPHERE );
-        atmosphereLayer.energyAbsorptionProportionProperty.set( proportionToAbsorbAtSeaLevel * altitudeProportionFactor );
+    // Hook up the concentration to the layers created in the parent class.
+    this.totalConcentrationProperty.link( concentration => {
+      this.atmosphereLayers.forEach( atmosphereLayer => {
+        atmosphereLayer.energyAbsorptionProportionProperty.set(
+          this.getEnergyAbsorptionProportion( atmosphereLayer, concentration )
+        );
       } );
     } );
 
+    // Create the ice-albedo feedback if it is present in this model.  It starts out enabled, and PhET-iO clients can
+    // turn it off.
+    const iceAlbedoFeedback = options.iceAlbedoFeedbackPresent ?
+                              new IceAlbedoFeedback(
+                                this.groundLayer.temperatureProperty,
+                                this.sunEnergySource.isShiningProperty,
+                                this.inRadiativeBalanceProperty,
+                                {
+                                  initiallyEnabled: true,
+                                  tandem: options.tandem.createTandem( 'iceAlbedoFeedback' )
+                                }
+                              ) :
+                              null;
+    this.iceAlbedoFeedback = iceAlbedoFeedback;
+
+    // Include the ice in the data that can be recorded and exported.
+    if ( iceAlbedoFeedback ) {
+      this.dataRecorder.addQuantity( 'iceExtent', '', () => iceAlbedoFeedback.iceExtentProperty.value );
+    }
+
+    // Properties for whether the ice-albedo feedback is in effect and for the amount of ice, which are constant when
+    // the feedback isn't present so that the albedo and glacier are set only by the date
+    const iceAlbedoFeedbackEnabledProperty = iceAlbedoFeedback ?
+                                             iceAlbedoFeedback.enabledProperty :
+                                             new TinyProperty( false );
+    const iceExtentProperty = iceAlbedoFeedback ? iceAlbedoFeedback.iceExtentProperty : new TinyProperty( 0 );
+
     Multilink.multilink(
-      [ this.dateProperty, this.concentrationControlModeProperty ],
-      ( date, concentrationControlMode ) => {
-        if ( date === ConcentrationDate.ICE_AGE && concentrationControlMode === ConcentrationControlMode.BY_DATE ) {
+      [
+        this.dateProperty,
+        this.concentrationControlModeProperty,
+        iceAlbedoFeedbackEnabledProperty,
+        iceExtentProperty
+      ],
+      ( date, concentrationControlMode, iceAlbedoFeedbackEnabled ) => {
+        if ( iceAlbedoFeedback && iceAlbedoFeedbackEnabled ) {
+
+          // The albedo is determined by the amount of ice, which in turn depends on the temperature.
+          this.groundLayer.albedoProperty.set( iceAlbedoFeedback.getAlbedo() );
+        }
+        else if ( date === ConcentrationDate.ICE_AGE &&
+                  concentrationControlMode === ConcentrationControlMode.BY_DATE ) {
 
           // Set the albedo to correspond to the ice age.
           this.groundLayer.albedoProperty.set( GroundLayer.PARTIALLY_GLACIATED_LAND_ALBEDO );
@@ -169,6 +581,35 @@ class ConcentrationModel extends LayersModel {
       }
     );
 
+    // The glacier depicted for the ice age corresponds to the albedo used for that time, so use the amount of ice that
+    // produces this albedo as the full size of the glacier when the ice-albedo feedback is in effect.
+    const iceAgeIceExtent = iceAlbedoFeedback ?
+                            iceAlbedoFeedback.getIceExtentForAlbedo( GroundLayer.PARTIALLY_GLACIATED_LAND_ALBEDO ) :
+                            1;
+    this.glacierExtentProperty = new DerivedProperty(
+      [
+        this.dateProperty,
+        this.concentrationControlModeProperty,
+        iceAlbedoFeedbackEnabledProperty,
+        iceExtentProperty
+      ],
+      ( date, concentrationControlMode, iceAlbedoFeedbackEnabled, iceExtent ) => {
+        let glacierExtent;
+        if ( iceAlbedoFeedbackEnabled ) {
+          glacierExtent = Math.min( iceExtent / iceAgeIceExtent, 1 );
+        }
+        else {
+          glacierExtent = concentrationControlMode === ConcentrationControlMode.BY_DATE &&
+                          date === ConcentrationDate.ICE_AGE ? 1 : 0;
+        }
+        return glacierExtent;
+      }
+    );
+    this.glacierPresentProperty = new DerivedProperty(
+      [ this.glacierExtentProperty ],
+      glacierExtent => glacierExtent > 0
+    );
+
     // For grouping model elements, see https://github.com/phetsims/greenhouse-effect/issues/281
     const cloudTandem = options.tandem.createTandem( 'cloud' );
 
@@ -180,6 +621,30 @@ class ConcentrationModel extends LayersModel {
       phetioDocumentation: 'Controls whether the cloud is enabled in the model when manually controlling the concentration.'
     } );
 
+    // This is the Property controlled by the cloud type selector.  Like the one above, it's relevant only when
+    // controlling concentration manually.
+    this.cloudTypeInManualConcentrationModeProperty = new EnumerationProperty( CloudType.STRATUS, {
+      tandem: cloudTandem.createTandem( 'cloudTypeInManualConcentrationModeProperty' ),
+      phetioFeatured: true,
+      phetioDocumentation: 'Controls the type of the cloud when manually controlling the concentration.'
+    } );
+    this.cloudTypeProperty = new DerivedProperty(
+      [ this.concentrationControlModeProperty, this.cloudTypeInManualConcentrationModeProperty ],
+      ( concentrationControlMode, cloudTypeInManualConcentrationMode ) =>
+        concentrationControlMode === ConcentrationControlMode.BY_DATE ?
+        CloudType.STRATUS :
+        cloudTypeInManualConcentrationMode
+    );
+
+    // the reflectivity of the cloud, which depends on its type and on how the concentration is controlled
+    const cloudReflectivityValuesProperty = new DerivedProperty(
+      [ this.concentrationControlModeProperty, this.cloudTypeProperty ],
+      ( concentrationControlMode, cloudType ) =>
+        concentrationControlMode === ConcentrationControlMode.BY_DATE ?
+        CALIBRATED_CLOUD_REFLECTIVITY_VALUES :
+        cloudType.reflectivityValues
+    );
+
     // Create a derived property that determines whether the cloud is enabled in the model.  We do not allow users to
     // disable the cloud in the "by date" mode because the model is calibrated to assume the correct amount of incident
     // sunlight reaching the ground, and disabling the cloud would mess that up.
@@ -195,14 +660,128 @@ class ConcentrationModel extends LayersModel {
       }
     );
 
-    // Create the one cloud that can be shown.  The position and size of the cloud were chosen to look good in the view
-    // and can be adjusted as needed.
-    this.cloud = new Cloud( new Vector2( -16000, 20000 ), CLOUD_WIDTH, 4000, cloudEnabledProperty, {
-      topVisibleLightReflectivity: CLOUD_VISIBLE_REFLECTIVITY,
+    // Create the main cloud.  The horizontal position and size of the cloud were chosen to look good in the view and
+    // can be adjusted as needed.  The altitude depends on the type of the cloud.
+    const cloudPosition = new Vector2( -16000, CloudType.STRATUS.altitude );
+    this.cloud = new Cloud( cloudPosition, CLOUD_WIDTH, 4000, cloudEnabledProperty, {
+      reflectivityValuesProperty: cloudReflectivityValuesProperty,
+      altitudeProperty: new DerivedProperty( [ this.cloudTypeProperty ], cloudType => cloudType.altitude ),
 
       // phetio
       tandem: cloudTandem
     } );
+
+    // Create the additional clouds whose coverage of the sky can vary if they are present in this model.
+    const cloudCover = options.cloudCoverPresent ?
+                       new CloudCover(
+                         this.groundLayer.temperatureProperty,
+                         this.sunEnergySource.isShiningProperty,
+                         {
+                           tandem: options.tandem.createTandem( 'cloudCover' )
+                         }
+                       ) :
+                       null;
+    this.cloudCover = cloudCover;
+
+    // Include the cloud coverage in the data that can be recorded and exported.
+    if ( cloudCover ) {
+      this.dataRecorder.addQuantity( 'cloudCoverage', '', () => cloudCover.totalCoverageProperty.value );
+    }
+
+    // Create the climate response if it is present in this model.  The forcing and warming are relative to the
+    // pre-industrial concentration until the user chooses another baseline.
+    this.climateResponse = options.climateResponsePresent ? new ClimateResponse(
+      this.concentrationProperty,
+      this.netInflowOfEnergyProperty,
+      this.inRadiativeBalanceProperty,
+      this.sunEnergySource.isShiningProperty,
+      concentration => this.getEquilibriumSpecForConcentration( concentration ),
+      {
+        initiallyEnabled: true,
+        initialBaselineConcentration: DATE_TO_CONCENTRATION_MAP.get( ConcentrationDate.YEAR_1750 )!,
+        tandem: concentrationTandem.createTandem( 'climateResponse' )
+      }
+    ) : null;
+  }
+
+  /**
+   * Map the normalized concentration to a value for the proportion of the infrared energy crossing the provided
+   * atmosphere layer that it absorbs.  The higher layers absorb less.  This numerical mapping is very important to the
+   * correct operation of the simulation with respect to temperature, and was empirically adjusted to make the
+   * concentration slider correspond to the temperatures in a linear fashion.
+   */
+  private getEnergyAbsorptionProportion( atmosphereLayer: AtmosphereLayer, concentration: number ): number {
+
+    // The multiplier used in this calculation was empirically determined to make the model equilibrate at the max
+    // temperature value defined in the spec (295 K as of this writing) with the default layer configuration.  This
+    // may need to change if other changes are made to the model.
+    const proportionToAbsorbAtSeaLevel = 0.85 * concentration;
+
+    // Adjust the energy absorption amounts for each of the layers based on their altitude.  The calculation uses
+    // the barometric formula, see https://en.wikipedia.org/wiki/Barometric_formula.
+    const altitudeProportionFactor = Math.exp(
+      -atmosphereLayer.altitude / LayersModel.SCALE_HEIGHT_OF_ATMOSPHERE
+    );
+    const calibratedProportion = proportionToAbsorbAtSeaLevel * altitudeProportionFactor;
+
+    // Scale the absorption to the amount of atmosphere represented by this layer so that the total absorption
+    // stays about the same when the number or spacing of the layers differs from the calibrated configuration.
+    // Treating the layer as a stack of calibration-sized layers gives the same value for the default layout.
+    const thicknessRatio = this.getAtmosphereLayerThickness( atmosphereLayer ) / CALIBRATION_LAYER_THICKNESS;
+    return 1 - Math.pow( 1 - calibratedProportion, thicknessRatio );
+  }
+
+  /**
+   * Get all the clouds in this model, whether they are enabled or not, including the main cloud and the clouds in the
+   * cloud cover.
+   */
+  public override getClouds(): Cloud[] {
+    return this.cloudCover ? super.getClouds().concat( this.cloudCover.clouds ) : super.getClouds();
+  }
+
+  /**
+   * Get a description of the model as it is now, but with the atmosphere absorbing infrared energy as it would for the
+   * provided concentration, which can be used to calculate the equilibrium temperatures for that concentration.  Any
+   * change in concentration caused by the water vapor feedback is kept as it currently is.
+   */
+  private getEquilibriumSpecForConcentration( concentration: number ): EquilibriumSpec {
+    const spec = this.getEquilibriumSpec();
+    const waterVaporConcentrationChange = this.totalConcentrationProperty.value - this.concentrationProperty.value;
+    const totalConcentration = CONCENTRATION_RANGE.constrainValue( concentration + waterVaporConcentrationChange );
+    const activeAtmosphereLayers = this.atmosphereLayers.filter( layer => layer.isActiveProperty.value );
+    spec.atmosphereLayers.forEach( ( layerSpec, index ) => {
+      layerSpec.energyAbsorptionProportion = this.getEnergyAbsorptionProportion(
+        activeAtmosphereLayers[ index ],
+        totalConcentration
+      );
+    } );
+    return spec;
+  }
+
+  /**
+   * Step the model forward in time.
+   * @param dt - delta time, in seconds
+   */
+  public override stepModel( dt: number ): void {
+    super.stepModel( dt );
+    if ( this.iceAlbedoFeedback ) {
+      this.iceAlbedoFeedback.step( dt );
+    }
+    if ( this.waterVaporFeedback ) {
+      this.waterVaporFeedback.step( dt );
+    }
+    if ( this.cloudCover ) {
+      this.cloudCover.step( dt );
+    }
+
+    // The emissions only build up while they are setting the concentration.
+    if ( this.carbonCycle && this.concentrationControlModeProperty.value === ConcentrationControlMode.BY_VALUE ) {
+      this.carbonCycle.step( dt );
+    }
+
+    if ( this.climateResponse ) {
+      this.climateResponse.step();
+    }
   }
 
   /**
@@ -211,13 +790,37 @@ class ConcentrationModel extends LayersModel {
   public override reset(): void {
     this.concentrationControlModeProperty.reset();
     this.dateProperty.reset();
+    this.yearProperty.reset();
+    if ( this.gasComposition ) {
+      this.gasComposition.reset();
+    }
+    if ( this.carbonCycle ) {
+      this.carbonCycle.reset();
+    }
     this.manuallyControlledConcentrationProperty.reset();
     this.cloudEnabledInManualConcentrationModeProperty.reset();
+    this.cloudTypeInManualConcentrationModeProperty.reset();
+    if ( this.iceAlbedoFeedback ) {
+      this.iceAlbedoFeedback.reset();
+    }
+    if ( this.waterVaporFeedback ) {
+      this.waterVaporFeedback.reset();
+    }
+    if ( this.cloudCover ) {
+      this.cloudCover.reset();
+    }
+    if ( this.climateResponse ) {
+      this.climateResponse.reset();
+    }
     super.reset();
   }
 
   // statics
   public static readonly CONCENTRATION_RANGE: Range = CONCENTRATION_RANGE;
+
+  // the reflectivity of the main cloud for visible light from above when it is a stratus cloud, useful as a reference
+  public static readonly CLOUD_VISIBLE_REFLECTIVITY = CLOUD_VISIBLE_REFLECTIVITY;
+
   public static readonly DATE_CONCENTRATION_RANGE: Range = new Range(
     Array.from( DATE_TO_CONCENTRATION_MAP.values() ).reduce(
       ( minSoFar, currentValue ) => Math.min( minSoFar, currentValue ),
@@ -229,6 +832,12 @@ class ConcentrationModel extends LayersModel {
     )
   );
 
+  // the range of concentration values that can be chosen from the timeline, which includes all the dates
+  public static readonly TIMELINE_CONCENTRATION_RANGE: Range = new Range(
+    Math.min( ...GreenhouseGasHistory.RECORD_YEARS.map( getConcentrationForYear ) ),
+    Math.max( ...GreenhouseGasHistory.RECORD_YEARS.map( getConcentrationForYear ) )
+  );
+
   public static getConcentrationForDate( date: ConcentrationDate ): number {
     assert && assert( DATE_TO_CONCENTRATION_MAP.has( date ), 'no concentration for the provided date' );
     const concentration = DATE_TO_CONCENTRATION_MAP.get( date );
@@ -258,6 +867,7 @@ export type { ConcentrationModelStateObject };
 
 export { ConcentrationControlMode };
 export { ConcentrationDate };
+export { CloudType };
 
 export type { ConcentrationModelOptions };
 export default ConcentrationModel;
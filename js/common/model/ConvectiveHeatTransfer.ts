@@ -0,0 +1,206 @@
+// Copyright 2026, University of Colorado Boulder
+
+/**
+ * ConvectiveHeatTransfer models the non-radiative movement of energy from the ground into the lower portion of the
+ * atmosphere.  Two processes are modeled:
+ *
+ * - sensible heat, which is the heat carried upward by rising warm air, and
+ * - latent heat, which is the energy used to evaporate water at the surface that is released into the air when the
+ *   water vapor condenses higher up.
+ *
+ * Both are driven by the difference between the temperature of the ground and that of the atmosphere layers that
+ * receive the energy, and the latent portion also increases with the temperature of the ground, since warmer surfaces
+ * evaporate more water.  Without these processes, the ground in a purely radiative model ends up a lot warmer than the
+ * surface of the real Earth.
+ *
+ * When enabled, the energy transfer is described to RadiativeEquilibriumSolver through getEquilibriumConvectionSpec so
+ * that the calculated equilibrium matches the temperatures that the time-stepped model settles at.
+ *
+ * @author John Blanco (PhET Interactive Simulations)
+ */
+
+import BooleanProperty from '../../../../axon/js/BooleanProperty.js';
+import optionize from '../../../../phet-core/js/optionize.js';
+import WithRequired from '../../../../phet-core/js/types/WithRequired.js';
+import PhetioObject, { PhetioObjectOptions } from '../../../../tandem/js/PhetioObject.js';
+import AtmosphereLayer from './AtmosphereLayer.js';
+import EnergyAbsorbingEmittingLayer from './EnergyAbsorbingEmittingLayer.js';
+import EnergyRateTracker from './EnergyRateTracker.js';
+import GroundLayer from './GroundLayer.js';
+import { EquilibriumConvectionSpec } from './RadiativeEquilibriumSolver.js';
+
+// constants
+
+// The ground temperature, in Kelvin, at which the latent heat transfer coefficient has its nominal value.  This is the
+// average surface temperature of the Earth.
+const REFERENCE_GROUND_TEMPERATURE = 288;
+
+// The proportional increase in evaporation per Kelvin of surface warming, based on the Clausius-Clapeyron relation,
+// see https://en.wikipedia.org/wiki/Clausius%E2%80%93Clapeyron_relation.
+const EVAPORATION_INCREASE_PER_KELVIN = 0.07;
+
+type SelfOptions = {
+
+  // whether the heat transfer is initially happening
+  initiallyEnabled?: boolean;
+
+  // Rates of energy transfer per unit of temperature difference between the ground and the atmosphere, in watts per
+  // square meter per Kelvin.  These were empirically determined to produce values that are roughly consistent with
+  // those for the Earth when used with the default configuration of the atmosphere.
+  sensibleHeatTransferCoefficient?: number;
+  latentHeatTransferCoefficient?: number;
+
+  // Atmosphere layers at or below this altitude, in meters, receive energy from the ground.  This is roughly the top
+  // of the troposphere, which is the portion of the atmosphere where convection occurs.  If there are no active layers
+  // below this altitude, the lowest active layer receives all the energy.
+  maxAltitude?: number;
+};
+export type ConvectiveHeatTransferOptions = SelfOptions & WithRequired<PhetioObjectOptions, 'tandem'>;
+
+class ConvectiveHeatTransfer extends PhetioObject {
+
+  // whether heat is being transferred from the ground to the atmosphere
+  public readonly enabledProperty: BooleanProperty;
+
+  // tracks the rate at which energy is moving from the ground to the atmosphere through these processes
+  public readonly energyRateTracker: EnergyRateTracker;
+
+  private readonly groundLayer: GroundLayer;
+  private readonly atmosphereLayers: AtmosphereLayer[];
+  private readonly sensibleHeatTransferCoefficient: number;
+  private readonly latentHeatTransferCoefficient: number;
+  private readonly maxAltitude: number;
+
+  public constructor( groundLayer: GroundLayer,
+                      atmosphereLayers: AtmosphereLayer[],
+                      providedOptions: ConvectiveHeatTransferOptions ) {
+
+    const options = optionize<ConvectiveHeatTransferOptions, SelfOptions, PhetioObjectOptions>()( {
+      initiallyEnabled: true,
+      sensibleHeatTransferCoefficient: 0.5,
+      latentHeatTransferCoefficient: 2,
+      maxAltitude: 12000,
+
+      // phet-io
+      phetioState: false,
+      phetioDocumentation: 'Transfer of sensible and latent heat from the ground into the lower atmosphere.',
+      isDisposable: false
+    }, providedOptions );
+
+    super( options );
+
+    this.groundLayer = groundLayer;
+    this.atmosphereLayers = atmosphereLayers;
+    this.sensibleHeatTransferCoefficient = options.sensibleHeatTransferCoefficient;
+    this.latentHeatTransferCoefficient = options.latentHeatTransferCoefficient;
+    this.maxAltitude = options.maxAltitude;
+
+    this.enabledProperty = new BooleanProperty( options.initiallyEnabled, {
+      tandem: options.tandem.createTandem( 'enabledProperty' ),
+      phetioFeatured: true,
+      phetioDocumentation: 'Whether heat is carried from the ground into the lower atmosphere by convection and ' +
+                           'the evaporation and condensation of water.'
+    } );
+
+    this.energyRateTracker = new EnergyRateTracker( {
+      accumulationPeriod: 0.25,
+      tandem: options.tandem.createTandem( 'energyRateTracker' )
+    } );
+  }
+
+  /**
+   * Move heat from the ground to the lower atmosphere for the provided time step.
+   * @param dt - delta time, in seconds
+   */
+  public step( dt: number ): void {
+    let transferredEnergy = 0;
+    const receivingLayers = this.getReceivingLayers();
+    if ( this.enabledProperty.value && receivingLayers.length > 0 ) {
+      const heatTransferCoefficient = ConvectiveHeatTransfer.getHeatTransferCoefficient(
+        this.sensibleHeatTransferCoefficient,
+        this.latentHeatTransferCoefficient,
+        this.groundLayer.temperatureProperty.value
+      ) / receivingLayers.length;
+
+      receivingLayers.forEach( layer => {
+
+        // The ground cools as it gives heat to each layer, so the temperature difference, and the limit below that
+        // depends on it, are found separately for each layer.
+        const temperatureDifference = this.groundLayer.temperatureProperty.value - layer.temperatureProperty.value;
+
+        // Heat only moves upward, since convection stops when the air is warmer than the ground.
+        if ( temperatureDifference > 0 ) {
+
+          // Limit the energy to the amount that would bring the ground and the layer to the same temperature.  This
+          // prevents the temperatures from overshooting and oscillating when the heat capacities are small.
+          const groundHeatCapacity = this.groundLayer.getHeatCapacity();
+          const layerHeatCapacity = layer.getHeatCapacity();
+          const maxEnergy = temperatureDifference * groundHeatCapacity * layerHeatCapacity /
+                            ( groundHeatCapacity + layerHeatCapacity );
+          const energy = Math.min(
+            heatTransferCoefficient * temperatureDifference * EnergyAbsorbingEmittingLayer.SURFACE_AREA * dt,
+            maxEnergy
+          );
+
+          // Remove the energy from the ground and add whatever was actually removed to the layer.
+          const energyRemovedFromGround = -this.groundLayer.exchangeHeat( -energy );
+          layer.exchangeHeat( energyRemovedFromGround );
+          transferredEnergy += energyRemovedFromGround;
+        }
+      } );
+    }
+
+    this.energyRateTracker.addEnergyInfo( transferredEnergy, dt );
+  }
+
+  /**
+   * Get a description of the heat transfer that can be included in the equilibrium calculations, or null if no heat is
+   * being transferred.
+   * @param atmosphereLayers - the atmosphere layers in the equilibrium spec, which the returned indices refer to
+   */
+  public getEquilibriumConvectionSpec( atmosphereLayers: AtmosphereLayer[] ): EquilibriumConvectionSpec | null {
+    const receivingLayerIndices = this.getReceivingLayers()
+      .map( layer => atmosphereLayers.indexOf( layer ) )
+      .filter( index => index >= 0 );
+    return this.enabledProperty.value && receivingLayerIndices.length > 0 ? {
+      receivingLayerIndices: receivingLayerIndices,
+      sensibleHeatTransferCoefficient: this.sensibleHeatTransferCoefficient,
+      latentHeatTransferCoefficient: this.latentHeatTransferCoefficient
+    } : null;
+  }
+
+  /**
+   * Get the atmosphere layers that receive the heat from the ground, see the maxAltitude option.
+   */
+  private getReceivingLayers(): AtmosphereLayer[] {
+    const activeLayers = this.atmosphereLayers.filter( layer => layer.isActiveProperty.value );
+    const layersInRange = activeLayers.filter( layer => layer.altitude <= this.maxAltitude );
+    return layersInRange.length > 0 ? layersInRange : activeLayers.slice( 0, 1 );
+  }
+
+  /**
+   * Return to the initial state.
+   */
+  public reset(): void {
+    this.enabledProperty.reset();
+    this.energyRateTracker.reset();
+  }
+
+  /**
+   * Get the total rate of heat transfer per unit of temperature difference between the ground and the atmosphere, in
+   * watts per square meter per Kelvin, for the provided ground temperature.  Evaporation, and therefore the transfer of
+   * latent heat, increases exponentially with the temperature of the ground.
+   * @param sensibleHeatTransferCoefficient - in W/(m^2*K)
+   * @param latentHeatTransferCoefficient - in W/(m^2*K), at the reference ground temperature
+   * @param groundTemperature - in Kelvin
+   */
+  public static getHeatTransferCoefficient( sensibleHeatTransferCoefficient: number,
+                                            latentHeatTransferCoefficient: number,
+                                            groundTemperature: number ): number {
+    return sensibleHeatTransferCoefficient +
+           latentHeatTransferCoefficient *
+           Math.exp( EVAPORATION_INCREASE_PER_KELVIN * ( groundTemperature - REFERENCE_GROUND_TEMPERATURE ) );
+  }
+}
+
+export default ConvectiveHeatTransfer;
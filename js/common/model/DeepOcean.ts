@@ -0,0 +1,208 @@
+// Copyright 2026, University of Colorado Boulder
+
+/**
+ * DeepOcean models the part of the ocean that lies below the well-mixed surface layer.  It holds much more heat than
+ * the surface, and heat moves slowly between the two in proportion to the difference in their temperatures.  When the
+ * energy balance changes, the ocean surface first moves part of the way toward its new equilibrium temperature over
+ * a few seconds, and then continues the rest of the way only as the deep ocean catches up, which takes much longer.
+ * This produces the lag between a change in forcing and the resulting warming that is seen in the real climate.
+ *
+ * The deep ocean only exchanges heat with the ground when the ground has an ocean surface and the sun is shining.  Its
+ * heat is not included in the equilibrium calculations done by RadiativeEquilibriumSolver, since it has no effect on
+ * the equilibrium temperatures, only on how long it takes to reach them.  It does watch the description of the model
+ * that is used for those calculations, though, so that it can signal when a change in forcing starts a new response.
+ *
+ * @author John Blanco (PhET Interactive Simulations)
+ */
+
+import Emitter from '../../../../axon/js/Emitter.js';
+import NumberProperty from '../../../../axon/js/NumberProperty.js';
+import { TReadOnlyProperty } from '../../../../axon/js/TReadOnlyProperty.js';
+import optionize from '../../../../phet-core/js/optionize.js';
+import WithRequired from '../../../../phet-core/js/types/WithRequired.js';
+import PhetioObject, { PhetioObjectOptions } from '../../../../tandem/js/PhetioObject.js';
+import GreenhouseEffectConstants from '../GreenhouseEffectConstants.js';
+import EnergyAbsorbingEmittingLayer from './EnergyAbsorbingEmittingLayer.js';
+import GroundLayer from './GroundLayer.js';
+import RadiativeEquilibriumSolver, { EquilibriumSpec } from './RadiativeEquilibriumSolver.js';
+import SurfaceType from './SurfaceType.js';
+
+// constants
+
+// The ground temperature, in Kelvin, used when finding how quickly the ground sheds heat by radiating it.  This is the
+// average surface temperature of the Earth.
+const REFERENCE_GROUND_TEMPERATURE = 288;
+
+type SelfOptions = {
+
+  // The heat capacity of the deep ocean relative to that of the ocean surface.  This is much less than the actual
+  // ratio for the Earth so that the slow part of the response plays out in a few minutes rather than centuries.
+  relativeHeatCapacity?: number;
+
+  // The rate of heat transfer per unit of temperature difference between the ocean surface and the deep ocean, in
+  // watts per square meter per Kelvin.  This is roughly the value used for the Earth in two-box climate models.
+  heatExchangeCoefficient?: number;
+};
+export type DeepOceanOptions = SelfOptions & WithRequired<PhetioObjectOptions, 'tandem'>;
+
+class DeepOcean extends PhetioObject {
+
+  // the temperature of the deep ocean, in Kelvin
+  public readonly temperatureProperty: NumberProperty;
+
+  // emits when something that affects the equilibrium temperatures changes while the sun is shining
+  public readonly forcingChangeEmitter: Emitter;
+
+  // the most recent description of the model used for finding its equilibrium, null until the first one is provided
+  private equilibriumSpec: EquilibriumSpec | null = null;
+
+  private readonly groundLayer: GroundLayer;
+  private readonly isSunShiningProperty: TReadOnlyProperty<boolean>;
+  private readonly relativeHeatCapacity: number;
+  private readonly heatExchangeCoefficient: number;
+
+  public constructor( groundLayer: GroundLayer,
+                      isSunShiningProperty: TReadOnlyProperty<boolean>,
+                      providedOptions: DeepOceanOptions ) {
+
+    const options = optionize<DeepOceanOptions, SelfOptions, PhetioObjectOptions>()( {
+      relativeHeatCapacity: 3,
+      heatExchangeCoefficient: 1.5,
+
+      // phet-io
+      phetioState: false,
+      phetioDocumentation: 'The deep ocean, which slowly exchanges heat with the ground when it has an ocean surface.',
+      isDisposable: false
+    }, providedOptions );
+
+    super( options );
+
+    this.groundLayer = groundLayer;
+    this.isSunShiningProperty = isSunShiningProperty;
+    this.relativeHeatCapacity = options.relativeHeatCapacity;
+    this.heatExchangeCoefficient = options.heatExchangeCoefficient;
+
+    this.temperatureProperty = new NumberProperty( groundLayer.temperatureProperty.value, {
+      units: 'K',
+      tandem: options.tandem.createTandem( 'temperatureProperty' ),
+      phetioReadOnly: true,
+      phetioFeatured: true,
+      phetioHighFrequency: true,
+      phetioDocumentation: 'The temperature of the deep ocean, which only changes when the ground has an ocean surface.'
+    } );
+
+    this.forcingChangeEmitter = new Emitter( {
+      tandem: options.tandem.createTandem( 'forcingChangeEmitter' ),
+      phetioReadOnly: true,
+      phetioDocumentation: 'Emits when a change to the model, such as to the concentration of greenhouse gases, ' +
+                           'changes the temperatures that it will eventually reach.'
+    } );
+  }
+
+  /**
+   * Exchange heat between the ocean surface and the deep ocean for the provided time step.
+   * @param dt - delta time, in seconds
+   */
+  public step( dt: number ): void {
+    if ( this.groundLayer.surfaceTypeProperty.value === SurfaceType.OCEAN && this.isSunShiningProperty.value ) {
+      const temperatureDifference = this.groundLayer.temperatureProperty.value - this.temperatureProperty.value;
+      const surfaceHeatCapacity = this.groundLayer.getHeatCapacity();
+      const deepHeatCapacity = this.getHeatCapacity();
+
+      // Limit the energy to the amount that would bring the surface and the deep ocean to the same temperature.
+      const maxEnergy = Math.abs( temperatureDifference ) * surfaceHeatCapacity * deepHeatCapacity /
+                        ( surfaceHeatCapacity + deepHeatCapacity );
+      const energyRate = this.heatExchangeCoefficient * Math.abs( temperatureDifference ) *
+                         EnergyAbsorbingEmittingLayer.SURFACE_AREA;
+      const energy = Math.sign( temperatureDifference ) * Math.min( energyRate * dt, maxEnergy );
+
+      // Remove the energy from the surface and add whatever was actually removed to the deep ocean.
+      const energyRemovedFromSurface = -this.groundLayer.exchangeHeat( -energy );
+      this.temperatureProperty.set( this.temperatureProperty.value + energyRemovedFromSurface / deepHeatCapacity );
+    }
+  }
+
+  /**
+   * Compare the provided description of the model to the previous one and signal a change in forcing if they differ.
+   * Nothing is signaled while the sun isn't shining, since the temperatures don't respond then.
+   * @param equilibriumSpec - the current description of the model, as used for finding its equilibrium temperatures
+   */
+  public updateEquilibriumSpec( equilibriumSpec: EquilibriumSpec ): void {
+    if ( this.equilibriumSpec &&
+         this.isSunShiningProperty.value &&
+         !RadiativeEquilibriumSolver.isSameSpec( equilibriumSpec, this.equilibriumSpec ) ) {
+      this.forcingChangeEmitter.emit();
+    }
+    this.equilibriumSpec = equilibriumSpec;
+  }
+
+  /**
+   * Set the temperature of the deep ocean directly, such as when the model is moved to equilibrium.
+   * @param temperature - in Kelvin
+   */
+  public setTemperature( temperature: number ): void {
+    this.temperatureProperty.set( temperature );
+  }
+
+  /**
+   * Get the approximate time, in seconds, that the ground surface takes to respond to a change in the energy that it
+   * absorbs, found from its heat capacity and the rate at which it sheds heat.  For an ocean surface, this is the time
+   * for the part of the response that happens before the deep ocean has had a chance to warm.
+   */
+  public getSurfaceResponseTime(): number {
+    const surfaceHeatCapacity = this.groundLayer.getHeatCapacity() / EnergyAbsorbingEmittingLayer.SURFACE_AREA;
+    const heatLossCoefficient = this.groundLayer.surfaceTypeProperty.value === SurfaceType.OCEAN ?
+                                this.getRadiativeResponse() + this.heatExchangeCoefficient :
+                                this.getRadiativeResponse();
+    return surfaceHeatCapacity / heatLossCoefficient;
+  }
+
+  /**
+   * Get the approximate time, in seconds, that the deep ocean takes to warm the rest of the way.  This sets how long
+   * the final part of the warming is delayed after a change in forcing, and is only meaningful when the ground has an
+   * ocean surface.
+   */
+  public getDeepOceanResponseTime(): number {
+    const deepHeatCapacity = this.getHeatCapacity() / EnergyAbsorbingEmittingLayer.SURFACE_AREA;
+    const radiativeResponse = this.getRadiativeResponse();
+    return deepHeatCapacity * ( radiativeResponse + this.heatExchangeCoefficient ) /
+           ( radiativeResponse * this.heatExchangeCoefficient );
+  }
+
+  /**
+   * Get the approximate time, in seconds, after a change in forcing at which all but 1/e of the resulting change in the
+   * surface temperature has happened.  For an ocean surface, this is set by the deep ocean, since the surface itself
+   * responds much more quickly.
+   */
+  public getResponseTime(): number {
+    return this.groundLayer.surfaceTypeProperty.value === SurfaceType.OCEAN ?
+           this.getDeepOceanResponseTime() :
+           this.getSurfaceResponseTime();
+  }
+
+  /**
+   * Get the heat capacity of the deep ocean, in joules per Kelvin.  This is relative to that of the ground, so it is
+   * only meaningful when the ground has an ocean surface.
+   */
+  private getHeatCapacity(): number {
+    return this.relativeHeatCapacity * this.groundLayer.getHeatCapacity();
+  }
+
+  /**
+   * Get the increase in the energy radiated by the ground, in watts per square meter, for each Kelvin of warming.
+   */
+  private getRadiativeResponse(): number {
+    return 4 * this.groundLayer.emissivityProperty.value * GreenhouseEffectConstants.STEFAN_BOLTZMANN_CONSTANT *
+           Math.pow( REFERENCE_GROUND_TEMPERATURE, 3 );
+  }
+
+  /**
+   * Return to the initial state.
+   */
+  public reset(): void {
+    this.temperatureProperty.reset();
+    this.equilibriumSpec = null;
+  }
+}
+
+export default DeepOcean;
@@ -11,8 +11,14 @@ import EnumerationIO from '../../../../tandem/js/types/EnumerationIO.js';
 import IOType from '../../../../tandem/js/types/IOType.js';
 import NumberIO from '../../../../tandem/js/types/NumberIO.js';
 import GreenhouseEffectConstants from '../GreenhouseEffectConstants.js';
+import BlackbodySpectrum from './BlackbodySpectrum.js';
 import EnergyDirection from './EnergyDirection.js';
 
+// Bands that would receive less than this proportion of the energy radiated by a blackbody are skipped when creating
+// packets for the spectrum, which reduces the number of packets in the model.  The energy is redistributed to the
+// other bands so that it is conserved.
+const MIN_BAND_PROPORTION = 0.001;
+
 class EMEnergyPacket {
 
   // wavelength of the energy in this packet, in meters
@@ -56,6 +62,31 @@ class EMEnergyPacket {
     }
   }
 
+  /**
+   * Create a set of energy packets, one for each spectral band, that together represent the energy radiated by a
+   * blackbody at the provided temperature.  The energy is split between the bands according to Planck's law, see
+   * BlackbodySpectrum.
+   * @param energy - total energy for all the packets, in joules
+   * @param temperature - temperature of the emitter, in Kelvin
+   * @param altitude - in meters
+   * @param direction
+   */
+  public static createBlackbodyPackets( energy: number,
+                                        temperature: number,
+                                        altitude: number,
+                                        direction: EnergyDirection ): EMEnergyPacket[] {
+    const bandProportions = new Map( [ ...BlackbodySpectrum.getBandProportions( temperature ) ].filter(
+      bandAndProportion => bandAndProportion[ 1 ] >= MIN_BAND_PROPORTION
+    ) );
+    const totalProportion = _.sum( [ ...bandProportions.values() ] );
+    return [ ...bandProportions.keys() ].map( band => new EMEnergyPacket(
+      band.representativeWavelength,
+      energy * bandProportions.get( band )! / totalProportion,
+      altitude,
+      direction
+    ) );
+  }
+
   // Instances of this class are intended to be lightweight and own no Property instances, so disposal is unneeded and
   // not supported.
   public dispose(): void {
@@ -0,0 +1,101 @@
+// Copyright 2026, University of Colorado Boulder
+
+/**
+ * EmissionsScenario is an enumeration of the scenarios for the annual emissions of carbon dioxide that can be chosen
+ * when the concentration is built up from the emissions.  Other than the custom scenario, in which the user sets the
+ * emission rate, each is a preset that follows one of the shared socioeconomic pathways (SSPs) used in climate
+ * projections.  The rates are rounded from the SSP values and are held at their final value after 2100.
+ *
+ * @author John Blanco (PhET Interactive Simulations)
+ */
+
+import Utils from '../../../../dot/js/Utils.js';
+import Vector2 from '../../../../dot/js/Vector2.js';
+import Enumeration from '../../../../phet-core/js/Enumeration.js';
+import EnumerationValue from '../../../../phet-core/js/EnumerationValue.js';
+
+class EmissionsScenario extends EnumerationValue {
+
+  // The emission rate is set by the user.
+  public static readonly CUSTOM = new EmissionsScenario( null );
+
+  // Very low emissions that reach net zero around 2050 and then go negative (SSP1-1.9).
+  public static readonly VERY_LOW = new EmissionsScenario( [
+    new Vector2( 2020, 40 ),
+    new Vector2( 2030, 23 ),
+    new Vector2( 2040, 11 ),
+    new Vector2( 2050, 0 ),
+    new Vector2( 2060, -5 ),
+    new Vector2( 2080, -13 ),
+    new Vector2( 2100, -14 )
+  ] );
+
+  // Intermediate emissions that stay around current levels until the middle of the century and then decline
+  // (SSP2-4.5).
+  public static readonly INTERMEDIATE = new EmissionsScenario( [
+    new Vector2( 2020, 40 ),
+    new Vector2( 2030, 44 ),
+    new Vector2( 2050, 45 ),
+    new Vector2( 2070, 39 ),
+    new Vector2( 2090, 24 ),
+    new Vector2( 2100, 10 )
+  ] );
+
+  // Very high emissions that roughly triple by the end of the century (SSP5-8.5).
+  public static readonly VERY_HIGH = new EmissionsScenario( [
+    new Vector2( 2020, 40 ),
+    new Vector2( 2030, 55 ),
+    new Vector2( 2050, 84 ),
+    new Vector2( 2070, 110 ),
+    new Vector2( 2080, 120 ),
+    new Vector2( 2100, 126 )
+  ] );
+
+  // Gets a list of keys, values and mapping between them.  For use in EnumerationProperty and PhET-iO
+  public static readonly enumeration = new Enumeration( EmissionsScenario, {
+    phetioDocumentation: 'Scenarios for the annual emissions of carbon dioxide, either set by the user or preset.'
+  } );
+
+  // Points that relate the year (x) to the emission rate in gigatonnes of carbon dioxide per year (y), in chronological
+  // order, or null if the rate is set by the user.
+  private readonly emissionRates: Vector2[] | null;
+
+  public constructor( emissionRates: Vector2[] | null ) {
+    super();
+    this.emissionRates = emissionRates;
+  }
+
+  /**
+   * Whether this scenario sets the emission rate, as opposed to the rate being set by the user.
+   */
+  public get isPreset(): boolean {
+    return this.emissionRates !== null;
+  }
+
+  /**
+   * Get the emission rate, in gigatonnes of carbon dioxide per year, for the provided year by interpolating between the
+   * rates for this scenario.  This should only be called for preset scenarios.
+   */
+  public getEmissionRate( year: number ): number {
+    assert && assert( this.emissionRates, 'there are no emission rates for the custom scenario' );
+    const points = this.emissionRates!;
+    const index = points.findIndex( point => point.x >= year );
+    let emissionRate;
+    if ( index === -1 ) {
+
+      // The rate is held at its final value after the last year.
+      emissionRate = points[ points.length - 1 ].y;
+    }
+    else if ( index === 0 ) {
+      emissionRate = points[ 0 ].y;
+    }
+    else {
+      const lowerPoint = points[ index - 1 ];
+      const upperPoint = points[ index ];
+      emissionRate = Utils.linear( lowerPoint.x, upperPoint.x, lowerPoint.y, upperPoint.y, year );
+    }
+    return emissionRate;
+  }
+}
+
+export default EmissionsScenario;
@@ -1,7 +1,8 @@
 // Copyright 2021-2026, University of Colorado Boulder
 
 /**
- * A model of a horizontal layer of a material that absorbs energy, heats up, and then radiates energy as a black body.
+ * A model of a horizontal layer of a material that absorbs energy, heats up, and then radiates energy as a black body,
+ * or as a gray body if its emissivity is less than 1.
  *
  * @author John Blanco (PhET Interactive Simulations)
  */
@@ -10,8 +11,6 @@ import BooleanProperty from '../../../../axon/js/BooleanProperty.js';
 import NumberProperty from '../../../../axon/js/NumberProperty.js';
 import Property from '../../../../axon/js/Property.js';
 import Range from '../../../../dot/js/Range.js';
-import Enumeration from '../../../../phet-core/js/Enumeration.js';
-import EnumerationValue from '../../../../phet-core/js/EnumerationValue.js';
 import optionize from '../../../../phet-core/js/optionize.js';
 import WithRequired from '../../../../phet-core/js/types/WithRequired.js';
 import PhetioObject, { PhetioObjectOptions } from '../../../../tandem/js/PhetioObject.js';
@@ -20,31 +19,8 @@ import EMEnergyPacket from './EMEnergyPacket.js';
 import EnergyDirection from './EnergyDirection.js';
 import energyPacketCrossedAltitude from './energyPacketCrossedAltitude.js';
 import MovingSampleWindow from './MovingSampleWindow.js';
-
-// The various substances that this layer can model.
-class Substance extends EnumerationValue {
-
-  // In kg/m^3
-  public readonly density: number;
-
-  // In J/kg°K
-  public readonly specificHeatCapacity: number;
-
-  public readonly radiationDirections: EnergyDirection[];
-
-  public constructor( density: number, specificHeatCapacity: number, radiationDirections: EnergyDirection[] ) {
-    super();
-
-    this.density = density;
-    this.specificHeatCapacity = specificHeatCapacity;
-    this.radiationDirections = radiationDirections;
-  }
-
-  public static readonly GLASS = new Substance( 2500, 840, [ EnergyDirection.UP, EnergyDirection.DOWN ] );
-  public static readonly EARTH = new Substance( 1250, 1250, [ EnergyDirection.UP ] );
-
-  public static readonly enumeration = new Enumeration( Substance );
-}
+import Substance from './Substance.js';
+import SubstanceRegistry from './SubstanceRegistry.js';
 
 // The size of the energy absorbing layers are all the same in the Greenhouse Effect sim and are not parameterized.
 // The layer is modeled as a 1-meter wide strip that spans the width of the simulated sunlight.  Picture it like a
@@ -60,12 +36,29 @@ const LAYER_THICKNESS = 0.0000003;
 
 const VOLUME = SURFACE_DIMENSIONS.width * SURFACE_DIMENSIONS.height * LAYER_THICKNESS;
 
+// The range of values for emissivity.  Zero isn't allowed, since a layer that can't emit could never get rid of the
+// energy that it absorbs.
+const EMISSIVITY_RANGE = new Range( 0.1, 1 );
+
 type SelfOptions = {
+
+  // the substance of which this layer is initially made
   substance?: Substance;
+  substancePhetioReadOnly?: boolean;
+
+  // the directions in which the substances used for this layer are allowed to radiate
+  permittedRadiationDirections?: EnergyDirection[];
+
+  // The substances that can be used for this layer.  If null, only the standard substances can be used.
+  substanceRegistry?: SubstanceRegistry | null;
 
   // initial setting for the absorption proportion, must be from 0 to 1 inclusive
   initialEnergyAbsorptionProportion?: number;
 
+  // initial setting for the emissivity, must be within EMISSIVITY_RANGE
+  initialEmissivity?: number;
+  emissivityPhetioReadOnly?: boolean;
+
   // The minimum temperature that this layer can get to, in Kelvin.  This will also be the temperature at
   // which it is originally set to.  When at this temperature, the layer will radiate no energy.  This is a bit of
   // a violation of the actual physics, since anything that is above absolute zero radiates some energy, but was a
@@ -88,6 +81,10 @@ type SelfOptions = {
   // the "showTemperatureProperty" in the model when needed, but absent in some cases, so that we don't have
   // an unnecessary Property appearing in phet-io.
   supportsShowTemperature?: boolean;
+
+  // Whether the radiated energy is spread across the spectral bands according to the temperature of this layer, see
+  // BlackbodySpectrum.  When false, all radiated energy is at the infrared wavelength used throughout the sim.
+  multiBandEmission?: boolean;
 };
 export type EnergyAbsorbingEmittingLayerOptions = SelfOptions & WithRequired<PhetioObjectOptions, 'tandem'>;
 
@@ -105,6 +102,14 @@ class EnergyAbsorbingEmittingLayer extends PhetioObject {
   // temperature.  Non-absorbed energy is simply passed from the input to the output.
   public readonly energyAbsorptionProportionProperty: NumberProperty;
 
+  // The emissivity of this layer, which is the ratio of the energy that it radiates to what a perfect black body at the
+  // same temperature would radiate.
+  public readonly emissivityProperty: NumberProperty;
+
+  // The substance of which this layer is made, which together with its thickness determines how much energy it takes
+  // to change its temperature.
+  public readonly substanceProperty: Property<Substance>;
+
   // tracks whether the temperature should be shown in the view
   public readonly showTemperatureProperty: Property<boolean>;
 
@@ -116,11 +121,12 @@ class EnergyAbsorbingEmittingLayer extends PhetioObject {
   private readonly outOfEquilibriumTemperatureSpan: number;
 
   // Other fields whose meaning should be reasonably obvious.
-  private readonly substance: Substance;
-  private readonly mass: number;
-  private readonly specificHeatCapacity: number;
-  public readonly minimumTemperature: number;
+  private relativeThickness = 1;
+  private mass: number;
+  private specificHeatCapacity: number;
+  private _minimumTemperature: number;
   public readonly atEquilibriumProperty: BooleanProperty;
+  private readonly multiBandEmission: boolean;
 
   protected constructor( altitude: number, providedOptions?: EnergyAbsorbingEmittingLayerOptions ) {
 
@@ -128,10 +134,16 @@ class EnergyAbsorbingEmittingLayer extends PhetioObject {
 
       // default to glass
       substance: Substance.GLASS,
+      substancePhetioReadOnly: true,
+      permittedRadiationDirections: [ EnergyDirection.UP, EnergyDirection.DOWN ],
+      substanceRegistry: null,
 
       initialEnergyAbsorptionProportion: 1,
+      initialEmissivity: 1,
+      emissivityPhetioReadOnly: true,
       minimumTemperature: 0,
       supportsShowTemperature: false,
+      multiBandEmission: false,
       inEquilibriumTemperatureSpan: 0.05,
       outOfEquilibriumTemperatureSpan: 0.1,
       equilibriumTime: 4,
@@ -164,6 +176,15 @@ class EnergyAbsorbingEmittingLayer extends PhetioObject {
       phetioDocumentation: 'Proportion, from 0 to 1, of light energy absorbed for interacting wavelengths.'
     } );
 
+    this.emissivityProperty = new NumberProperty( options.initialEmissivity, {
+      range: EMISSIVITY_RANGE,
+      tandem: options.tandem.createTandem( 'emissivityProperty' ),
+      phetioReadOnly: options.emissivityPhetioReadOnly,
+      phetioFeatured: true,
+      phetioDocumentation: 'Ratio of the infrared energy radiated by this layer to that radiated by a perfect black ' +
+                           'body at the same temperature.'
+    } );
+
     // Create the Property that controls whether the temperature of this layer will be depicted in the view.  If this
     // instance does not support showing the temperature a dummy property is created that is not instrumented and should
     // not be used.
@@ -183,13 +204,38 @@ class EnergyAbsorbingEmittingLayer extends PhetioObject {
       phetioDocumentation: 'True when the amount of energy being absorbed is roughly equal to the amount being radiated.'
     } );
 
-    this.substance = options.substance;
+    // Substances can only be used for this layer if they are available and radiate in the permitted directions.  The
+    // substances in the state are created anew, so this is what keeps them consistent with the registry.
+    const substanceRegistry = options.substanceRegistry;
+    const isPermittedSubstance = ( substance: Substance ) =>
+      ( substanceRegistry ?
+        substanceRegistry.hasSubstance( substance ) :
+        Substance.STANDARD_SUBSTANCES.some( standardSubstance => standardSubstance.equals( substance ) ) ) &&
+      substance.radiationDirections.every( direction => options.permittedRadiationDirections.includes( direction ) );
+    assert && assert( isPermittedSubstance( options.substance ), 'the initial substance must be permitted' );
+
+    this.substanceProperty = new Property( options.substance, {
+      phetioValueType: Substance.SubstanceIO,
+      valueComparisonStrategy: 'equalsFunction',
+      isValidValue: isPermittedSubstance,
+      tandem: options.tandem.createTandem( 'substanceProperty' ),
+      phetioReadOnly: options.substancePhetioReadOnly,
+      phetioFeatured: true,
+      phetioDocumentation: 'The substance of which this layer is made, which determines how much energy it takes to ' +
+                           'change its temperature.  Other substances can be defined using the substance registry ' +
+                           'for the model, where present, and only the substances in that registry can be used.'
+    } );
+
     this.mass = VOLUME * options.substance.density;
     this.specificHeatCapacity = options.substance.specificHeatCapacity;
-    this.minimumTemperature = options.minimumTemperature!;
+    this._minimumTemperature = options.minimumTemperature!;
     this.inEquilibriumTemperatureSpan = options.inEquilibriumTemperatureSpan;
     this.outOfEquilibriumTemperatureSpan = options.outOfEquilibriumTemperatureSpan;
+    this.multiBandEmission = options.multiBandEmission;
     this.movingTemperatureSampleWindow = new MovingSampleWindow( options.equilibriumTime );
+
+    // Changing the substance changes the heat capacity, but the temperature stays the same.
+    this.substanceProperty.lazyLink( () => this.updateHeatCapacity() );
   }
 
   /**
@@ -224,9 +270,10 @@ class EnergyAbsorbingEmittingLayer extends PhetioObject {
     const temperatureChangeDueToIncomingEnergy = absorbedEnergy / ( this.mass * this.specificHeatCapacity );
 
     // Calculate the amount of energy that this layer will radiate per unit area at its current temperature using the
-    // Stefan-Boltzmann equation.  This calculation doesn't allow the energy to radiate if it is below the initial
-    // temperature, which is not real physics, but is needed for the desired behavior of the sim.
-    const radiatedEnergyPerUnitSurfaceArea = Math.pow( this.temperatureProperty.value, 4 ) *
+    // Stefan-Boltzmann equation, scaled by the emissivity.  This calculation doesn't allow the energy to radiate if it
+    // is below the initial temperature, which is not real physics, but is needed for the desired behavior of the sim.
+    const radiatedEnergyPerUnitSurfaceArea = this.emissivityProperty.value *
+                                             Math.pow( this.temperatureProperty.value, 4 ) *
                                              GreenhouseEffectConstants.STEFAN_BOLTZMANN_CONSTANT * dt;
 
     // The total radiated energy depends on whether this layer is radiating in one direction or two.
@@ -278,30 +325,130 @@ class EnergyAbsorbingEmittingLayer extends PhetioObject {
 
     // Send out the radiated energy by adding new EM energy packets.
     if ( totalRadiatedEnergyThisStep > 0 ) {
+      const radiatedEnergyPerSurface = totalRadiatedEnergyThisStep / numberOfRadiatingSurfaces;
       if ( this.substance.radiationDirections.includes( EnergyDirection.DOWN ) ) {
-        emEnergyPackets.push( new EMEnergyPacket(
-          GreenhouseEffectConstants.INFRARED_WAVELENGTH,
-          totalRadiatedEnergyThisStep / numberOfRadiatingSurfaces,
-          this.altitude,
-          EnergyDirection.DOWN
-        ) );
+        this.emitEnergy( emEnergyPackets, radiatedEnergyPerSurface, EnergyDirection.DOWN );
       }
       if ( this.substance.radiationDirections.includes( EnergyDirection.UP ) ) {
-        emEnergyPackets.push( new EMEnergyPacket(
-          GreenhouseEffectConstants.INFRARED_WAVELENGTH,
-          totalRadiatedEnergyThisStep / numberOfRadiatingSurfaces,
-          this.altitude,
-          EnergyDirection.UP
-        ) );
+        this.emitEnergy( emEnergyPackets, radiatedEnergyPerSurface, EnergyDirection.UP );
       }
     }
   }
 
+  /**
+   * Add the packet or packets that represent the energy radiated in the provided direction to the list.
+   */
+  private emitEnergy( emEnergyPackets: EMEnergyPacket[], energy: number, direction: EnergyDirection ): void {
+    if ( this.multiBandEmission ) {
+      emEnergyPackets.push( ...EMEnergyPacket.createBlackbodyPackets(
+        energy,
+        this.temperatureProperty.value,
+        this.altitude,
+        direction
+      ) );
+    }
+    else {
+      emEnergyPackets.push( new EMEnergyPacket(
+        GreenhouseEffectConstants.INFRARED_WAVELENGTH,
+        energy,
+        this.altitude,
+        direction
+      ) );
+    }
+  }
+
+  /**
+   * The substance of which this layer is made.
+   */
+  public get substance(): Substance {
+    return this.substanceProperty.value;
+  }
+
+  /**
+   * Set the thickness of this layer relative to the standard thickness used for all layers.  Thicker layers take more
+   * energy to change their temperature.  The temperature stays the same.
+   * @param relativeThickness
+   */
+  protected setRelativeThickness( relativeThickness: number ): void {
+    assert && assert( relativeThickness > 0, `relative thickness must be positive: ${relativeThickness}` );
+    this.relativeThickness = relativeThickness;
+    this.updateHeatCapacity();
+  }
+
+  /**
+   * Update the values used to calculate temperature changes for the current substance and thickness.
+   */
+  private updateHeatCapacity(): void {
+    const substance = this.substanceProperty.value;
+    this.mass = VOLUME * this.relativeThickness * substance.density;
+    this.specificHeatCapacity = substance.specificHeatCapacity;
+  }
+
+  /**
+   * The temperature, in Kelvin, below which this layer is not allowed to cool.
+   */
+  public get minimumTemperature(): number {
+    return this._minimumTemperature;
+  }
+
+  /**
+   * Change the minimum temperature for this layer.  If the layer is currently colder than the new minimum, it is
+   * brought up to that temperature.
+   * @param minimumTemperature - in Kelvin
+   */
+  public setMinimumTemperature( minimumTemperature: number ): void {
+    this._minimumTemperature = minimumTemperature;
+    if ( this.temperatureProperty.value < minimumTemperature ) {
+      this.temperatureProperty.set( minimumTemperature );
+    }
+  }
+
+  /**
+   * Get the amount of energy needed to raise the temperature of this layer by one degree.
+   * @returns the heat capacity in joules per Kelvin
+   */
+  public getHeatCapacity(): number {
+    return this.mass * this.specificHeatCapacity;
+  }
+
+  /**
+   * Add heat energy to or remove it from this layer by means other than electromagnetic radiation, such as conduction
+   * or convection.  The temperature won't be allowed to go below the minimum, so less energy than requested may be
+   * removed.
+   * @param energy - in joules, positive to add energy to the layer and negative to remove it
+   * @returns the amount of energy actually added, which is negative if energy was removed
+   */
+  public exchangeHeat( energy: number ): number {
+    const heatCapacity = this.getHeatCapacity();
+    const temperature = this.temperatureProperty.value;
+    const newTemperature = Math.max( temperature + energy / heatCapacity, this.minimumTemperature );
+    this.temperatureProperty.set( newTemperature );
+    return ( newTemperature - temperature ) * heatCapacity;
+  }
+
+  /**
+   * Set the temperature of this layer directly, bypassing the gradual heating and cooling that occurs through the
+   * absorption and emission of energy.  The history used to decide whether the layer is in equilibrium is cleared so
+   * that the jump isn't mistaken for a change in the energy balance.
+   * @param temperature - in Kelvin, must be at or above the minimum temperature for this layer
+   */
+  public jumpToTemperature( temperature: number ): void {
+    assert && assert(
+      temperature >= this.minimumTemperature,
+      `temperature below the minimum for this layer: ${temperature}`
+    );
+    this.temperatureProperty.set( temperature );
+    this.movingTemperatureSampleWindow.reset();
+    this.atEquilibriumProperty.set( true );
+  }
+
   /**
    * restore initial state
    */
   public reset(): void {
     this.temperatureProperty.reset();
+    this.emissivityProperty.reset();
+    this.substanceProperty.reset();
     this.atEquilibriumProperty.reset();
     this.showTemperatureProperty.value = true;
     this.movingTemperatureSampleWindow.reset();
@@ -310,6 +457,7 @@ class EnergyAbsorbingEmittingLayer extends PhetioObject {
   // statics
   public static readonly WIDTH = SURFACE_DIMENSIONS.width;
   public static readonly SURFACE_AREA = SURFACE_AREA;
+  public static readonly EMISSIVITY_RANGE = EMISSIVITY_RANGE;
   public static readonly Substance = Substance;
 }
 
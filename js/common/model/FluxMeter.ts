@@ -24,9 +24,11 @@ import AtmosphereLayer from './AtmosphereLayer.js';
 import EMEnergyPacket from './EMEnergyPacket.js';
 import FluxSensor, { FluxSensorOptions } from './FluxSensor.js';
 import LayersModel from './LayersModel.js';
+import SpectralBand from './SpectralBand.js';
 
 // constants
 const MIN_LAYER_TO_SENSOR_DISTANCE = 2200; // in meters, empirically determined
+const DISTANCE_TOLERANCE = 1E-6; // in meters, used to avoid floating point issues when comparing distances
 
 export type FluxMeterReadings = {
   sensorAltitude: number;
@@ -34,6 +36,9 @@ export type FluxMeterReadings = {
   visibleLightUpFlux: number;
   infraredLightDownFlux: number;
   infraredLightUpFlux: number;
+
+  // flux for each of the spectral bands
+  bandFluxes: Map<SpectralBand, { down: number; up: number }>;
 };
 
 // types
@@ -175,7 +180,11 @@ class FluxMeter extends PhetioObject {
       visibleLightDownFlux: this.fluxSensor.visibleLightDownEnergyRateTracker.energyRateProperty.value,
       visibleLightUpFlux: this.fluxSensor.visibleLightUpEnergyRateTracker.energyRateProperty.value,
       infraredLightDownFlux: this.fluxSensor.infraredLightDownEnergyRateTracker.energyRateProperty.value,
-      infraredLightUpFlux: this.fluxSensor.infraredLightUpEnergyRateTracker.energyRateProperty.value
+      infraredLightUpFlux: this.fluxSensor.infraredLightUpEnergyRateTracker.energyRateProperty.value,
+      bandFluxes: new Map( [ ...this.fluxSensor.bandEnergyRateTrackers ].map( ( [ band, trackers ] ) => [
+        band,
+        { down: trackers.down.energyRateProperty.value, up: trackers.up.energyRateProperty.value }
+      ] ) )
     };
   }
 
@@ -190,23 +199,52 @@ class FluxMeter extends PhetioObject {
   }
 
   /**
-   * Check the sensor position and, if it is too close to any layers, move it away.
+   * Check the sensor position and, if it is too close to any layers, move it away.  The layers can be arbitrarily
+   * spaced, so the minimum distance is reduced where they are too close together for the sensor to fit between them at
+   * the usual distance, and the new position is chosen so that it isn't too close to any other layer.
    */
   private checkAndUpdateSensorPosition(): void {
-    const activeAtmosphereLayers = this.atmosphereLayers.filter( layer => layer.isActiveProperty.value );
-    activeAtmosphereLayers.forEach( atmosphereLayer => {
-      const sensorToLayerYDistance = Math.abs( atmosphereLayer.altitude - this.fluxSensor.altitudeProperty.value );
-      if ( sensorToLayerYDistance < MIN_LAYER_TO_SENSOR_DISTANCE ) {
-
-        // Jump to the other side of the layer rather than the same side.  This works better for keyboard nav.
-        if ( this.fluxSensor.altitudeProperty.value < atmosphereLayer.altitude ) {
-          this.fluxSensor.altitudeProperty.set( atmosphereLayer.altitude + MIN_LAYER_TO_SENSOR_DISTANCE );
-        }
-        else {
-          this.fluxSensor.altitudeProperty.set( atmosphereLayer.altitude - MIN_LAYER_TO_SENSOR_DISTANCE );
-        }
+    const activeLayerAltitudes = this.atmosphereLayers
+      .filter( layer => layer.isActiveProperty.value )
+      .map( layer => layer.altitude );
+    if ( activeLayerAltitudes.length === 0 ) {
+      return;
+    }
+
+    let minDistance = MIN_LAYER_TO_SENSOR_DISTANCE;
+    for ( let i = 1; i < activeLayerAltitudes.length; i++ ) {
+      minDistance = Math.min( minDistance, ( activeLayerAltitudes[ i ] - activeLayerAltitudes[ i - 1 ] ) / 2 );
+    }
+
+    const altitudeProperty = this.fluxSensor.altitudeProperty;
+    const isValidSensorAltitude = ( altitude: number ) =>
+      altitudeProperty.range.contains( altitude ) &&
+      activeLayerAltitudes.every(
+        layerAltitude => Math.abs( layerAltitude - altitude ) >= minDistance - DISTANCE_TOLERANCE
+      );
+
+    const sensorAltitude = altitudeProperty.value;
+    if ( isValidSensorAltitude( sensorAltitude ) ) {
+      return;
+    }
+
+    // Prefer to jump to the other side of the nearest layer rather than the same side.  This works better for keyboard
+    // nav.  If that isn't possible, e.g. because it would be out of range, use the closest position that works.
+    const nearestLayerAltitude = _.minBy( activeLayerAltitudes, altitude => Math.abs( altitude - sensorAltitude ) )!;
+    const preferredAltitude = sensorAltitude < nearestLayerAltitude ?
+                              nearestLayerAltitude + minDistance :
+                              nearestLayerAltitude - minDistance;
+    if ( isValidSensorAltitude( preferredAltitude ) ) {
+      altitudeProperty.set( preferredAltitude );
+    }
+    else {
+      const candidateAltitudes = activeLayerAltitudes
+        .flatMap( altitude => [ altitude - minDistance, altitude + minDistance ] )
+        .filter( isValidSensorAltitude );
+      if ( candidateAltitudes.length > 0 ) {
+        altitudeProperty.set( _.minBy( candidateAltitudes, altitude => Math.abs( altitude - sensorAltitude ) )! );
       }
-    } );
+    }
   }
 }
 
@@ -22,15 +22,26 @@ import EnergyDirection from './EnergyDirection.js';
 import energyPacketCrossedAltitude from './energyPacketCrossedAltitude.js';
 import EnergyRateTracker from './EnergyRateTracker.js';
 import isInfrared from './isInfrared.js';
-import isVisible from './isVisible.js';
+import isSunlight from './isSunlight.js';
 import LayersModel from './LayersModel.js';
+import SpectralBand from './SpectralBand.js';
 
 // types
 type SelfOptions = {
   initialPosition?: Vector2;
+
+  // whether there are energy rate trackers for each of the spectral bands, which is useful when energy is emitted in
+  // multiple bands
+  bandEnergyRateTrackersPresent?: boolean;
 };
 export type FluxSensorOptions = SelfOptions & PhetioObjectOptions;
 
+// energy rate trackers for the two directions in which energy can cross the sensor
+export type DirectionalEnergyRateTrackers = {
+  down: EnergyRateTracker;
+  up: EnergyRateTracker;
+};
+
 // constants
 const DEFAULT_INITIAL_POSITION = Vector2.ZERO;
 
@@ -51,6 +62,10 @@ class FluxSensor extends PhetioObject {
   public readonly infraredLightDownEnergyRateTracker: EnergyRateTracker;
   public readonly infraredLightUpEnergyRateTracker: EnergyRateTracker;
 
+  // Energy rate trackers for each of the spectral bands.  This is empty unless the band trackers are present, which
+  // keeps them out of the PhET-iO API when they aren't useful.
+  public readonly bandEnergyRateTrackers: Map<SpectralBand, DirectionalEnergyRateTrackers>;
+
   // The proportion of the energy to be absorbed from the energy packets.  This is based on the size of the flux sensor
   // relative to the total simulated area in the model.
   private readonly proportionOfEnergyToAbsorb: number;
@@ -72,6 +87,7 @@ class FluxSensor extends PhetioObject {
 
     const options = optionize<FluxSensorOptions, SelfOptions, PhetioObjectOptions>()( {
       initialPosition: DEFAULT_INITIAL_POSITION,
+      bandEnergyRateTrackersPresent: false,
       phetioState: false,
       phetioFeatured: true, // see https://github.com/phetsims/greenhouse-effect/issues/312
 
@@ -117,6 +133,23 @@ class FluxSensor extends PhetioObject {
       tandem: options.tandem?.createTandem( 'infraredLightUpEnergyRateTracker' )
     } );
 
+    this.bandEnergyRateTrackers = new Map<SpectralBand, DirectionalEnergyRateTrackers>();
+    if ( options.bandEnergyRateTrackersPresent ) {
+      SpectralBand.enumeration.values.forEach( band => {
+        const bandName = _.camelCase( band.name );
+        this.bandEnergyRateTrackers.set( band, {
+          down: new EnergyRateTracker( {
+            accumulationPeriod: FluxSensor.MEASUREMENT_ACCUMULATION_TIME,
+            tandem: options.tandem?.createTandem( `${bandName}DownEnergyRateTracker` )
+          } ),
+          up: new EnergyRateTracker( {
+            accumulationPeriod: FluxSensor.MEASUREMENT_ACCUMULATION_TIME,
+            tandem: options.tandem?.createTandem( `${bandName}UpEnergyRateTracker` )
+          } )
+        } );
+      } );
+    }
+
     // Calculate the proportion of energy to absorb based on the sensor size.
     this.proportionOfEnergyToAbsorb = ( size.width * size.height ) /
                                       ( LayersModel.SUNLIGHT_SPAN.width * LayersModel.SUNLIGHT_SPAN.height );
@@ -132,16 +165,24 @@ class FluxSensor extends PhetioObject {
     let totalVisibleLightEnergyCrossingUpward = 0;
     let totalInfraredLightEnergyCrossingDownward = 0;
     let totalInfraredLightEnergyCrossingUpward = 0;
+    const totalBandEnergyCrossingDownward = new Map<SpectralBand, number>();
+    const totalBandEnergyCrossingUpward = new Map<SpectralBand, number>();
 
     // Go through each energy packet and determine if it has moved through the sensor and, if so, measure it.
     energyPackets.forEach( energyPacket => {
       if ( energyPacketCrossedAltitude( energyPacket, this.altitudeProperty.value ) ) {
+        const band = SpectralBand.fromWavelength( energyPacket.wavelength );
+        const totalBandEnergyMap = energyPacket.direction === EnergyDirection.DOWN ?
+                                   totalBandEnergyCrossingDownward :
+                                   totalBandEnergyCrossingUpward;
+        totalBandEnergyMap.set( band, ( totalBandEnergyMap.get( band ) || 0 ) + energyPacket.energy );
+
         if ( energyPacket.direction === EnergyDirection.DOWN ) {
           assert && assert(
-            isVisible( energyPacket ) || isInfrared( energyPacket ),
-            'energy packet must be visible or IR'
+            isSunlight( energyPacket ) || isInfrared( energyPacket ),
+            'energy packet must be sunlight or IR'
           );
-          if ( isVisible( energyPacket ) ) {
+          if ( isSunlight( energyPacket ) ) {
             totalVisibleLightEnergyCrossingDownward += energyPacket.energy;
           }
           else {
@@ -150,7 +191,7 @@ class FluxSensor extends PhetioObject {
         }
         else {
           assert && assert( energyPacket.direction === EnergyDirection.UP, 'unexpected energy direction' );
-          if ( isVisible( energyPacket ) ) {
+          if ( isSunlight( energyPacket ) ) {
             totalVisibleLightEnergyCrossingUpward += energyPacket.energy;
           }
           else {
@@ -177,6 +218,14 @@ class FluxSensor extends PhetioObject {
     this.infraredLightUpEnergyRateTracker.addEnergyInfo(
       totalInfraredLightEnergyCrossingUpward * this.proportionOfEnergyToAbsorb, dt
     );
+    this.bandEnergyRateTrackers.forEach( ( trackers, band ) => {
+      trackers.down.addEnergyInfo(
+        ( totalBandEnergyCrossingDownward.get( band ) || 0 ) * this.proportionOfEnergyToAbsorb, dt
+      );
+      trackers.up.addEnergyInfo(
+        ( totalBandEnergyCrossingUpward.get( band ) || 0 ) * this.proportionOfEnergyToAbsorb, dt
+      );
+    } );
   }
 
   /**
@@ -187,6 +236,10 @@ class FluxSensor extends PhetioObject {
     this.visibleLightUpEnergyRateTracker.reset();
     this.infraredLightDownEnergyRateTracker.reset();
     this.infraredLightUpEnergyRateTracker.reset();
+    this.bandEnergyRateTrackers.forEach( trackers => {
+      trackers.down.reset();
+      trackers.up.reset();
+    } );
   }
 
   /**
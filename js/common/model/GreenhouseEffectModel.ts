@@ -10,15 +10,32 @@
 import BooleanProperty from '../../../../axon/js/BooleanProperty.js';
 import EnumerationProperty from '../../../../axon/js/EnumerationProperty.js';
 import TModel from '../../../../joist/js/TModel.js';
-import optionize, { EmptySelfOptions } from '../../../../phet-core/js/optionize.js';
+import optionize from '../../../../phet-core/js/optionize.js';
 import WithRequired from '../../../../phet-core/js/types/WithRequired.js';
 import TimeSpeed from '../../../../scenery-phet/js/TimeSpeed.js';
 import PhetioObject, { PhetioObjectOptions } from '../../../../tandem/js/PhetioObject.js';
 
-type SelfOptions = EmptySelfOptions;
+// The amount by which the model time is scaled for each of the time speeds.  Speeds greater than 1 must be integers,
+// since they are implemented by stepping the model multiple times per frame rather than by using a larger time step.
+const TIME_SPEED_MULTIPLIERS = new Map<TimeSpeed, number>( [
+  [ TimeSpeed.FAST, 4 ],
+  [ TimeSpeed.NORMAL, 1 ],
+  [ TimeSpeed.SLOW, 0.5 ]
+] );
+
+type SelfOptions = {
+
+  // The time speeds that are supported by this model.  Models for screens where the user can choose the speed can opt in
+  // to TimeSpeed.FAST.
+  timeSpeeds?: TimeSpeed[];
+};
 export type GreenhouseEffectModelOptions = SelfOptions & WithRequired<PhetioObjectOptions, 'tandem'>;
 
 class GreenhouseEffectModel extends PhetioObject implements TModel {
+
+  // the time speeds that are supported by this model, in the order in which they should be presented
+  public readonly timeSpeeds: TimeSpeed[];
+
   public readonly timeSpeedProperty: EnumerationProperty<TimeSpeed>;
   public readonly isPlayingProperty: BooleanProperty;
 
@@ -26,6 +43,8 @@ class GreenhouseEffectModel extends PhetioObject implements TModel {
 
     const options = optionize<GreenhouseEffectModelOptions, SelfOptions, PhetioObjectOptions>()( {
 
+      timeSpeeds: [ TimeSpeed.NORMAL, TimeSpeed.SLOW ],
+
       // By default, this is not stateful, but note that some subtypes such as WavesModel override this and specify a
       // phetioType.
       phetioState: false,
@@ -37,9 +56,11 @@ class GreenhouseEffectModel extends PhetioObject implements TModel {
 
     super( options );
 
+    this.timeSpeeds = options.timeSpeeds;
+
     // playing speed for the model
     this.timeSpeedProperty = new EnumerationProperty( TimeSpeed.NORMAL, {
-      validValues: [ TimeSpeed.NORMAL, TimeSpeed.SLOW ],
+      validValues: options.timeSpeeds,
       tandem: options.tandem.createTandem( 'timeSpeedProperty' ),
       phetioFeatured: true
     } );
@@ -69,11 +90,27 @@ class GreenhouseEffectModel extends PhetioObject implements TModel {
    */
   public step( dt: number ): void {
     if ( this.isPlayingProperty.value ) {
-      const timeStep = this.timeSpeedProperty.value === TimeSpeed.NORMAL ? dt : dt / 2;
-      this.stepModel( timeStep );
+      const timeSpeedMultiplier = this.getTimeSpeedMultiplier();
+      if ( timeSpeedMultiplier > 1 ) {
+
+        // Step the model multiple times rather than using a larger dt so that the time-based behavior of the model
+        // elements, such as the motion of the photons and waves, is the same as it is at normal speed.
+        _.times( timeSpeedMultiplier, () => this.stepModel( dt ) );
+      }
+      else {
+        this.stepModel( dt * timeSpeedMultiplier );
+      }
     }
   }
 
+  /**
+   * Get the amount by which the model time is scaled relative to real time for the current time speed.
+   */
+  public getTimeSpeedMultiplier(): number {
+    assert && assert( TIME_SPEED_MULTIPLIERS.has( this.timeSpeedProperty.value ), 'unsupported time speed' );
+    return TIME_SPEED_MULTIPLIERS.get( this.timeSpeedProperty.value )!;
+  }
+
   /**
    * Reset the model to its initial state.
    */
@@ -0,0 +1,173 @@
+// Copyright 2026, University of Colorado Boulder
+
+/**
+ * GreenhouseGasComposition models the amounts of the individual greenhouse gases in the atmosphere - carbon dioxide,
+ * methane, nitrous oxide, and water vapor - so that each one can be changed independently.  The gases trap different
+ * amounts of infrared energy, so each contributes to the total radiative forcing, which is the change in the energy
+ * balance at the top of the atmosphere relative to the pre-industrial atmosphere of 1750, with its own weighting.
+ *
+ * The forcing values for carbon dioxide, methane, and nitrous oxide use the simplified expressions from Myhre et al.
+ * (1998), without the small terms for the overlap between the absorption bands of methane and nitrous oxide.  The
+ * absorption by water vapor also goes up roughly with the logarithm of its amount (Held and Soden, 2000, "Water Vapor
+ * Feedback and Global Warming"), so it uses the same form as carbon dioxide.  Its coefficient is chosen so that the
+ * increase in water vapor for one degree of warming, from the Clausius-Clapeyron relation, produces the water vapor
+ * feedback of 1.8 W/m² per degree found for climate models by Soden and Held (2006), "An Assessment of Climate
+ * Feedbacks in Coupled Ocean-Atmosphere Models".  In the real atmosphere, the amount of water vapor is set by the
+ * temperature rather than by emissions, see WaterVaporFeedback, so setting it here shows what a given amount would do
+ * rather than something that people could cause directly.
+ *
+ * @author John Blanco (PhET Interactive Simulations)
+ */
+
+import BooleanProperty from '../../../../axon/js/BooleanProperty.js';
+import DerivedProperty from '../../../../axon/js/DerivedProperty.js';
+import NumberProperty from '../../../../axon/js/NumberProperty.js';
+import { TReadOnlyProperty } from '../../../../axon/js/TReadOnlyProperty.js';
+import Range from '../../../../dot/js/Range.js';
+import optionize from '../../../../phet-core/js/optionize.js';
+import WithRequired from '../../../../phet-core/js/types/WithRequired.js';
+import PhetioObject, { PhetioObjectOptions } from '../../../../tandem/js/PhetioObject.js';
+import NumberIO from '../../../../tandem/js/types/NumberIO.js';
+import WaterVaporFeedback from './WaterVaporFeedback.js';
+
+// The amounts of the gases in 1750, which is the reference for the radiative forcing and the initial composition.  The
+// water vapor value is roughly the average for the whole atmosphere, about 0.4%.
+const REFERENCE_CARBON_DIOXIDE = 277; // in ppm
+const REFERENCE_METHANE = 694; // in ppb
+const REFERENCE_NITROUS_OXIDE = 271; // in ppb
+const REFERENCE_WATER_VAPOR = 4000; // in ppm
+
+// the water vapor feedback parameter from Soden and Held (2006), in W/m² per degree Kelvin of warming
+const WATER_VAPOR_FEEDBACK_PARAMETER = 1.8;
+
+// coefficients for the radiative forcing expressions, in W/m²
+const CARBON_DIOXIDE_FORCING_COEFFICIENT = 5.35;
+const METHANE_FORCING_COEFFICIENT = 0.036;
+const NITROUS_OXIDE_FORCING_COEFFICIENT = 0.12;
+const WATER_VAPOR_FORCING_COEFFICIENT = WATER_VAPOR_FEEDBACK_PARAMETER /
+                                        Math.log( 1 + WaterVaporFeedback.CLAUSIUS_CLAPEYRON_RATE );
+
+type SelfOptions = {
+
+  // whether the concentration is initially set by the amounts of the individual gases
+  initiallyEnabled?: boolean;
+};
+export type GreenhouseGasCompositionOptions = SelfOptions & WithRequired<PhetioObjectOptions, 'tandem'>;
+
+class GreenhouseGasComposition extends PhetioObject {
+
+  // whether the greenhouse gas concentration is set by the amounts of the individual gases
+  public readonly enabledProperty: BooleanProperty;
+
+  // amount of carbon dioxide in the atmosphere, in parts per million (ppm)
+  public readonly carbonDioxideProperty: NumberProperty;
+
+  // amount of methane in the atmosphere, in parts per billion (ppb)
+  public readonly methaneProperty: NumberProperty;
+
+  // amount of nitrous oxide in the atmosphere, in parts per billion (ppb)
+  public readonly nitrousOxideProperty: NumberProperty;
+
+  // amount of water vapor in the atmosphere, in parts per million (ppm)
+  public readonly waterVaporProperty: NumberProperty;
+
+  // the total radiative forcing from all the gases relative to 1750, in W/m²
+  public readonly radiativeForcingProperty: TReadOnlyProperty<number>;
+
+  public constructor( providedOptions: GreenhouseGasCompositionOptions ) {
+
+    const options = optionize<GreenhouseGasCompositionOptions, SelfOptions, PhetioObjectOptions>()( {
+      initiallyEnabled: false,
+
+      // phet-io
+      phetioState: false,
+      phetioDocumentation: 'The amounts of the individual greenhouse gases in the atmosphere, which can be set ' +
+                           'independently when enabled.',
+      isDisposable: false
+    }, providedOptions );
+
+    super( options );
+
+    this.enabledProperty = new BooleanProperty( options.initiallyEnabled, {
+      tandem: options.tandem.createTandem( 'enabledProperty' ),
+      phetioFeatured: true,
+      phetioDocumentation: 'Whether the greenhouse gas concentration is set by the amounts of the individual gases ' +
+                           'when it is controlled by value.  The controls for the gases are shown when this is true.'
+    } );
+
+    this.carbonDioxideProperty = new NumberProperty( REFERENCE_CARBON_DIOXIDE, {
+      range: new Range( 100, 1200 ),
+      tandem: options.tandem.createTandem( 'carbonDioxideProperty' ),
+      phetioFeatured: true,
+      phetioDocumentation: 'The amount of carbon dioxide in the atmosphere, in parts per million.'
+    } );
+
+    this.methaneProperty = new NumberProperty( REFERENCE_METHANE, {
+      range: new Range( 0, 6000 ),
+      tandem: options.tandem.createTandem( 'methaneProperty' ),
+      phetioFeatured: true,
+      phetioDocumentation: 'The amount of methane in the atmosphere, in parts per billion.'
+    } );
+
+    this.nitrousOxideProperty = new NumberProperty( REFERENCE_NITROUS_OXIDE, {
+      range: new Range( 0, 1000 ),
+      tandem: options.tandem.createTandem( 'nitrousOxideProperty' ),
+      phetioFeatured: true,
+      phetioDocumentation: 'The amount of nitrous oxide in the atmosphere, in parts per billion.'
+    } );
+
+    this.waterVaporProperty = new NumberProperty( REFERENCE_WATER_VAPOR, {
+      range: new Range( 1000, 16000 ),
+      tandem: options.tandem.createTandem( 'waterVaporProperty' ),
+      phetioFeatured: true,
+      phetioDocumentation: 'The amount of water vapor in the atmosphere, in parts per million.'
+    } );
+
+    this.radiativeForcingProperty = new DerivedProperty(
+      [ this.carbonDioxideProperty, this.methaneProperty, this.nitrousOxideProperty, this.waterVaporProperty ],
+      GreenhouseGasComposition.getRadiativeForcing,
+      {
+        tandem: options.tandem.createTandem( 'radiativeForcingProperty' ),
+        phetioValueType: NumberIO,
+        phetioFeatured: true,
+        phetioDocumentation: 'The total radiative forcing of the gases relative to the atmosphere of 1750, in W/m².'
+      }
+    );
+  }
+
+  /**
+   * Restore the initial composition.
+   */
+  public reset(): void {
+    this.enabledProperty.reset();
+    this.carbonDioxideProperty.reset();
+    this.methaneProperty.reset();
+    this.nitrousOxideProperty.reset();
+    this.waterVaporProperty.reset();
+  }
+
+  /**
+   * Get the total radiative forcing, in W/m², of the provided amounts of the gases relative to the atmosphere of 1750.
+   * The forcing values for carbon dioxide and water vapor are logarithmic, so their amounts must be greater than zero.
+   * @param carbonDioxide - in ppm
+   * @param methane - in ppb
+   * @param nitrousOxide - in ppb
+   * @param waterVapor - in ppm
+   */
+  public static getRadiativeForcing( carbonDioxide: number,
+                                     methane: number,
+                                     nitrousOxide: number,
+                                     waterVapor: number ): number {
+    assert && assert( carbonDioxide > 0, `carbon dioxide must be greater than zero, got ${carbonDioxide}` );
+    assert && assert( waterVapor > 0, `water vapor must be greater than zero, got ${waterVapor}` );
+    return CARBON_DIOXIDE_FORCING_COEFFICIENT * Math.log( carbonDioxide / REFERENCE_CARBON_DIOXIDE ) +
+           METHANE_FORCING_COEFFICIENT * ( Math.sqrt( methane ) - Math.sqrt( REFERENCE_METHANE ) ) +
+           NITROUS_OXIDE_FORCING_COEFFICIENT * ( Math.sqrt( nitrousOxide ) - Math.sqrt( REFERENCE_NITROUS_OXIDE ) ) +
+           WATER_VAPOR_FORCING_COEFFICIENT * Math.log( waterVapor / REFERENCE_WATER_VAPOR );
+  }
+
+  // the amount of water vapor, in ppm, for the atmosphere of 1750, which is used when the amount isn't set by the user
+  public static readonly REFERENCE_WATER_VAPOR = REFERENCE_WATER_VAPOR;
+}
+
+export default GreenhouseGasComposition;
@@ -0,0 +1,120 @@
+// Copyright 2026, University of Colorado Boulder
+
+/**
+ * GreenhouseGasHistory provides the atmospheric concentrations of carbon dioxide, methane, and nitrous oxide for any
+ * year from the depths of the last ice age through the end of this century.  The values are interpolated from a
+ * bundled set of records.  The values up to the mid-twentieth century are rounded from ice core measurements, those
+ * from 1960 through 2020 are rounded from direct atmospheric measurements such as those made at Mauna Loa, and those
+ * after 2020 are projections for an intermediate emissions scenario (SSP2-4.5).
+ *
+ * The records for the ice age, 1750, 1950, and 2020 match the values used elsewhere in the sim for those dates so that
+ * the continuous timeline agrees with the discrete time periods.
+ *
+ * @author John Blanco (PhET Interactive Simulations)
+ */
+
+import Range from '../../../../dot/js/Range.js';
+import Utils from '../../../../dot/js/Utils.js';
+
+type GreenhouseGasRecord = {
+
+  // year, where negative values are BCE
+  year: number;
+
+  // carbon dioxide concentration in parts per million (ppm)
+  carbonDioxide: number;
+
+  // methane concentration in parts per billion (ppb)
+  methane: number;
+
+  // nitrous oxide concentration in parts per billion (ppb)
+  nitrousOxide: number;
+};
+
+// the records, in chronological order
+const RECORDS: GreenhouseGasRecord[] = [
+  { year: -20000, carbonDioxide: 180, methane: 380, nitrousOxide: 215 },
+  { year: -17000, carbonDioxide: 190, methane: 390, nitrousOxide: 215 },
+  { year: -15000, carbonDioxide: 205, methane: 450, nitrousOxide: 225 },
+  { year: -14500, carbonDioxide: 230, methane: 650, nitrousOxide: 250 },
+  { year: -12800, carbonDioxide: 240, methane: 480, nitrousOxide: 245 },
+  { year: -11500, carbonDioxide: 255, methane: 680, nitrousOxide: 260 },
+  { year: -9700, carbonDioxide: 262, methane: 690, nitrousOxide: 265 },
+  { year: -8000, carbonDioxide: 262, methane: 640, nitrousOxide: 262 },
+  { year: -6000, carbonDioxide: 262, methane: 590, nitrousOxide: 262 },
+  { year: -4000, carbonDioxide: 268, methane: 600, nitrousOxide: 263 },
+  { year: -2000, carbonDioxide: 274, methane: 640, nitrousOxide: 265 },
+  { year: 0, carbonDioxide: 278, methane: 680, nitrousOxide: 268 },
+  { year: 1000, carbonDioxide: 280, methane: 700, nitrousOxide: 268 },
+  { year: 1500, carbonDioxide: 281, methane: 700, nitrousOxide: 268 },
+  { year: 1600, carbonDioxide: 276, methane: 690, nitrousOxide: 268 },
+  { year: 1750, carbonDioxide: 277, methane: 694, nitrousOxide: 271 },
+  { year: 1800, carbonDioxide: 283, methane: 730, nitrousOxide: 272 },
+  { year: 1850, carbonDioxide: 285, methane: 790, nitrousOxide: 274 },
+  { year: 1900, carbonDioxide: 296, methane: 880, nitrousOxide: 279 },
+  { year: 1950, carbonDioxide: 311, methane: 1116, nitrousOxide: 288 },
+  { year: 1960, carbonDioxide: 317, methane: 1230, nitrousOxide: 291 },
+  { year: 1970, carbonDioxide: 326, methane: 1400, nitrousOxide: 295 },
+  { year: 1980, carbonDioxide: 339, methane: 1570, nitrousOxide: 301 },
+  { year: 1990, carbonDioxide: 354, methane: 1714, nitrousOxide: 309 },
+  { year: 2000, carbonDioxide: 370, methane: 1773, nitrousOxide: 316 },
+  { year: 2010, carbonDioxide: 390, methane: 1799, nitrousOxide: 323 },
+  { year: 2020, carbonDioxide: 413, methane: 1889, nitrousOxide: 333 },
+  { year: 2030, carbonDioxide: 440, methane: 1930, nitrousOxide: 338 },
+  { year: 2050, carbonDioxide: 487, methane: 1970, nitrousOxide: 348 },
+  { year: 2075, carbonDioxide: 545, methane: 1880, nitrousOxide: 362 },
+  { year: 2100, carbonDioxide: 603, methane: 1630, nitrousOxide: 375 }
+];
+
+// the span of years covered by the records
+const YEAR_RANGE = new Range( RECORDS[ 0 ].year, RECORDS[ RECORDS.length - 1 ].year );
+
+// the years for which there are records, in chronological order
+const RECORD_YEARS = RECORDS.map( record => record.year );
+
+/**
+ * Get a value for the provided year by linearly interpolating between the records on either side of it.
+ */
+const interpolate = ( year: number, getValue: ( record: GreenhouseGasRecord ) => number ): number => {
+  assert && assert( YEAR_RANGE.contains( year ), `year out of range: ${year}` );
+  const constrainedYear = YEAR_RANGE.constrainValue( year );
+  const laterRecordIndex = Math.max( RECORDS.findIndex( record => record.year >= constrainedYear ), 1 );
+  const earlierRecord = RECORDS[ laterRecordIndex - 1 ];
+  const laterRecord = RECORDS[ laterRecordIndex ];
+  return Utils.linear(
+    earlierRecord.year,
+    laterRecord.year,
+    getValue( earlierRecord ),
+    getValue( laterRecord ),
+    constrainedYear
+  );
+};
+
+const GreenhouseGasHistory = {
+
+  YEAR_RANGE: YEAR_RANGE,
+  RECORD_YEARS: RECORD_YEARS,
+
+  /**
+   * Get the carbon dioxide concentration, in ppm, for the provided year.
+   */
+  getCarbonDioxideConcentration( year: number ): number {
+    return interpolate( year, record => record.carbonDioxide );
+  },
+
+  /**
+   * Get the methane concentration, in ppb, for the provided year.
+   */
+  getMethaneConcentration( year: number ): number {
+    return interpolate( year, record => record.methane );
+  },
+
+  /**
+   * Get the nitrous oxide concentration, in ppb, for the provided year.
+   */
+  getNitrousOxideConcentration( year: number ): number {
+    return interpolate( year, record => record.nitrousOxide );
+  }
+};
+
+export default GreenhouseGasHistory;
@@ -3,9 +3,20 @@
 /**
  * GroundLayer is a subclass of EnergyAbsorbingEmittingLayer and adds the behavior that is specific to the ground.
  *
+ * The ground is opaque, so by Kirchhoff's law of thermal radiation its absorptivity for infrared energy is equal to
+ * its emissivity, and the infrared energy that isn't absorbed is reflected.
+ *
+ * The ground can be either land or ocean.  The ocean surface takes much more energy to warm or cool, so its
+ * temperature responds much more slowly to changes in the energy that it absorbs.  Other substances can be used for
+ * the ground through PhET-iO in models that have a substance registry.  The surface type and the substance both set
+ * what the ground is made of, so they are mutually exclusive.  The surface type only has an effect when the substance
+ * can't be set through PhET-iO.  When it can, the surface type stays at land and the ground keeps the standard
+ * thickness for whatever substance is used.
+ *
  * @author John Blanco (PhET Interactive Simulations)
  */
 
+import EnumerationProperty from '../../../../axon/js/EnumerationProperty.js';
 import NumberProperty from '../../../../axon/js/NumberProperty.js';
 import Range from '../../../../dot/js/Range.js';
 import optionize from '../../../../phet-core/js/optionize.js';
@@ -13,7 +24,8 @@ import WithRequired from '../../../../phet-core/js/types/WithRequired.js';
 import EMEnergyPacket from './EMEnergyPacket.js';
 import EnergyAbsorbingEmittingLayer, { EnergyAbsorbingEmittingLayerOptions } from './EnergyAbsorbingEmittingLayer.js';
 import EnergyDirection from './EnergyDirection.js';
-import isVisible from './isVisible.js';
+import isSunlight from './isSunlight.js';
+import SurfaceType from './SurfaceType.js';
 
 // constants
 
@@ -28,11 +40,17 @@ const PARTIALLY_GLACIATED_LAND_ALBEDO = 0.225;
 type SelfOptions = {
   initialAlbedo?: number;
   albedoPhetioReadOnly?: boolean;
+  initialSurfaceType?: SurfaceType;
 };
 export type GroundLayerOptions = SelfOptions & WithRequired<EnergyAbsorbingEmittingLayerOptions, 'tandem'>;
 
 class GroundLayer extends EnergyAbsorbingEmittingLayer {
   public readonly albedoProperty: NumberProperty;
+  public readonly surfaceTypeProperty: EnumerationProperty<SurfaceType>;
+
+  // whether the surface type sets the substance and thickness of the ground, which is the case when the substance
+  // can't be set through PhET-iO
+  private readonly surfaceTypeSetsSubstance: boolean;
 
   public constructor( providedOptions?: GroundLayerOptions ) {
 
@@ -40,8 +58,14 @@ class GroundLayer extends EnergyAbsorbingEmittingLayer {
 
       initialAlbedo: GROUND_ALBEDO,
       albedoPhetioReadOnly: true,
+      initialSurfaceType: SurfaceType.LAND,
 
       substance: EnergyAbsorbingEmittingLayer.Substance.EARTH,
+      substancePhetioReadOnly: true,
+
+      // The ground only radiates upward, since there's nothing below it to receive the energy.
+      permittedRadiationDirections: [ EnergyDirection.UP ],
+
       initialEnergyAbsorptionProportion: 1,
       supportsShowTemperature: true,
 
@@ -64,6 +88,27 @@ class GroundLayer extends EnergyAbsorbingEmittingLayer {
       phetioFeatured: true,
       phetioDocumentation: 'Proportion of incident light reflected from the ground from 0 (no reflection) to 1 (all light is reflected).'
     } );
+
+    // the kind of surface, which determines how much energy it takes to change the temperature of the ground
+    this.surfaceTypeProperty = new EnumerationProperty( options.initialSurfaceType, {
+      tandem: options.tandem.createTandem( 'surfaceTypeProperty' ),
+      phetioReadOnly: !options.substancePhetioReadOnly,
+      phetioFeatured: true,
+      phetioDocumentation: 'The kind of surface that the ground has.  The ocean surface has a much larger heat ' +
+                           'capacity than land, so its temperature changes more slowly.'
+    } );
+    this.surfaceTypeSetsSubstance = options.substancePhetioReadOnly;
+    this.surfaceTypeProperty.link( surfaceType => {
+      if ( this.surfaceTypeSetsSubstance ) {
+        this.applySurfaceType( surfaceType );
+      }
+      else {
+        assert && assert(
+          surfaceType === SurfaceType.LAND,
+          'the surface type can only be changed when the substance can\'t be set through PhET-iO'
+        );
+      }
+    } );
   }
 
   /**
@@ -74,11 +119,12 @@ class GroundLayer extends EnergyAbsorbingEmittingLayer {
     emEnergyPackets.forEach( energyPacket => {
       if ( energyPacket.direction === EnergyDirection.DOWN && this.energyPacketCrossedThisLayer( energyPacket ) ) {
 
-        // Only visible light is reflected, IR is fully absorbed.
-        const albedo = isVisible( energyPacket ) ? this.albedoProperty.value : 0;
+        // Sunlight is reflected based on the albedo, and IR is reflected based on the emissivity.
+        const reflectance = isSunlight( energyPacket ) ? this.albedoProperty.value : 1 - this.emissivityProperty.value;
 
-        absorbedEnergy += energyPacket.energy * ( 1 - albedo );
-        const reflectedEnergy = energyPacket.energy - absorbedEnergy;
+        const energyToAbsorb = energyPacket.energy * ( 1 - reflectance );
+        absorbedEnergy += energyToAbsorb;
+        const reflectedEnergy = energyPacket.energy - energyToAbsorb;
         if ( reflectedEnergy > 0 ) {
 
           // Some of the energy in this packet has been reflected.  Reverse the direction of the packet and set its
@@ -97,9 +143,24 @@ class GroundLayer extends EnergyAbsorbingEmittingLayer {
     return absorbedEnergy;
   }
 
+  /**
+   * Set the substance and thickness of the ground to those for the provided surface type.  This replaces any other
+   * substance that has been set.
+   */
+  private applySurfaceType( surfaceType: SurfaceType ): void {
+    this.setRelativeThickness( surfaceType.relativeThickness );
+    this.substanceProperty.set( surfaceType.substance );
+  }
+
   public override reset(): void {
     this.albedoProperty.reset();
     super.reset();
+
+    // The superclass resets the substance, so make sure that it matches the surface type if the surface type sets it.
+    this.surfaceTypeProperty.reset();
+    if ( this.surfaceTypeSetsSubstance ) {
+      this.applySurfaceType( this.surfaceTypeProperty.value );
+    }
   }
 
   public static readonly MINIMUM_EARTH_AT_NIGHT_TEMPERATURE = MINIMUM_EARTH_AT_NIGHT_TEMPERATURE;
@@ -0,0 +1,185 @@
+// Copyright 2026, University of Colorado Boulder
+
+/**
+ * IceAlbedoFeedback models the way that the amount of ice on the surface of the Earth changes with temperature, and
+ * how this changes the albedo of the surface.  Ice reflects much more sunlight than land or water, so as the surface
+ * cools and the ice spreads, less sunlight is absorbed and the surface cools further.  The reverse happens as the
+ * surface warms.  This positive feedback can lead to runaway cooling or warming once a tipping point is crossed, and to
+ * hysteresis, where the conditions needed to melt the ice are different from those that caused it to form.
+ *
+ * The ice doesn't respond instantly to changes in temperature, but instead moves gradually towards the extent that
+ * corresponds to the current temperature.  The ground starts out colder than the temperature at which the surface is
+ * fully covered in ice, and it passes through the range where ice forms as it warms up after the sun is started.  To
+ * keep ice from building up during this warm-up period, the ice doesn't change until the sun is shining and the energy
+ * coming in and going out have come into balance for the first time.
+ *
+ * @author John Blanco (PhET Interactive Simulations)
+ */
+
+import BooleanProperty from '../../../../axon/js/BooleanProperty.js';
+import NumberProperty from '../../../../axon/js/NumberProperty.js';
+import { TReadOnlyProperty } from '../../../../axon/js/TReadOnlyProperty.js';
+import Range from '../../../../dot/js/Range.js';
+import Utils from '../../../../dot/js/Utils.js';
+import optionize from '../../../../phet-core/js/optionize.js';
+import WithRequired from '../../../../phet-core/js/types/WithRequired.js';
+import PhetioObject, { PhetioObjectOptions } from '../../../../tandem/js/PhetioObject.js';
+import GreenhouseEffectUtils from '../GreenhouseEffectUtils.js';
+import GroundLayer from './GroundLayer.js';
+
+type SelfOptions = {
+
+  // whether the feedback is initially in effect
+  initiallyEnabled?: boolean;
+
+  // the albedo of the surface when there is no ice and when it is completely covered in ice
+  iceFreeAlbedo?: number;
+  fullIceAlbedo?: number;
+
+  // Surface temperatures, in Kelvin, at and above which there is no ice and at and below which the surface is
+  // completely covered in ice.  The ice extent changes with the square of the temperature below the ice-free value,
+  // so the feedback is weak when there is little ice and becomes strong enough to cause runaway cooling as the ice
+  // spreads.
+  iceFreeTemperature?: number;
+  fullIceTemperature?: number;
+
+  // time constant, in seconds, for the ice extent to approach the value that corresponds to the surface temperature
+  responseTime?: number;
+};
+export type IceAlbedoFeedbackOptions = SelfOptions & WithRequired<PhetioObjectOptions, 'tandem'>;
+
+class IceAlbedoFeedback extends PhetioObject {
+
+  // whether the albedo of the ground is being set based on the extent of the ice
+  public readonly enabledProperty: BooleanProperty;
+
+  // proportion of the surface covered by ice, from 0 (no ice) to 1 (completely covered)
+  public readonly iceExtentProperty: NumberProperty;
+
+  // whether the surface has warmed up after the sun was started, which must happen before the ice responds
+  public readonly surfaceWarmedUpProperty: BooleanProperty;
+
+  private readonly surfaceTemperatureProperty: TReadOnlyProperty<number>;
+  private readonly isSunShiningProperty: TReadOnlyProperty<boolean>;
+  private readonly inRadiativeBalanceProperty: TReadOnlyProperty<boolean>;
+  private readonly iceFreeAlbedo: number;
+  private readonly fullIceAlbedo: number;
+  private readonly iceFreeTemperature: number;
+  private readonly fullIceTemperature: number;
+  private readonly responseTime: number;
+
+  public constructor( surfaceTemperatureProperty: TReadOnlyProperty<number>,
+                      isSunShiningProperty: TReadOnlyProperty<boolean>,
+                      inRadiativeBalanceProperty: TReadOnlyProperty<boolean>,
+                      providedOptions: IceAlbedoFeedbackOptions ) {
+
+    const options = optionize<IceAlbedoFeedbackOptions, SelfOptions, PhetioObjectOptions>()( {
+      initiallyEnabled: false,
+      iceFreeAlbedo: GroundLayer.GREEN_MEADOW_ALBEDO,
+      fullIceAlbedo: 0.5,
+      iceFreeTemperature: 285,
+      fullIceTemperature: 255,
+      responseTime: 10,
+
+      // phet-io
+      phetioState: false,
+      phetioDocumentation: 'Changes in the amount of ice on the surface with temperature, and the resulting changes ' +
+                           'in the albedo of the surface.',
+      isDisposable: false
+    }, providedOptions );
+
+    assert && assert( options.fullIceTemperature < options.iceFreeTemperature, 'invalid temperature values' );
+
+    super( options );
+
+    this.surfaceTemperatureProperty = surfaceTemperatureProperty;
+    this.isSunShiningProperty = isSunShiningProperty;
+    this.inRadiativeBalanceProperty = inRadiativeBalanceProperty;
+    this.iceFreeAlbedo = options.iceFreeAlbedo;
+    this.fullIceAlbedo = options.fullIceAlbedo;
+    this.iceFreeTemperature = options.iceFreeTemperature;
+    this.fullIceTemperature = options.fullIceTemperature;
+    this.responseTime = options.responseTime;
+
+    this.enabledProperty = new BooleanProperty( options.initiallyEnabled, {
+      tandem: options.tandem.createTandem( 'enabledProperty' ),
+      phetioFeatured: true,
+      phetioDocumentation: 'Whether the amount of ice on the surface, and thus the surface albedo, changes with the ' +
+                           'surface temperature.'
+    } );
+
+    this.iceExtentProperty = new NumberProperty( 0, {
+      range: new Range( 0, 1 ),
+      tandem: options.tandem.createTandem( 'iceExtentProperty' ),
+      phetioReadOnly: true,
+      phetioFeatured: true,
+      phetioHighFrequency: true,
+      phetioDocumentation: 'Proportion of the surface covered by ice, from 0 (no ice) to 1 (completely covered).'
+    } );
+
+    this.surfaceWarmedUpProperty = new BooleanProperty( false, {
+      tandem: options.tandem.createTandem( 'surfaceWarmedUpProperty' ),
+      phetioReadOnly: true,
+      phetioDocumentation: 'Whether the surface has warmed up and come into radiative balance after the sun was ' +
+                           'started.  The ice does not change until this is true.'
+    } );
+  }
+
+  /**
+   * Move the ice extent towards the value for the current surface temperature once the surface has warmed up.
+   * @param dt - delta time, in seconds
+   */
+  public step( dt: number ): void {
+    if ( !this.isSunShiningProperty.value ) {
+      this.surfaceWarmedUpProperty.value = false;
+    }
+    else if ( this.inRadiativeBalanceProperty.value ) {
+      this.surfaceWarmedUpProperty.value = true;
+    }
+    if ( this.enabledProperty.value && this.surfaceWarmedUpProperty.value ) {
+      const targetIceExtent = this.getIceExtentForTemperature( this.surfaceTemperatureProperty.value );
+      this.iceExtentProperty.set( GreenhouseEffectUtils.approachTargetValue(
+        this.iceExtentProperty.value,
+        targetIceExtent,
+        dt,
+        this.responseTime
+      ) );
+    }
+  }
+
+  /**
+   * Get the extent of the ice that would exist at the provided surface temperature once the ice has had time to
+   * respond.
+   * @param surfaceTemperature - in Kelvin
+   */
+  public getIceExtentForTemperature( surfaceTemperature: number ): number {
+    const proportionOfRange = ( this.iceFreeTemperature - surfaceTemperature ) /
+                              ( this.iceFreeTemperature - this.fullIceTemperature );
+    return Math.pow( Utils.clamp( proportionOfRange, 0, 1 ), 2 );
+  }
+
+  /**
+   * Get the albedo of the surface for the current extent of the ice.
+   */
+  public getAlbedo(): number {
+    return this.iceFreeAlbedo + this.iceExtentProperty.value * ( this.fullIceAlbedo - this.iceFreeAlbedo );
+  }
+
+  /**
+   * Get the ice extent that produces the provided albedo.  The value is not limited to the valid range for the extent.
+   */
+  public getIceExtentForAlbedo( albedo: number ): number {
+    return ( albedo - this.iceFreeAlbedo ) / ( this.fullIceAlbedo - this.iceFreeAlbedo );
+  }
+
+  /**
+   * Return to the initial state.
+   */
+  public reset(): void {
+    this.enabledProperty.reset();
+    this.iceExtentProperty.reset();
+    this.surfaceWarmedUpProperty.reset();
+  }
+}
+
+export default IceAlbedoFeedback;
@@ -0,0 +1,93 @@
+// Copyright 2026, University of Colorado Boulder
+
+/**
+ * Insolation contains functions for calculating the amount of sunlight arriving at the top of the atmosphere for a
+ * given latitude and day of the year.  This depends on the declination of the sun, which changes with the seasons due
+ * to the tilt of the Earth's axis, and on the distance between the Earth and the sun, which changes a little over the
+ * course of a year because the orbit is elliptical.  See https://en.wikipedia.org/wiki/Solar_irradiance for
+ * background on the equations used.
+ *
+ * @author John Blanco (PhET Interactive Simulations)
+ */
+
+import Utils from '../../../../dot/js/Utils.js';
+
+// constants
+const DAYS_PER_YEAR = 365;
+const AXIAL_TILT = Utils.toRadians( 23.44 );
+const ORBITAL_ECCENTRICITY_FACTOR = 0.033; // variation in the intensity of sunlight due to the Earth-sun distance
+
+// The day of the year on which the winter solstice occurs in the northern hemisphere, counting from 1 for January 1st.
+// This is the day of the year on which the declination is at its minimum.
+const DAY_OF_DECEMBER_SOLSTICE = -10;
+
+// The day of the year on which the Earth is closest to the sun.
+const DAY_OF_PERIHELION = 3;
+
+const Insolation = {
+
+  /**
+   * Get the declination of the sun, which is the latitude at which the sun is directly overhead at noon.
+   * @param dayOfYear - from 1 to 365
+   * @returns the declination in radians
+   */
+  getDeclination( dayOfYear: number ): number {
+    return -AXIAL_TILT * Math.cos( 2 * Math.PI * ( dayOfYear - DAY_OF_DECEMBER_SOLSTICE ) / DAYS_PER_YEAR );
+  },
+
+  /**
+   * Get the ratio of the intensity of the sunlight reaching the Earth on the provided day to that at the average
+   * Earth-sun distance.  This is the square of the ratio of the average distance to the actual distance.
+   * @param dayOfYear - from 1 to 365
+   */
+  getDistanceFactor( dayOfYear: number ): number {
+    const orbitalAngle = 2 * Math.PI * ( dayOfYear - DAY_OF_PERIHELION ) / DAYS_PER_YEAR;
+    return 1 + ORBITAL_ECCENTRICITY_FACTOR * Math.cos( orbitalAngle );
+  },
+
+  /**
+   * Get the cosine of the solar zenith angle, which is the angle between the sun and straight overhead.  This is
+   * negative when the sun is below the horizon.
+   * @param latitude - in radians
+   * @param declination - in radians
+   * @param hourAngle - in radians, 0 at noon and ±π at midnight
+   */
+  getCosineOfZenithAngle( latitude: number, declination: number, hourAngle: number ): number {
+    return Math.sin( latitude ) * Math.sin( declination ) +
+           Math.cos( latitude ) * Math.cos( declination ) * Math.cos( hourAngle );
+  },
+
+  /**
+   * Get the average over a full day of the cosine of the solar zenith angle, counting times when the sun is below the
+   * horizon as zero.  This is the proportion of the sunlight arriving at the top of the atmosphere that falls on a
+   * horizontal surface, averaged over a day.
+   * @param latitude - in radians
+   * @param declination - in radians
+   */
+  getDailyMeanCosineOfZenithAngle( latitude: number, declination: number ): number {
+
+    // Calculate the hour angle at sunset.  This is 0 during polar night, when the sun doesn't rise, and π during polar
+    // day, when it doesn't set.
+    const sunsetHourAngle = Math.acos( Utils.clamp( -Math.tan( latitude ) * Math.tan( declination ), -1, 1 ) );
+    return ( sunsetHourAngle * Math.sin( latitude ) * Math.sin( declination ) +
+             Math.cos( latitude ) * Math.cos( declination ) * Math.sin( sunsetHourAngle ) ) / Math.PI;
+  },
+
+  /**
+   * Get the amount of sunlight arriving at the top of the atmosphere per unit of horizontal area, averaged over a day.
+   * @param latitude - in degrees, from -90 to 90
+   * @param dayOfYear - from 1 to 365
+   * @param solarConstant - intensity of the sunlight at the average Earth-sun distance, in watts per square meter
+   * @returns the insolation in watts per square meter
+   */
+  getDailyMeanInsolation( latitude: number, dayOfYear: number, solarConstant: number ): number {
+    return solarConstant * Insolation.getDistanceFactor( dayOfYear ) * Insolation.getDailyMeanCosineOfZenithAngle(
+      Utils.toRadians( latitude ),
+      Insolation.getDeclination( dayOfYear )
+    );
+  },
+
+  DAYS_PER_YEAR: DAYS_PER_YEAR
+};
+
+export default Insolation;
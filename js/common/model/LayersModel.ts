@@ -14,10 +14,12 @@ import BooleanProperty from '../../../../axon/js/BooleanProperty.js';
 import DerivedProperty from '../../../../axon/js/DerivedProperty.js';
 import EnumerationProperty from '../../../../axon/js/EnumerationProperty.js';
 import NumberProperty from '../../../../axon/js/NumberProperty.js';
+import Property from '../../../../axon/js/Property.js';
 import { TReadOnlyProperty } from '../../../../axon/js/TReadOnlyProperty.js';
 import Range from '../../../../dot/js/Range.js';
 import optionize, { combineOptions } from '../../../../phet-core/js/optionize.js';
 import StrictOmit from '../../../../phet-core/js/types/StrictOmit.js';
+import isSettingPhetioStateProperty from '../../../../tandem/js/isSettingPhetioStateProperty.js';
 import { FullPhetioState } from '../../../../tandem/js/phet-io-types.js';
 import PhetioObject from '../../../../tandem/js/PhetioObject.js';
 import phetioStateSetEmitter from '../../../../tandem/js/phetioStateSetEmitter.js';
@@ -27,39 +29,80 @@ import NumberIO from '../../../../tandem/js/types/NumberIO.js';
 import ReferenceArrayIO from '../../../../tandem/js/types/ReferenceArrayIO.js';
 import GreenhouseEffectConstants from '../GreenhouseEffectConstants.js';
 import GreenhouseEffectUtils from '../GreenhouseEffectUtils.js';
-import AtmosphereLayer, { AtmosphereLayerOptions } from './AtmosphereLayer.js';
+import AerosolLayer from './AerosolLayer.js';
+import AtmosphereLayer, { AbsorptionSpectrum, AtmosphereLayerOptions } from './AtmosphereLayer.js';
+import AtmosphereLayerSpacing from './AtmosphereLayerSpacing.js';
 import Cloud from './Cloud.js';
+import ConvectiveHeatTransfer from './ConvectiveHeatTransfer.js';
+import DeepOcean from './DeepOcean.js';
 import EMEnergyPacket, { EMEnergyPacketStateObject } from './EMEnergyPacket.js';
 import EnergyAbsorbingEmittingLayer from './EnergyAbsorbingEmittingLayer.js';
 import FluxMeter, { FluxMeterOptions } from './FluxMeter.js';
 import GreenhouseEffectModel, { GreenhouseEffectModelOptions } from './GreenhouseEffectModel.js';
-import GreenhouseEffectPreferences from './GreenhouseEffectPreferences.js';
 import GroundLayer, { GroundLayerOptions } from './GroundLayer.js';
+import LayersModelDataRecorder from './LayersModelDataRecorder.js';
+import RadiativeEquilibriumSolver, { EquilibriumCloudSpec, EquilibriumSolution, EquilibriumSpec } from './RadiativeEquilibriumSolver.js';
 import SpaceEnergySink from './SpaceEnergySink.js';
-import SunEnergySource from './SunEnergySource.js';
+import SpectralBand from './SpectralBand.js';
+import SubstanceRegistry from './SubstanceRegistry.js';
+import SunEnergySource, { SunEnergySourceOptions } from './SunEnergySource.js';
+import SurfaceType from './SurfaceType.js';
 import TemperatureUnits from './TemperatureUnits.js';
 
 // constants
-const HEIGHT_OF_ATMOSPHERE = 50000; // in meters
-const DEFAULT_NUMBER_OF_ATMOSPHERE_LAYERS = 12; // empirically determined to give us good behavior for temperature and energy flux
+const HEIGHT_OF_ATMOSPHERE = GreenhouseEffectConstants.HEIGHT_OF_ATMOSPHERE; // in meters
+const DEFAULT_NUMBER_OF_ATMOSPHERE_LAYERS = GreenhouseEffectConstants.DEFAULT_NUMBER_OF_ATMOSPHERE_LAYERS;
+const MAX_NUMBER_OF_ATMOSPHERE_LAYERS = GreenhouseEffectConstants.MAX_NUMBER_OF_ATMOSPHERE_LAYERS;
+const SCALE_HEIGHT_OF_ATMOSPHERE = 8400; // in meters, taken from a Wikipedia article
 const SUNLIGHT_SPAN = GreenhouseEffectConstants.SUNLIGHT_SPAN;
 const MODEL_TIME_STEP = 1 / 60; // in seconds, originally derived from the most common animation frame rate
 const RADIATIVE_BALANCE_THRESHOLD = 5; // in watts per square meter, empirically determined
-const DEFAULT_TEMPERATURE_UNITS_PROPERTY = GreenhouseEffectPreferences.defaultTemperatureUnitsProperty;
+
+// The amount of model time for which the temperatures are held at their equilibrium values after skipping to
+// equilibrium.  This needs to be long enough for energy to travel from the top of the atmosphere to the ground and back
+// so that the energy in transit and the rate trackers are consistent with the new temperatures.
+const EQUILIBRIUM_SETTLING_TIME = 2.5 * HEIGHT_OF_ATMOSPHERE / GreenhouseEffectConstants.SPEED_OF_LIGHT;
 
 type SelfOptions = {
 
   // the number of energy absorbing and emitting layers in the atmosphere
   numberOfAtmosphereLayers?: number;
 
+  // how the atmosphere layers are distributed between the ground and the top of the atmosphere
+  atmosphereLayerSpacing?: AtmosphereLayerSpacing;
+
+  // Altitudes of the atmosphere layers in meters, in ascending order.  When provided, this overrides both the number
+  // and the spacing of the layers.  All values must be above the ground and below the top of the atmosphere.
+  atmosphereLayerAltitudes?: number[] | null;
+
   // whether a flux meter should be present in this model
   fluxMeterPresent?: boolean;
 
+  // whether heat is moved from the ground into the lower atmosphere by non-radiative means, see ConvectiveHeatTransfer
+  convectiveHeatTransferPresent?: boolean;
+
+  // whether PhET-iO clients can define their own substances for the layers in this model, see SubstanceRegistry
+  substanceRegistryPresent?: boolean;
+
+  // whether reflective aerosols can be injected into the atmosphere of this model, see AerosolLayer
+  aerosolLayerPresent?: boolean;
+
+  // whether the ground can have an ocean surface with a deep ocean below it that slows its response, see DeepOcean
+  deepOceanPresent?: boolean;
+
+  // Whether the sun, ground, and atmosphere layers spread their emitted energy across the spectral bands based on
+  // their temperatures, see BlackbodySpectrum.
+  multiBandEmission?: boolean;
+
   // options that are passed through to the ground layer
   groundLayerOptions?: GroundLayerOptions;
 
   // options that are passed through to all atmosphere layers
-  atmosphereLayerOptions?: StrictOmit<AtmosphereLayerOptions, 'tandem'>;
+  atmosphereLayerOptions?: StrictOmit<AtmosphereLayerOptions, 'tandem' | 'absorptionSpectrum'>;
+
+  // Get the initial absorption spectrum for the atmosphere layer at the provided altitude, in meters.  This allows the
+  // absorption in some bands to vary with altitude, such as the absorption of ultraviolet light by ozone.
+  getAtmosphereLayerAbsorptionSpectrum?: ( altitude: number ) => AbsorptionSpectrum;
 
   // options that are passed through to the flux meter if present
   fluxMeterOptions?: FluxMeterOptions;
@@ -69,6 +112,14 @@ type SelfOptions = {
   // screen, but it can create problematic situations on the Waves and Photons screens, which were not designed to
   // support variable solar intensity. See https://github.com/phetsims/greenhouse-effect/issues/283
   proportionateOutputRatePropertyIsInstrumented?: boolean;
+
+  // options that are passed through to the sun energy source
+  sunEnergySourceOptions?: StrictOmit<SunEnergySourceOptions,
+    'tandem' | 'proportionateOutputRatePropertyIsInstrumented' | 'multiBandEmission'>;
+
+  // The temperature units that are used when the model starts or is reset.  The current units are changed to match
+  // when this changes, such as when the user sets the default units in the Preferences dialog.
+  defaultTemperatureUnitsProperty?: TReadOnlyProperty<TemperatureUnits>;
 };
 export type LayersModelOptions = SelfOptions & GreenhouseEffectModelOptions;
 
@@ -94,6 +145,9 @@ class LayersModel extends GreenhouseEffectModel {
   // a cloud that may or may not be present, and that can reflect sunlight if it is
   public cloud: Cloud | null = null;
 
+  // a layer of reflective aerosols, such as those produced by a volcanic eruption, null if not present in this model
+  public readonly aerosolLayer: AerosolLayer | null;
+
   // model of the ground that absorbs energy, heats up, and radiates infrared energy
   public readonly groundLayer: GroundLayer;
 
@@ -103,15 +157,46 @@ class LayersModel extends GreenhouseEffectModel {
   // used to track how much stepping of the model needs to occur
   private modelSteppingTime: number;
 
+  // The temperatures to which the ground and atmosphere layers are held while the energy moving through the atmosphere
+  // settles after skipping to equilibrium, along with the description of the model for which they were calculated and
+  // the amount of model time remaining, in seconds.  This is null when no settling is in progress.
+  private equilibriumSettling: {
+    solution: EquilibriumSolution;
+    spec: EquilibriumSpec;
+    remainingTime: number;
+  } | null = null;
+
   // the total elapsed time that has been modeled, in seconds
   public totalElapsedTime = 0;
 
+  // whether the emitted energy is spread across the spectral bands, see BlackbodySpectrum
+  public readonly multiBandEmission: boolean;
+
   // model of a meter that can measure the energy flux moving through the atmosphere
   public readonly fluxMeter: FluxMeter | null;
 
+  // model of the non-radiative heat transfer from the ground to the lower atmosphere, null if not present in this model
+  public readonly convectiveHeatTransfer: ConvectiveHeatTransfer | null;
+
+  // the substances that can be used for the layers in this model, null if clients can't define their own
+  public readonly substanceRegistry: SubstanceRegistry | null;
+
+  // model of the deep ocean, which slowly exchanges heat with the ground when it has an ocean surface, null if not
+  // present in this model
+  public readonly deepOcean: DeepOcean | null;
+
   // whether the "Energy Balance" display is visible
   public readonly energyBalanceVisibleProperty: BooleanProperty;
 
+  // records values from this model so that they can be exported
+  public readonly dataRecorder: LayersModelDataRecorder;
+
+  // whether the graph of surface temperature and energy over time is visible
+  public readonly temperatureGraphVisibleProperty: BooleanProperty;
+
+  // whether the plot of temperature versus altitude is visible
+  public readonly temperatureProfileVisibleProperty: BooleanProperty;
+
   // whether the glowing representation of surface temperature is visible
   public readonly surfaceTemperatureVisibleProperty: BooleanProperty;
 
@@ -125,19 +210,36 @@ class LayersModel extends GreenhouseEffectModel {
   // For grouping model elements in the Studio tree
   protected readonly atmosphereLayersTandem: Tandem;
 
+  // the units to which the temperature units are set when the model is reset
+  private readonly defaultTemperatureUnitsProperty: TReadOnlyProperty<TemperatureUnits>;
+
   protected constructor( providedOptions: LayersModelOptions ) {
 
     const options = optionize<LayersModelOptions, SelfOptions, GreenhouseEffectModelOptions>()( {
       numberOfAtmosphereLayers: DEFAULT_NUMBER_OF_ATMOSPHERE_LAYERS,
+      atmosphereLayerSpacing: AtmosphereLayerSpacing.EVEN,
+      atmosphereLayerAltitudes: null,
+      multiBandEmission: false,
       fluxMeterPresent: false,
+      convectiveHeatTransferPresent: false,
+      substanceRegistryPresent: false,
+      aerosolLayerPresent: false,
+      deepOceanPresent: false,
       groundLayerOptions: {
         tandem: providedOptions.tandem.createTandem( 'groundLayer' )
       },
-      atmosphereLayerOptions: {},
+      atmosphereLayerOptions: {
+
+        // The atmosphere layers emit infrared energy in the same proportion that they absorb it, per Kirchhoff's law.
+        emissivityMatchesAbsorption: true
+      },
+      getAtmosphereLayerAbsorptionSpectrum: () => new Map<SpectralBand, number>(),
       fluxMeterOptions: {
         tandem: providedOptions.tandem.createTandem( 'fluxMeter' )
       },
-      proportionateOutputRatePropertyIsInstrumented: false
+      proportionateOutputRatePropertyIsInstrumented: false,
+      sunEnergySourceOptions: {},
+      defaultTemperatureUnitsProperty: new Property( TemperatureUnits.CELSIUS )
     }, providedOptions );
 
     super( options );
@@ -145,13 +247,14 @@ class LayersModel extends GreenhouseEffectModel {
     // For grouping model elements, see https://github.com/phetsims/greenhouse-effect/issues/281
     const surfaceTemperatureTandem = options.tandem.createTandem( 'surfaceTemperature' );
 
-    this.temperatureUnitsProperty = new EnumerationProperty( DEFAULT_TEMPERATURE_UNITS_PROPERTY.value, {
+    this.defaultTemperatureUnitsProperty = options.defaultTemperatureUnitsProperty;
+    this.temperatureUnitsProperty = new EnumerationProperty( this.defaultTemperatureUnitsProperty.value, {
       tandem: surfaceTemperatureTandem.createTandem( 'temperatureUnitsProperty' ),
       phetioFeatured: true
     } );
 
     // If the default temperature units change, change the current units setting to match.
-    DEFAULT_TEMPERATURE_UNITS_PROPERTY.lazyLink( units => this.temperatureUnitsProperty.set( units ) );
+    this.defaultTemperatureUnitsProperty.lazyLink( units => this.temperatureUnitsProperty.set( units ) );
 
     // If phet-io state is being used to reset the screen, we need to make sure that the temperature
     // units end up at the value specified in the Preferences dialog, NOT the previously saved state. See
@@ -159,7 +262,7 @@ class LayersModel extends GreenhouseEffectModel {
     phetioStateSetEmitter.addListener(
       ( state: FullPhetioState, scopeTandem: Tandem ) => {
         if ( scopeTandem !== Tandem.ROOT ) {
-          this.temperatureUnitsProperty.set( DEFAULT_TEMPERATURE_UNITS_PROPERTY.value );
+          this.temperatureUnitsProperty.set( this.defaultTemperatureUnitsProperty.value );
         }
       } );
 
@@ -228,6 +331,16 @@ class LayersModel extends GreenhouseEffectModel {
       phetioFeatured: true
     } );
 
+    this.temperatureGraphVisibleProperty = new BooleanProperty( false, {
+      tandem: options.tandem.createTandem( 'temperatureGraphVisibleProperty' ),
+      phetioFeatured: true
+    } );
+
+    this.temperatureProfileVisibleProperty = new BooleanProperty( false, {
+      tandem: options.tandem.createTandem( 'temperatureProfileVisibleProperty' ),
+      phetioFeatured: true
+    } );
+
     const fluxMeterTandem = options.tandem.createTandem( 'fluxMeter' );
 
     this.fluxMeterVisibleProperty = new BooleanProperty( false, {
@@ -241,35 +354,69 @@ class LayersModel extends GreenhouseEffectModel {
 
     this.emEnergyPackets = [];
 
+    this.multiBandEmission = options.multiBandEmission;
+
     this.sunEnergySource = new SunEnergySource(
       EnergyAbsorbingEmittingLayer.SURFACE_AREA,
-      this.emEnergyPackets, {
+      this.emEnergyPackets,
+      combineOptions<SunEnergySourceOptions>( {
         tandem: options.tandem.createTandem( 'sunEnergySource' ),
-        proportionateOutputRatePropertyIsInstrumented: options.proportionateOutputRatePropertyIsInstrumented
-      } );
+        proportionateOutputRatePropertyIsInstrumented: options.proportionateOutputRatePropertyIsInstrumented,
+        multiBandEmission: options.multiBandEmission
+      }, options.sunEnergySourceOptions )
+    );
 
     // Requested in https://github.com/phetsims/greenhouse-effect/issues/281
     energyBalance.addLinkedElement( this.sunEnergySource.outputEnergyRateTracker.energyRateProperty, {
       tandemName: 'incomingEnergyRateProperty'
     } );
 
-    this.groundLayer = new GroundLayer( options.groundLayerOptions );
+    // The substance registry, where present, is created before the layers, since they only accept the substances that
+    // are in it.
+    this.substanceRegistry = options.substanceRegistryPresent ?
+                             new SubstanceRegistry( { tandem: options.tandem.createTandem( 'substanceRegistry' ) } ) :
+                             null;
+
+    this.groundLayer = new GroundLayer( combineOptions<GroundLayerOptions>(
+      { multiBandEmission: options.multiBandEmission, substanceRegistry: this.substanceRegistry },
+      options.groundLayerOptions
+    ) );
 
     this.atmosphereLayers = [];
 
     // For grouping model elements, see https://github.com/phetsims/greenhouse-effect/issues/281
     this.atmosphereLayersTandem = options.tandem.createTandem( 'atmosphereLayers' );
 
-    // The atmosphere layers are evenly spaced between the ground and the top of the atmosphere.
-    const distanceBetweenAtmosphereLayers = HEIGHT_OF_ATMOSPHERE / ( options.numberOfAtmosphereLayers + 1 );
+    // Get the altitudes for the atmosphere layers, either as specified or based on the number and spacing of layers.
+    const atmosphereLayerAltitudes = options.atmosphereLayerAltitudes ||
+                                     LayersModel.getAtmosphereLayerAltitudes(
+                                       options.numberOfAtmosphereLayers,
+                                       options.atmosphereLayerSpacing
+                                     );
+    assert && assert(
+      atmosphereLayerAltitudes.length >= 1 && atmosphereLayerAltitudes.length <= MAX_NUMBER_OF_ATMOSPHERE_LAYERS,
+      `number of atmosphere layers out of range: ${atmosphereLayerAltitudes.length}`
+    );
+    assert && assert(
+      atmosphereLayerAltitudes.every( ( altitude, index ) =>
+        altitude > 0 && altitude < HEIGHT_OF_ATMOSPHERE &&
+        ( index === 0 || altitude > atmosphereLayerAltitudes[ index - 1 ] )
+      ),
+      `atmosphere layer altitudes must be ascending and within the atmosphere: ${atmosphereLayerAltitudes}`
+    );
 
     // Add the atmosphere layers.  These MUST be added in order of increasing altitude, since other code assumes that
     // this is the case.
-    _.times( options.numberOfAtmosphereLayers, index => {
+    atmosphereLayerAltitudes.forEach( ( altitude, index ) => {
       const atmosphereLayer = new AtmosphereLayer(
-        distanceBetweenAtmosphereLayers * ( index + 1 ),
+        altitude,
         combineOptions<AtmosphereLayerOptions>(
-          { tandem: this.atmosphereLayersTandem.createTandem( `layer${index + 1}` ) },
+          {
+            multiBandEmission: options.multiBandEmission,
+            substanceRegistry: this.substanceRegistry,
+            absorptionSpectrum: options.getAtmosphereLayerAbsorptionSpectrum( altitude ),
+            tandem: this.atmosphereLayersTandem.createTandem( `layer${index + 1}` )
+          },
           options.atmosphereLayerOptions
         )
       );
@@ -284,10 +431,65 @@ class LayersModel extends GreenhouseEffectModel {
       tandemName: 'outgoingEnergyRateProperty'
     } );
 
+    this.aerosolLayer = options.aerosolLayerPresent ?
+                        new AerosolLayer( { tandem: options.tandem.createTandem( 'aerosolLayer' ) } ) :
+                        null;
+
+    // Create the non-radiative heat transfer if the options indicate that it should be present.
+    if ( options.convectiveHeatTransferPresent ) {
+      this.convectiveHeatTransfer = new ConvectiveHeatTransfer( this.groundLayer, this.atmosphereLayers, {
+        tandem: options.tandem.createTandem( 'convectiveHeatTransfer' )
+      } );
+      energyBalance.addLinkedElement( this.convectiveHeatTransfer.energyRateTracker.energyRateProperty, {
+        tandemName: 'convectiveEnergyRateProperty'
+      } );
+    }
+    else {
+      this.convectiveHeatTransfer = null;
+    }
+
+    // The surface type and the substance registry both set what the ground is made of, see GroundLayer.
+    assert && assert(
+      !( options.deepOceanPresent && options.substanceRegistryPresent ),
+      'the surface type of the ground and user-defined substances cannot be used together'
+    );
+
+    if ( options.deepOceanPresent ) {
+      const deepOcean = new DeepOcean( this.groundLayer, this.sunEnergySource.isShiningProperty, {
+        tandem: options.tandem.createTandem( 'deepOcean' )
+      } );
+
+      // When the sun starts shining, start the deep ocean at the temperature that the ground will eventually reach so
+      // that the sim doesn't take several minutes to warm up from the cold initial state.  This and the similar
+      // listener below are skipped while setting the PhET-iO state, since the state includes the deep ocean
+      // temperature.
+      this.sunEnergySource.isShiningProperty.lazyLink( isShining => {
+        if ( isShining && !isSettingPhetioStateProperty.value ) {
+          deepOcean.setTemperature( this.calculateEquilibriumTemperatures().groundTemperature );
+        }
+      } );
+
+      // When the surface becomes an ocean, start the deep ocean at the temperature of the surface so that the change
+      // itself doesn't cause the surface to warm or cool.
+      this.groundLayer.surfaceTypeProperty.lazyLink( surfaceType => {
+        if ( surfaceType === SurfaceType.OCEAN && !isSettingPhetioStateProperty.value ) {
+          deepOcean.setTemperature( this.groundLayer.temperatureProperty.value );
+        }
+      } );
+
+      this.deepOcean = deepOcean;
+    }
+    else {
+      this.deepOcean = null;
+    }
+
     //  Create the model component for the FluxMeter if the options indicate that it should be present.
     if ( options.fluxMeterPresent ) {
 
       const fluxMeterOptions = combineOptions<FluxMeterOptions>( {
+        fluxSensorOptions: {
+          bandEnergyRateTrackersPresent: options.multiBandEmission
+        },
         tandem: fluxMeterTandem
       }, options.fluxMeterOptions );
 
@@ -297,6 +499,10 @@ class LayersModel extends GreenhouseEffectModel {
       this.fluxMeter = null;
     }
 
+    this.dataRecorder = new LayersModelDataRecorder( this, {
+      tandem: options.tandem.createTandem( 'dataRecorder' )
+    } );
+
     this.modelSteppingTime = 0;
 
     // Connect up the surface temperature property to that of the ground layer model element.
@@ -306,6 +512,46 @@ class LayersModel extends GreenhouseEffectModel {
   }
 
   public override stepModel( dt: number ): void {
+    if ( this.aerosolLayer ) {
+      this.aerosolLayer.step( dt );
+    }
+    if ( this.deepOcean ) {
+      this.deepOcean.updateEquilibriumSpec( this.getEquilibriumSpec() );
+    }
+    this.stepLayers( dt );
+    if ( this.equilibriumSettling ) {
+      this.stepEquilibriumSettling( dt );
+    }
+    this.dataRecorder.step();
+    super.stepModel( dt );
+  }
+
+  /**
+   * Hold the temperatures at their equilibrium values while the energy moving through the atmosphere settles after
+   * skipping to equilibrium.  This ends when the settling time has passed or when the settings of the model change,
+   * after which the temperatures respond to the energy in the usual way.
+   * @param dt - delta time, in seconds
+   */
+  private stepEquilibriumSettling( dt: number ): void {
+    const equilibriumSettling = this.equilibriumSettling!;
+    if ( RadiativeEquilibriumSolver.isSameSpec( this.getEquilibriumSpec(), equilibriumSettling.spec ) ) {
+      this.setTemperatures( equilibriumSettling.solution );
+      equilibriumSettling.remainingTime -= dt;
+      if ( equilibriumSettling.remainingTime <= 0 ) {
+        this.equilibriumSettling = null;
+      }
+    }
+    else {
+      this.equilibriumSettling = null;
+    }
+  }
+
+  /**
+   * Step the energy-related portions of the model, meaning the sun, the energy packets, and the layers with which they
+   * interact, and update the values that describe the energy balance.
+   * @param dt - delta time, in seconds
+   */
+  private stepLayers( dt: number ): void {
 
     // Update the total time that this model has experienced.
     this.totalElapsedTime += dt;
@@ -314,6 +560,8 @@ class LayersModel extends GreenhouseEffectModel {
     // https://github.com/phetsims/greenhouse-effect/issues/48 for information on why this is necessary.
     this.modelSteppingTime += dt;
 
+    const clouds = this.getClouds();
+
     while ( this.modelSteppingTime >= MODEL_TIME_STEP ) {
 
       // Add the energy produced by the sun to the system.
@@ -322,16 +570,28 @@ class LayersModel extends GreenhouseEffectModel {
       // Step the energy packets, which causes them to move.
       this.emEnergyPackets.forEach( emEnergyPacket => { emEnergyPacket.step( MODEL_TIME_STEP ); } );
 
-      // Check for interaction between the energy packets and ground, the atmosphere, clouds, and space.
+      // Check for interaction between the energy packets and ground, the atmosphere, clouds, aerosols, and space.
       this.groundLayer.interactWithEnergy( this.emEnergyPackets, MODEL_TIME_STEP );
       this.atmosphereLayers.forEach( atmosphereLayer => {
         atmosphereLayer.interactWithEnergy( this.emEnergyPackets, MODEL_TIME_STEP );
       } );
-      if ( this.cloud ) {
-        this.cloud.interactWithEnergy( this.emEnergyPackets );
+      clouds.forEach( cloud => cloud.interactWithEnergy( this.emEnergyPackets ) );
+      if ( this.aerosolLayer ) {
+        this.aerosolLayer.interactWithEnergy( this.emEnergyPackets );
       }
       this.outerSpace.interactWithEnergy( this.emEnergyPackets, MODEL_TIME_STEP );
 
+      // Move heat from the ground into the atmosphere by non-radiative means, if this is being modeled.
+      if ( this.convectiveHeatTransfer ) {
+        this.convectiveHeatTransfer.step( MODEL_TIME_STEP );
+      }
+
+      // Exchange heat between the ground and the deep ocean, if present, which only happens when the ground is an
+      // ocean surface.
+      if ( this.deepOcean ) {
+        this.deepOcean.step( MODEL_TIME_STEP );
+      }
+
       // If the flux meter is present, have it measure the flux.
       if ( this.fluxMeter ) {
         this.fluxMeter.measureEnergyPacketFlux( this.emEnergyPackets, MODEL_TIME_STEP );
@@ -349,8 +609,42 @@ class LayersModel extends GreenhouseEffectModel {
     this.inRadiativeBalanceProperty.set(
       Math.abs( energyComingFromSun - energyGoingIntoSpace ) < RADIATIVE_BALANCE_THRESHOLD
     );
+  }
 
-    super.stepModel( dt );
+  /**
+   * Get the thickness of the portion of the atmosphere that is represented by the provided layer.  This extends from
+   * halfway to the layer (or ground) below to halfway to the layer (or top of the atmosphere) above, so the thicknesses
+   * of all the layers together span the full height of the atmosphere.  This can be used to scale the properties of a
+   * layer, such as how much energy it absorbs, to the amount of atmosphere that it represents.
+   * @param atmosphereLayer - one of the atmosphere layers in this model
+   * @returns the thickness in meters
+   */
+  public getAtmosphereLayerThickness( atmosphereLayer: AtmosphereLayer ): number {
+    const index = this.atmosphereLayers.indexOf( atmosphereLayer );
+    assert && assert( index >= 0, 'atmosphere layer is not part of this model' );
+    const altitudeBelow = index === 0 ? 0 : this.atmosphereLayers[ index - 1 ].altitude;
+    const altitudeAbove = index === this.atmosphereLayers.length - 1 ?
+                          HEIGHT_OF_ATMOSPHERE :
+                          this.atmosphereLayers[ index + 1 ].altitude;
+    return ( altitudeAbove - altitudeBelow ) / 2;
+  }
+
+  /**
+   * Get the atmosphere layer whose altitude is closest to the provided value.  This is useful for code that needs to
+   * interact with the atmosphere at a particular altitude and that shouldn't depend on the number of layers or their
+   * spacing.
+   * @param altitude - in meters
+   */
+  public getAtmosphereLayerNearestAltitude( altitude: number ): AtmosphereLayer {
+    return _.minBy( this.atmosphereLayers, atmosphereLayer => Math.abs( atmosphereLayer.altitude - altitude ) )!;
+  }
+
+  /**
+   * Get all the clouds in this model, whether they are enabled or not.  This is overridden in subclasses that have
+   * additional clouds.
+   */
+  public getClouds(): Cloud[] {
+    return this.cloud ? [ this.cloud ] : [];
   }
 
   /**
@@ -360,6 +654,116 @@ class LayersModel extends GreenhouseEffectModel {
     return this.groundLayer.temperatureProperty.value > this.groundLayer.minimumTemperature;
   }
 
+  /**
+   * Get a description of the current state of the model that can be used to calculate the equilibrium temperatures.
+   * Inactive atmosphere layers are not included, since they don't interact with energy.  If the sun is following a
+   * diurnal cycle, the output of the sun averaged over a full day is used.  The aerosol layer, if present, reflects
+   * visible light in the same way as a cloud that spans the full width of the sunlight, so it is described as one.
+   * Heat carried from the ground into the lower atmosphere by convection, if enabled, is included too.
+   */
+  protected getEquilibriumSpec(): EquilibriumSpec {
+    const activeAtmosphereLayers = this.atmosphereLayers.filter( layer => layer.isActiveProperty.value );
+    const clouds = this.getClouds().filter( cloud => cloud.enabledProperty.value );
+    const cloudSpecs: EquilibriumCloudSpec[] = clouds.map( cloud => ( {
+      altitude: cloud.position.y,
+      topVisibleReflectedProportion: cloud.getReflectedProportion( true, true ),
+      bottomVisibleReflectedProportion: cloud.getReflectedProportion( true, false ),
+      topInfraredReflectedProportion: cloud.getReflectedProportion( false, true ),
+      bottomInfraredReflectedProportion: cloud.getReflectedProportion( false, false )
+    } ) );
+    if ( this.aerosolLayer && this.aerosolLayer.reflectivityProperty.value > 0 ) {
+      cloudSpecs.push( {
+        altitude: this.aerosolLayer.altitudeProperty.value,
+        topVisibleReflectedProportion: this.aerosolLayer.reflectivityProperty.value,
+        bottomVisibleReflectedProportion: this.aerosolLayer.reflectivityProperty.value,
+        topInfraredReflectedProportion: 0,
+        bottomInfraredReflectedProportion: 0
+      } );
+    }
+    return {
+      incomingSolarEnergyRate: this.sunEnergySource.getMeanOutputEnergyRate(),
+      ground: {
+        albedo: this.groundLayer.albedoProperty.value,
+        emissivity: this.groundLayer.emissivityProperty.value,
+        minimumTemperature: this.groundLayer.minimumTemperature,
+        radiationDirections: this.groundLayer.substance.radiationDirections
+      },
+      atmosphereLayers: activeAtmosphereLayers.map( layer => ( {
+        altitude: layer.altitude,
+        energyAbsorptionProportion: layer.getAbsorptionProportion( GreenhouseEffectConstants.INFRARED_WAVELENGTH ),
+        visibleAbsorptionProportion: layer.getAbsorptionProportion( GreenhouseEffectConstants.VISIBLE_WAVELENGTH ),
+        emissivity: layer.emissivityProperty.value,
+        minimumTemperature: layer.minimumTemperature,
+        radiationDirections: layer.substance.radiationDirections
+      } ) ),
+      clouds: cloudSpecs,
+      convection: this.convectiveHeatTransfer ?
+                  this.convectiveHeatTransfer.getEquilibriumConvectionSpec( activeAtmosphereLayers ) :
+                  null
+    };
+  }
+
+  /**
+   * Calculate the temperatures that the ground and atmosphere layers would eventually reach if the model were run
+   * with the current settings until it reached equilibrium.  The returned atmosphere layer temperatures are in the same
+   * order as the atmosphere layers, and inactive layers are given their minimum temperature.
+   */
+  public calculateEquilibriumTemperatures(): EquilibriumSolution {
+    const solution = RadiativeEquilibriumSolver.solve( this.getEquilibriumSpec() );
+
+    // Map the solution for the active layers back onto the full set of atmosphere layers.
+    const activeLayerTemperatures = [ ...solution.atmosphereLayerTemperatures ];
+    return {
+      groundTemperature: solution.groundTemperature,
+      atmosphereLayerTemperatures: this.atmosphereLayers.map( layer => layer.isActiveProperty.value ?
+                                                                       activeLayerTemperatures.shift()! :
+                                                                       layer.minimumTemperature ),
+      outgoingEnergyRate: solution.outgoingEnergyRate
+    };
+  }
+
+  /**
+   * Set the ground and atmosphere layers directly to the temperatures that they would eventually reach if the model
+   * were run with the current settings.  Energy that is already moving through the atmosphere is left as is, so there
+   * will be a brief period where the energy moving through the atmosphere catches up.
+   */
+  public jumpToEquilibrium(): void {
+    this.setTemperatures( this.calculateEquilibriumTemperatures() );
+  }
+
+  /**
+   * Set the ground and active atmosphere layers directly to the provided temperatures.
+   */
+  private setTemperatures( solution: EquilibriumSolution ): void {
+    this.groundLayer.jumpToTemperature( solution.groundTemperature );
+    if ( this.deepOcean ) {
+      this.deepOcean.setTemperature( solution.groundTemperature );
+    }
+    this.atmosphereLayers.forEach( ( layer, index ) => {
+      if ( layer.isActiveProperty.value ) {
+        layer.jumpToTemperature( solution.atmosphereLayerTemperatures[ index ] );
+      }
+    } );
+  }
+
+  /**
+   * Move the model to the state that it would eventually reach if it were run with the current settings.  The
+   * temperatures are set to their equilibrium values and then held there as the model runs in the usual way, for long
+   * enough that the energy moving through the atmosphere, and the rates at which it is moving, are consistent with
+   * these temperatures.  Settling this way, rather than by stepping the model many times at once, keeps the sim
+   * responsive, and the other portions of the model, such as the data recorder and the representations of the energy,
+   * stay consistent with the energy portion.
+   */
+  public skipToEquilibrium(): void {
+    const solution = this.calculateEquilibriumTemperatures();
+    this.setTemperatures( solution );
+    this.equilibriumSettling = {
+      solution: solution,
+      spec: this.getEquilibriumSpec(),
+      remainingTime: EQUILIBRIUM_SETTLING_TIME
+    };
+  }
+
   /**
    * Resets all aspects of the model.
    */
@@ -367,21 +771,64 @@ class LayersModel extends GreenhouseEffectModel {
     super.reset();
 
     this.totalElapsedTime = 0;
+    this.equilibriumSettling = null;
     this.netInflowOfEnergyProperty.reset();
     this.fluxMeterVisibleProperty.reset();
     this.energyBalanceVisibleProperty.reset();
-    this.temperatureUnitsProperty.set( DEFAULT_TEMPERATURE_UNITS_PROPERTY.value );
+    this.temperatureGraphVisibleProperty.reset();
+    this.temperatureProfileVisibleProperty.reset();
+    this.dataRecorder.reset();
+    this.temperatureUnitsProperty.set( this.defaultTemperatureUnitsProperty.value );
     this.sunEnergySource.reset();
     this.groundLayer.reset();
+    if ( this.deepOcean ) {
+      this.deepOcean.reset();
+    }
     this.atmosphereLayers.forEach( atmosphereLayer => { atmosphereLayer.reset(); } );
     this.emEnergyPackets.length = 0;
+    if ( this.aerosolLayer ) {
+      this.aerosolLayer.reset();
+    }
     if ( this.fluxMeter ) {
       this.fluxMeter.reset();
     }
+    if ( this.convectiveHeatTransfer ) {
+      this.convectiveHeatTransfer.reset();
+    }
+  }
+
+  /**
+   * Calculate the altitudes for the specified number of atmosphere layers with the specified spacing.
+   * @param numberOfLayers
+   * @param spacing
+   * @returns the altitudes in meters, in ascending order
+   */
+  public static getAtmosphereLayerAltitudes( numberOfLayers: number, spacing: AtmosphereLayerSpacing ): number[] {
+    let altitudes: number[];
+    if ( spacing === AtmosphereLayerSpacing.LOG_PRESSURE ) {
+
+      // Pressure falls off exponentially with altitude, see https://en.wikipedia.org/wiki/Barometric_formula.  Work
+      // with pressure relative to that at the ground, space the pressure levels evenly between the ground and the top
+      // of the atmosphere, and then convert each pressure level back into an altitude.
+      const relativePressureAtTop = Math.exp( -HEIGHT_OF_ATMOSPHERE / SCALE_HEIGHT_OF_ATMOSPHERE );
+      const pressureIncrement = ( 1 - relativePressureAtTop ) / ( numberOfLayers + 1 );
+      altitudes = _.times(
+        numberOfLayers,
+        index => -SCALE_HEIGHT_OF_ATMOSPHERE * Math.log( 1 - pressureIncrement * ( index + 1 ) )
+      );
+    }
+    else {
+      const distanceBetweenAtmosphereLayers = HEIGHT_OF_ATMOSPHERE / ( numberOfLayers + 1 );
+      altitudes = _.times( numberOfLayers, index => distanceBetweenAtmosphereLayers * ( index + 1 ) );
+    }
+    return altitudes;
   }
 
   // statics
   public static readonly HEIGHT_OF_ATMOSPHERE = HEIGHT_OF_ATMOSPHERE;
+  public static readonly SCALE_HEIGHT_OF_ATMOSPHERE = SCALE_HEIGHT_OF_ATMOSPHERE;
+  public static readonly DEFAULT_NUMBER_OF_ATMOSPHERE_LAYERS = DEFAULT_NUMBER_OF_ATMOSPHERE_LAYERS;
+  public static readonly MODEL_TIME_STEP = MODEL_TIME_STEP;
   public static readonly SUNLIGHT_SPAN = SUNLIGHT_SPAN;
   public static readonly RADIATIVE_BALANCE_THRESHOLD = RADIATIVE_BALANCE_THRESHOLD;
 
@@ -0,0 +1,287 @@
+// Copyright 2026, University of Colorado Boulder
+
+/**
+ * LayersModelDataRecorder samples a set of values from a layers model at a regular interval of model time and makes
+ * the collected data available as CSV or JSON so that it can be exported and analyzed elsewhere, e.g. in a
+ * spreadsheet.  The recorded values include the surface temperature, the temperature of every atmosphere layer, the
+ * surface albedo, and the flux meter readings if a flux meter is present.  Subclasses of the model can add other
+ * quantities, such as the greenhouse gas concentration, using the addQuantity method.
+ *
+ * Recording is off by default so that data isn't accumulated when it isn't needed.  The data can be retrieved via the
+ * PhET-iO API using the methods on the IOType.
+ *
+ * @author John Blanco (PhET Interactive Simulations)
+ */
+
+import BooleanProperty from '../../../../axon/js/BooleanProperty.js';
+import NumberProperty from '../../../../axon/js/NumberProperty.js';
+import { TReadOnlyProperty } from '../../../../axon/js/TReadOnlyProperty.js';
+import Range from '../../../../dot/js/Range.js';
+import optionize, { EmptySelfOptions } from '../../../../phet-core/js/optionize.js';
+import WithRequired from '../../../../phet-core/js/types/WithRequired.js';
+import PhetioObject, { PhetioObjectOptions } from '../../../../tandem/js/PhetioObject.js';
+import IOType from '../../../../tandem/js/types/IOType.js';
+import StringIO from '../../../../tandem/js/types/StringIO.js';
+import VoidIO from '../../../../tandem/js/types/VoidIO.js';
+import LayersModel from './LayersModel.js';
+import SpectralBand from './SpectralBand.js';
+
+// constants
+const DEFAULT_SAMPLE_INTERVAL = 1; // in seconds of model time
+const SAMPLE_INTERVAL_RANGE = new Range( 0.1, 60 ); // in seconds of model time
+
+// Upper limit on the number of samples that are retained, which prevents memory from growing without bound if
+// recording is left on.  The oldest samples are discarded when this is exceeded.
+const MAX_SAMPLES = 100000;
+
+// a quantity that is sampled, with the name and units used in the exported data
+type RecordedQuantity = {
+  name: string;
+  units: string;
+  getValue: () => number;
+};
+
+// A single sample of the recorded data, keyed by the quantity names.
+export type LayersModelDataSample = Record<string, number>;
+
+type SelfOptions = EmptySelfOptions;
+export type LayersModelDataRecorderOptions = SelfOptions & WithRequired<PhetioObjectOptions, 'tandem'>;
+
+class LayersModelDataRecorder extends PhetioObject {
+
+  // whether data is currently being recorded
+  public readonly isRecordingProperty: BooleanProperty;
+
+  // the amount of model time between samples, in seconds
+  public readonly sampleIntervalProperty: NumberProperty;
+
+  // the number of samples that have been recorded, useful for enabling and disabling export controls
+  public readonly numberOfSamplesProperty: TReadOnlyProperty<number>;
+  private readonly _numberOfSamplesProperty: NumberProperty;
+
+  private readonly model: LayersModel;
+  private readonly quantities: RecordedQuantity[] = [];
+  private readonly samples: number[][] = [];
+
+  // the model time at which the most recent sample was taken
+  private timeOfLastSample = Number.NEGATIVE_INFINITY;
+
+  public constructor( model: LayersModel, providedOptions: LayersModelDataRecorderOptions ) {
+
+    const options = optionize<LayersModelDataRecorderOptions, SelfOptions, PhetioObjectOptions>()( {
+      phetioType: LayersModelDataRecorder.LayersModelDataRecorderIO,
+      phetioState: false,
+      phetioDocumentation: 'Records values from the model at a regular interval and exports them as CSV or JSON.'
+    }, providedOptions );
+
+    super( options );
+
+    this.model = model;
+
+    this.isRecordingProperty = new BooleanProperty( false, {
+      tandem: options.tandem.createTandem( 'isRecordingProperty' ),
+      phetioFeatured: true,
+      phetioDocumentation: 'Whether data from the model is being recorded.'
+    } );
+
+    this.sampleIntervalProperty = new NumberProperty( DEFAULT_SAMPLE_INTERVAL, {
+      range: SAMPLE_INTERVAL_RANGE,
+      units: 's',
+      tandem: options.tandem.createTandem( 'sampleIntervalProperty' ),
+      phetioFeatured: true,
+      phetioDocumentation: 'The amount of model time between recorded samples.'
+    } );
+
+    this._numberOfSamplesProperty = new NumberProperty( 0, {
+      numberType: 'Integer',
+      tandem: options.tandem.createTandem( 'numberOfSamplesProperty' ),
+      phetioReadOnly: true,
+      phetioDocumentation: 'The number of samples that have been recorded.'
+    } );
+    this.numberOfSamplesProperty = this._numberOfSamplesProperty;
+
+    // Add the quantities that are common to all layer-based models.
+    this.addQuantity( 'time', 's', () => model.totalElapsedTime );
+    this.addQuantity( 'surfaceTemperature', 'K', () => model.surfaceTemperatureKelvinProperty.value );
+    model.atmosphereLayers.forEach( ( atmosphereLayer, index ) => {
+      this.addQuantity( `layer${index + 1}Temperature`, 'K', () => atmosphereLayer.temperatureProperty.value );
+    } );
+    this.addQuantity( 'surfaceAlbedo', '', () => model.groundLayer.albedoProperty.value );
+    this.addQuantity( 'surfaceEmissivity', '', () => model.groundLayer.emissivityProperty.value );
+    if ( model.deepOcean ) {
+      const deepOcean = model.deepOcean;
+      this.addQuantity( 'deepOceanTemperature', 'K', () => deepOcean.temperatureProperty.value );
+    }
+    if ( model.aerosolLayer ) {
+      const aerosolLayer = model.aerosolLayer;
+      this.addQuantity( 'aerosolReflectivity', '', () => aerosolLayer.reflectivityProperty.value );
+    }
+    if ( model.convectiveHeatTransfer ) {
+      const convectiveHeatTransfer = model.convectiveHeatTransfer;
+      this.addQuantity(
+        'convectiveEnergyRate',
+        'W',
+        () => convectiveHeatTransfer.energyRateTracker.energyRateProperty.value
+      );
+    }
+    if ( model.fluxMeter ) {
+      const fluxMeter = model.fluxMeter;
+      this.addQuantity( 'fluxSensorAltitude', 'm', () => fluxMeter.readMeter().sensorAltitude );
+      this.addQuantity( 'visibleLightDownFlux', 'W', () => fluxMeter.readMeter().visibleLightDownFlux );
+      this.addQuantity( 'visibleLightUpFlux', 'W', () => fluxMeter.readMeter().visibleLightUpFlux );
+      this.addQuantity( 'infraredLightDownFlux', 'W', () => fluxMeter.readMeter().infraredLightDownFlux );
+      this.addQuantity( 'infraredLightUpFlux', 'W', () => fluxMeter.readMeter().infraredLightUpFlux );
+
+      // When the energy is spread across the spectral bands, include the flux for each band.
+      if ( model.multiBandEmission ) {
+        fluxMeter.fluxSensor.bandEnergyRateTrackers.forEach( ( trackers, band ) => {
+          const bandName = _.camelCase( SpectralBand.enumeration.getKey( band ) );
+          this.addQuantity( `${bandName}DownFlux`, 'W', () => trackers.down.energyRateProperty.value );
+          this.addQuantity( `${bandName}UpFlux`, 'W', () => trackers.up.energyRateProperty.value );
+        } );
+      }
+    }
+
+    // Changing the interval invalidates the timing of the samples, so start the timing over.
+    this.sampleIntervalProperty.lazyLink( () => {
+      this.timeOfLastSample = Number.NEGATIVE_INFINITY;
+    } );
+  }
+
+  /**
+   * Add a quantity to the set of values that are recorded.  This must be done before any data is recorded so that all
+   * samples have the same values.
+   * @param name - name of the quantity, used as the key in JSON and the column header in CSV
+   * @param units - units of the quantity, empty string for unitless quantities
+   * @param getValue - function that returns the current value of the quantity
+   */
+  public addQuantity( name: string, units: string, getValue: () => number ): void {
+    assert && assert( this.samples.length === 0, 'quantities must be added before data is recorded' );
+    assert && assert( !this.quantities.some( quantity => quantity.name === name ), `duplicate quantity name: ${name}` );
+    this.quantities.push( { name: name, units: units, getValue: getValue } );
+  }
+
+  /**
+   * Record a sample if recording is on and enough model time has passed since the last one.  This should be called
+   * after the model has been stepped.
+   */
+  public step(): void {
+
+    const time = this.model.totalElapsedTime;
+
+    // If the model time went backwards, the model was reset or its state was set, so start the timing over.
+    if ( time < this.timeOfLastSample ) {
+      this.timeOfLastSample = Number.NEGATIVE_INFINITY;
+    }
+
+    if ( this.isRecordingProperty.value && time - this.timeOfLastSample >= this.sampleIntervalProperty.value ) {
+      this.recordSample();
+      this.timeOfLastSample = time;
+    }
+  }
+
+  /**
+   * Record the current values of all the quantities.
+   */
+  public recordSample(): void {
+    this.samples.push( this.quantities.map( quantity => quantity.getValue() ) );
+    if ( this.samples.length > MAX_SAMPLES ) {
+      this.samples.shift();
+    }
+    this._numberOfSamplesProperty.value = this.samples.length;
+  }
+
+  /**
+   * Get the recorded data as an array of objects, one for each sample, keyed by the quantity names.
+   */
+  public getData(): LayersModelDataSample[] {
+    return this.samples.map( sample => {
+      const dataSample: LayersModelDataSample = {};
+      this.quantities.forEach( ( quantity, index ) => {
+        dataSample[ quantity.name ] = sample[ index ];
+      } );
+      return dataSample;
+    } );
+  }
+
+  /**
+   * Get the recorded data in comma-separated-value format.  The first line contains the column headers, which include
+   * the units where applicable.
+   */
+  public getDataAsCSV(): string {
+    const header = this.quantities.map(
+      quantity => quantity.units ? `${quantity.name} (${quantity.units})` : quantity.name
+    );
+    const lines = [ header.join( ',' ), ...this.samples.map( sample => sample.join( ',' ) ) ];
+    return lines.join( '\n' ) + '\n';
+  }
+
+  /**
+   * Get the recorded data as a JSON string.  This includes the units for each quantity along with the samples.
+   */
+  public getDataAsJSON(): string {
+    const units: Record<string, string> = {};
+    this.quantities.forEach( quantity => {
+      units[ quantity.name ] = quantity.units;
+    } );
+    return JSON.stringify( { units: units, samples: this.getData() }, null, 2 );
+  }
+
+  /**
+   * Discard all recorded data.
+   */
+  public clearData(): void {
+    this.samples.length = 0;
+    this._numberOfSamplesProperty.value = 0;
+    this.timeOfLastSample = Number.NEGATIVE_INFINITY;
+  }
+
+  public reset(): void {
+    this.isRecordingProperty.reset();
+    this.sampleIntervalProperty.reset();
+    this.clearData();
+  }
+
+  public static readonly LayersModelDataRecorderIO = new IOType<LayersModelDataRecorder>( 'LayersModelDataRecorderIO', {
+    valueType: LayersModelDataRecorder,
+    documentation: 'Records values from a layers model, such as temperatures and energy fluxes, at a regular interval.',
+    methods: {
+      getDataAsCSV: {
+        returnType: StringIO,
+        parameterTypes: [],
+        implementation: function( this: LayersModelDataRecorder ) {
+          return this.getDataAsCSV();
+        },
+        documentation: 'Get the recorded data in CSV format, with a header line that lists the quantities and units.',
+        invocableForReadOnlyElements: true
+      },
+      getDataAsJSON: {
+        returnType: StringIO,
+        parameterTypes: [],
+        implementation: function( this: LayersModelDataRecorder ) {
+          return this.getDataAsJSON();
+        },
+        documentation: 'Get the recorded data as a JSON string that contains the units and the samples.',
+        invocableForReadOnlyElements: true
+      },
+      recordSample: {
+        returnType: VoidIO,
+        parameterTypes: [],
+        implementation: function( this: LayersModelDataRecorder ) {
+          this.recordSample();
+        },
+        documentation: 'Record a sample of the current values immediately, regardless of whether recording is on.'
+      },
+      clearData: {
+        returnType: VoidIO,
+        parameterTypes: [],
+        implementation: function( this: LayersModelDataRecorder ) {
+          this.clearData();
+        },
+        documentation: 'Discard all recorded data.'
+      }
+    }
+  } );
+}
+
+export default LayersModelDataRecorder;
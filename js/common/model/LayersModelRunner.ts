@@ -0,0 +1,133 @@
+// Copyright 2026, University of Colorado Boulder
+
+/**
+ * LayersModelRunner drives an instance of a LayersModel subclass without a view, stepping it by the fixed model time
+ * step so that the results are deterministic and repeatable.  It is intended to support batch experiments such as
+ * parameter sweeps and regression tests of equilibrium temperatures, where the model is created and stepped from a
+ * script rather than by the PhET framework.
+ *
+ * The runner seeds the random number generator (which is used by the photon-based portions of the model), turns on
+ * the sun regardless of the initial state set by the model's options, and steps the model directly through `stepModel`
+ * so that the time speed and play/pause state are not involved.  The models don't read query parameters, so they can
+ * be created outside of a sim, and models that are used with this runner can be constructed with Tandem.OPT_OUT so that
+ * no PhET-iO instrumentation is needed, e.g.
+ *
+ *   const runner = new LayersModelRunner( new ConcentrationModel( { tandem: Tandem.OPT_OUT } ), { seed: 42 } );
+ *   runner.model.manuallyControlledConcentrationProperty.value = 0.75;
+ *   const snapshot = runner.run( 100 );
+ *
+ * See LayersModelRunnerTests for examples that can be run as unit tests.
+ *
+ * @author John Blanco (PhET Interactive Simulations)
+ */
+
+import dotRandom from '../../../../dot/js/dotRandom.js';
+import optionize from '../../../../phet-core/js/optionize.js';
+import LayersModel from './LayersModel.js';
+
+// constants
+const MODEL_TIME_STEP = LayersModel.MODEL_TIME_STEP;
+const MINIMUM_EQUILIBRIUM_RUN_TIME = 5; // in seconds, a bit longer than the equilibrium detection window of the layers
+
+type SelfOptions = {
+
+  // seed for the random number generator, null to leave the generator as is
+  seed?: number | null;
+
+  // whether the sun should be turned on when the runner is created
+  startSunlight?: boolean;
+};
+export type LayersModelRunnerOptions = SelfOptions;
+
+// The state of the model at a moment in time, with all values in the units used by the model.
+export type LayersModelSnapshot = {
+
+  // in seconds, the total amount of time that has been run on the model
+  elapsedTime: number;
+
+  // in Kelvin
+  surfaceTemperature: number;
+
+  // in Kelvin, ordered from the lowest altitude to the highest
+  atmosphereLayerTemperatures: number[];
+
+  // in watts per square meter, positive when more energy is coming in than going out
+  netInflowOfEnergy: number;
+
+  // whether the incoming and outgoing energy are balanced at the top of the atmosphere
+  inRadiativeBalance: boolean;
+};
+
+class LayersModelRunner<T extends LayersModel> {
+
+  // the model being driven by this runner
+  public readonly model: T;
+
+  public constructor( model: T, providedOptions?: LayersModelRunnerOptions ) {
+
+    const options = optionize<LayersModelRunnerOptions, SelfOptions>()( {
+      seed: 1,
+      startSunlight: true
+    }, providedOptions );
+
+    this.model = model;
+
+    if ( options.seed !== null ) {
+      dotRandom.setSeed( options.seed );
+    }
+
+    if ( options.startSunlight ) {
+      this.model.sunEnergySource.isShiningProperty.value = true;
+    }
+  }
+
+  /**
+   * Step the model for the specified amount of time.  The time is rounded to the nearest whole number of model time
+   * steps, since the model only advances by that amount.  Returns a snapshot of the model state at the end of the run.
+   * @param duration - amount of time to run, in seconds
+   */
+  public run( duration: number ): LayersModelSnapshot {
+    assert && assert( duration >= 0, `duration must be non-negative, received: ${duration}` );
+
+    const numberOfSteps = Math.round( duration / MODEL_TIME_STEP );
+    _.times( numberOfSteps, () => {
+      this.model.stepModel( MODEL_TIME_STEP );
+    } );
+
+    return this.getSnapshot();
+  }
+
+  /**
+   * Run the model until the ground is in energy equilibrium or until the specified maximum time has elapsed, whichever
+   * comes first.  Returns a snapshot of the model state at the end of the run.
+   * @param maxDuration - upper limit on the amount of time to run, in seconds
+   */
+  public runToEquilibrium( maxDuration: number ): LayersModelSnapshot {
+
+    // Run for at least one equilibrium detection window so that a change made just prior to this call has a chance to
+    // take the ground out of equilibrium.
+    let timeRun = 0;
+    while ( timeRun < maxDuration &&
+            ( timeRun < MINIMUM_EQUILIBRIUM_RUN_TIME || !this.model.groundLayer.atEquilibriumProperty.value ) ) {
+      this.model.stepModel( MODEL_TIME_STEP );
+      timeRun += MODEL_TIME_STEP;
+    }
+
+    return this.getSnapshot();
+  }
+
+  /**
+   * Get the current state of the model.
+   */
+  public getSnapshot(): LayersModelSnapshot {
+    return {
+      elapsedTime: this.model.totalElapsedTime,
+      surfaceTemperature: this.model.surfaceTemperatureKelvinProperty.value,
+      atmosphereLayerTemperatures: this.model.atmosphereLayers.map( layer => layer.temperatureProperty.value ),
+      netInflowOfEnergy: this.model.netInflowOfEnergyProperty.value,
+      inRadiativeBalance: this.model.inRadiativeBalanceProperty.value
+    };
+  }
+}
+
+export default LayersModelRunner;
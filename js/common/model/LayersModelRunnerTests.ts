@@ -0,0 +1,40 @@
+// Copyright 2026, University of Colorado Boulder
+
+/**
+ * QUnit tests for LayersModelRunner, which also serve as examples of running a layer-based model without a view.
+ *
+ * @author John Blanco (PhET Interactive Simulations)
+ */
+
+import Tandem from '../../../../tandem/js/Tandem.js';
+import ConcentrationModel, { ConcentrationControlMode } from './ConcentrationModel.js';
+import LayersModelRunner from './LayersModelRunner.js';
+
+// the amount by which the surface temperature reached by running the model can differ from the calculated value, in K
+const EQUILIBRIUM_TEMPERATURE_TOLERANCE = 2;
+
+const createRunner = ( seed: number ) => new LayersModelRunner(
+  new ConcentrationModel( { tandem: Tandem.OPT_OUT } ),
+  { seed: seed }
+);
+
+QUnit.module( 'LayersModelRunner' );
+
+QUnit.test( 'runs with the same seed are repeatable', assert => {
+  const firstSnapshot = createRunner( 42 ).run( 10 );
+  const secondSnapshot = createRunner( 42 ).run( 10 );
+  assert.deepEqual( secondSnapshot, firstSnapshot, 'both runs should produce the same state' );
+} );
+
+QUnit.test( 'the model settles at the calculated equilibrium temperature', assert => {
+  const runner = createRunner( 42 );
+  runner.model.concentrationControlModeProperty.value = ConcentrationControlMode.BY_VALUE;
+  runner.model.manuallyControlledConcentrationProperty.value = 0.75;
+  const expectedTemperature = runner.model.calculateEquilibriumTemperatures().groundTemperature;
+  const snapshot = runner.runToEquilibrium( 300 );
+  assert.ok( runner.model.groundLayer.atEquilibriumProperty.value, 'the ground should reach equilibrium' );
+  assert.ok(
+    Math.abs( snapshot.surfaceTemperature - expectedTemperature ) < EQUILIBRIUM_TEMPERATURE_TOLERANCE,
+    `surface temperature ${snapshot.surfaceTemperature} should be close to ${expectedTemperature}`
+  );
+} );
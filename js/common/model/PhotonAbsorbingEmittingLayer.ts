@@ -167,7 +167,7 @@ class PhotonAbsorbingEmittingLayer extends PhetioObject {
 
       // Decide whether to absorb the photon based on the absorption proportion and a random value.
       if ( dotRandom.nextDouble() <=
-           ( this.atmosphereLayer.energyAbsorptionProportionProperty.value * this.absorbanceMultiplier ) ) {
+           ( this.atmosphereLayer.getAbsorptionProportion( photon.wavelength ) * this.absorbanceMultiplier ) ) {
 
         // Absorb the photon by removing it from the list and adding it to the local map that will track the time for
         // which it has been absorbed in this layer.
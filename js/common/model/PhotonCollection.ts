@@ -12,6 +12,7 @@
 import BooleanProperty from '../../../../axon/js/BooleanProperty.js';
 import createObservableArray, { ObservableArray } from '../../../../axon/js/createObservableArray.js';
 import Disposable from '../../../../axon/js/Disposable.js';
+import NumberProperty from '../../../../axon/js/NumberProperty.js';
 import { TReadOnlyProperty } from '../../../../axon/js/TReadOnlyProperty.js';
 import dotRandom from '../../../../dot/js/dotRandom.js';
 import Range from '../../../../dot/js/Range.js';
@@ -36,8 +37,8 @@ const DEFAULT_PROPORTION_OF_INVISIBLE_PHOTONS = 5; // ratio of invisible to visi
 assert && assert( Number.isInteger( DEFAULT_PROPORTION_OF_INVISIBLE_PHOTONS ), 'value must be an integer' );
 
 // The following Range is used to help decide where to reflect photons when a glacier is present.  It is in meters, and
-// defines the x-range on the ground where the glacier exists.  This value must be manually coordinated with the
-// artwork.
+// defines the x-range on the ground where the full-sized glacier exists.  This value must be manually coordinated with
+// the artwork.  Smaller glaciers cover a portion of this range that extends from its max end.
 const GLACIER_X_RANGE = new Range( 12500, 42500 );
 
 type SelfOptions = {
@@ -45,8 +46,9 @@ type SelfOptions = {
   // options passed to the instances of PhotonAbsorbingEmittingLayer, see the class definition for details
   photonAbsorbingEmittingLayerOptions?: StrictOmit<PhotonAbsorbingEmittingLayerOptions, 'tandem'>;
 
-  // whether a glacier is present, which will affect how photons are reflected from the ground
-  glacierPresentProperty?: TReadOnlyProperty<boolean>;
+  // The size of the glacier, if any, that is present on the ground, from 0 (no glacier) to 1 (full size).  This affects
+  // how photons are reflected from the ground.
+  glacierExtentProperty?: TReadOnlyProperty<number>;
 };
 
 type PhotonCollectionOptions = SelfOptions & PickRequired<PhetioObjectOptions, 'tandem'>;
@@ -57,7 +59,7 @@ class PhotonCollection {
   public readonly photonAbsorbingEmittingLayers: PhotonAbsorbingEmittingLayer[];
   private readonly sunEnergySource: SunEnergySource;
   private readonly groundLayer: GroundLayer;
-  private readonly glacierPresentProperty: TReadOnlyProperty<boolean>;
+  private readonly glacierExtentProperty: TReadOnlyProperty<number>;
 
   // This value tracks whether all the simulated photons should be shown or just a subset.  The two different amounts
   // are used to serve different learning goals.
@@ -84,7 +86,7 @@ class PhotonCollection {
                       providedOptions: PhotonCollectionOptions ) {
 
     const options = optionize<PhotonCollectionOptions, SelfOptions>()( {
-      glacierPresentProperty: new BooleanProperty( false ),
+      glacierExtentProperty: new NumberProperty( 0 ),
       photonAbsorbingEmittingLayerOptions: {
         photonMaxLateralJumpProportion: 0.1,
         photonAbsorptionTime: 1.0
@@ -106,7 +108,7 @@ class PhotonCollection {
 
     this.sunEnergySource = sunEnergySource;
     this.groundLayer = groundLayer;
-    this.glacierPresentProperty = options.glacierPresentProperty;
+    this.glacierExtentProperty = options.glacierExtentProperty;
 
     // Create the observable array where the photons will be kept.
     this.photons = createObservableArray( {
@@ -155,12 +157,15 @@ class PhotonCollection {
    */
   public step( dt: number ): void {
 
-    if ( this.sunEnergySource.isShiningProperty.value ) {
+    // The rate at which photons are created by the sun, which is proportional to its output.  This can be zero, such as
+    // at night when the diurnal cycle is enabled.
+    const photonCreationRate = SUN_NOMINAL_PHOTON_CREATION_RATE *
+                               this.sunEnergySource.getOutputEnergyRate() / SunEnergySource.OUTPUT_ENERGY_RATE;
+
+    if ( this.sunEnergySource.isShiningProperty.value && photonCreationRate > 0 ) {
 
       // Create photons from the sun if it's time to do so.
       this.photonCreationCountdown -= dt;
-      const photonCreationRate = SUN_NOMINAL_PHOTON_CREATION_RATE *
-                                 this.sunEnergySource.proportionateOutputRateProperty.value;
       while ( this.photonCreationCountdown <= 0 ) {
         this.photons.push( new Photon(
           new Vector2(
@@ -196,16 +201,21 @@ class PhotonCollection {
 
         // Figure out what albedo value to use for potential reflection.
         let albedo = this.groundLayer.albedoProperty.value;
-        if ( this.glacierPresentProperty.value ) {
+        const glacierExtent = this.glacierExtentProperty.value;
+        if ( glacierExtent > 0 ) {
 
           // The glacier is present, so the reflection is concentrated in the area where the glacier resides.
-          albedo = GLACIER_X_RANGE.contains( photon.positionProperty.value.x ) ?
-                   Math.min( albedo / ( GLACIER_X_RANGE.getLength() / GroundLayer.WIDTH ), 1 ) :
+          const glacierXRange = new Range( GLACIER_X_RANGE.max - glacierExtent * GLACIER_X_RANGE.getLength(),
+            GLACIER_X_RANGE.max );
+          albedo = glacierXRange.contains( photon.positionProperty.value.x ) ?
+                   Math.min( albedo / ( glacierXRange.getLength() / GroundLayer.WIDTH ), 1 ) :
                    0;
         }
 
-        // Decide whether it should be absorbed or reflected.
-        if ( isVisible( photon ) && dotRandom.nextDouble() < albedo ) {
+        // Decide whether it should be absorbed or reflected.  Visible photons are reflected based on the albedo, and IR
+        // photons based on the emissivity of the ground.
+        const reflectance = isVisible( photon ) ? albedo : 1 - this.groundLayer.emissivityProperty.value;
+        if ( dotRandom.nextDouble() < reflectance ) {
 
           // The photon should be reflected.  Simulate this by reversing its vertical velocity.
           photon.velocity.setXY( photon.velocity.x, -photon.velocity.y );
@@ -238,10 +248,10 @@ class PhotonCollection {
               // Test the photon against this layer.  This may end up absorbing the photon.
               const photonCrossingTestResult = photonAbsorbingEmittingLayer.checkForPhotonInteraction( photon );
 
-              // Continue only to the point where the photon has been absorbed, has crossed a layer without being
-              // absorbed, or still has a chance of crossing another layer in the direction it's heading.
-              if ( photonCrossingTestResult === PhotonCrossingTestResult.CROSSED_BUT_IGNORED ||
-                   photonCrossingTestResult === PhotonCrossingTestResult.CROSSED_AND_ABSORBED ||
+              // Continue only to the point where the photon has been absorbed or has no chance of crossing another
+              // layer in the direction it's heading.  A photon that crossed a layer without being absorbed may also
+              // have crossed the next one during this step if the layers are closely spaced, so keep going.
+              if ( photonCrossingTestResult === PhotonCrossingTestResult.CROSSED_AND_ABSORBED ||
                    photonCrossingTestResult === PhotonCrossingTestResult.FULLY_ABOVE ) {
                 break;
               }
@@ -254,10 +264,10 @@ class PhotonCollection {
               // Test the photon against this layer.  This may end up absorbing the photon.
               const photonCrossingTestResult = photonAbsorbingEmittingLayer.checkForPhotonInteraction( photon );
 
-              // Continue only to the point where the photon has been absorbed, has crossed a layer without being
-              // absorbed, or still has a chance of crossing another layer in the direction it's heading.
-              if ( photonCrossingTestResult === PhotonCrossingTestResult.CROSSED_BUT_IGNORED ||
-                   photonCrossingTestResult === PhotonCrossingTestResult.CROSSED_AND_ABSORBED ||
+              // Continue only to the point where the photon has been absorbed or has no chance of crossing another
+              // layer in the direction it's heading.  A photon that crossed a layer without being absorbed may also
+              // have crossed the next one during this step if the layers are closely spaced, so keep going.
+              if ( photonCrossingTestResult === PhotonCrossingTestResult.CROSSED_AND_ABSORBED ||
                    photonCrossingTestResult === PhotonCrossingTestResult.FULLY_BELOW ) {
                 break;
               }
@@ -270,7 +280,8 @@ class PhotonCollection {
     // Update the rate at which the ground is producing IR photons.
     this.groundPhotonProductionRate = PhotonCollection.groundTemperatureToIRPhotonProductionRate(
       this.groundLayer.temperatureProperty.value,
-      this.groundLayer.minimumTemperature
+      this.groundLayer.minimumTemperature,
+      this.groundLayer.emissivityProperty.value
     );
 
     // Produce photons from the ground based on its temperature.
@@ -325,9 +336,11 @@ class PhotonCollection {
   }
 
   /**
-   * Calculate the rate of infrared photon production for the ground based on its temperature.
+   * Calculate the rate of infrared photon production for the ground based on its temperature and emissivity.
    */
-  public static groundTemperatureToIRPhotonProductionRate( groundTemperature: number, cutoffTemperature: number ): number {
+  public static groundTemperatureToIRPhotonProductionRate( groundTemperature: number,
+                                                           cutoffTemperature: number,
+                                                           emissivity = 1 ): number {
 
     let photonProductionRate = 0;
 
@@ -336,7 +349,7 @@ class PhotonCollection {
     // sun.  See https://github.com/phetsims/greenhouse-effect/issues/116 for more background on this.
     const visibleToInfraredRatio = 5;
     if ( groundTemperature > cutoffTemperature ) {
-      const radiatedEnergyPerUnitSurfaceArea = Math.pow( groundTemperature, 4 ) *
+      const radiatedEnergyPerUnitSurfaceArea = emissivity * Math.pow( groundTemperature, 4 ) *
                                                GreenhouseEffectConstants.STEFAN_BOLTZMANN_CONSTANT;
 
       // The divisor used in the following calculation was empirically determined to equal the radiated energy value
@@ -353,6 +366,8 @@ class PhotonCollection {
   public dispose(): void {
     Disposable.assertNotDisposable();
   }
+
+  public static readonly GLACIER_X_RANGE = GLACIER_X_RANGE;
 }
 
 /**
@@ -0,0 +1,458 @@
+// Copyright 2026, University of Colorado Boulder
+
+/**
+ * RadiativeEquilibriumSolver calculates the steady-state temperatures of the ground and the atmosphere layers for a
+ * given configuration of the layer model without stepping energy packets through time.  It models the same physics as
+ * the time-stepped model, i.e. visible light from the sun that is partially reflected by the ground and clouds, IR
+ * emitted by the ground and the layers according to the Stefan-Boltzmann equation, and partial absorption of IR and
+ * visible light by the atmosphere layers, but solves for the point where each element is emitting as much energy as it
+ * absorbs.
+ *
+ * The solution is found by iteratively propagating the upward and downward moving energy fluxes through the stack of
+ * elements and updating the emitted energy of each element to match what it absorbs.  Since some energy always escapes
+ * into space on each pass, this converges to the unique equilibrium.  If the spec includes convection, the heat that
+ * it carries from the ground to the lower atmosphere depends on their temperatures, so the temperature of each element
+ * is found at each step such that what it radiates plus what it loses to convection matches what it absorbs.
+ *
+ * This is useful for things like predicting the temperature that the model will eventually reach, comparing the
+ * packet-based model to theory, and jumping the model to equilibrium.  It can also calculate the energy leaving the
+ * atmosphere when the temperatures are held fixed, which is used to find the radiative forcing of a change.
+ *
+ * @author John Blanco (PhET Interactive Simulations)
+ */
+
+import GreenhouseEffectConstants from '../GreenhouseEffectConstants.js';
+import ConvectiveHeatTransfer from './ConvectiveHeatTransfer.js';
+import EnergyDirection from './EnergyDirection.js';
+
+// constants
+const STEFAN_BOLTZMANN_CONSTANT = GreenhouseEffectConstants.STEFAN_BOLTZMANN_CONSTANT;
+const CONVERGENCE_THRESHOLD = 1E-7; // in watts per square meter, empirically determined to be accurate enough
+const MAX_ITERATIONS = 100000; // upper limit for the iterative calculation, should never be reached in practice
+const TEMPERATURE_TOLERANCE = 1E-9; // in Kelvin, for finding the temperature at which an element is in balance
+
+export type EquilibriumGroundSpec = {
+
+  // proportion of the incident visible light that is reflected by the ground, from 0 to 1
+  albedo: number;
+
+  // Emissivity of the ground.  The ground is opaque, so this is also the proportion of the incident IR that it absorbs,
+  // and the rest is reflected.
+  emissivity: number;
+
+  // in Kelvin, the ground can't go below this temperature, see EnergyAbsorbingEmittingLayer
+  minimumTemperature: number;
+
+  // directions in which the ground radiates energy
+  radiationDirections: EnergyDirection[];
+};
+
+export type EquilibriumAtmosphereLayerSpec = {
+
+  // in meters
+  altitude: number;
+
+  // proportion of the IR energy crossing the layer that is absorbed, from 0 to 1
+  energyAbsorptionProportion: number;
+
+  // proportion of the visible light crossing the layer that is absorbed, from 0 to 1
+  visibleAbsorptionProportion: number;
+
+  // emissivity of the layer, which affects its temperature but not the amount of energy that it radiates at equilibrium
+  emissivity: number;
+
+  // in Kelvin
+  minimumTemperature: number;
+
+  // directions in which the layer radiates energy
+  radiationDirections: EnergyDirection[];
+};
+
+export type EquilibriumCloudSpec = {
+
+  // in meters
+  altitude: number;
+
+  // Proportions of the energy moving through the full span of the sunlight that are reflected by the cloud, see
+  // Cloud.getReflectedProportion.
+  topVisibleReflectedProportion: number;
+  bottomVisibleReflectedProportion: number;
+  topInfraredReflectedProportion: number;
+  bottomInfraredReflectedProportion: number;
+};
+
+export type EquilibriumConvectionSpec = {
+
+  // indices of the atmosphere layers in the spec that receive heat from the ground, see ConvectiveHeatTransfer
+  receivingLayerIndices: number[];
+
+  // Rates of heat transfer per unit of temperature difference between the ground and the receiving layers, in watts
+  // per square meter per Kelvin, which are shared equally among the receiving layers.  The latent heat transfer
+  // changes with the temperature of the ground, see ConvectiveHeatTransfer.getHeatTransferCoefficient.
+  sensibleHeatTransferCoefficient: number;
+  latentHeatTransferCoefficient: number;
+};
+
+export type EquilibriumSpec = {
+
+  // in watts per square meter, visible light arriving at the top of the atmosphere
+  incomingSolarEnergyRate: number;
+
+  ground: EquilibriumGroundSpec;
+  atmosphereLayers: EquilibriumAtmosphereLayerSpec[];
+  clouds: EquilibriumCloudSpec[];
+
+  // non-radiative transfer of heat from the ground into the lower atmosphere, null if there is none
+  convection: EquilibriumConvectionSpec | null;
+};
+
+export type EquilibriumSolution = {
+
+  // in Kelvin
+  groundTemperature: number;
+
+  // in Kelvin, in the same order as the atmosphere layers in the spec
+  atmosphereLayerTemperatures: number[];
+
+  // in watts per square meter, the total energy leaving the top of the atmosphere
+  outgoingEnergyRate: number;
+};
+
+// An element in the vertical stack through which the energy flows.  The emitted energy rate applies to each radiating
+// surface, and is in watts per square meter.
+type StackElement = {
+  altitude: number;
+  type: 'ground' | 'atmosphereLayer' | 'cloud';
+  index: number;
+  emittedEnergyRate: number;
+};
+
+// The energy fluxes for the gaps between the elements in the stack, in watts per square meter.  The value at index i is
+// for the gap just above element i, so the last entries are for the top of the atmosphere.
+type EnergyFluxes = {
+  visibleUp: number[];
+  visibleDown: number[];
+  infraredUp: number[];
+  infraredDown: number[];
+};
+
+/**
+ * Build the stack of elements described by the provided spec, sorted by altitude, with the ground at the bottom.
+ */
+const createStack = ( spec: EquilibriumSpec ): StackElement[] => {
+  const stack: StackElement[] = [ { altitude: 0, type: 'ground', index: 0, emittedEnergyRate: 0 } ];
+  const elementsAboveGround: StackElement[] = [
+    ...spec.atmosphereLayers.map( ( layer, index ) => ( {
+      altitude: layer.altitude,
+      type: 'atmosphereLayer' as const,
+      index: index,
+      emittedEnergyRate: 0
+    } ) ),
+    ...spec.clouds.map( ( cloud, index ) => ( {
+      altitude: cloud.altitude,
+      type: 'cloud' as const,
+      index: index,
+      emittedEnergyRate: 0
+    } ) )
+  ];
+  stack.push( ..._.sortBy( elementsAboveGround, element => element.altitude ) );
+  return stack;
+};
+
+/**
+ * Create the energy fluxes for a stack with the provided number of elements.  The sun is the only source of energy
+ * coming in from above.
+ */
+const createEnergyFluxes = ( spec: EquilibriumSpec, numberOfGaps: number ): EnergyFluxes => {
+  const fluxes = {
+    visibleUp: new Array<number>( numberOfGaps ).fill( 0 ),
+    visibleDown: new Array<number>( numberOfGaps ).fill( 0 ),
+    infraredUp: new Array<number>( numberOfGaps ).fill( 0 ),
+    infraredDown: new Array<number>( numberOfGaps ).fill( 0 )
+  };
+  fluxes.visibleDown[ numberOfGaps - 1 ] = spec.incomingSolarEnergyRate;
+  return fluxes;
+};
+
+/**
+ * Propagate the energy up through the stack and then back down, using the energy currently being emitted by each
+ * element, and update the fluxes accordingly.
+ */
+const propagateEnergy = ( spec: EquilibriumSpec, stack: StackElement[], fluxes: EnergyFluxes ): void => {
+
+  const ground = spec.ground;
+  const layers = spec.atmosphereLayers;
+  const clouds = spec.clouds;
+  const { visibleUp, visibleDown, infraredUp, infraredDown } = fluxes;
+
+  const emits = ( element: StackElement, direction: EnergyDirection ): boolean => {
+    if ( element.type === 'ground' ) {
+      return ground.radiationDirections.includes( direction );
+    }
+    else if ( element.type === 'atmosphereLayer' ) {
+      return layers[ element.index ].radiationDirections.includes( direction );
+    }
+    return false;
+  };
+
+  // Propagate the upward-moving energy from the ground to the top of the atmosphere.
+  stack.forEach( ( element, i ) => {
+    const visibleFromBelow = i > 0 ? visibleUp[ i - 1 ] : 0;
+    const infraredFromBelow = i > 0 ? infraredUp[ i - 1 ] : 0;
+    const emittedUp = emits( element, EnergyDirection.UP ) ? element.emittedEnergyRate : 0;
+    if ( element.type === 'ground' ) {
+      visibleUp[ i ] = visibleDown[ i ] * ground.albedo;
+      infraredUp[ i ] = infraredDown[ i ] * ( 1 - ground.emissivity ) + emittedUp;
+    }
+    else if ( element.type === 'atmosphereLayer' ) {
+      const layer = layers[ element.index ];
+      visibleUp[ i ] = visibleFromBelow * ( 1 - layer.visibleAbsorptionProportion );
+      infraredUp[ i ] = infraredFromBelow * ( 1 - layer.energyAbsorptionProportion ) + emittedUp;
+    }
+    else {
+      const cloud = clouds[ element.index ];
+      visibleUp[ i ] = visibleFromBelow * ( 1 - cloud.bottomVisibleReflectedProportion ) +
+                       visibleDown[ i ] * cloud.topVisibleReflectedProportion;
+      infraredUp[ i ] = infraredFromBelow * ( 1 - cloud.bottomInfraredReflectedProportion ) +
+                        infraredDown[ i ] * cloud.topInfraredReflectedProportion;
+    }
+  } );
+
+  // Propagate the downward-moving energy from the top of the atmosphere to the ground.
+  for ( let i = stack.length - 1; i > 0; i-- ) {
+    const element = stack[ i ];
+    const emittedDown = emits( element, EnergyDirection.DOWN ) ? element.emittedEnergyRate : 0;
+    if ( element.type === 'atmosphereLayer' ) {
+      const layer = layers[ element.index ];
+      visibleDown[ i - 1 ] = visibleDown[ i ] * ( 1 - layer.visibleAbsorptionProportion );
+      infraredDown[ i - 1 ] = infraredDown[ i ] * ( 1 - layer.energyAbsorptionProportion ) + emittedDown;
+    }
+    else {
+      const cloud = clouds[ element.index ];
+      visibleDown[ i - 1 ] = visibleDown[ i ] * ( 1 - cloud.topVisibleReflectedProportion ) +
+                             visibleUp[ i - 1 ] * cloud.bottomVisibleReflectedProportion;
+      infraredDown[ i - 1 ] = infraredDown[ i ] * ( 1 - cloud.topInfraredReflectedProportion ) +
+                              infraredUp[ i - 1 ] * cloud.bottomInfraredReflectedProportion;
+    }
+  }
+};
+
+/**
+ * Get the rate at which convection moves heat from the ground into the provided receiving layer, in watts per square
+ * meter.  Heat only moves upward, since convection stops when the air is warmer than the ground.
+ */
+const getConvectiveEnergyRateForLayer = ( convection: EquilibriumConvectionSpec,
+                                          groundTemperature: number,
+                                          layerTemperature: number ): number => {
+  const temperatureDifference = Math.max( groundTemperature - layerTemperature, 0 );
+  const heatTransferCoefficient = ConvectiveHeatTransfer.getHeatTransferCoefficient(
+    convection.sensibleHeatTransferCoefficient,
+    convection.latentHeatTransferCoefficient,
+    groundTemperature
+  );
+  return heatTransferCoefficient * temperatureDifference / convection.receivingLayerIndices.length;
+};
+
+/**
+ * Find the temperature, in Kelvin, at which the provided net energy rate is zero, using bisection.  The net energy
+ * rate must increase with temperature.  If it is positive even at the minimum temperature, the minimum is returned.
+ * @param getNetEnergyRate - the rate at which energy is lost minus the rate at which it is gained, in W/m^2
+ * @param minimumTemperature - in Kelvin
+ */
+const findBalancedTemperature = ( getNetEnergyRate: ( temperature: number ) => number,
+                                  minimumTemperature: number ): number => {
+  let lowerBound = minimumTemperature;
+  if ( getNetEnergyRate( lowerBound ) >= 0 ) {
+    return lowerBound;
+  }
+  let upperBound = Math.max( lowerBound * 2, 1 );
+  while ( getNetEnergyRate( upperBound ) < 0 ) {
+    lowerBound = upperBound;
+    upperBound *= 2;
+  }
+  while ( upperBound - lowerBound > TEMPERATURE_TOLERANCE ) {
+    const midpoint = ( lowerBound + upperBound ) / 2;
+    if ( getNetEnergyRate( midpoint ) < 0 ) {
+      lowerBound = midpoint;
+    }
+    else {
+      upperBound = midpoint;
+    }
+  }
+  return ( lowerBound + upperBound ) / 2;
+};
+
+const RadiativeEquilibriumSolver = {
+
+  /**
+   * Solve for the equilibrium temperatures of the ground and atmosphere layers described by the provided spec.
+   */
+  solve( spec: EquilibriumSpec ): EquilibriumSolution {
+
+    const ground = spec.ground;
+    const layers = spec.atmosphereLayers;
+    const stack = createStack( spec );
+    const numberOfGaps = stack.length;
+    const fluxes = createEnergyFluxes( spec, numberOfGaps );
+    const { visibleUp, visibleDown, infraredUp, infraredDown } = fluxes;
+
+    // the temperatures of the elements that exchange heat through convection, in Kelvin, updated on each iteration
+    let groundTemperature = ground.minimumTemperature;
+    const atmosphereLayerTemperatures = layers.map( layer => layer.minimumTemperature );
+
+    let iterations = 0;
+    let maxChange = Number.POSITIVE_INFINITY;
+    while ( maxChange > CONVERGENCE_THRESHOLD && iterations < MAX_ITERATIONS ) {
+
+      // Move the energy through the atmosphere.
+      propagateEnergy( spec, stack, fluxes );
+
+      // Update the emitted energy for each element such that it, along with any heat moved by convection, matches the
+      // absorbed energy.
+      maxChange = 0;
+      stack.forEach( ( element, i ) => {
+        let absorbedEnergyRate = 0;
+        let numberOfRadiatingSurfaces = 0;
+        let emissivity = 1;
+        let minimumTemperature = 0;
+        let getConvectiveEnergyRate: ( ( temperature: number ) => number ) | null = null;
+        if ( element.type === 'ground' ) {
+          absorbedEnergyRate = visibleDown[ i ] * ( 1 - ground.albedo ) + infraredDown[ i ] * ground.emissivity;
+          numberOfRadiatingSurfaces = ground.radiationDirections.length;
+          emissivity = ground.emissivity;
+          minimumTemperature = ground.minimumTemperature;
+          if ( spec.convection ) {
+            const convection = spec.convection;
+            getConvectiveEnergyRate = temperature => -_.sum( convection.receivingLayerIndices.map(
+              index => getConvectiveEnergyRateForLayer( convection, temperature, atmosphereLayerTemperatures[ index ] )
+            ) );
+          }
+        }
+        else if ( element.type === 'atmosphereLayer' ) {
+          const layer = layers[ element.index ];
+          absorbedEnergyRate = ( infraredUp[ i - 1 ] + infraredDown[ i ] ) * layer.energyAbsorptionProportion +
+                               ( visibleUp[ i - 1 ] + visibleDown[ i ] ) * layer.visibleAbsorptionProportion;
+          numberOfRadiatingSurfaces = layer.radiationDirections.length;
+          emissivity = layer.emissivity;
+          minimumTemperature = layer.minimumTemperature;
+          if ( spec.convection && spec.convection.receivingLayerIndices.includes( element.index ) ) {
+            const convection = spec.convection;
+            getConvectiveEnergyRate = temperature =>
+              getConvectiveEnergyRateForLayer( convection, groundTemperature, temperature );
+          }
+        }
+        if ( numberOfRadiatingSurfaces > 0 ) {
+          let emittedEnergyRate = absorbedEnergyRate / numberOfRadiatingSurfaces;
+          let temperature: number;
+          if ( getConvectiveEnergyRate ) {
+
+            // The heat moved by convection depends on the temperature, so find the temperature at which the element
+            // radiates what it absorbs plus what it gains, or minus what it loses, through convection.
+            const getConvectiveGain = getConvectiveEnergyRate;
+            temperature = findBalancedTemperature(
+              temperature => numberOfRadiatingSurfaces * emissivity * STEFAN_BOLTZMANN_CONSTANT *
+                             Math.pow( temperature, 4 ) - absorbedEnergyRate - getConvectiveGain( temperature ),
+              minimumTemperature
+            );
+            emittedEnergyRate = Math.max(
+              ( absorbedEnergyRate + getConvectiveEnergyRate( temperature ) ) / numberOfRadiatingSurfaces,
+              0
+            );
+          }
+          else {
+            temperature = RadiativeEquilibriumSolver.energyRateToTemperature(
+              emittedEnergyRate,
+              emissivity,
+              minimumTemperature
+            );
+          }
+          if ( element.type === 'ground' ) {
+            groundTemperature = temperature;
+          }
+          else {
+            atmosphereLayerTemperatures[ element.index ] = temperature;
+          }
+          maxChange = Math.max( maxChange, Math.abs( emittedEnergyRate - element.emittedEnergyRate ) );
+          element.emittedEnergyRate = emittedEnergyRate;
+        }
+      } );
+
+      iterations++;
+    }
+
+    assert && assert( iterations < MAX_ITERATIONS, 'equilibrium solution did not converge' );
+
+    return {
+      groundTemperature: groundTemperature,
+      atmosphereLayerTemperatures: atmosphereLayerTemperatures,
+      outgoingEnergyRate: visibleUp[ numberOfGaps - 1 ] + infraredUp[ numberOfGaps - 1 ]
+    };
+  },
+
+  /**
+   * Calculate the rate at which energy leaves the top of the atmosphere described by the provided spec when the ground
+   * and the atmosphere layers are held at the provided temperatures instead of being allowed to reach equilibrium.  The
+   * difference between this and the incoming energy is the imbalance that a change to the atmosphere produces before
+   * any of the temperatures respond, which is how radiative forcing is defined.
+   * @param spec
+   * @param groundTemperature - in Kelvin
+   * @param atmosphereLayerTemperatures - in Kelvin, in the same order as the atmosphere layers in the spec
+   */
+  calculateOutgoingEnergyRate( spec: EquilibriumSpec,
+                               groundTemperature: number,
+                               atmosphereLayerTemperatures: number[] ): number {
+
+    // Set the emitted energy for each element from its temperature using the Stefan-Boltzmann equation.
+    const stack = createStack( spec );
+    stack.forEach( element => {
+      if ( element.type === 'ground' ) {
+        element.emittedEnergyRate = spec.ground.emissivity * STEFAN_BOLTZMANN_CONSTANT *
+                                    Math.pow( groundTemperature, 4 );
+      }
+      else if ( element.type === 'atmosphereLayer' ) {
+        element.emittedEnergyRate = spec.atmosphereLayers[ element.index ].emissivity * STEFAN_BOLTZMANN_CONSTANT *
+                                    Math.pow( atmosphereLayerTemperatures[ element.index ], 4 );
+      }
+    } );
+
+    // The emitted energy doesn't change, but the energy reflected by the ground and the clouds takes several passes
+    // through the atmosphere to settle.
+    const numberOfGaps = stack.length;
+    const fluxes = createEnergyFluxes( spec, numberOfGaps );
+    let outgoingEnergyRate = 0;
+    let iterations = 0;
+    let change = Number.POSITIVE_INFINITY;
+    while ( change > CONVERGENCE_THRESHOLD && iterations < MAX_ITERATIONS ) {
+      propagateEnergy( spec, stack, fluxes );
+      const updatedOutgoingEnergyRate = fluxes.visibleUp[ numberOfGaps - 1 ] + fluxes.infraredUp[ numberOfGaps - 1 ];
+      change = Math.abs( updatedOutgoingEnergyRate - outgoingEnergyRate );
+      outgoingEnergyRate = updatedOutgoingEnergyRate;
+      iterations++;
+    }
+
+    assert && assert( iterations < MAX_ITERATIONS, 'outgoing energy calculation did not converge' );
+
+    return outgoingEnergyRate;
+  },
+
+  /**
+   * Get the temperature at which a surface with the provided emissivity radiates the provided energy rate.  The layers
+   * in this model don't radiate below their minimum temperatures, so the result is limited to that value.
+   * @param energyRate - in watts per square meter
+   * @param emissivity - from 0 (exclusive) to 1
+   * @param minimumTemperature - in Kelvin
+   */
+  energyRateToTemperature( energyRate: number, emissivity: number, minimumTemperature: number ): number {
+    assert && assert( emissivity > 0, `emissivity must be positive: ${emissivity}` );
+    return Math.max( Math.pow( energyRate / ( emissivity * STEFAN_BOLTZMANN_CONSTANT ), 0.25 ), minimumTemperature );
+  },
+
+  /**
+   * Compare two equilibrium specs.  The specs only contain values, so they are the same if all the values match.
+   */
+  isSameSpec( spec1: EquilibriumSpec, spec2: EquilibriumSpec ): boolean {
+    return _.isEqual( spec1, spec2 );
+  }
+};
+
+export default RadiativeEquilibriumSolver;
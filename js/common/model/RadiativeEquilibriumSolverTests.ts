@@ -0,0 +1,123 @@
+// Copyright 2026, University of Colorado Boulder
+
+/**
+ * QUnit tests for RadiativeEquilibriumSolver, which compare the solutions for simple configurations of the layer model
+ * to values that can be calculated by hand.
+ *
+ * @author John Blanco (PhET Interactive Simulations)
+ */
+
+import GreenhouseEffectConstants from '../GreenhouseEffectConstants.js';
+import EnergyDirection from './EnergyDirection.js';
+import RadiativeEquilibriumSolver, { EquilibriumAtmosphereLayerSpec, EquilibriumSpec } from './RadiativeEquilibriumSolver.js';
+
+// in watts per square meter, chosen to be roughly what the Earth absorbs from the sun
+const INCOMING_SOLAR_ENERGY_RATE = 240;
+
+// the amount by which the solved temperatures can differ from the calculated ones, in Kelvin
+const TEMPERATURE_TOLERANCE = 1E-3;
+
+// The temperature, in Kelvin, at which a black body radiates all the energy from the sun.  This is the temperature of
+// a planet with no albedo and no atmosphere, and the temperature of the top layer of the atmosphere at equilibrium.
+const EFFECTIVE_TEMPERATURE = Math.pow(
+  INCOMING_SOLAR_ENERGY_RATE / GreenhouseEffectConstants.STEFAN_BOLTZMANN_CONSTANT,
+  0.25
+);
+
+const createSpec = ( atmosphereLayers: EquilibriumAtmosphereLayerSpec[] ): EquilibriumSpec => ( {
+  incomingSolarEnergyRate: INCOMING_SOLAR_ENERGY_RATE,
+  ground: {
+    albedo: 0,
+    emissivity: 1,
+    minimumTemperature: 0,
+    radiationDirections: [ EnergyDirection.UP ]
+  },
+  atmosphereLayers: atmosphereLayers,
+  clouds: [],
+  convection: null
+} );
+
+const createFullyAbsorbingLayer = ( altitude: number ): EquilibriumAtmosphereLayerSpec => ( {
+  altitude: altitude,
+  energyAbsorptionProportion: 1,
+  visibleAbsorptionProportion: 0,
+  emissivity: 1,
+  minimumTemperature: 0,
+  radiationDirections: [ EnergyDirection.UP, EnergyDirection.DOWN ]
+} );
+
+const isClose = ( value: number, expectedValue: number ) => Math.abs( value - expectedValue ) < TEMPERATURE_TOLERANCE;
+
+QUnit.module( 'RadiativeEquilibriumSolver' );
+
+QUnit.test( 'a planet with no atmosphere radiates at the effective temperature', assert => {
+  const solution = RadiativeEquilibriumSolver.solve( createSpec( [] ) );
+  assert.ok(
+    isClose( solution.groundTemperature, EFFECTIVE_TEMPERATURE ),
+    `ground temperature ${solution.groundTemperature} should be ${EFFECTIVE_TEMPERATURE}`
+  );
+  assert.ok(
+    Math.abs( solution.outgoingEnergyRate - INCOMING_SOLAR_ENERGY_RATE ) < 1E-3,
+    'all the incoming energy should leave the top of the atmosphere'
+  );
+} );
+
+QUnit.test( 'a fully absorbing layer warms the ground by a factor of the fourth root of two', assert => {
+  const solution = RadiativeEquilibriumSolver.solve( createSpec( [ createFullyAbsorbingLayer( 10000 ) ] ) );
+  const expectedGroundTemperature = Math.pow( 2, 0.25 ) * EFFECTIVE_TEMPERATURE;
+  assert.ok(
+    isClose( solution.groundTemperature, expectedGroundTemperature ),
+    `ground temperature ${solution.groundTemperature} should be ${expectedGroundTemperature}`
+  );
+  assert.ok(
+    isClose( solution.atmosphereLayerTemperatures[ 0 ], EFFECTIVE_TEMPERATURE ),
+    `layer temperature ${solution.atmosphereLayerTemperatures[ 0 ]} should be ${EFFECTIVE_TEMPERATURE}`
+  );
+} );
+
+QUnit.test( 'two fully absorbing layers warm the ground by a factor of the fourth root of three', assert => {
+  const solution = RadiativeEquilibriumSolver.solve( createSpec( [
+    createFullyAbsorbingLayer( 5000 ),
+    createFullyAbsorbingLayer( 10000 )
+  ] ) );
+  const expectedGroundTemperature = Math.pow( 3, 0.25 ) * EFFECTIVE_TEMPERATURE;
+  assert.ok(
+    isClose( solution.groundTemperature, expectedGroundTemperature ),
+    `ground temperature ${solution.groundTemperature} should be ${expectedGroundTemperature}`
+  );
+} );
+
+QUnit.test( 'a ground with an emissivity below one is warmer than a black body', assert => {
+
+  // The ground absorbs all the sunlight and radiates it as emissivity * sigma * T^4, so the temperature is the effective
+  // temperature divided by the fourth root of the emissivity.
+  const groundEmissivity = 0.8;
+  const spec = createSpec( [] );
+  spec.ground.emissivity = groundEmissivity;
+  const solution = RadiativeEquilibriumSolver.solve( spec );
+  const expectedGroundTemperature = EFFECTIVE_TEMPERATURE / Math.pow( groundEmissivity, 0.25 );
+  assert.ok(
+    isClose( solution.groundTemperature, expectedGroundTemperature ),
+    `ground temperature ${solution.groundTemperature} should be ${expectedGroundTemperature}`
+  );
+} );
+
+QUnit.test( 'specs with different convection coefficients are not the same', assert => {
+  const createSpecWithConvection = ( latentHeatTransferCoefficient: number ) => {
+    const spec = createSpec( [ createFullyAbsorbingLayer( 5000 ) ] );
+    spec.convection = {
+      receivingLayerIndices: [ 0 ],
+      sensibleHeatTransferCoefficient: 0.5,
+      latentHeatTransferCoefficient: latentHeatTransferCoefficient
+    };
+    return spec;
+  };
+  assert.ok(
+    RadiativeEquilibriumSolver.isSameSpec( createSpecWithConvection( 2 ), createSpecWithConvection( 2 ) ),
+    'specs made from the same settings should be the same'
+  );
+  assert.notOk(
+    RadiativeEquilibriumSolver.isSameSpec( createSpecWithConvection( 2 ), createSpecWithConvection( 3 ) ),
+    'specs with different coefficients should differ'
+  );
+} );
@@ -0,0 +1,85 @@
+// Copyright 2026, University of Colorado Boulder
+
+/**
+ * SpectralBand is an enumeration of the ranges of wavelengths that are treated separately when modeling how
+ * electromagnetic energy interacts with the atmosphere.  The bands are contiguous, so every wavelength in the range
+ * covered by the model falls into exactly one band.
+ *
+ * @author John Blanco (PhET Interactive Simulations)
+ */
+
+import Enumeration from '../../../../phet-core/js/Enumeration.js';
+import EnumerationValue from '../../../../phet-core/js/EnumerationValue.js';
+import GreenhouseEffectConstants from '../GreenhouseEffectConstants.js';
+
+class SpectralBand extends EnumerationValue {
+
+  // ultraviolet light, which is absorbed by ozone high in the atmosphere
+  public static readonly ULTRAVIOLET = new SpectralBand( 10E-9, 400E-9, 300E-9, false );
+
+  // visible light, which makes up most of the energy coming from the sun
+  public static readonly VISIBLE = new SpectralBand(
+    400E-9,
+    700E-9,
+    GreenhouseEffectConstants.VISIBLE_WAVELENGTH,
+    false
+  );
+
+  // near infrared light, a portion of which comes from the sun and is absorbed by water vapor
+  public static readonly NEAR_INFRARED = new SpectralBand( 700E-9, 4E-6, 2E-6, false );
+
+  // thermal infrared that is strongly absorbed by water vapor
+  public static readonly WATER_VAPOR_INFRARED = new SpectralBand( 4E-6, 8E-6, 6.3E-6, true );
+
+  // Thermal infrared in the range where the atmosphere is relatively transparent, often called the "atmospheric
+  // window".  The infrared energy emitted by the ground and atmosphere layers in the model is in this band.
+  public static readonly ATMOSPHERIC_WINDOW = new SpectralBand(
+    8E-6,
+    13E-6,
+    GreenhouseEffectConstants.INFRARED_WAVELENGTH,
+    true
+  );
+
+  // thermal infrared that is strongly absorbed by carbon dioxide
+  public static readonly CARBON_DIOXIDE_INFRARED = new SpectralBand( 13E-6, 1E-3, 15E-6, true );
+
+  // Gets a list of keys, values and mapping between them.  For use in EnumerationProperty and PhET-iO
+  public static readonly enumeration = new Enumeration( SpectralBand, {
+    phetioDocumentation: 'Ranges of wavelengths for which the atmosphere absorbs energy differently.'
+  } );
+
+  // the range of wavelengths in this band, in meters, including the min and excluding the max
+  public readonly minWavelength: number;
+  public readonly maxWavelength: number;
+
+  // The wavelength used for energy in this band, in meters.  For the visible and atmospheric window bands, these are
+  // the wavelengths that are used throughout the sim for visible and infrared light.
+  public readonly representativeWavelength: number;
+
+  // whether this band is part of the thermal infrared, which is the portion of the spectrum in which the ground and
+  // the atmosphere radiate energy
+  public readonly isThermalInfrared: boolean;
+
+  public constructor( minWavelength: number,
+                      maxWavelength: number,
+                      representativeWavelength: number,
+                      isThermalInfrared: boolean ) {
+    super();
+    this.minWavelength = minWavelength;
+    this.maxWavelength = maxWavelength;
+    this.representativeWavelength = representativeWavelength;
+    this.isThermalInfrared = isThermalInfrared;
+  }
+
+  /**
+   * Get the band that contains the provided wavelength.  Wavelengths outside the modeled range are put into the
+   * nearest band.
+   * @param wavelength - in meters
+   */
+  public static fromWavelength( wavelength: number ): SpectralBand {
+    const bands = SpectralBand.enumeration.values;
+    return bands.find( band => wavelength < band.maxWavelength ) || bands[ bands.length - 1 ];
+  }
+}
+
+export default SpectralBand;
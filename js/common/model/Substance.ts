@@ -0,0 +1,104 @@
+// Copyright 2021-2026, University of Colorado Boulder
+
+/**
+ * Substance describes a material of which an EnergyAbsorbingEmittingLayer can be made.  The density and specific heat
+ * capacity determine how much energy it takes to change the temperature of a layer, and the radiation directions
+ * determine whether it radiates from one surface or both.  A few standard substances are defined here, and others can
+ * be defined through PhET-iO, see SubstanceRegistry.
+ *
+ * @author John Blanco (PhET Interactive Simulations)
+ */
+
+import ArrayIO from '../../../../tandem/js/types/ArrayIO.js';
+import EnumerationIO from '../../../../tandem/js/types/EnumerationIO.js';
+import IOType from '../../../../tandem/js/types/IOType.js';
+import NumberIO from '../../../../tandem/js/types/NumberIO.js';
+import StringIO from '../../../../tandem/js/types/StringIO.js';
+import EnergyDirection from './EnergyDirection.js';
+
+class Substance {
+
+  // a name that identifies this substance, unique among the substances in a SubstanceRegistry
+  public readonly name: string;
+
+  // In kg/m^3
+  public readonly density: number;
+
+  // In J/kg°K
+  public readonly specificHeatCapacity: number;
+
+  public readonly radiationDirections: EnergyDirection[];
+
+  public constructor( name: string,
+                      density: number,
+                      specificHeatCapacity: number,
+                      radiationDirections: EnergyDirection[] ) {
+
+    assert && assert( name.length > 0, 'a substance must have a name' );
+    assert && assert( density > 0, `density must be positive: ${density}` );
+    assert && assert(
+      specificHeatCapacity > 0,
+      `specific heat capacity must be positive: ${specificHeatCapacity}`
+    );
+    assert && assert(
+      radiationDirections.length > 0 && _.uniq( radiationDirections ).length === radiationDirections.length,
+      'a substance must radiate in at least one direction, and each direction can only be included once'
+    );
+
+    this.name = name;
+    this.density = density;
+    this.specificHeatCapacity = specificHeatCapacity;
+    this.radiationDirections = radiationDirections;
+  }
+
+  /**
+   * Returns true if the provided substance has the same name and properties as this one.
+   */
+  public equals( substance: Substance ): boolean {
+    return substance.name === this.name &&
+           substance.density === this.density &&
+           substance.specificHeatCapacity === this.specificHeatCapacity &&
+           _.isEqual( substance.radiationDirections, this.radiationDirections );
+  }
+
+  public static readonly GLASS = new Substance( 'glass', 2500, 840, [ EnergyDirection.UP, EnergyDirection.DOWN ] );
+  public static readonly EARTH = new Substance( 'earth', 1250, 1250, [ EnergyDirection.UP ] );
+  public static readonly WATER = new Substance( 'water', 1025, 3990, [ EnergyDirection.UP ] ); // seawater
+
+  // the substances that are always available
+  public static readonly STANDARD_SUBSTANCES = [ Substance.GLASS, Substance.EARTH, Substance.WATER ];
+
+  /**
+   * SubstanceIO implements data type serialization as described in
+   * https://github.com/phetsims/phet-io/blob/main/doc/phet-io-instrumentation-technical-guide.md#serialization.
+   * This is appropriate because Substance instances are not PhetioObjects and are immutable, so a new instance with
+   * the same values can be used in place of the original.  The layers only accept a substance that matches one that is
+   * available to them, see SubstanceRegistry, so a state can't introduce a substance that hasn't been defined.
+   */
+  public static readonly SubstanceIO = new IOType<Substance, SubstanceStateObject>( 'SubstanceIO', {
+    valueType: Substance,
+    documentation: 'A material of which a layer can be made.  The density is in kg/m^3, the specific heat capacity ' +
+                   'is in J/(kg K), and the radiation directions are the surfaces from which the layer radiates.',
+    stateSchema: {
+      name: StringIO,
+      density: NumberIO,
+      specificHeatCapacity: NumberIO,
+      radiationDirections: ArrayIO( EnumerationIO( EnergyDirection ) )
+    },
+    fromStateObject: ( stateObject: SubstanceStateObject ) => new Substance(
+      stateObject.name,
+      stateObject.density,
+      stateObject.specificHeatCapacity,
+      stateObject.radiationDirections.map( direction => EnumerationIO( EnergyDirection ).fromStateObject( direction ) )
+    )
+  } );
+}
+
+export type SubstanceStateObject = {
+  name: string;
+  density: number;
+  specificHeatCapacity: number;
+  radiationDirections: string[];
+};
+
+export default Substance;
@@ -0,0 +1,185 @@
+// Copyright 2026, University of Colorado Boulder
+
+/**
+ * SubstanceRegistry keeps track of the substances that can be used for the ground and atmosphere layers in a model.
+ * It starts out with the standard substances, and PhET-iO clients can define others with their own density, specific
+ * heat capacity, and radiation directions, then assign them to layers by setting the value of the layer's
+ * substanceProperty to a substance obtained from this registry.  This makes it possible to compare, for instance, a
+ * greenhouse made of glass panes with an atmosphere made of a layer of gas.
+ *
+ * The substances that have been defined are intended to be configuration, so they are kept when the model is reset.
+ * They are included in the PhET-iO state, and the layers only accept substances that are in this registry, so the
+ * registry must be created before the layers so that its state is set before theirs.
+ *
+ * @author John Blanco (PhET Interactive Simulations)
+ */
+
+import optionize, { EmptySelfOptions } from '../../../../phet-core/js/optionize.js';
+import WithRequired from '../../../../phet-core/js/types/WithRequired.js';
+import PhetioObject, { PhetioObjectOptions } from '../../../../tandem/js/PhetioObject.js';
+import ArrayIO from '../../../../tandem/js/types/ArrayIO.js';
+import EnumerationIO from '../../../../tandem/js/types/EnumerationIO.js';
+import IOType from '../../../../tandem/js/types/IOType.js';
+import NumberIO from '../../../../tandem/js/types/NumberIO.js';
+import StringIO from '../../../../tandem/js/types/StringIO.js';
+import EnergyDirection from './EnergyDirection.js';
+import Substance, { SubstanceStateObject } from './Substance.js';
+
+// for serializing the substances that have been defined
+const SubstanceArrayIO = ArrayIO( Substance.SubstanceIO );
+
+type SelfOptions = EmptySelfOptions;
+export type SubstanceRegistryOptions = SelfOptions & WithRequired<PhetioObjectOptions, 'tandem'>;
+
+class SubstanceRegistry extends PhetioObject {
+
+  // the available substances, keyed by name
+  private readonly substances = new Map<string, Substance>();
+
+  public constructor( providedOptions: SubstanceRegistryOptions ) {
+
+    const options = optionize<SubstanceRegistryOptions, SelfOptions, PhetioObjectOptions>()( {
+
+      // phet-io
+      phetioType: SubstanceRegistry.SubstanceRegistryIO,
+      phetioDocumentation: 'The substances that can be used for the ground and atmosphere layers.  Substances can be ' +
+                           'defined here and then used as the value of the substanceProperty for a layer.',
+      isDisposable: false
+    }, providedOptions );
+
+    super( options );
+
+    Substance.STANDARD_SUBSTANCES.forEach( substance => this.substances.set( substance.name, substance ) );
+  }
+
+  /**
+   * Define a new substance and add it to this registry.  Since this is intended to be used through PhET-iO, invalid
+   * values cause an error to be thrown rather than an assertion.
+   * @param name - must not already be in use
+   * @param density - in kg/m^3, must be positive
+   * @param specificHeatCapacity - in J/(kg K), must be positive
+   * @param radiationDirections - the directions in which a layer made of this substance radiates, at least one
+   * @returns the new substance
+   */
+  public defineSubstance( name: string,
+                          density: number,
+                          specificHeatCapacity: number,
+                          radiationDirections: EnergyDirection[] ): Substance {
+    if ( name.length === 0 ) {
+      throw new Error( 'a substance must have a name' );
+    }
+    if ( this.substances.has( name ) ) {
+      throw new Error( `a substance with this name is already defined: ${name}` );
+    }
+    if ( !( density > 0 ) || !( specificHeatCapacity > 0 ) ) {
+      throw new Error( `density and specific heat capacity must be positive: ${density}, ${specificHeatCapacity}` );
+    }
+    if ( radiationDirections.length === 0 || _.uniq( radiationDirections ).length !== radiationDirections.length ) {
+      throw new Error( 'a substance must radiate in at least one direction, and in each direction only once' );
+    }
+    const substance = new Substance( name, density, specificHeatCapacity, radiationDirections );
+    this.substances.set( name, substance );
+    return substance;
+  }
+
+  /**
+   * Get the substance with the provided name.
+   */
+  public getSubstance( name: string ): Substance {
+    const substance = this.substances.get( name );
+    if ( !substance ) {
+      throw new Error( `no substance with this name is defined: ${name}` );
+    }
+    return substance;
+  }
+
+  /**
+   * Returns true if the provided substance, or one with the same name and properties, is in this registry.
+   */
+  public hasSubstance( substance: Substance ): boolean {
+    const registeredSubstance = this.substances.get( substance.name );
+    return !!registeredSubstance && registeredSubstance.equals( substance );
+  }
+
+  /**
+   * Get the substances that have been defined, meaning all but the standard ones.
+   */
+  private getDefinedSubstances(): Substance[] {
+    return Array.from( this.substances.values() ).filter(
+      substance => !Substance.STANDARD_SUBSTANCES.includes( substance )
+    );
+  }
+
+  /**
+   * Get the names of all the substances in this registry, with the standard substances first.
+   */
+  public getSubstanceNames(): string[] {
+    return Array.from( this.substances.keys() );
+  }
+
+  public static readonly SubstanceRegistryIO =
+    new IOType<SubstanceRegistry, SubstanceRegistryStateObject>(
+      'SubstanceRegistryIO',
+      {
+        valueType: SubstanceRegistry,
+        documentation: 'Keeps track of the substances, both standard and user-defined, that can be used for layers.',
+        stateSchema: {
+          definedSubstances: SubstanceArrayIO
+        },
+        toStateObject: ( registry: SubstanceRegistry ) => ( {
+          definedSubstances: SubstanceArrayIO.toStateObject( registry.getDefinedSubstances() )
+        } ),
+        applyState: ( registry: SubstanceRegistry, stateObject: SubstanceRegistryStateObject ) => {
+
+          // Replace the defined substances with those in the state, keeping the standard ones.
+          registry.substances.clear();
+          Substance.STANDARD_SUBSTANCES.forEach( substance => registry.substances.set( substance.name, substance ) );
+          SubstanceArrayIO.fromStateObject( stateObject.definedSubstances ).forEach(
+            substance => registry.substances.set( substance.name, substance )
+          );
+        },
+        methods: {
+          defineSubstance: {
+            returnType: Substance.SubstanceIO,
+            parameterTypes: [ StringIO, NumberIO, NumberIO, ArrayIO( EnumerationIO( EnergyDirection ) ) ],
+            implementation: function( this: SubstanceRegistry,
+                                      name: string,
+                                      density: number,
+                                      specificHeatCapacity: number,
+                                      radiationDirections: EnergyDirection[] ) {
+              return this.defineSubstance( name, density, specificHeatCapacity, radiationDirections );
+            },
+            documentation: 'Define a new substance with the provided name, density in kg/m^3, specific heat ' +
+                           'capacity in J/(kg K), and radiation directions, which can be "UP", "DOWN", or both.  ' +
+                           'The ground can only use substances that radiate up.  Returns the substance, which can be ' +
+                           'used as the value for the substanceProperty of a layer.'
+          },
+          getSubstance: {
+            returnType: Substance.SubstanceIO,
+            parameterTypes: [ StringIO ],
+            implementation: function( this: SubstanceRegistry, name: string ) {
+              return this.getSubstance( name );
+            },
+            documentation: 'Get the substance with the provided name, which can be used as the value for the ' +
+                           'substanceProperty of a layer.',
+            invocableForReadOnlyElements: true
+          },
+          getSubstanceNames: {
+            returnType: ArrayIO( StringIO ),
+            parameterTypes: [],
+            implementation: function( this: SubstanceRegistry ) {
+              return this.getSubstanceNames();
+            },
+            documentation: 'Get the names of all the substances that are defined, including the standard ones.',
+            invocableForReadOnlyElements: true
+          }
+        }
+      }
+    );
+}
+
+type SubstanceRegistryStateObject = {
+  definedSubstances: SubstanceStateObject[];
+};
+
+export default SubstanceRegistry;
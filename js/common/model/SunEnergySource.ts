@@ -2,24 +2,35 @@
 
 /**
  * SunEnergySource is used to produce energy at a constant rate.  The amount of energy produced is based on what the
- * real sun would be delivering to the Earth for the provided surface area.
+ * real sun would be delivering to the Earth for the provided surface area.  By default, this is the average over the
+ * entire Earth and the whole year, but it can optionally be based on a specific latitude and day of the year.  The
+ * solar constant can be changed to model planets that are closer to or farther from the sun.
+ *
+ * Optionally, the output can follow a diurnal (day/night) cycle, in which case it varies with the angle of the sun as
+ * it would at the equator during an equinox, and there is no sunlight at night.  The output is scaled so that the
+ * average over a full day is the same as the constant output.
  *
  * @author John Blanco (PhET Interactive Simulations)
  */
 
 import BooleanProperty from '../../../../axon/js/BooleanProperty.js';
+import DerivedProperty from '../../../../axon/js/DerivedProperty.js';
 import Disposable from '../../../../axon/js/Disposable.js';
 import NumberProperty from '../../../../axon/js/NumberProperty.js';
+import { TReadOnlyProperty } from '../../../../axon/js/TReadOnlyProperty.js';
 import Range from '../../../../dot/js/Range.js';
+import Utils from '../../../../dot/js/Utils.js';
 import optionize from '../../../../phet-core/js/optionize.js';
 import PickRequired from '../../../../phet-core/js/types/PickRequired.js';
 import { PhetioObjectOptions } from '../../../../tandem/js/PhetioObject.js';
 import Tandem from '../../../../tandem/js/Tandem.js';
+import NumberIO from '../../../../tandem/js/types/NumberIO.js';
 import GreenhouseEffectConstants from '../GreenhouseEffectConstants.js';
-import GreenhouseEffectQueryParameters from '../GreenhouseEffectQueryParameters.js';
+import BlackbodySpectrum from './BlackbodySpectrum.js';
 import EMEnergyPacket from './EMEnergyPacket.js';
 import EnergyDirection from './EnergyDirection.js';
 import EnergyRateTracker from './EnergyRateTracker.js';
+import Insolation from './Insolation.js';
 import LayersModel from './LayersModel.js';
 
 // Energy produced the sun in Watts per square meter.  This value was calculated using the Stefan-Boltzmann equation,
@@ -27,15 +38,44 @@ import LayersModel from './LayersModel.js';
 // entitled "Effective temperature of the Earth".
 const OUTPUT_ENERGY_RATE = 343.6;
 
+// The intensity of the sunlight arriving at the Earth, in Watts per square meter.  This is spread over the surface of
+// the Earth, which has four times the area of the disk that intercepts the sunlight, hence the average output above.
+const SOLAR_CONSTANT = OUTPUT_ENERGY_RATE * 4;
+
+// initial location and date used when the insolation is based on latitude and day of year, which is the equator on
+// the March equinox
+const INITIAL_LATITUDE = 0;
+const INITIAL_DAY_OF_YEAR = 80;
+
+// The time of day, as a proportion of a full day starting at midnight, at which the diurnal cycle starts.  This is
+// sunrise, so that the sunlight starts to increase right away.
+const INITIAL_TIME_OF_DAY = 0.25;
+
 type SelfOptions = {
 
   // Determines whether proportionateOutputRateProperty is instrumented. This Property is necessary for the Layer Model
   // screen, but it can create problematic situations on the Waves and Photons screens, which were not designed to
   // support variable solar intensity. See https://github.com/phetsims/greenhouse-effect/issues/283
   proportionateOutputRatePropertyIsInstrumented?: boolean;
+
+  // Whether the energy from the sun is spread across the spectral bands according to the temperature of the sun, see
+  // BlackbodySpectrum.  When false, all energy from the sun is at the visible wavelength used throughout the sim.
+  multiBandEmission?: boolean;
+
+  // whether the sun is shining when the model starts
+  initiallyShining?: boolean;
+
+  // whether the output of the sun follows a day/night cycle when the model starts
+  diurnalCycleInitiallyEnabled?: boolean;
+
+  // the initial length of a full day and night, in seconds
+  initialDayLength?: number;
+
+  // whether the output of the sun is based on the latitude and day of the year when the model starts
+  localInsolationInitiallyEnabled?: boolean;
 };
 
-type SunEnergySourceOptions = SelfOptions & PickRequired<PhetioObjectOptions, 'tandem'>;
+export type SunEnergySourceOptions = SelfOptions & PickRequired<PhetioObjectOptions, 'tandem'>;
 
 class SunEnergySource {
 
@@ -45,8 +85,34 @@ class SunEnergySource {
 
   // value that controls the output level relative to Earth's sun
   public readonly proportionateOutputRateProperty: NumberProperty;
+
+  // The intensity of the sunlight at the top of the atmosphere when the output is the same as our sun, in watts per
+  // square meter.  This depends on the distance of the planet from the sun.
+  public readonly solarConstantProperty: NumberProperty;
+
+  // whether the output of the sun follows a day/night cycle
+  public readonly diurnalCycleEnabledProperty: BooleanProperty;
+
+  // the length of a full day and night, in seconds
+  public readonly dayLengthProperty: NumberProperty;
+
+  // the time of day as a proportion of a full day, where 0 is midnight and 0.5 is noon
+  public readonly timeOfDayProperty: NumberProperty;
+
+  // whether the output of the sun is based on the latitude and day of the year rather than the average for the Earth
+  public readonly localInsolationEnabledProperty: BooleanProperty;
+
+  // the latitude, in degrees, and day of the year used when the local insolation is enabled
+  public readonly latitudeProperty: NumberProperty;
+  public readonly dayOfYearProperty: NumberProperty;
+
+  // The sunlight arriving at the top of the atmosphere averaged over a day, in watts per square meter.  This includes
+  // the effect of the proportionate output rate, but not whether the sun is shining.
+  public readonly insolationProperty: TReadOnlyProperty<number>;
+
   private readonly surfaceAreaOfIncidentLight: number;
   private readonly emEnergyPackets: EMEnergyPacket[];
+  private readonly multiBandEmission: boolean;
 
   /**
    * @param surfaceAreaOfIncidentLight - surface area onto which the sun is shining
@@ -60,11 +126,16 @@ class SunEnergySource {
     const options = optionize<SunEnergySourceOptions, SelfOptions>()( {
 
       // SelfOptions
-      proportionateOutputRatePropertyIsInstrumented: false
+      proportionateOutputRatePropertyIsInstrumented: false,
+      multiBandEmission: false,
+      initiallyShining: false,
+      diurnalCycleInitiallyEnabled: false,
+      initialDayLength: 60,
+      localInsolationInitiallyEnabled: false
 
     }, providedOptions );
 
-    this.isShiningProperty = new BooleanProperty( GreenhouseEffectQueryParameters.initiallyStarted, {
+    this.isShiningProperty = new BooleanProperty( options.initiallyShining, {
       tandem: options.tandem.createTandem( 'isShiningProperty' ),
       phetioFeatured: true
     } );
@@ -76,6 +147,87 @@ class SunEnergySource {
       phetioFeatured: true
     } );
 
+    this.solarConstantProperty = new NumberProperty( SOLAR_CONSTANT, {
+      range: new Range( 100, 3000 ),
+      tandem: options.tandem.createTandem( 'solarConstantProperty' ),
+      phetioFeatured: true,
+      phetioDocumentation: 'Intensity of the sunlight arriving at the planet, in watts per square meter, when the ' +
+                           'output of the sun is the same as our sun.'
+    } );
+
+    this.diurnalCycleEnabledProperty = new BooleanProperty( options.diurnalCycleInitiallyEnabled, {
+      tandem: options.tandem.createTandem( 'diurnalCycleEnabledProperty' ),
+      phetioFeatured: true,
+      phetioDocumentation: 'Whether the output of the sun varies over the course of a day, with no sunlight at night.'
+    } );
+
+    this.dayLengthProperty = new NumberProperty( options.initialDayLength, {
+      range: new Range( 10, 600 ),
+      units: 's',
+      tandem: options.tandem.createTandem( 'dayLengthProperty' ),
+      phetioFeatured: true,
+      phetioDocumentation: 'The length of a full day and night when the diurnal cycle is enabled.'
+    } );
+
+    this.timeOfDayProperty = new NumberProperty( INITIAL_TIME_OF_DAY, {
+      range: new Range( 0, 1 ),
+      tandem: options.tandem.createTandem( 'timeOfDayProperty' ),
+      phetioReadOnly: true,
+      phetioHighFrequency: true,
+      phetioDocumentation: 'The time of day as a proportion of a full day, where 0 is midnight and 0.5 is noon.'
+    } );
+
+    this.localInsolationEnabledProperty = new BooleanProperty( options.localInsolationInitiallyEnabled, {
+      tandem: options.tandem.createTandem( 'localInsolationEnabledProperty' ),
+      phetioFeatured: true,
+      phetioDocumentation: 'Whether the output of the sun is based on the latitude and day of the year instead of ' +
+                           'being the average for the whole Earth.'
+    } );
+
+    this.latitudeProperty = new NumberProperty( INITIAL_LATITUDE, {
+      range: new Range( -90, 90 ),
+      tandem: options.tandem.createTandem( 'latitudeProperty' ),
+      phetioFeatured: true,
+      phetioDocumentation: 'Latitude in degrees used for the output of the sun when local insolation is enabled, ' +
+                           'positive values are in the northern hemisphere.'
+    } );
+
+    this.dayOfYearProperty = new NumberProperty( INITIAL_DAY_OF_YEAR, {
+      range: new Range( 1, Insolation.DAYS_PER_YEAR ),
+      numberType: 'Integer',
+      tandem: options.tandem.createTandem( 'dayOfYearProperty' ),
+      phetioFeatured: true,
+      phetioDocumentation: 'Day of the year, starting with 1 for January 1st, used for the output of the sun when ' +
+                           'local insolation is enabled.'
+    } );
+
+    this.insolationProperty = new DerivedProperty(
+      [
+        this.localInsolationEnabledProperty,
+        this.latitudeProperty,
+        this.dayOfYearProperty,
+        this.proportionateOutputRateProperty,
+        this.solarConstantProperty
+      ],
+      ( localInsolationEnabled, latitude, dayOfYear, proportionateOutputRate, solarConstant ) => {
+
+        // The local value is often well above the global mean.  For instance, at the equator on an equinox it is the
+        // solar constant divided by π, about 437 W/m² for the Earth, versus the solar constant divided by 4, about
+        // 344 W/m², since the global mean includes the polar regions and the winter hemisphere.
+        const insolation = localInsolationEnabled ?
+                           Insolation.getDailyMeanInsolation( latitude, dayOfYear, solarConstant ) :
+                           SunEnergySource.getGlobalMeanInsolation( solarConstant );
+        return insolation * proportionateOutputRate;
+      },
+      {
+        tandem: options.tandem.createTandem( 'insolationProperty' ),
+        phetioValueType: NumberIO,
+        phetioFeatured: true,
+        phetioDocumentation: 'Sunlight arriving at the top of the atmosphere in watts per square meter, averaged ' +
+                             'over a day.'
+      }
+    );
+
     // tracks the average energy output
     this.outputEnergyRateTracker = new EnergyRateTracker( {
       tandem: options.tandem.createTandem( 'outputEnergyRateTracker' )
@@ -85,6 +237,8 @@ class SunEnergySource {
 
     // {EMEnergyPacket[]} - EM energy packet group where produced energy will be put.
     this.emEnergyPackets = emEnergyPackets;
+
+    this.multiBandEmission = options.multiBandEmission;
   }
 
   /**
@@ -93,15 +247,39 @@ class SunEnergySource {
    */
   public produceEnergy( dt: number ): void {
     if ( this.isShiningProperty.value ) {
-      const energyToProduce = OUTPUT_ENERGY_RATE * this.surfaceAreaOfIncidentLight *
-                              this.proportionateOutputRateProperty.value * dt;
+
+      // Move the time of day forward if the diurnal cycle is in effect.  If the insolation is based on the date, move
+      // to the next day at midnight so that the seasons progress.
+      if ( this.diurnalCycleEnabledProperty.value ) {
+        const timeOfDay = this.timeOfDayProperty.value + dt / this.dayLengthProperty.value;
+        if ( timeOfDay >= 1 && this.localInsolationEnabledProperty.value ) {
+          this.dayOfYearProperty.set( this.dayOfYearProperty.value % Insolation.DAYS_PER_YEAR + 1 );
+        }
+        this.timeOfDayProperty.set( timeOfDay % 1 );
+      }
+
+      const energyToProduce = this.getOutputEnergyRate() * this.surfaceAreaOfIncidentLight * dt;
       this.outputEnergyRateTracker.addEnergyInfo( energyToProduce, dt );
-      this.emEnergyPackets.push( new EMEnergyPacket(
-        GreenhouseEffectConstants.VISIBLE_WAVELENGTH,
-        energyToProduce,
-        LayersModel.HEIGHT_OF_ATMOSPHERE,
-        EnergyDirection.DOWN
-      ) );
+
+      // No energy is produced at night.
+      if ( energyToProduce > 0 ) {
+        if ( this.multiBandEmission ) {
+          this.emEnergyPackets.push( ...EMEnergyPacket.createBlackbodyPackets(
+            energyToProduce,
+            BlackbodySpectrum.SUN_TEMPERATURE,
+            LayersModel.HEIGHT_OF_ATMOSPHERE,
+            EnergyDirection.DOWN
+          ) );
+        }
+        else {
+          this.emEnergyPackets.push( new EMEnergyPacket(
+            GreenhouseEffectConstants.VISIBLE_WAVELENGTH,
+            energyToProduce,
+            LayersModel.HEIGHT_OF_ATMOSPHERE,
+            EnergyDirection.DOWN
+          ) );
+        }
+      }
     }
   }
 
@@ -109,13 +287,84 @@ class SunEnergySource {
    * Get the current output energy in watts per square meter.
    */
   public getOutputEnergyRate(): number {
-    return this.isShiningProperty.value ? OUTPUT_ENERGY_RATE * this.proportionateOutputRateProperty.value : 0;
+    return this.getMeanOutputEnergyRate() * this.getDiurnalMultiplier();
+  }
+
+  /**
+   * Get the output energy in watts per square meter averaged over a full day.  This is the same as the current output
+   * when the diurnal cycle is not enabled.
+   */
+  public getMeanOutputEnergyRate(): number {
+    return this.isShiningProperty.value ? this.insolationProperty.value : 0;
+  }
+
+  /**
+   * Get the cosine of the solar zenith angle, which is the angle between the sun and straight overhead, for the
+   * current time of day.  This is 1 when the sun is directly overhead, 0 at sunrise and sunset, and negative at night.
+   * The sun is modeled as being directly over the equator unless the local insolation is enabled.
+   */
+  public getCosineOfSolarZenithAngle(): number {
+    return Insolation.getCosineOfZenithAngle(
+      this.getLatitudeInRadians(),
+      this.getDeclination(),
+      2 * Math.PI * ( this.timeOfDayProperty.value - 0.5 )
+    );
+  }
+
+  /**
+   * Get the value by which the mean output is multiplied to get the current output based on the time of day.  The
+   * energy arriving on a horizontal surface is proportional to the cosine of the solar zenith angle, so this is that
+   * value divided by its average over a full day, which makes the average of the multiplier over a day equal to 1.
+   */
+  public getDiurnalMultiplier(): number {
+    let diurnalMultiplier = 1;
+    if ( this.diurnalCycleEnabledProperty.value ) {
+      const dailyMeanCosine = Insolation.getDailyMeanCosineOfZenithAngle(
+        this.getLatitudeInRadians(),
+        this.getDeclination()
+      );
+      diurnalMultiplier = dailyMeanCosine > 0 ?
+                          Utils.clamp( this.getCosineOfSolarZenithAngle(), 0, 1 ) / dailyMeanCosine :
+                          0;
+    }
+    return diurnalMultiplier;
+  }
+
+  /**
+   * Get the latitude used for the position of the sun in the sky, which is the equator unless the local insolation is
+   * enabled.
+   */
+  private getLatitudeInRadians(): number {
+    return this.localInsolationEnabledProperty.value ? Utils.toRadians( this.latitudeProperty.value ) : 0;
+  }
+
+  /**
+   * Get the declination of the sun, which is zero (as on an equinox) unless the local insolation is enabled.
+   */
+  private getDeclination(): number {
+    return this.localInsolationEnabledProperty.value ? Insolation.getDeclination( this.dayOfYearProperty.value ) : 0;
+  }
+
+  /**
+   * Get the sunlight arriving at the top of the atmosphere averaged over the whole surface of a planet and a full year,
+   * in watts per square meter.  The surface has four times the area of the disk that intercepts the sunlight.
+   * @param solarConstant - in watts per square meter
+   */
+  public static getGlobalMeanInsolation( solarConstant: number ): number {
+    return solarConstant / 4;
   }
 
   public reset(): void {
     this.outputEnergyRateTracker.reset();
     this.isShiningProperty.reset();
     this.proportionateOutputRateProperty.reset();
+    this.solarConstantProperty.reset();
+    this.diurnalCycleEnabledProperty.reset();
+    this.dayLengthProperty.reset();
+    this.timeOfDayProperty.reset();
+    this.localInsolationEnabledProperty.reset();
+    this.latitudeProperty.reset();
+    this.dayOfYearProperty.reset();
   }
 
   // The sun exists for the duration of the sim, so disposal is not supported.
@@ -125,6 +374,7 @@ class SunEnergySource {
 
   // static values
   public static readonly OUTPUT_ENERGY_RATE = OUTPUT_ENERGY_RATE;
+  public static readonly SOLAR_CONSTANT = SOLAR_CONSTANT;
 }
 
 export default SunEnergySource;
@@ -0,0 +1,42 @@
+// Copyright 2026, University of Colorado Boulder
+
+/**
+ * SurfaceType is an enumeration of the kinds of surface that the ground can have, which determine how much energy it
+ * takes to change the temperature of the surface.  Only a thin layer of land is heated and cooled by the energy that it
+ * absorbs and radiates, whereas the wind and waves mix the heat through the upper part of the ocean, so the ocean
+ * surface has a much larger heat capacity and responds much more slowly to changes.
+ *
+ * @author John Blanco (PhET Interactive Simulations)
+ */
+
+import Enumeration from '../../../../phet-core/js/Enumeration.js';
+import EnumerationValue from '../../../../phet-core/js/EnumerationValue.js';
+import Substance from './Substance.js';
+
+class SurfaceType extends EnumerationValue {
+
+  public static readonly LAND = new SurfaceType( Substance.EARTH, 1 );
+
+  // The mixed layer at the top of the ocean is typically tens of meters deep, compared to a few meters or less of land
+  // that is heated, and its thickness relative to that of the land was chosen to be roughly consistent with this.
+  public static readonly OCEAN = new SurfaceType( Substance.WATER, 20 );
+
+  // Gets a list of keys, values and mapping between them.  For use in EnumerationProperty and PhET-iO
+  public static readonly enumeration = new Enumeration( SurfaceType, {
+    phetioDocumentation: 'The kinds of surface that the ground can have, which determine its heat capacity.'
+  } );
+
+  // the substance at the surface
+  public readonly substance: Substance;
+
+  // the thickness of the portion of the surface that is heated, relative to the standard thickness for the layers
+  public readonly relativeThickness: number;
+
+  public constructor( substance: Substance, relativeThickness: number ) {
+    super();
+    this.substance = substance;
+    this.relativeThickness = relativeThickness;
+  }
+}
+
+export default SurfaceType;
@@ -0,0 +1,170 @@
+// Copyright 2026, University of Colorado Boulder
+
+/**
+ * WaterVaporFeedback models the way that the amount of water vapor in the atmosphere changes with the temperature of
+ * the surface, and how this changes the amount of infrared energy absorbed by the atmosphere.  Warmer air can hold more
+ * water vapor, and the amount that it can hold goes up by about 7% for each degree Kelvin of warming, which is
+ * described by the Clausius-Clapeyron relation.  Water vapor is a greenhouse gas, so this is a positive feedback that
+ * amplifies the temperature changes caused by changes in the other greenhouse gases.
+ *
+ * The effect of the water vapor is modeled as a change to the greenhouse gas concentration used by the model, and is
+ * kept separate from the concentration that is set by the user so that the two can be compared.  The change is zero at
+ * a reference temperature, which is the temperature for which the concentration values were calibrated, since the
+ * water vapor present at that temperature is already accounted for in the calibration.  The reference temperature is
+ * close to the present-day average, so the amount of water vapor relative to the amount at this temperature can be
+ * presented as a comparison to today.  Evaporation and condensation take some time, so the water vapor lags behind
+ * the surface temperature, and it is left alone while the sun is off and the ground is cold.
+ *
+ * @author John Blanco (PhET Interactive Simulations)
+ */
+
+import BooleanProperty from '../../../../axon/js/BooleanProperty.js';
+import DerivedProperty from '../../../../axon/js/DerivedProperty.js';
+import NumberProperty from '../../../../axon/js/NumberProperty.js';
+import { TReadOnlyProperty } from '../../../../axon/js/TReadOnlyProperty.js';
+import Range from '../../../../dot/js/Range.js';
+import optionize from '../../../../phet-core/js/optionize.js';
+import WithRequired from '../../../../phet-core/js/types/WithRequired.js';
+import PhetioObject, { PhetioObjectOptions } from '../../../../tandem/js/PhetioObject.js';
+import GreenhouseEffectUtils from '../GreenhouseEffectUtils.js';
+
+// The proportional increase in the amount of water vapor that the air can hold for each degree Kelvin of warming,
+// from the Clausius-Clapeyron relation.
+const CLAUSIUS_CLAPEYRON_RATE = 0.07;
+
+// range of the change in concentration that can be caused by the water vapor
+const CONCENTRATION_CHANGE_RANGE = new Range( -1, 1 );
+
+type SelfOptions = {
+
+  // whether the feedback is initially in effect
+  initiallyEnabled?: boolean;
+
+  // the surface temperature, in Kelvin, at which the water vapor doesn't change the concentration
+  referenceTemperature?: number;
+
+  // The change in concentration that would result from a doubling of the water vapor.  This sets the strength of the
+  // feedback, and was empirically chosen to make the feedback noticeably amplify temperature changes near the
+  // reference temperature without causing runaway warming.
+  concentrationChangePerDoubling?: number;
+
+  // time constant, in seconds, for the water vapor to approach the amount that corresponds to the surface temperature
+  responseTime?: number;
+};
+export type WaterVaporFeedbackOptions = SelfOptions & WithRequired<PhetioObjectOptions, 'tandem'>;
+
+class WaterVaporFeedback extends PhetioObject {
+
+  // whether the water vapor in the atmosphere changes with the surface temperature
+  public readonly enabledProperty: BooleanProperty;
+
+  // the change in greenhouse gas concentration caused by the change in water vapor, in the same units as concentration
+  public readonly concentrationChangeProperty: NumberProperty;
+
+  // the proportional change in the amount of water vapor relative to the amount at the reference temperature, e.g. 0.1
+  // when there is 10% more water vapor
+  public readonly waterVaporChangeProperty: TReadOnlyProperty<number>;
+
+  private readonly surfaceTemperatureProperty: TReadOnlyProperty<number>;
+  private readonly isSunShiningProperty: TReadOnlyProperty<boolean>;
+  private readonly referenceTemperature: number;
+  private readonly concentrationChangePerDoubling: number;
+  private readonly responseTime: number;
+
+  public constructor( surfaceTemperatureProperty: TReadOnlyProperty<number>,
+                      isSunShiningProperty: TReadOnlyProperty<boolean>,
+                      providedOptions: WaterVaporFeedbackOptions ) {
+
+    const options = optionize<WaterVaporFeedbackOptions, SelfOptions, PhetioObjectOptions>()( {
+      initiallyEnabled: false,
+      referenceTemperature: 287,
+      concentrationChangePerDoubling: 0.2,
+      responseTime: 5,
+
+      // phet-io
+      phetioState: false,
+      phetioDocumentation: 'Changes in the amount of water vapor in the atmosphere with the surface temperature, and ' +
+                           'the resulting changes in the greenhouse gas concentration.',
+      isDisposable: false
+    }, providedOptions );
+
+    super( options );
+
+    this.surfaceTemperatureProperty = surfaceTemperatureProperty;
+    this.isSunShiningProperty = isSunShiningProperty;
+    this.referenceTemperature = options.referenceTemperature;
+    this.concentrationChangePerDoubling = options.concentrationChangePerDoubling;
+    this.responseTime = options.responseTime;
+
+    this.enabledProperty = new BooleanProperty( options.initiallyEnabled, {
+      tandem: options.tandem.createTandem( 'enabledProperty' ),
+      phetioFeatured: true,
+      phetioDocumentation: 'Whether the amount of water vapor in the atmosphere, and thus the absorption of infrared ' +
+                           'energy, changes with the surface temperature.'
+    } );
+
+    this.concentrationChangeProperty = new NumberProperty( 0, {
+      range: CONCENTRATION_CHANGE_RANGE,
+      tandem: options.tandem.createTandem( 'concentrationChangeProperty' ),
+      phetioReadOnly: true,
+      phetioFeatured: true,
+      phetioHighFrequency: true,
+      phetioDocumentation: 'The change in the greenhouse gas concentration caused by the change in water vapor.'
+    } );
+
+    this.waterVaporChangeProperty = new DerivedProperty(
+      [ this.concentrationChangeProperty ],
+      concentrationChange => concentrationChange / this.concentrationChangePerDoubling
+    );
+
+    // The water vapor returns to the amount at the reference temperature when the feedback is turned off.
+    this.enabledProperty.lazyLink( enabled => {
+      if ( !enabled ) {
+        this.concentrationChangeProperty.reset();
+      }
+    } );
+  }
+
+  /**
+   * Move the water vapor towards the amount for the current surface temperature.
+   * @param dt - delta time, in seconds
+   */
+  public step( dt: number ): void {
+    if ( this.enabledProperty.value && this.isSunShiningProperty.value ) {
+      const targetChange = this.getConcentrationChangeForTemperature( this.surfaceTemperatureProperty.value );
+      this.concentrationChangeProperty.set( GreenhouseEffectUtils.approachTargetValue(
+        this.concentrationChangeProperty.value,
+        targetChange,
+        dt,
+        this.responseTime
+      ) );
+    }
+  }
+
+  /**
+   * Get the change in concentration that would exist at the provided surface temperature once the water vapor has had
+   * time to respond.
+   * @param surfaceTemperature - in Kelvin
+   */
+  public getConcentrationChangeForTemperature( surfaceTemperature: number ): number {
+
+    // the amount of water vapor relative to the amount at the reference temperature
+    const relativeWaterVapor = Math.exp( CLAUSIUS_CLAPEYRON_RATE * ( surfaceTemperature - this.referenceTemperature ) );
+
+    return CONCENTRATION_CHANGE_RANGE.constrainValue(
+      this.concentrationChangePerDoubling * ( relativeWaterVapor - 1 )
+    );
+  }
+
+  /**
+   * Return to the initial state.
+   */
+  public reset(): void {
+    this.enabledProperty.reset();
+    this.concentrationChangeProperty.reset();
+  }
+
+  public static readonly CLAUSIUS_CLAPEYRON_RATE = CLAUSIUS_CLAPEYRON_RATE;
+}
+
+export default WaterVaporFeedback;
@@ -1,18 +1,19 @@
-// Copyright 2023-2025, University of Colorado Boulder
+// Copyright 2023-2026, University of Colorado Boulder
 
 /**
  * A utility function for testing whether the provided object's wavelength indicates that it is in the infrared band.
+ * This means the thermal infrared, i.e. the portion of the spectrum in which the ground and atmosphere radiate energy.
  *
  * @author John Blanco (PhET Interactive Simulations)
  */
 
 import Wave from '../../waves/model/Wave.js';
-import GreenhouseEffectConstants from '../GreenhouseEffectConstants.js';
 import EMEnergyPacket from './EMEnergyPacket.js';
 import Photon from './Photon.js';
+import SpectralBand from './SpectralBand.js';
 
 const isInfrared = ( emThing: EMEnergyPacket | Wave | Photon ): boolean => {
-  return emThing.wavelength === GreenhouseEffectConstants.INFRARED_WAVELENGTH;
+  return SpectralBand.fromWavelength( emThing.wavelength ).isThermalInfrared;
 };
 
 export default isInfrared;
\ No newline at end of file
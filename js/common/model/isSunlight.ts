@@ -0,0 +1,21 @@
+// Copyright 2026, University of Colorado Boulder
+
+/**
+ * A utility function for testing whether the provided object's wavelength indicates that it is sunlight, meaning that
+ * it is in one of the bands in which the sun emits most of its energy, i.e. ultraviolet, visible, or near infrared.
+ * This is everything that isn't thermal infrared, and like visible light, this energy is reflected by the ground,
+ * clouds, and aerosols based on their albedo.
+ *
+ * @author John Blanco (PhET Interactive Simulations)
+ */
+
+import Wave from '../../waves/model/Wave.js';
+import EMEnergyPacket from './EMEnergyPacket.js';
+import Photon from './Photon.js';
+import SpectralBand from './SpectralBand.js';
+
+const isSunlight = ( emThing: EMEnergyPacket | Wave | Photon ): boolean => {
+  return !SpectralBand.fromWavelength( emThing.wavelength ).isThermalInfrared;
+};
+
+export default isSunlight;
\ No newline at end of file
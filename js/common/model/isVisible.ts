@@ -1,19 +1,20 @@
-// Copyright 2023-2025, University of Colorado Boulder
+// Copyright 2023-2026, University of Colorado Boulder
 
 /**
  * A utility function for testing whether the provided object's wavelength indicates that it is in the visible EM band.
- * This should not be confused with the concept of 'visible' in the scene graph.
+ * This should not be confused with the concept of 'visible' in the scene graph.  See isSunlight for a test that also
+ * includes the ultraviolet and near infrared energy that comes from the sun.
  *
  * @author John Blanco (PhET Interactive Simulations)
  */
 
 import Wave from '../../waves/model/Wave.js';
-import GreenhouseEffectConstants from '../GreenhouseEffectConstants.js';
 import EMEnergyPacket from './EMEnergyPacket.js';
 import Photon from './Photon.js';
+import SpectralBand from './SpectralBand.js';
 
 const isVisible = ( emThing: EMEnergyPacket | Wave | Photon ): boolean => {
-  return emThing.wavelength === GreenhouseEffectConstants.VISIBLE_WAVELENGTH;
+  return SpectralBand.fromWavelength( emThing.wavelength ) === SpectralBand.VISIBLE;
 };
 
 export default isVisible;
\ No newline at end of file
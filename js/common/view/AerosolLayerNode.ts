@@ -0,0 +1,52 @@
+// Copyright 2026, University of Colorado Boulder
+
+/**
+ * AerosolLayerNode depicts the aerosols in the atmosphere as a horizontal band of haze that spans the width of the
+ * observation window.  The haze becomes more opaque as the reflectivity of the aerosols increases, and fades away as
+ * they decay.
+ *
+ * @author John Blanco (PhET Interactive Simulations)
+ */
+
+import Multilink from '../../../../axon/js/Multilink.js';
+import ModelViewTransform2 from '../../../../phetcommon/js/view/ModelViewTransform2.js';
+import Rectangle from '../../../../scenery/js/nodes/Rectangle.js';
+import Color from '../../../../scenery/js/util/Color.js';
+import LinearGradient from '../../../../scenery/js/util/LinearGradient.js';
+import AerosolLayer from '../model/AerosolLayer.js';
+
+// constants
+const HAZE_THICKNESS = 3000; // in meters, chosen to look good rather than for accuracy
+const HAZE_COLOR = new Color( 235, 230, 215 );
+
+// The opacity of the haze when the reflectivity is at this value or higher.  Lower reflectivity values are scaled.
+const MAX_OPACITY = 0.8;
+const REFLECTIVITY_FOR_MAX_OPACITY = 0.3;
+
+class AerosolLayerNode extends Rectangle {
+
+  public constructor( aerosolLayer: AerosolLayer, modelViewTransform: ModelViewTransform2, width: number ) {
+
+    const height = Math.abs( modelViewTransform.modelToViewDeltaY( HAZE_THICKNESS ) );
+
+    // The haze is densest in the middle and fades out at the top and bottom edges.
+    super( 0, 0, width, height, {
+      fill: new LinearGradient( 0, 0, 0, height )
+        .addColorStop( 0, HAZE_COLOR.withAlpha( 0 ) )
+        .addColorStop( 0.5, HAZE_COLOR )
+        .addColorStop( 1, HAZE_COLOR.withAlpha( 0 ) ),
+      isDisposable: false
+    } );
+
+    Multilink.multilink(
+      [ aerosolLayer.altitudeProperty, aerosolLayer.reflectivityProperty ],
+      ( altitude, reflectivity ) => {
+        this.centerY = modelViewTransform.modelToViewY( altitude );
+        this.opacity = MAX_OPACITY * Math.min( reflectivity / REFLECTIVITY_FOR_MAX_OPACITY, 1 );
+        this.visible = reflectivity > 0;
+      }
+    );
+  }
+}
+
+export default AerosolLayerNode;
@@ -0,0 +1,138 @@
+// Copyright 2026, University of Colorado Boulder
+
+/**
+ * ClimateResponseReadout is a UI component that shows the radiative forcing for the change in concentration from a
+ * baseline, the equilibrium warming that results, how much of that warming is still to come, and the climate
+ * sensitivity that these imply.  It also has a button for using the current concentration as the baseline.  It is only
+ * shown while the values are being calculated, which by default is only when requested via query parameter.
+ *
+ * @author John Blanco (PhET Interactive Simulations)
+ */
+
+import DerivedProperty from '../../../../axon/js/DerivedProperty.js';
+import PatternStringProperty from '../../../../axon/js/PatternStringProperty.js';
+import { TReadOnlyProperty } from '../../../../axon/js/TReadOnlyProperty.js';
+import Utils from '../../../../dot/js/Utils.js';
+import StringUtils from '../../../../phetcommon/js/util/StringUtils.js';
+import VBox from '../../../../scenery/js/layout/nodes/VBox.js';
+import RichText from '../../../../scenery/js/nodes/RichText.js';
+import Text from '../../../../scenery/js/nodes/Text.js';
+import TextPushButton from '../../../../sun/js/buttons/TextPushButton.js';
+import Tandem from '../../../../tandem/js/Tandem.js';
+import GreenhouseEffectFluent from '../../GreenhouseEffectFluent.js';
+import GreenhouseEffectConstants from '../GreenhouseEffectConstants.js';
+import ClimateResponse from '../model/ClimateResponse.js';
+
+// the number of decimal places shown for each value
+const DECIMAL_PLACES = 1;
+
+/**
+ * Create a Property with the string for a value that may not be available.
+ */
+const createValueStringProperty = ( valueProperty: TReadOnlyProperty<number | null> ): TReadOnlyProperty<string> =>
+  new DerivedProperty(
+    [ valueProperty, GreenhouseEffectFluent.notAvailableStringProperty ],
+    ( value, notAvailableString ) => value === null ? notAvailableString : Utils.toFixed( value, DECIMAL_PLACES )
+  );
+
+class ClimateResponseReadout extends VBox {
+
+  public constructor( climateResponse: ClimateResponse, width: number, tandem: Tandem ) {
+
+    // Title
+    const titleText = new Text( GreenhouseEffectFluent.climateResponseStringProperty, {
+      font: GreenhouseEffectConstants.LABEL_FONT,
+      maxWidth: width
+    } );
+
+    // Options shared by the readouts
+    const richTextOptions = {
+      font: GreenhouseEffectConstants.CONTENT_FONT,
+      maxWidth: width
+    };
+
+    // Readouts for each of the values.  The values that can't be found when the forcing is too small are shown as not
+    // available.
+    const radiativeForcingText = new RichText( new PatternStringProperty(
+      GreenhouseEffectFluent.radiativeForcingPatternStringProperty,
+      { value: climateResponse.radiativeForcingProperty },
+      { maps: { value: radiativeForcing => Utils.toFixed( radiativeForcing, DECIMAL_PLACES ) } }
+    ), richTextOptions );
+    const equilibriumWarmingText = new RichText( new PatternStringProperty(
+      GreenhouseEffectFluent.equilibriumWarmingPatternStringProperty,
+      { value: climateResponse.equilibriumWarmingProperty },
+      { maps: { value: equilibriumWarming => Utils.toFixed( equilibriumWarming, DECIMAL_PLACES ) } }
+    ), richTextOptions );
+    const warmingToComeText = new RichText( new PatternStringProperty(
+      GreenhouseEffectFluent.warmingToComePatternStringProperty,
+      { value: createValueStringProperty( climateResponse.warmingToComeProperty ) }
+    ), richTextOptions );
+    const climateSensitivityText = new RichText( new PatternStringProperty(
+      GreenhouseEffectFluent.climateSensitivityPatternStringProperty,
+      { value: createValueStringProperty( climateResponse.climateSensitivityProperty ) }
+    ), richTextOptions );
+
+    // Button that uses the current concentration as the baseline
+    const setBaselineButton = new TextPushButton( GreenhouseEffectFluent.setBaselineStringProperty, {
+      font: GreenhouseEffectConstants.LABEL_FONT,
+      maxTextWidth: width * 0.75,
+      listener: () => climateResponse.setBaselineToCurrent(),
+
+      // pdom
+      accessibleHelpText: GreenhouseEffectFluent.a11y.setBaselineHelpTextStringProperty,
+
+      // phet-io
+      tandem: tandem.createTandem( 'setBaselineButton' )
+    } );
+
+    // A description of all the values for the PDOM
+    const accessibleParagraphProperty = new DerivedProperty(
+      [
+        climateResponse.radiativeForcingProperty,
+        climateResponse.equilibriumWarmingProperty,
+        climateResponse.warmingToComeProperty,
+        climateResponse.climateSensitivityProperty,
+        GreenhouseEffectFluent.a11y.climateResponsePatternStringProperty,
+        GreenhouseEffectFluent.a11y.climateResponseSmallForcingPatternStringProperty
+      ],
+      ( radiativeForcing, equilibriumWarming, warmingToCome, climateSensitivity, pattern, smallForcingPattern ) => {
+        const values = {
+          forcing: Utils.toFixed( radiativeForcing, DECIMAL_PLACES ),
+          warming: Utils.toFixed( equilibriumWarming, DECIMAL_PLACES )
+        };
+        return warmingToCome === null || climateSensitivity === null ?
+               StringUtils.fillIn( smallForcingPattern, values ) :
+               StringUtils.fillIn( pattern, {
+                 ...values,
+                 remaining: Utils.toFixed( warmingToCome, DECIMAL_PLACES ),
+                 sensitivity: Utils.toFixed( climateSensitivity, DECIMAL_PLACES )
+               } );
+      }
+    );
+
+    super( {
+      children: [
+        titleText,
+        radiativeForcingText,
+        equilibriumWarmingText,
+        warmingToComeText,
+        climateSensitivityText,
+        setBaselineButton
+      ],
+      spacing: 5,
+      align: 'left',
+
+      // This is only shown while the values are being calculated.
+      visibleProperty: climateResponse.enabledProperty,
+
+      // pdom
+      accessibleParagraph: accessibleParagraphProperty,
+
+      isDisposable: false,
+      tandem: tandem,
+      phetioVisiblePropertyInstrumented: false
+    } );
+  }
+}
+
+export default ClimateResponseReadout;
@@ -0,0 +1,151 @@
+// Copyright 2026, University of Colorado Boulder
+
+/**
+ * CloudCoverControl controls the coverage of the sky by the additional clouds, whether that coverage changes with the
+ * surface temperature, and the altitude of the clouds.  It is a labeled slider with a checkbox beneath it, followed by
+ * a labeled slider for the altitude.
+ *
+ * @author John Blanco (PhET Interactive Simulations)
+ */
+
+import Property from '../../../../axon/js/Property.js';
+import Dimension2 from '../../../../dot/js/Dimension2.js';
+import Utils from '../../../../dot/js/Utils.js';
+import { combineOptions } from '../../../../phet-core/js/optionize.js';
+import VBox from '../../../../scenery/js/layout/nodes/VBox.js';
+import Text from '../../../../scenery/js/nodes/Text.js';
+import HSlider from '../../../../sun/js/HSlider.js';
+import { SliderOptions } from '../../../../sun/js/Slider.js';
+import Tandem from '../../../../tandem/js/Tandem.js';
+import GreenhouseEffectFluent from '../../GreenhouseEffectFluent.js';
+import GreenhouseEffectConstants from '../GreenhouseEffectConstants.js';
+import CloudCover from '../model/CloudCover.js';
+import GreenhouseEffectCheckbox from './GreenhouseEffectCheckbox.js';
+
+// number of keyboard steps across the full range of the slider
+const NUMBER_OF_KEYBOARD_STEPS = 10;
+
+const METERS_PER_KILOMETER = 1000;
+const ALTITUDE_KEYBOARD_STEP = 1000; // in meters
+
+class CloudCoverControl extends VBox {
+
+  public constructor( cloudCover: CloudCover, width: number, tandem: Tandem ) {
+
+    // convenience variable
+    const coverageRange = cloudCover.coverageProperty.range;
+
+    // Label
+    const labelText = new Text( GreenhouseEffectFluent.cloudCoverStringProperty, {
+      font: GreenhouseEffectConstants.LABEL_FONT,
+      maxWidth: width
+    } );
+
+    // Slider
+    const keyboardStep = coverageRange.getLength() / NUMBER_OF_KEYBOARD_STEPS;
+    const slider = new HSlider(
+      cloudCover.coverageProperty,
+      coverageRange,
+      combineOptions<SliderOptions>( {}, GreenhouseEffectConstants.SLIDER_OPTIONS, {
+        trackSize: new Dimension2( width * 0.75, 1 ),
+        keyboardStep: keyboardStep,
+        shiftKeyboardStep: keyboardStep / 2,
+        pageKeyboardStep: keyboardStep * 2,
+        labelContent: GreenhouseEffectFluent.cloudCoverStringProperty,
+        labelTagName: 'label',
+        accessibleHelpText: GreenhouseEffectFluent.a11y.cloudCoverHelpTextStringProperty,
+        isDisposable: false,
+        tandem: tandem.createTandem( 'slider' ),
+        phetioVisiblePropertyInstrumented: false
+      } )
+    );
+
+    // Tick marks
+    slider.addMajorTick(
+      coverageRange.min,
+      new Text(
+        GreenhouseEffectFluent.concentrationPanel.noneStringProperty,
+        GreenhouseEffectConstants.TICK_MARK_TEXT_OPTIONS
+      )
+    );
+    slider.addMajorTick(
+      coverageRange.max,
+      new Text(
+        GreenhouseEffectFluent.concentrationPanel.lotsStringProperty,
+        GreenhouseEffectConstants.TICK_MARK_TEXT_OPTIONS
+      )
+    );
+
+    const temperatureDrivenCheckbox = new TemperatureDrivenCheckbox(
+      cloudCover.temperatureDrivenProperty,
+      tandem.createTandem( 'temperatureDrivenCheckbox' )
+    );
+
+    // Label for the altitude slider
+    const altitudeOffsetRange = cloudCover.altitudeOffsetProperty.range;
+    const altitudeLabelText = new Text( GreenhouseEffectFluent.cloudAltitudeChangeStringProperty, {
+      font: GreenhouseEffectConstants.LABEL_FONT,
+      maxWidth: width
+    } );
+
+    // Slider for raising and lowering the clouds
+    const altitudeSlider = new HSlider(
+      cloudCover.altitudeOffsetProperty,
+      altitudeOffsetRange,
+      combineOptions<SliderOptions>( {}, GreenhouseEffectConstants.SLIDER_OPTIONS, {
+        trackSize: new Dimension2( width * 0.75, 1 ),
+        constrainValue: ( value: number ) => Utils.roundToInterval( value, ALTITUDE_KEYBOARD_STEP / 2 ),
+        keyboardStep: ALTITUDE_KEYBOARD_STEP,
+        shiftKeyboardStep: ALTITUDE_KEYBOARD_STEP / 2,
+        pageKeyboardStep: ALTITUDE_KEYBOARD_STEP * 3,
+        labelContent: GreenhouseEffectFluent.cloudAltitudeChangeStringProperty,
+        labelTagName: 'label',
+        accessibleHelpText: GreenhouseEffectFluent.a11y.cloudAltitudeChangeHelpTextStringProperty,
+        isDisposable: false,
+        tandem: tandem.createTandem( 'altitudeSlider' ),
+        phetioVisiblePropertyInstrumented: false
+      } )
+    );
+
+    // Tick marks, labeled in kilometers with a sign for the direction of the change
+    [ altitudeOffsetRange.min, 0, altitudeOffsetRange.max ].forEach( altitudeOffset => {
+      const kilometers = Utils.toFixed( altitudeOffset / METERS_PER_KILOMETER, 0 );
+      altitudeSlider.addMajorTick(
+        altitudeOffset,
+        new Text( altitudeOffset > 0 ? `+${kilometers}` : kilometers, GreenhouseEffectConstants.TICK_MARK_TEXT_OPTIONS )
+      );
+    } );
+
+    super( {
+      children: [ labelText, slider, temperatureDrivenCheckbox, altitudeLabelText, altitudeSlider ],
+      spacing: 5,
+      align: 'left',
+      isDisposable: false,
+      tandem: tandem,
+      visiblePropertyOptions: { phetioFeatured: true }
+    } );
+  }
+}
+
+/**
+ * A checkbox that controls whether the cloud cover changes with the surface temperature.
+ */
+class TemperatureDrivenCheckbox extends GreenhouseEffectCheckbox {
+
+  public constructor( property: Property<boolean>, tandem: Tandem ) {
+
+    super( property, GreenhouseEffectFluent.cloudCoverChangesWithTemperatureStringProperty, {
+
+      touchAreaXDilation: 5,
+      touchAreaYDilation: 4,
+
+      // pdom
+      accessibleHelpText: GreenhouseEffectFluent.a11y.cloudCoverChangesWithTemperatureHelpTextStringProperty,
+
+      // phet-io
+      tandem: tandem
+    } );
+  }
+}
+
+export default CloudCoverControl;
@@ -34,6 +34,9 @@ type SelfOptions = {
 
   // useful for debugging
   showReferenceEllipse?: boolean;
+
+  // fill for the cloud, which can be used to make thin clouds look less substantial than thick ones
+  fill?: Color;
 };
 type CloudNodeOptions = SelfOptions;
 
@@ -51,18 +54,22 @@ class CloudNode extends Node {
                       providedOptions?: CloudNodeOptions ) {
 
     const options = optionize<CloudNodeOptions, SelfOptions, NodeOptions>()( {
-      showReferenceEllipse: false
+      showReferenceEllipse: false,
+      fill: CLOUD_FILL
     }, providedOptions );
 
     super( options );
 
     this.cloudPath = new Path( null, {
-      fill: CLOUD_FILL,
+      fill: options.fill,
       stroke: CLOUD_BACKGROUND_STROKE,
       miterLimit: 1
     } );
     this.addChild( this.cloudPath );
 
+    // The shape of the cloud is created around its initial position, and the node is moved if the cloud moves.
+    const initialPosition = cloud.position;
+
     // Create an initial dummy shape to keep TypeScript from complaining.
     this.randomlyGeneratedCloudShape = Shape.rect( 0, 0, 10, 10 );
 
@@ -71,7 +78,7 @@ class CloudNode extends Node {
     randomNumberGeneratorSeedProperty.link( seed => {
       const random = new Random( { seed: seed } );
       this.randomlyGeneratedCloudShape = CloudNode.createCloudShape(
-        modelViewTransform.modelToViewPosition( cloud.position ),
+        modelViewTransform.modelToViewPosition( initialPosition ),
         Math.abs( modelViewTransform.modelToViewDeltaX( cloud.width ) ),
         Math.abs( modelViewTransform.modelToViewDeltaY( cloud.height ) ),
         random
@@ -92,8 +99,15 @@ class CloudNode extends Node {
     const cloudEnabledObserver = ( enabled: boolean ) => { this.visible = enabled;};
     cloud.enabledProperty.link( cloudEnabledObserver );
 
+    // Move the node up and down with the cloud.
+    const cloudPositionObserver = ( position: Vector2 ) => {
+      this.translation = modelViewTransform.modelToViewDelta( position.minus( initialPosition ) );
+    };
+    cloud.positionProperty.link( cloudPositionObserver );
+
     this.disposeCloudNode = () => {
       cloud.enabledProperty.unlink( cloudEnabledObserver );
+      cloud.positionProperty.unlink( cloudPositionObserver );
     };
 
     // Happy Easter!
@@ -186,7 +200,7 @@ class CloudNode extends Node {
 
                 // I want to believe.
                 this.cloudPath.setShape( CloudNode.createAlternativeShape(
-                  modelViewTransform.modelToViewPosition( cloud.position ),
+                  modelViewTransform.modelToViewPosition( initialPosition ),
                   Math.abs( modelViewTransform.modelToViewDeltaX( cloud.width ) ),
                   Math.abs( modelViewTransform.modelToViewDeltaY( cloud.height ) )
                 ) );
@@ -0,0 +1,106 @@
+// Copyright 2026, University of Colorado Boulder
+
+/**
+ * CloudTypeControl is a UI component that allows a user to choose the type of the cloud, either a low stratus cloud or
+ * a high cirrus cloud, using a vertical set of radio buttons.  The type sets both the altitude of the cloud and how it
+ * reflects light.  Like the cloud checkbox, the radio buttons are only
+ * shown when the concentration is controlled manually, and the control as a whole is only shown by default when
+ * requested via query parameter.
+ *
+ * @author John Blanco (PhET Interactive Simulations)
+ */
+
+import DerivedProperty from '../../../../axon/js/DerivedProperty.js';
+import EnumerationProperty from '../../../../axon/js/EnumerationProperty.js';
+import Property from '../../../../axon/js/Property.js';
+import VBox from '../../../../scenery/js/layout/nodes/VBox.js';
+import Node from '../../../../scenery/js/nodes/Node.js';
+import Text from '../../../../scenery/js/nodes/Text.js';
+import AquaRadioButtonGroup, { AquaRadioButtonGroupItem } from '../../../../sun/js/AquaRadioButtonGroup.js';
+import Tandem from '../../../../tandem/js/Tandem.js';
+import GreenhouseEffectFluent from '../../GreenhouseEffectFluent.js';
+import GreenhouseEffectConstants from '../GreenhouseEffectConstants.js';
+import GreenhouseEffectQueryParameters from '../GreenhouseEffectQueryParameters.js';
+import { CloudType, ConcentrationControlMode } from '../model/ConcentrationModel.js';
+
+class CloudTypeControl extends Node {
+
+  public constructor( cloudTypeProperty: Property<CloudType>,
+                      concentrationControlModeProperty: EnumerationProperty<ConcentrationControlMode>,
+                      width: number,
+                      tandem: Tandem ) {
+
+    // Create the label that sits above the radio buttons.
+    const text = new Text( GreenhouseEffectFluent.cloudTypeStringProperty, {
+      font: GreenhouseEffectConstants.LABEL_FONT,
+      maxWidth: width
+    } );
+
+    // Options shared by the labels for all radio buttons
+    const textOptions = {
+      font: GreenhouseEffectConstants.LABEL_FONT,
+      maxWidth: width * 0.8
+    };
+
+    // Items that describe the radio buttons
+    const items: AquaRadioButtonGroupItem<CloudType>[] = [
+      {
+        createNode: () => new Text( GreenhouseEffectFluent.lowStratusCloudStringProperty, textOptions ),
+        value: CloudType.STRATUS,
+        tandemName: 'stratusRadioButton',
+        options: {
+          accessibleName: GreenhouseEffectFluent.lowStratusCloudStringProperty
+        }
+      },
+      {
+        createNode: () => new Text( GreenhouseEffectFluent.highCirrusCloudStringProperty, textOptions ),
+        value: CloudType.CIRRUS,
+        tandemName: 'cirrusRadioButton',
+        options: {
+          accessibleName: GreenhouseEffectFluent.highCirrusCloudStringProperty
+        }
+      }
+    ];
+
+    // Create the radio buttons.
+    const cloudTypeRadioButtonGroup = new AquaRadioButtonGroup<CloudType>( cloudTypeProperty, items, {
+      orientation: 'vertical',
+      spacing: 6,
+      touchAreaXDilation: 6,
+      touchAreaYDilation: 3,
+      radioButtonOptions: {
+        radius: 6
+      },
+      tandem: tandem.createTandem( 'cloudTypeRadioButtonGroup' ),
+      phetioVisiblePropertyInstrumented: false,
+
+      // pdom
+      accessibleName: GreenhouseEffectFluent.cloudTypeStringProperty,
+      accessibleHelpText: GreenhouseEffectFluent.a11y.cloudTypeHelpTextStringProperty
+    } );
+
+    // Put the label and radio buttons together.  These are only shown in 'by value' mode, since the cloud is always a
+    // stratus cloud in 'by date' mode.
+    const contentBox = new VBox( {
+      children: [ text, cloudTypeRadioButtonGroup ],
+      align: 'left',
+      spacing: 4,
+      visibleProperty: new DerivedProperty(
+        [ concentrationControlModeProperty ],
+        mode => mode === ConcentrationControlMode.BY_VALUE
+      )
+    } );
+
+    super( {
+      children: [ contentBox ],
+      visible: GreenhouseEffectQueryParameters.cloudTypeSelector,
+      visiblePropertyOptions: {
+        phetioFeatured: true
+      },
+      tandem: tandem,
+      isDisposable: false
+    } );
+  }
+}
+
+export default CloudTypeControl;
@@ -0,0 +1,193 @@
+// Copyright 2026, University of Colorado Boulder
+
+/**
+ * DataRecorderControls is a set of controls for turning recording of model data on and off, setting how often the data
+ * is sampled, and downloading the recorded data as CSV or JSON files.
+ *
+ * @author John Blanco (PhET Interactive Simulations)
+ */
+
+import DerivedProperty from '../../../../axon/js/DerivedProperty.js';
+import NumberProperty from '../../../../axon/js/NumberProperty.js';
+import PatternStringProperty from '../../../../axon/js/PatternStringProperty.js';
+import Property from '../../../../axon/js/Property.js';
+import Dimension2 from '../../../../dot/js/Dimension2.js';
+import Utils from '../../../../dot/js/Utils.js';
+import optionize, { combineOptions, EmptySelfOptions } from '../../../../phet-core/js/optionize.js';
+import PickRequired from '../../../../phet-core/js/types/PickRequired.js';
+import PhetFont from '../../../../scenery-phet/js/PhetFont.js';
+import HBox from '../../../../scenery/js/layout/nodes/HBox.js';
+import VBox, { VBoxOptions } from '../../../../scenery/js/layout/nodes/VBox.js';
+import Text from '../../../../scenery/js/nodes/Text.js';
+import TextPushButton from '../../../../sun/js/buttons/TextPushButton.js';
+import HSlider from '../../../../sun/js/HSlider.js';
+import { SliderOptions } from '../../../../sun/js/Slider.js';
+import Tandem from '../../../../tandem/js/Tandem.js';
+import GreenhouseEffectFluent from '../../GreenhouseEffectFluent.js';
+import GreenhouseEffectConstants from '../GreenhouseEffectConstants.js';
+import LayersModelDataRecorder from '../model/LayersModelDataRecorder.js';
+import GreenhouseEffectCheckbox from './GreenhouseEffectCheckbox.js';
+
+// constants
+const BUTTON_FONT = new PhetFont( 12 );
+const BUTTON_MAX_TEXT_WIDTH = 90;
+const SAMPLE_INTERVAL_SLIDER_TRACK_SIZE = new Dimension2( 120, 3 );
+
+type SelfOptions = EmptySelfOptions;
+export type DataRecorderControlsOptions = SelfOptions & PickRequired<VBoxOptions, 'tandem'>;
+
+class DataRecorderControls extends VBox {
+
+  public constructor( dataRecorder: LayersModelDataRecorder, providedOptions: DataRecorderControlsOptions ) {
+
+    const options = optionize<DataRecorderControlsOptions, SelfOptions, VBoxOptions>()( {
+      spacing: 6,
+      align: 'left'
+    }, providedOptions );
+
+    const recordDataCheckbox = new RecordDataCheckbox(
+      dataRecorder.isRecordingProperty,
+      options.tandem.createTandem( 'recordDataCheckbox' )
+    );
+
+    const sampleIntervalControl = new SampleIntervalControl(
+      dataRecorder.sampleIntervalProperty,
+      options.tandem.createTandem( 'sampleIntervalControl' )
+    );
+
+    // The download buttons are only enabled when there is some data to download.
+    const dataAvailableProperty = new DerivedProperty(
+      [ dataRecorder.numberOfSamplesProperty ],
+      numberOfSamples => numberOfSamples > 0
+    );
+
+    const downloadCSVButton = new TextPushButton( GreenhouseEffectFluent.dataRecorder.downloadCSVStringProperty, {
+      font: BUTTON_FONT,
+      maxTextWidth: BUTTON_MAX_TEXT_WIDTH,
+      enabledProperty: dataAvailableProperty,
+      listener: () => downloadFile( dataRecorder.getDataAsCSV(), 'greenhouse-effect-data.csv', 'text/csv' ),
+
+      // pdom
+      accessibleHelpText: GreenhouseEffectFluent.a11y.dataRecorder.downloadHelpTextStringProperty,
+
+      // phet-io
+      tandem: options.tandem.createTandem( 'downloadCSVButton' )
+    } );
+
+    const downloadJSONButton = new TextPushButton( GreenhouseEffectFluent.dataRecorder.downloadJSONStringProperty, {
+      font: BUTTON_FONT,
+      maxTextWidth: BUTTON_MAX_TEXT_WIDTH,
+      enabledProperty: dataAvailableProperty,
+      listener: () => downloadFile( dataRecorder.getDataAsJSON(), 'greenhouse-effect-data.json', 'application/json' ),
+
+      // pdom
+      accessibleHelpText: GreenhouseEffectFluent.a11y.dataRecorder.downloadHelpTextStringProperty,
+
+      // phet-io
+      tandem: options.tandem.createTandem( 'downloadJSONButton' )
+    } );
+
+    options.children = [
+      recordDataCheckbox,
+      sampleIntervalControl,
+      new HBox( {
+        spacing: 6,
+        children: [ downloadCSVButton, downloadJSONButton ]
+      } )
+    ];
+
+    super( options );
+  }
+}
+
+/**
+ * Checkbox for turning the recording of data on and off.
+ */
+class RecordDataCheckbox extends GreenhouseEffectCheckbox {
+
+  public constructor( property: Property<boolean>, tandem: Tandem ) {
+
+    super( property, GreenhouseEffectFluent.dataRecorder.recordDataStringProperty, {
+
+      maxLabelTextWidth: 150,
+      touchAreaXDilation: 5,
+      touchAreaYDilation: 4,
+
+      // pdom
+      accessibleHelpText: GreenhouseEffectFluent.a11y.dataRecorder.recordDataHelpTextStringProperty,
+      accessibleContextResponseChecked: GreenhouseEffectFluent.a11y.dataRecorder.recordingStartedAlertStringProperty,
+      accessibleContextResponseUnchecked: GreenhouseEffectFluent.a11y.dataRecorder.recordingStoppedAlertStringProperty,
+
+      // phet-io
+      tandem: tandem
+    } );
+  }
+}
+
+/**
+ * Slider for setting the amount of model time between samples, with a label that shows the current value.  Intervals
+ * of less than a second are set to the nearest tenth of a second, and longer intervals to the nearest second.
+ */
+class SampleIntervalControl extends VBox {
+
+  public constructor( sampleIntervalProperty: NumberProperty, tandem: Tandem ) {
+
+    const labelStringProperty = new PatternStringProperty(
+      GreenhouseEffectFluent.dataRecorder.sampleIntervalPatternStringProperty,
+      { value: sampleIntervalProperty },
+      {
+        maps: {
+          value: ( sampleInterval: number ) => Utils.toFixedNumber( sampleInterval, 1 )
+        },
+        tandem: Tandem.OPT_OUT // do not instrument, the value is available from the model
+      }
+    );
+
+    const labelText = new Text( labelStringProperty, {
+      font: GreenhouseEffectConstants.LABEL_FONT,
+      maxWidth: SAMPLE_INTERVAL_SLIDER_TRACK_SIZE.width * 1.5
+    } );
+
+    const slider = new HSlider(
+      sampleIntervalProperty,
+      sampleIntervalProperty.range,
+      combineOptions<SliderOptions>( {}, GreenhouseEffectConstants.SLIDER_OPTIONS, {
+        trackSize: SAMPLE_INTERVAL_SLIDER_TRACK_SIZE,
+        constrainValue: ( value: number ) => Utils.roundToInterval( value, value < 1 ? 0.1 : 1 ),
+        keyboardStep: 1,
+        shiftKeyboardStep: 0.1,
+        pageKeyboardStep: 10,
+
+        // pdom
+        labelContent: labelStringProperty,
+        labelTagName: 'label',
+        accessibleHelpText: GreenhouseEffectFluent.a11y.dataRecorder.sampleIntervalHelpTextStringProperty,
+
+        // phet-io
+        tandem: tandem.createTandem( 'slider' ),
+        phetioVisiblePropertyInstrumented: false
+      } )
+    );
+
+    super( {
+      children: [ labelText, slider ],
+      spacing: 1,
+      align: 'left',
+      tandem: tandem
+    } );
+  }
+}
+
+/**
+ * Have the browser save the provided content to a file.
+ */
+const downloadFile = ( content: string, fileName: string, mimeType: string ): void => {
+  const url = URL.createObjectURL( new Blob( [ content ], { type: mimeType } ) );
+  const anchor = document.createElement( 'a' );
+  anchor.href = url;
+  anchor.download = fileName;
+  anchor.click();
+  URL.revokeObjectURL( url );
+};
+
+export default DataRecorderControls;
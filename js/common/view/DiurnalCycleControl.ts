@@ -0,0 +1,108 @@
+// Copyright 2026, University of Colorado Boulder
+
+/**
+ * DiurnalCycleControl is a UI component that allows the user to turn the day/night cycle of the sun on and off and to
+ * set the length of the day.  It is a checkbox with a labeled slider beneath it, and the slider is only enabled when
+ * the cycle is on.  The control is only shown by default when requested via query parameter.
+ *
+ * @author John Blanco (PhET Interactive Simulations)
+ */
+
+import Property from '../../../../axon/js/Property.js';
+import Dimension2 from '../../../../dot/js/Dimension2.js';
+import Utils from '../../../../dot/js/Utils.js';
+import { combineOptions } from '../../../../phet-core/js/optionize.js';
+import VBox from '../../../../scenery/js/layout/nodes/VBox.js';
+import Text from '../../../../scenery/js/nodes/Text.js';
+import HSlider from '../../../../sun/js/HSlider.js';
+import { SliderOptions } from '../../../../sun/js/Slider.js';
+import Tandem from '../../../../tandem/js/Tandem.js';
+import GreenhouseEffectFluent from '../../GreenhouseEffectFluent.js';
+import GreenhouseEffectConstants from '../GreenhouseEffectConstants.js';
+import GreenhouseEffectQueryParameters from '../GreenhouseEffectQueryParameters.js';
+import SunEnergySource from '../model/SunEnergySource.js';
+import GreenhouseEffectCheckbox from './GreenhouseEffectCheckbox.js';
+
+// constants
+const DAY_LENGTH_STEP_SIZE = 10; // in seconds
+
+class DiurnalCycleControl extends VBox {
+
+  public constructor( sunEnergySource: SunEnergySource, width: number, tandem: Tandem ) {
+
+    // convenience variable
+    const dayLengthRange = sunEnergySource.dayLengthProperty.range;
+
+    const diurnalCycleCheckbox = new DiurnalCycleCheckbox(
+      sunEnergySource.diurnalCycleEnabledProperty,
+      tandem.createTandem( 'diurnalCycleCheckbox' )
+    );
+
+    // Label for the slider
+    const dayLengthLabelText = new Text( GreenhouseEffectFluent.dayLengthStringProperty, {
+      font: GreenhouseEffectConstants.LABEL_FONT,
+      maxWidth: width
+    } );
+
+    // Slider for the length of the day, which only has an effect when the cycle is on
+    const dayLengthSlider = new HSlider(
+      sunEnergySource.dayLengthProperty,
+      dayLengthRange,
+      combineOptions<SliderOptions>( {}, GreenhouseEffectConstants.SLIDER_OPTIONS, {
+        trackSize: new Dimension2( width * 0.75, 1 ),
+        constrainValue: ( value: number ) => Utils.roundToInterval( value, DAY_LENGTH_STEP_SIZE ),
+        keyboardStep: DAY_LENGTH_STEP_SIZE,
+        shiftKeyboardStep: DAY_LENGTH_STEP_SIZE,
+        pageKeyboardStep: DAY_LENGTH_STEP_SIZE * 5,
+        enabledProperty: sunEnergySource.diurnalCycleEnabledProperty,
+        labelContent: GreenhouseEffectFluent.dayLengthStringProperty,
+        labelTagName: 'label',
+        accessibleHelpText: GreenhouseEffectFluent.a11y.dayLengthHelpTextStringProperty,
+        isDisposable: false,
+        tandem: tandem.createTandem( 'dayLengthSlider' ),
+        phetioVisiblePropertyInstrumented: false
+      } )
+    );
+
+    // Tick marks, labeled in seconds
+    [ dayLengthRange.min, dayLengthRange.max ].forEach( dayLength => {
+      dayLengthSlider.addMajorTick(
+        dayLength,
+        new Text( Utils.toFixed( dayLength, 0 ), GreenhouseEffectConstants.TICK_MARK_TEXT_OPTIONS )
+      );
+    } );
+
+    super( {
+      children: [ diurnalCycleCheckbox, dayLengthLabelText, dayLengthSlider ],
+      spacing: 5,
+      align: 'left',
+      visible: GreenhouseEffectQueryParameters.diurnalCycle,
+      isDisposable: false,
+      tandem: tandem,
+      visiblePropertyOptions: { phetioFeatured: true }
+    } );
+  }
+}
+
+/**
+ * A checkbox that controls whether the output of the sun follows a day/night cycle.
+ */
+class DiurnalCycleCheckbox extends GreenhouseEffectCheckbox {
+
+  public constructor( property: Property<boolean>, tandem: Tandem ) {
+
+    super( property, GreenhouseEffectFluent.dayNightCycleStringProperty, {
+
+      touchAreaXDilation: 5,
+      touchAreaYDilation: 4,
+
+      // pdom
+      accessibleHelpText: GreenhouseEffectFluent.a11y.dayNightCycleHelpTextStringProperty,
+
+      // phet-io
+      tandem: tandem
+    } );
+  }
+}
+
+export default DiurnalCycleControl;
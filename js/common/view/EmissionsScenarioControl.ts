@@ -0,0 +1,214 @@
+// Copyright 2026, University of Colorado Boulder
+
+/**
+ * EmissionsScenarioControl is a UI component that allows the user to set the greenhouse gas concentration through the
+ * emissions of carbon dioxide.  It consists of a checkbox that turns this on and off, radio buttons for choosing a
+ * preset emissions scenario or a custom one, and a slider with a readout for the emission rate.  Moving the slider
+ * switches to the custom scenario.  Like the cloud type control, the contents are only shown when the concentration is
+ * controlled by value.
+ *
+ * @author John Blanco (PhET Interactive Simulations)
+ */
+
+import DerivedProperty from '../../../../axon/js/DerivedProperty.js';
+import EnumerationProperty from '../../../../axon/js/EnumerationProperty.js';
+import PatternStringProperty from '../../../../axon/js/PatternStringProperty.js';
+import Property from '../../../../axon/js/Property.js';
+import Dimension2 from '../../../../dot/js/Dimension2.js';
+import Utils from '../../../../dot/js/Utils.js';
+import { combineOptions } from '../../../../phet-core/js/optionize.js';
+import StringUtils from '../../../../phetcommon/js/util/StringUtils.js';
+import VBox from '../../../../scenery/js/layout/nodes/VBox.js';
+import Node from '../../../../scenery/js/nodes/Node.js';
+import RichText from '../../../../scenery/js/nodes/RichText.js';
+import Text from '../../../../scenery/js/nodes/Text.js';
+import AquaRadioButtonGroup, { AquaRadioButtonGroupItem } from '../../../../sun/js/AquaRadioButtonGroup.js';
+import HSlider from '../../../../sun/js/HSlider.js';
+import { SliderOptions } from '../../../../sun/js/Slider.js';
+import Tandem from '../../../../tandem/js/Tandem.js';
+import GreenhouseEffectFluent from '../../GreenhouseEffectFluent.js';
+import GreenhouseEffectConstants from '../GreenhouseEffectConstants.js';
+import CarbonCycle from '../model/CarbonCycle.js';
+import { ConcentrationControlMode } from '../model/ConcentrationModel.js';
+import EmissionsScenario from '../model/EmissionsScenario.js';
+import GreenhouseEffectCheckbox from './GreenhouseEffectCheckbox.js';
+
+// constants
+const KEYBOARD_STEP = 5; // in gigatonnes of carbon dioxide per year
+
+class EmissionsScenarioControl extends Node {
+
+  public constructor( carbonCycle: CarbonCycle,
+                      concentrationControlModeProperty: EnumerationProperty<ConcentrationControlMode>,
+                      width: number,
+                      tandem: Tandem ) {
+
+    // convenience variable
+    const emissionRateRange = carbonCycle.emissionRateProperty.range;
+
+    // Title
+    const titleText = new Text( GreenhouseEffectFluent.emissionsStringProperty, {
+      font: GreenhouseEffectConstants.LABEL_FONT,
+      maxWidth: width
+    } );
+
+    // Checkbox that controls whether the concentration is set by the emissions
+    const enabledCheckbox = new ConcentrationFromEmissionsCheckbox(
+      carbonCycle.enabledProperty,
+      tandem.createTandem( 'enabledCheckbox' )
+    );
+
+    // Options shared by the labels for all radio buttons
+    const textOptions = {
+      font: GreenhouseEffectConstants.CONTENT_FONT,
+      maxWidth: width * 0.8
+    };
+
+    // Items that describe the radio buttons
+    const items: AquaRadioButtonGroupItem<EmissionsScenario>[] = [
+      {
+        createNode: () => new Text( GreenhouseEffectFluent.customEmissionsStringProperty, textOptions ),
+        value: EmissionsScenario.CUSTOM,
+        tandemName: 'customRadioButton',
+        options: {
+          accessibleName: GreenhouseEffectFluent.customEmissionsStringProperty
+        }
+      },
+      {
+        createNode: () => new Text( GreenhouseEffectFluent.veryLowEmissionsStringProperty, textOptions ),
+        value: EmissionsScenario.VERY_LOW,
+        tandemName: 'veryLowRadioButton',
+        options: {
+          accessibleName: GreenhouseEffectFluent.veryLowEmissionsStringProperty
+        }
+      },
+      {
+        createNode: () => new Text( GreenhouseEffectFluent.intermediateEmissionsStringProperty, textOptions ),
+        value: EmissionsScenario.INTERMEDIATE,
+        tandemName: 'intermediateRadioButton',
+        options: {
+          accessibleName: GreenhouseEffectFluent.intermediateEmissionsStringProperty
+        }
+      },
+      {
+        createNode: () => new Text( GreenhouseEffectFluent.veryHighEmissionsStringProperty, textOptions ),
+        value: EmissionsScenario.VERY_HIGH,
+        tandemName: 'veryHighRadioButton',
+        options: {
+          accessibleName: GreenhouseEffectFluent.veryHighEmissionsStringProperty
+        }
+      }
+    ];
+
+    // Radio buttons for choosing the scenario
+    const scenarioRadioButtonGroup = new AquaRadioButtonGroup<EmissionsScenario>( carbonCycle.scenarioProperty, items, {
+      orientation: 'vertical',
+      spacing: 6,
+      touchAreaXDilation: 6,
+      touchAreaYDilation: 3,
+      radioButtonOptions: {
+        radius: 6
+      },
+      tandem: tandem.createTandem( 'scenarioRadioButtonGroup' ),
+      phetioVisiblePropertyInstrumented: false,
+
+      // pdom
+      accessibleName: GreenhouseEffectFluent.emissionsStringProperty,
+      accessibleHelpText: GreenhouseEffectFluent.a11y.emissionsScenarioHelpTextStringProperty
+    } );
+
+    // Readout of the emission rate
+    const emissionRateStringProperty = new PatternStringProperty(
+      GreenhouseEffectFluent.emissionRatePatternStringProperty,
+      { value: carbonCycle.emissionRateProperty },
+      { maps: { value: emissionRate => Utils.roundSymmetric( emissionRate ) } }
+    );
+    const emissionRateText = new RichText( emissionRateStringProperty, {
+      font: GreenhouseEffectConstants.CONTENT_FONT,
+      maxWidth: width
+    } );
+
+    // Slider for the emission rate.  Using it means that the user is setting the rate, so it switches to the custom
+    // scenario.
+    const emissionRateSlider = new HSlider(
+      carbonCycle.emissionRateProperty,
+      emissionRateRange,
+      combineOptions<SliderOptions>( {}, GreenhouseEffectConstants.SLIDER_OPTIONS, {
+        trackSize: new Dimension2( width * 0.75, 1 ),
+        constrainValue: value => Utils.roundSymmetric( value ),
+        keyboardStep: KEYBOARD_STEP,
+        shiftKeyboardStep: KEYBOARD_STEP / 5,
+        pageKeyboardStep: KEYBOARD_STEP * 4,
+        startDrag: () => carbonCycle.scenarioProperty.set( EmissionsScenario.CUSTOM ),
+        createAriaValueText: value => StringUtils.fillIn(
+          GreenhouseEffectFluent.a11y.emissionRatePatternStringProperty,
+          { value: Utils.roundSymmetric( value ) }
+        ),
+        labelContent: GreenhouseEffectFluent.a11y.carbonDioxideEmissionsStringProperty,
+        labelTagName: 'label',
+        accessibleHelpText: GreenhouseEffectFluent.a11y.emissionRateHelpTextStringProperty,
+        isDisposable: false,
+        tandem: tandem.createTandem( 'emissionRateSlider' ),
+        phetioVisiblePropertyInstrumented: false
+      } )
+    );
+
+    // Tick marks, labeled with the rate
+    [ emissionRateRange.min, 0, emissionRateRange.max ].forEach( emissionRate => {
+      emissionRateSlider.addMajorTick(
+        emissionRate,
+        new Text( emissionRate, GreenhouseEffectConstants.TICK_MARK_TEXT_OPTIONS )
+      );
+    } );
+
+    // The scenario and the rate only have an effect when the concentration is set by the emissions.
+    carbonCycle.enabledProperty.link( enabled => {
+      scenarioRadioButtonGroup.enabled = enabled;
+      emissionRateSlider.enabled = enabled;
+    } );
+
+    // Put the controls together.  These are only shown in 'by value' mode, since the concentration is set by the date
+    // in 'by date' mode.
+    const contentBox = new VBox( {
+      children: [ titleText, enabledCheckbox, scenarioRadioButtonGroup, emissionRateText, emissionRateSlider ],
+      align: 'left',
+      spacing: 5,
+      visibleProperty: new DerivedProperty(
+        [ concentrationControlModeProperty ],
+        mode => mode === ConcentrationControlMode.BY_VALUE
+      )
+    } );
+
+    super( {
+      children: [ contentBox ],
+      visiblePropertyOptions: {
+        phetioFeatured: true
+      },
+      tandem: tandem,
+      isDisposable: false
+    } );
+  }
+}
+
+/**
+ * A checkbox that controls whether the concentration is set by the carbon dioxide that builds up from the emissions.
+ */
+class ConcentrationFromEmissionsCheckbox extends GreenhouseEffectCheckbox {
+
+  public constructor( property: Property<boolean>, tandem: Tandem ) {
+
+    super( property, GreenhouseEffectFluent.concentrationFromEmissionsStringProperty, {
+
+      touchAreaXDilation: 5,
+      touchAreaYDilation: 4,
+
+      // pdom
+      accessibleHelpText: GreenhouseEffectFluent.a11y.concentrationFromEmissionsHelpTextStringProperty,
+
+      // phet-io
+      tandem: tandem
+    } );
+  }
+}
+
+export default EmissionsScenarioControl;
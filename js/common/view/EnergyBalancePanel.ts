@@ -2,7 +2,8 @@
 
 /**
  * EnergyBalancePanel is a panel that portrays a plot of the energy balance at a point in the atmosphere, showing the
- * energy in, energy out, and the net energy.
+ * energy in, energy out, and the net energy.  If the model includes non-radiative heat transfer from the ground to the
+ * atmosphere, the rate of that transfer is shown as well.
  *
  * @author Jesse Greenberg (PhET Interactive Simulations)
  * @author John Blanco (PhET Interactive Simulations)
@@ -36,6 +37,7 @@ import EnergyBalanceSoundGenerator from './EnergyBalanceSoundGenerator.js';
 
 // constants
 const BAR_COLOR = 'rgb(0,187,115)';
+const CONVECTION_BAR_COLOR = 'rgb(230,150,40)';
 const BAR_STROKE = 'grey';
 const PLOT_VIEW_WIDTH = 100; // view coordinates
 const PLOT_VIEW_HEIGHT = 120; // view coordinates
@@ -93,7 +95,8 @@ class EnergyBalancePanel extends Panel {
     const balancePlot = new EnergyBalancePlot(
       negatedEnergyInProperty,
       model.outerSpace.incomingUpwardMovingEnergyRateTracker.energyRateProperty,
-      netIncomingEnergyProperty
+      netIncomingEnergyProperty,
+      model.convectiveHeatTransfer ? model.convectiveHeatTransfer.energyRateTracker.energyRateProperty : null
     );
 
     const content = new VBox( {
@@ -155,28 +158,36 @@ class EnergyBalancePlot extends Node {
   private readonly netEnergyInProperty: TReadOnlyProperty<number>;
   private readonly netEnergyOutProperty: TReadOnlyProperty<number>;
   private readonly netEnergyProperty: TReadOnlyProperty<number>;
+  private readonly convectionEnergyProperty: TReadOnlyProperty<number> | null;
 
   /**
    * @param netEnergyInProperty - Representing net energy in
    * @param netEnergyOutProperty - Representing net energy out
    * @param netEnergyProperty - Representing net energy of the system
+   * @param convectionEnergyProperty - Representing the energy moving from the ground to the atmosphere by convection,
+   *                                   null if this isn't modeled
    */
   public constructor( netEnergyInProperty: TReadOnlyProperty<number>,
                       netEnergyOutProperty: Property<number>,
-                      netEnergyProperty: TReadOnlyProperty<number> ) {
+                      netEnergyProperty: TReadOnlyProperty<number>,
+                      convectionEnergyProperty: TReadOnlyProperty<number> | null ) {
     super();
 
     // position of each bar, in model coordinates
     const inEnergyModelPosition = 0;
     const outEnergyModelPosition = 1;
     const netEnergyModelPosition = 2;
-    const horizontalModelRange = new Range( inEnergyModelPosition, netEnergyModelPosition );
+    const convectionEnergyModelPosition = 3;
+    const horizontalModelRange = new Range(
+      inEnergyModelPosition,
+      convectionEnergyProperty ? convectionEnergyModelPosition : netEnergyModelPosition
+    );
 
     // range of the entire plot, in model watts, based on the max output of the sun
     const verticalModelSpan = SunEnergySource.OUTPUT_ENERGY_RATE * EnergyAbsorbingEmittingLayer.SURFACE_AREA * 2;
 
     const chartTransform = new ChartTransform( {
-      viewWidth: PLOT_VIEW_WIDTH,
+      viewWidth: convectionEnergyProperty ? PLOT_VIEW_WIDTH * 1.5 : PLOT_VIEW_WIDTH,
       modelXRange: horizontalModelRange,
       viewHeight: PLOT_VIEW_HEIGHT,
       modelYRange: new Range( -verticalModelSpan, verticalModelSpan )
@@ -184,8 +195,11 @@ class EnergyBalancePlot extends Node {
 
     // the dataSet for the barPlot gets set in a multilink of the provided energy Properties
     const barPlot = new UpDownArrowPlot( chartTransform, [], {
-      pointToPaintableFields: () => {
-        return { fill: BAR_COLOR, stroke: BAR_STROKE };
+      pointToPaintableFields: ( point: Vector2 ) => {
+        return {
+          fill: point.x === convectionEnergyModelPosition ? CONVECTION_BAR_COLOR : BAR_COLOR,
+          stroke: BAR_STROKE
+        };
       }
     } );
 
@@ -209,7 +223,8 @@ class EnergyBalancePlot extends Node {
         return value === inEnergyModelPosition ?
                new Text( GreenhouseEffectFluent.energyBalancePanel.inStringProperty, labelOptions ) :
                value === outEnergyModelPosition ? new Text( GreenhouseEffectFluent.energyBalancePanel.outStringProperty, labelOptions ) :
-               new Text( GreenhouseEffectFluent.energyBalancePanel.netStringProperty, labelOptions );
+               value === netEnergyModelPosition ? new Text( GreenhouseEffectFluent.energyBalancePanel.netStringProperty, labelOptions ) :
+               new Text( GreenhouseEffectFluent.energyBalancePanel.convectionStringProperty, labelOptions );
       }
     } );
 
@@ -229,6 +244,7 @@ class EnergyBalancePlot extends Node {
     this.netEnergyInProperty = netEnergyInProperty;
     this.netEnergyOutProperty = netEnergyOutProperty;
     this.netEnergyProperty = netEnergyProperty;
+    this.convectionEnergyProperty = convectionEnergyProperty;
   }
 
   /**
@@ -237,11 +253,17 @@ class EnergyBalancePlot extends Node {
    * https://github.com/phetsims/greenhouse-effect/issues/265.
    */
   public update(): void {
-    this.barPlot.setDataSet( [
+    const dataSet = [
       new Vector2( 0, this.netEnergyInProperty.value ),
       new Vector2( 1, this.netEnergyOutProperty.value ),
       new Vector2( 2, this.netEnergyProperty.value )
-    ] );
+    ];
+
+    // The convection is plotted as a positive value, since the energy is moving upward.
+    if ( this.convectionEnergyProperty ) {
+      dataSet.push( new Vector2( 3, this.convectionEnergyProperty.value ) );
+    }
+    this.barPlot.setDataSet( dataSet );
   }
 }
 
@@ -161,8 +161,10 @@ class EnergyFluxAlerter extends Alerter {
   public step(): void {
 
     // Calculate the time since the last alert based on the time experienced by the model.  There is no need to do
-    // alerts about energy flux changes if the model hasn't changed.
-    const elapsedModelTime = Math.max( this.model.totalElapsedTime - this.previousElapsedModelTime, 0 );
+    // alerts about energy flux changes if the model hasn't changed.  When the model is running faster than real time,
+    // the elapsed time is scaled back down so that the alerts don't come more frequently than they can be spoken.
+    const elapsedModelTime = Math.max( this.model.totalElapsedTime - this.previousElapsedModelTime, 0 ) /
+                             Math.max( this.model.getTimeSpeedMultiplier(), 1 );
 
     // Update the countdown timer for alerts.
     this.alertCountdownTimer = Math.max( this.alertCountdownTimer - elapsedModelTime, 0 );
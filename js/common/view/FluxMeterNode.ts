@@ -11,9 +11,11 @@
 
 import BooleanProperty from '../../../../axon/js/BooleanProperty.js';
 import DerivedProperty from '../../../../axon/js/DerivedProperty.js';
+import PatternStringProperty from '../../../../axon/js/PatternStringProperty.js';
 import { TReadOnlyProperty } from '../../../../axon/js/TReadOnlyProperty.js';
 import Bounds2 from '../../../../dot/js/Bounds2.js';
 import Dimension2 from '../../../../dot/js/Dimension2.js';
+import Utils from '../../../../dot/js/Utils.js';
 import Vector2 from '../../../../dot/js/Vector2.js';
 import Vector2Property from '../../../../dot/js/Vector2Property.js';
 import Shape from '../../../../kite/js/Shape.js';
@@ -26,6 +28,7 @@ import ModelViewTransform2 from '../../../../phetcommon/js/view/ModelViewTransfo
 import ArrowNode, { ArrowNodeOptions } from '../../../../scenery-phet/js/ArrowNode.js';
 import MagnifyingGlassZoomButtonGroup from '../../../../scenery-phet/js/MagnifyingGlassZoomButtonGroup.js';
 import PhetColorScheme from '../../../../scenery-phet/js/PhetColorScheme.js';
+import PhetFont from '../../../../scenery-phet/js/PhetFont.js';
 import WireNode from '../../../../scenery-phet/js/WireNode.js';
 import ZoomButtonGroup from '../../../../scenery-phet/js/ZoomButtonGroup.js';
 import SceneryEvent from '../../../../scenery/js/input/SceneryEvent.js';
@@ -42,6 +45,7 @@ import ColorProperty from '../../../../scenery/js/util/ColorProperty.js';
 import AccessibleSlider, { AccessibleSliderOptions } from '../../../../sun/js/accessibility/AccessibleSlider.js';
 import Panel from '../../../../sun/js/Panel.js';
 import soundManager from '../../../../tambo/js/soundManager.js';
+import Tandem from '../../../../tandem/js/Tandem.js';
 import GreenhouseEffectFluent from '../../GreenhouseEffectFluent.js';
 import GreenhouseEffectColors from '../GreenhouseEffectColors.js';
 import GreenhouseEffectConstants from '../GreenhouseEffectConstants.js';
@@ -49,6 +53,7 @@ import FluxMeter from '../model/FluxMeter.js';
 import FluxSensor from '../model/FluxSensor.js';
 import GreenhouseEffectPreferences from '../model/GreenhouseEffectPreferences.js';
 import LayersModel from '../model/LayersModel.js';
+import SpectralBand from '../model/SpectralBand.js';
 import FluxMeterDescriptionProperty from './describers/FluxMeterDescriptionProperty.js';
 import FluxMeterSoundGenerator from './FluxMeterSoundGenerator.js';
 
@@ -77,6 +82,17 @@ const CUEING_ARROW_OPTIONS = {
   tailWidth: 7
 };
 
+// labels for the spectral bands in the readout of the flux in each band
+const BAND_STRING_PROPERTIES = new Map<SpectralBand, TReadOnlyProperty<string>>( [
+  [ SpectralBand.ULTRAVIOLET, GreenhouseEffectFluent.spectralBand.ultravioletStringProperty ],
+  [ SpectralBand.VISIBLE, GreenhouseEffectFluent.spectralBand.visibleStringProperty ],
+  [ SpectralBand.NEAR_INFRARED, GreenhouseEffectFluent.spectralBand.nearInfraredStringProperty ],
+  [ SpectralBand.WATER_VAPOR_INFRARED, GreenhouseEffectFluent.spectralBand.waterVaporInfraredStringProperty ],
+  [ SpectralBand.ATMOSPHERIC_WINDOW, GreenhouseEffectFluent.spectralBand.atmosphericWindowStringProperty ],
+  [ SpectralBand.CARBON_DIOXIDE_INFRARED, GreenhouseEffectFluent.spectralBand.carbonDioxideInfraredStringProperty ]
+] );
+const BAND_FLUX_FONT = new PhetFont( 10 );
+
 // The height of the sensor in the view.  This is needed because the sensor model doesn't have any y-dimension height,
 // so we use and arbitrary value that looks decent in the view.
 const SENSOR_VIEW_HEIGHT = 10;
@@ -187,6 +203,11 @@ class FluxMeterNode extends Node {
 
     const contentChildren: Node[] = [ titleText, fluxArrows ];
 
+    // When the sensor measures the flux in each of the spectral bands, show those values too.
+    if ( model.fluxSensor.bandEnergyRateTrackers.size > 0 ) {
+      contentChildren.push( new BandFluxReadout( model.fluxSensor ) );
+    }
+
     // zoom buttons conditionally added to the view
     if ( model.zoomEnabled ) {
       this.zoomButtonGroup = new MagnifyingGlassZoomButtonGroup( model.zoomFactorProperty, {
@@ -549,6 +570,49 @@ class EnergyFluxDisplay extends Node {
   public static readonly WIDTH = 45;
 }
 
+/**
+ * An inner class that shows the flux in the up and down directions for each of the spectral bands as a list of values
+ * in watts per square meter.  This is only used when the sensor measures the flux in each band.
+ */
+class BandFluxReadout extends VBox {
+
+  public constructor( fluxSensor: FluxSensor ) {
+
+    const maxWidth = EnergyFluxDisplay.WIDTH * 2 + METER_SPACING;
+
+    // the energy rates are for the area of the sensor, so divide by that area to get the flux
+    const sensorArea = fluxSensor.size.width * fluxSensor.size.height;
+    const energyRateToFluxString = ( energyRate: number ) => Utils.toFixed( energyRate / sensorArea, 0 );
+
+    const bandFluxTexts = [ ...fluxSensor.bandEnergyRateTrackers ].map( ( [ band, trackers ] ) => new Text(
+      new PatternStringProperty( GreenhouseEffectFluent.fluxMeter.bandFluxPatternStringProperty, {
+        band: BAND_STRING_PROPERTIES.get( band )!,
+        down: trackers.down.energyRateProperty,
+        up: trackers.up.energyRateProperty
+      }, {
+        maps: {
+          down: energyRateToFluxString,
+          up: energyRateToFluxString
+        },
+        tandem: Tandem.OPT_OUT
+      } ),
+      { font: BAND_FLUX_FONT, maxWidth: maxWidth }
+    ) );
+
+    super( {
+      children: [
+        new Text( GreenhouseEffectFluent.fluxMeter.bandFluxTitleStringProperty, {
+          font: GreenhouseEffectConstants.CONTENT_FONT,
+          maxWidth: maxWidth
+        } ),
+        ...bandFluxTexts
+      ],
+      spacing: 2,
+      align: 'left'
+    } );
+  }
+}
+
 /**
  * An inner class to support alternative input for the flux sensor with AccessibleSlider so that arrow keys
  * change the altitude.
@@ -8,8 +8,11 @@
  */
 
 import DerivedProperty from '../../../../axon/js/DerivedProperty.js';
+import DerivedStringProperty from '../../../../axon/js/DerivedStringProperty.js';
+import Multilink from '../../../../axon/js/Multilink.js';
 import Dimension2 from '../../../../dot/js/Dimension2.js';
 import Range from '../../../../dot/js/Range.js';
+import Utils from '../../../../dot/js/Utils.js';
 import Vector2 from '../../../../dot/js/Vector2.js';
 import Shape from '../../../../kite/js/Shape.js';
 import optionize, { combineOptions } from '../../../../phet-core/js/optionize.js';
@@ -36,9 +39,13 @@ import startSunlightChord_mp3 from '../../../sounds/startSunlightChord_mp3.js';
 import GreenhouseEffectFluent from '../../GreenhouseEffectFluent.js';
 import GreenhouseEffectConstants from '../GreenhouseEffectConstants.js';
 import LayersModel from '../model/LayersModel.js';
+import TemperatureUnits from '../model/TemperatureUnits.js';
+import AerosolLayerNode from './AerosolLayerNode.js';
 import EnergyBalancePanel from './EnergyBalancePanel.js';
 import FluxMeterNode, { FluxMeterNodeOptions } from './FluxMeterNode.js';
 import InstrumentVisibilityPanel from './InstrumentVisibilityPanel.js';
+import TemperatureGraphPanel from './TemperatureGraphPanel.js';
+import TemperatureProfilePanel from './TemperatureProfilePanel.js';
 import TemperatureSoundGeneratorFiltered from './TemperatureSoundGeneratorFiltered.js';
 
 // constants
@@ -50,6 +57,17 @@ const EXPECTED_MAX_TEMPERATURE = 309; // in Kelvin
 // Standard inset for controls and instruments that exist inside the observation window.
 const CONTROL_AND_INSTRUMENT_INSET = 10;
 
+// Opacity of the overlay that darkens the scene at night when the sun is following a diurnal cycle, and the value of
+// the cosine of the solar zenith angle on either side of sunrise and sunset over which it gradually fades in or out, so
+// that there is a period of twilight.
+const NIGHT_OPACITY = 0.6;
+const TWILIGHT_SPAN = 0.15;
+
+// Colors of the sky from the top of the observation window to the horizon, and the positions in the gradient where each
+// is used.
+const SKY_COLORS = [ '#00131A', '#007399', '#00ACE6', '#80DFFF' ];
+const SKY_COLOR_STOP_RATIOS = [ 0, 0.2, 0.35, 0.8 ];
+
 type SelfOptions = {
 
   // Passed to the FluxMeterNode, but the tandem for the FluxMeterNode is added by this component.
@@ -70,6 +88,8 @@ class GreenhouseEffectObservationWindow extends Node {
   protected readonly startSunlightButton: TextPushButton;
   protected readonly focusableHeadingNode: FocusableHeadingNode;
   protected readonly energyBalancePanel: EnergyBalancePanel;
+  protected readonly temperatureGraphPanel: TemperatureGraphPanel;
+  protected readonly temperatureProfilePanel: TemperatureProfilePanel;
 
   // Observation window UI component visibility controls, public for pdomOrder.
   public readonly instrumentVisibilityPanel: InstrumentVisibilityPanel;
@@ -145,18 +165,39 @@ class GreenhouseEffectObservationWindow extends Node {
     } );
     this.foregroundLayer.addChild( this.focusableHeadingNode );
 
-    // Create the node that will represent the sky.
-    const skyNode = new Rectangle( 0, 0, SIZE.width, SIZE.height, {
-      fill: new LinearGradient( 0, 0, 0, SIZE.height )
-        .addColorStop( 0, '#00131A' )
-        .addColorStop( 0.2, '#007399' )
-        .addColorStop( 0.35, '#00ACE6' )
-        .addColorStop( 0.80, '#80DFFF' )
-    } );
-    this.backgroundLayer.addChild( skyNode );
-
+    // Create the nodes that will represent the sky and the ground.
+    this.backgroundLayer.addChild( this.createSkyNode( model ) );
     this.backgroundLayer.addChild( this.createGroundNode( model ) );
 
+    // haze that depicts the aerosols in the atmosphere, such as those from a volcanic eruption, when present
+    if ( model.aerosolLayer ) {
+      this.backgroundLayer.addChild( new AerosolLayerNode( model.aerosolLayer, this.modelViewTransform, SIZE.width ) );
+    }
+
+    // Create a node that darkens the sky, ground, and clouds at night when the sun is following a diurnal cycle.  This
+    // fades in and out around sunset and sunrise.  It is the first thing in the presentation layer so that it is behind
+    // the representations of the energy, such as the waves and photons, and the controls and instruments, which all
+    // need to stay clearly visible.
+    const nightNode = Rectangle.dimension( SIZE, {
+      fill: new Color( 0, 0, 30, NIGHT_OPACITY )
+    } );
+    this.presentationLayer.addChild( nightNode );
+    Multilink.multilink(
+      [ model.sunEnergySource.diurnalCycleEnabledProperty, model.sunEnergySource.timeOfDayProperty ],
+      diurnalCycleEnabled => {
+        const daylightProportion = diurnalCycleEnabled ?
+                                   Utils.clamp(
+                                     ( model.sunEnergySource.getCosineOfSolarZenithAngle() + TWILIGHT_SPAN ) /
+                                     ( 2 * TWILIGHT_SPAN ),
+                                     0,
+                                     1
+                                   ) :
+                                   1;
+        nightNode.opacity = 1 - daylightProportion;
+        nightNode.visible = daylightProportion < 1;
+      }
+    );
+
     // energy balance
     this.energyBalancePanel = new EnergyBalancePanel( model );
     this.energyBalancePanel.leftTop = this.windowFrame.leftTop.plusXY(
@@ -164,6 +205,38 @@ class GreenhouseEffectObservationWindow extends Node {
       GreenhouseEffectObservationWindow.CONTROL_AND_INSTRUMENT_INSET
     );
 
+    // the units for the temperature axes of the graph and the profile, which are the units selected by the user
+    const temperatureUnitsStringProperty = new DerivedStringProperty(
+      [
+        model.temperatureUnitsProperty,
+        GreenhouseEffectFluent.temperature.units.kelvinStringProperty,
+        GreenhouseEffectFluent.temperature.units.celsiusStringProperty,
+        GreenhouseEffectFluent.temperature.units.fahrenheitStringProperty
+      ],
+      ( units, kelvinUnitsString, celsiusUnitsString, fahrenheitUnitsString ) => {
+        return units === TemperatureUnits.KELVIN ? kelvinUnitsString :
+               units === TemperatureUnits.CELSIUS ? celsiusUnitsString :
+               fahrenheitUnitsString;
+      }
+    );
+
+    // graph of the surface temperature and energy balance over time
+    this.temperatureGraphPanel = new TemperatureGraphPanel( model, temperatureUnitsStringProperty, {
+      tandem: options.tandem.createTandem( 'temperatureGraphPanel' )
+    } );
+    this.temperatureGraphPanel.centerTop = this.windowFrame.centerTop.plusXY(
+      0,
+      GreenhouseEffectObservationWindow.CONTROL_AND_INSTRUMENT_INSET
+    );
+
+    // plot of the temperature of the ground and atmosphere layers versus altitude, placed below the energy balance
+    this.temperatureProfilePanel = new TemperatureProfilePanel( model, temperatureUnitsStringProperty, {
+      tandem: options.tandem.createTandem( 'temperatureProfilePanel' )
+    } );
+    this.temperatureProfilePanel.left = this.energyBalancePanel.left;
+    this.temperatureProfilePanel.top = this.energyBalancePanel.bottom +
+                                       GreenhouseEffectObservationWindow.CONTROL_AND_INSTRUMENT_INSET;
+
     // controls for the energy balance indicator and the flux meter, if used in this model
     this.instrumentVisibilityPanel = new InstrumentVisibilityPanel( model, {
       includeFluxMeterCheckbox: model.fluxMeter !== null,
@@ -171,6 +244,8 @@ class GreenhouseEffectObservationWindow extends Node {
     } );
 
     this.controlsLayer.addChild( this.energyBalancePanel );
+    this.controlsLayer.addChild( this.temperatureGraphPanel );
+    this.controlsLayer.addChild( this.temperatureProfilePanel );
     this.controlsLayer.addChild( new AlignBox( this.instrumentVisibilityPanel, {
       alignBounds: this.windowFrame.bounds,
       margin: GreenhouseEffectObservationWindow.CONTROL_AND_INSTRUMENT_INSET,
@@ -347,6 +422,8 @@ class GreenhouseEffectObservationWindow extends Node {
 
   public step( dt: number ): void {
     this.energyBalancePanel.step( dt );
+    this.temperatureGraphPanel.step();
+    this.temperatureProfilePanel.step();
     if ( this.fluxMeterNode ) {
       this.fluxMeterNode.step( dt );
     }
@@ -361,6 +438,17 @@ class GreenhouseEffectObservationWindow extends Node {
 
   public reset(): void {
     this.fluxMeterNode?.reset();
+    this.temperatureGraphPanel.reset();
+  }
+
+  /**
+   * Create the visual representation of the sky.  This is meant to be overridden in descendent classes that depict
+   * something other than the sky of the present-day Earth.
+   */
+  protected createSkyNode( model: LayersModel ): Node {
+    return new Rectangle( 0, 0, SIZE.width, SIZE.height, {
+      fill: GreenhouseEffectObservationWindow.createSkyGradient( SKY_COLORS )
+    } );
   }
 
   /**
@@ -372,6 +460,17 @@ class GreenhouseEffectObservationWindow extends Node {
     return new Rectangle( 0, topOfGround, this.width, this.height - topOfGround, { fill: new Color( 0, 150, 0 ) } );
   }
 
+  /**
+   * Create the gradient used to fill the sky from a list of colors that go from the top of the observation window to
+   * the horizon.
+   */
+  public static createSkyGradient( colors: ( Color | string )[] ): LinearGradient {
+    assert && assert( colors.length === SKY_COLOR_STOP_RATIOS.length, 'unexpected number of sky colors' );
+    const gradient = new LinearGradient( 0, 0, 0, SIZE.height );
+    colors.forEach( ( color, index ) => gradient.addColorStop( SKY_COLOR_STOP_RATIOS[ index ], color ) );
+    return gradient;
+  }
+
   /**
    * Create a shape that will be used for the surface temperature glow and potentially for a Node that depicts the
    * ground.  This must match the artwork for the landscapes, and was made to do so manually, and may need to be
@@ -399,6 +498,7 @@ class GreenhouseEffectObservationWindow extends Node {
   public static readonly SIZE: Dimension2 = SIZE;
   public static readonly CONTROL_AND_INSTRUMENT_INSET: number = CONTROL_AND_INSTRUMENT_INSET;
   public static readonly EXPECTED_MAX_TEMPERATURE = EXPECTED_MAX_TEMPERATURE;
+  public static readonly SKY_COLORS: string[] = SKY_COLORS;
 }
 
 export default GreenhouseEffectObservationWindow;
@@ -96,11 +96,14 @@ class GreenhouseEffectScreenView extends ScreenView {
     }, options.energyLegendOptions ) );
 
     // The parent node on the right side of the view where legends and controls are placed.  A VBox
-    // is used to support dynamic layout in conjunction with phet-io.
+    // is used to support dynamic layout in conjunction with phet-io.  It is scaled down if enough of the optional
+    // controls are shown that it would extend below the observation window, and subtypes can reduce the maximum height
+    // further to make room for other controls.
     this.legendAndControlsVBox = new VBox( {
       children: [ this.energyLegend ],
       align: 'left',
-      spacing: 10
+      spacing: 10,
+      maxHeight: this.observationWindow.height
     } );
     this.addChild( this.legendAndControlsVBox );
 
@@ -0,0 +1,159 @@
+// Copyright 2026, University of Colorado Boulder
+
+/**
+ * GreenhouseGasCompositionControl is a UI component that allows the user to set the amounts of the individual
+ * greenhouse gases in the atmosphere - carbon dioxide, methane, nitrous oxide, and water vapor.  Each gas has a label
+ * with a readout of its amount and a slider.  Like the cloud type control, the sliders are only shown when the
+ * concentration is controlled by value, and the control as a whole is only shown when the gases set the concentration,
+ * which can be changed through PhET-iO.
+ *
+ * @author John Blanco (PhET Interactive Simulations)
+ */
+
+import DerivedProperty from '../../../../axon/js/DerivedProperty.js';
+import EnumerationProperty from '../../../../axon/js/EnumerationProperty.js';
+import NumberProperty from '../../../../axon/js/NumberProperty.js';
+import PatternStringProperty from '../../../../axon/js/PatternStringProperty.js';
+import { TReadOnlyProperty } from '../../../../axon/js/TReadOnlyProperty.js';
+import Dimension2 from '../../../../dot/js/Dimension2.js';
+import Utils from '../../../../dot/js/Utils.js';
+import { combineOptions } from '../../../../phet-core/js/optionize.js';
+import StringUtils from '../../../../phetcommon/js/util/StringUtils.js';
+import VBox from '../../../../scenery/js/layout/nodes/VBox.js';
+import Node from '../../../../scenery/js/nodes/Node.js';
+import RichText from '../../../../scenery/js/nodes/RichText.js';
+import Text from '../../../../scenery/js/nodes/Text.js';
+import HSlider from '../../../../sun/js/HSlider.js';
+import { SliderOptions } from '../../../../sun/js/Slider.js';
+import Tandem from '../../../../tandem/js/Tandem.js';
+import GreenhouseEffectFluent from '../../GreenhouseEffectFluent.js';
+import GreenhouseEffectConstants from '../GreenhouseEffectConstants.js';
+import { ConcentrationControlMode } from '../model/ConcentrationModel.js';
+import GreenhouseGasComposition from '../model/GreenhouseGasComposition.js';
+
+// the number of keyboard steps across the full range of each slider
+const KEYBOARD_STEPS_PER_RANGE = 20;
+
+class GreenhouseGasCompositionControl extends Node {
+
+  public constructor( gasComposition: GreenhouseGasComposition,
+                      concentrationControlModeProperty: EnumerationProperty<ConcentrationControlMode>,
+                      width: number,
+                      tandem: Tandem ) {
+
+    // Title
+    const titleText = new Text( GreenhouseEffectFluent.gasConcentrationsStringProperty, {
+      font: GreenhouseEffectConstants.LABEL_FONT,
+      maxWidth: width
+    } );
+
+    const carbonDioxideControl = new GasControl(
+      gasComposition.carbonDioxideProperty,
+      GreenhouseEffectFluent.concentrationPanel.carbonDioxideConcentrationPatternStringProperty,
+      GreenhouseEffectFluent.a11y.carbonDioxideStringProperty,
+      GreenhouseEffectFluent.a11y.carbonDioxidePPMPatternStringProperty,
+      width,
+      tandem.createTandem( 'carbonDioxideSlider' )
+    );
+
+    const methaneControl = new GasControl(
+      gasComposition.methaneProperty,
+      GreenhouseEffectFluent.concentrationPanel.methaneConcentrationPatternStringProperty,
+      GreenhouseEffectFluent.a11y.methaneStringProperty,
+      GreenhouseEffectFluent.a11y.methanePPMPatternStringProperty,
+      width,
+      tandem.createTandem( 'methaneSlider' )
+    );
+
+    const nitrousOxideControl = new GasControl(
+      gasComposition.nitrousOxideProperty,
+      GreenhouseEffectFluent.concentrationPanel.nitrousOxideConcentrationPatternStringProperty,
+      GreenhouseEffectFluent.a11y.nitrousOxideStringProperty,
+      GreenhouseEffectFluent.a11y.nitrousOxidePPMPatternStringProperty,
+      width,
+      tandem.createTandem( 'nitrousOxideSlider' )
+    );
+
+    const waterVaporControl = new GasControl(
+      gasComposition.waterVaporProperty,
+      GreenhouseEffectFluent.concentrationPanel.waterVaporConcentrationPatternStringProperty,
+      GreenhouseEffectFluent.a11y.waterVaporStringProperty,
+      GreenhouseEffectFluent.a11y.waterVaporPPMPatternStringProperty,
+      width,
+      tandem.createTandem( 'waterVaporSlider' )
+    );
+
+    // Put the title and gas controls together.  These are only shown in 'by value' mode, since the amounts of the gases
+    // are set by the date in 'by date' mode.
+    const contentBox = new VBox( {
+      children: [ titleText, carbonDioxideControl, methaneControl, nitrousOxideControl, waterVaporControl ],
+      align: 'left',
+      spacing: 5,
+      visibleProperty: new DerivedProperty(
+        [ concentrationControlModeProperty ],
+        mode => mode === ConcentrationControlMode.BY_VALUE
+      )
+    } );
+
+    super( {
+      children: [ contentBox ],
+      visibleProperty: gasComposition.enabledProperty,
+      tandem: tandem,
+      isDisposable: false
+    } );
+  }
+}
+
+/**
+ * Inner class with a label that shows the amount of a single gas and a slider for changing it.
+ */
+class GasControl extends VBox {
+
+  public constructor( amountProperty: NumberProperty,
+                      labelPatternStringProperty: TReadOnlyProperty<string>,
+                      accessibleNameStringProperty: TReadOnlyProperty<string>,
+                      accessibleValuePatternStringProperty: TReadOnlyProperty<string>,
+                      width: number,
+                      sliderTandem: Tandem ) {
+
+    const range = amountProperty.range;
+    const keyboardStep = range.getLength() / KEYBOARD_STEPS_PER_RANGE;
+
+    const labelStringProperty = new PatternStringProperty( labelPatternStringProperty, { value: amountProperty }, {
+      maps: { value: value => Utils.roundSymmetric( value ) }
+    } );
+    const labelText = new RichText( labelStringProperty, {
+      font: GreenhouseEffectConstants.CONTENT_FONT,
+      maxWidth: width
+    } );
+
+    const slider = new HSlider( amountProperty, range, combineOptions<SliderOptions>(
+      {},
+      GreenhouseEffectConstants.SLIDER_OPTIONS,
+      {
+        trackSize: new Dimension2( width * 0.75, 1 ),
+        constrainValue: value => Utils.roundSymmetric( value ),
+        keyboardStep: keyboardStep,
+        shiftKeyboardStep: keyboardStep / 5,
+        pageKeyboardStep: keyboardStep * 4,
+        createAriaValueText: value => StringUtils.fillIn( accessibleValuePatternStringProperty, {
+          value: Utils.roundSymmetric( value )
+        } ),
+        labelContent: accessibleNameStringProperty,
+        labelTagName: 'label',
+        accessibleHelpText: GreenhouseEffectFluent.a11y.gasConcentrationSliderHelpTextStringProperty,
+        isDisposable: false,
+        tandem: sliderTandem,
+        phetioVisiblePropertyInstrumented: false
+      }
+    ) );
+
+    super( {
+      children: [ labelText, slider ],
+      align: 'left',
+      spacing: 2
+    } );
+  }
+}
+
+export default GreenhouseGasCompositionControl;
@@ -8,17 +8,21 @@
  * @author John Blanco (PhET Interactive Simulations)
  */
 
+import DerivedProperty from '../../../../axon/js/DerivedProperty.js';
 import EnumerationProperty from '../../../../axon/js/EnumerationProperty.js';
 import Multilink from '../../../../axon/js/Multilink.js';
 import NumberProperty from '../../../../axon/js/NumberProperty.js';
 import PatternStringProperty from '../../../../axon/js/PatternStringProperty.js';
+import TinyProperty from '../../../../axon/js/TinyProperty.js';
 import { TReadOnlyProperty } from '../../../../axon/js/TReadOnlyProperty.js';
 import Dimension2 from '../../../../dot/js/Dimension2.js';
 import LinearFunction from '../../../../dot/js/LinearFunction.js';
 import Range from '../../../../dot/js/Range.js';
 import Utils from '../../../../dot/js/Utils.js';
+import Vector2 from '../../../../dot/js/Vector2.js';
 import optionize, { combineOptions } from '../../../../phet-core/js/optionize.js';
 import PickRequired from '../../../../phet-core/js/types/PickRequired.js';
+import StringUtils from '../../../../phetcommon/js/util/StringUtils.js';
 import FlowBox from '../../../../scenery/js/layout/nodes/FlowBox.js';
 import HBox from '../../../../scenery/js/layout/nodes/HBox.js';
 import VBox from '../../../../scenery/js/layout/nodes/VBox.js';
@@ -39,9 +43,11 @@ import GreenhouseEffectFluent from '../../GreenhouseEffectFluent.js';
 import GreenhouseEffectColors from '../GreenhouseEffectColors.js';
 import GreenhouseEffectConstants from '../GreenhouseEffectConstants.js';
 import ConcentrationModel, { ConcentrationControlMode, ConcentrationDate } from '../model/ConcentrationModel.js';
+import WaterVaporFeedback from '../model/WaterVaporFeedback.js';
 import ConcentrationSliderSoundGenerator from './ConcentrationSliderSoundGenerator.js';
 import ConcentrationDescriber from './describers/ConcentrationDescriber.js';
 import GreenhouseGasConcentrations from './GreenhouseGasConcentrations.js';
+import WaterVaporFeedbackCheckbox from './WaterVaporFeedbackCheckbox.js';
 
 // constants
 const lotsStringProperty = GreenhouseEffectFluent.concentrationPanel.lotsStringProperty;
@@ -50,6 +56,8 @@ const carbonDioxideConcentrationPatternStringProperty = GreenhouseEffectFluent.c
 const methaneConcentrationPatternStringProperty = GreenhouseEffectFluent.concentrationPanel.methaneConcentrationPatternStringProperty;
 const nitrousOxideConcentrationPatternStringProperty = GreenhouseEffectFluent.concentrationPanel.nitrousOxideConcentrationPatternStringProperty;
 const iceAgeStringProperty = GreenhouseEffectFluent.concentrationPanel.iceAgeStringProperty;
+const yearBCEPatternStringProperty = GreenhouseEffectFluent.concentrationPanel.yearBCEPatternStringProperty;
+const waterVaporChangePatternStringProperty = GreenhouseEffectFluent.concentrationPanel.waterVaporChangePatternStringProperty;
 
 // Height in view coordinates of the concentration slider track (when controlling concentration by value) and the
 // concentration meter graphic (when controlling by date). These are the same height so that the positions of values
@@ -82,6 +90,31 @@ const CONCENTRATION_CONTROLS_STROKE = 'black';
 const STRING_2020 = '2020';
 const STRING_1950 = '1950';
 const STRING_1750 = '1750';
+const STRING_2100 = '2100';
+
+// Points that map years on the timeline to positions along the timeline slider, where 0 is the bottom of the track and
+// 1 is the top.  The recent past gets more of the track than its length in years would suggest so that it's possible to
+// choose years precisely during the period when the concentrations change quickly.
+const TIMELINE_SLIDER_POINTS = [
+  new Vector2( -20000, 0 ),
+  new Vector2( 0, 0.25 ),
+  new Vector2( 1750, 0.45 ),
+  new Vector2( 1950, 0.7 ),
+  new Vector2( 2100, 1 )
+];
+const TIMELINE_SLIDER_INVERSE_POINTS = TIMELINE_SLIDER_POINTS.map( point => new Vector2( point.y, point.x ) );
+
+/**
+ * Map a value using linear interpolation between the nearest of the provided points, which must be in order of
+ * increasing x.
+ */
+const interpolate = ( points: Vector2[], x: number ): number => {
+  const index = points.findIndex( point => point.x >= x );
+  const upperPointIndex = index === -1 ? points.length - 1 : Math.max( index, 1 );
+  const lowerPoint = points[ upperPointIndex - 1 ];
+  const upperPoint = points[ upperPointIndex ];
+  return Utils.linear( lowerPoint.x, upperPoint.x, lowerPoint.y, upperPoint.y, x );
+};
 
 const RADIO_BUTTON_GROUP_OPTIONS = {
   radioButtonOptions: {
@@ -143,6 +176,7 @@ class GreenhouseGasConcentrationPanel extends Panel {
     // controls to select greenhouse gas concentration by date, and a meter displaying relative concentration
     const dateControl = new DateControl(
       concentrationModel.dateProperty,
+      concentrationModel.timelineEnabled ? concentrationModel.yearProperty : null,
       concentrationModel.concentrationProperty,
       concentrationModel.concentrationControlModeProperty,
       options.tandem.createTandem( 'dateControl' )
@@ -164,11 +198,19 @@ class GreenhouseGasConcentrationPanel extends Panel {
 
     let compositionDataNode: CompositionDataNode | null = null;
     if ( options.includeCompositionData ) {
-      compositionDataNode = new CompositionDataNode( concentrationModel.dateProperty, width,
+      compositionDataNode = new CompositionDataNode( concentrationModel, width,
         options.tandem.createTandem( 'compositionDataNode' ) );
       contentChildren.push( compositionDataNode );
     }
 
+    if ( concentrationModel.waterVaporFeedback ) {
+      contentChildren.push( new WaterVaporFeedbackNode(
+        concentrationModel.waterVaporFeedback,
+        width,
+        options.tandem.createTandem( 'waterVaporFeedbackNode' )
+      ) );
+    }
+
     const content = new VBox( {
       children: contentChildren,
       spacing: CONTENT_SPACING,
@@ -200,11 +242,13 @@ class DateControl extends HBox {
 
   /**
    * @param dateProperty
+   * @param yearProperty - year on the timeline, which is chosen instead of the date when provided
    * @param concentrationProperty - setting date will modify concentration
    * @param concentrationControlModeProperty - setting date will modify concentration
    * @param tandem
    */
   public constructor( dateProperty: EnumerationProperty<ConcentrationDate>,
+                      yearProperty: NumberProperty | null,
                       concentrationProperty: TReadOnlyProperty<number>,
                       concentrationControlModeProperty: EnumerationProperty<ConcentrationControlMode>,
                       tandem: Tandem ) {
@@ -244,19 +288,27 @@ class DateControl extends HBox {
         tandemName: 'iceAgeRadioButton'
       }
     ];
-    const dateRadioButtonGroup = new RectangularRadioButtonGroup(
-      dateProperty,
-      items,
-      combineOptions<RectangularRadioButtonGroupOptions>( {
-
-        // pdom
-        accessibleName: GreenhouseEffectFluent.a11y.concentrationPanel.timePeriod.labelStringProperty,
-        accessibleHelpText: GreenhouseEffectFluent.a11y.concentrationPanel.timePeriod.accessibleHelpTextStringProperty,
 
-        // phet-io
-        tandem: tandem.createTandem( 'dateRadioButtonGroup' )
-      }, RADIO_BUTTON_GROUP_OPTIONS )
-    );
+    // The date is chosen using either the radio buttons or, when a year is provided, a slider for the timeline.
+    let dateSelectionNode: Node;
+    if ( yearProperty ) {
+      dateSelectionNode = new TimelineControl( yearProperty, tandem.createTandem( 'timelineControl' ) );
+    }
+    else {
+      dateSelectionNode = new RectangularRadioButtonGroup(
+        dateProperty,
+        items,
+        combineOptions<RectangularRadioButtonGroupOptions>( {
+
+          // pdom
+          accessibleName: GreenhouseEffectFluent.a11y.concentrationPanel.timePeriod.labelStringProperty,
+          accessibleHelpText: GreenhouseEffectFluent.a11y.concentrationPanel.timePeriod.accessibleHelpTextStringProperty,
+
+          // phet-io
+          tandem: tandem.createTandem( 'dateRadioButtonGroup' )
+        }, RADIO_BUTTON_GROUP_OPTIONS )
+      );
+    }
 
     // relative concentration graphic
     const meterLineOptions = { stroke: CONCENTRATION_CONTROLS_STROKE, lineWidth: 2 };
@@ -264,11 +316,15 @@ class DateControl extends HBox {
     const microConcentrationLine = new Line( 0, 0, 0, CONCENTRATION_SLIDER_TRACK_HEIGHT, meterLineOptions );
 
     // Create the macroBox, which is the little rectangle that depicts the area that is being magnified.  This is sized
-    // to automatically hold all possible concentration values associated with dates.
-    const macroBoxProportionateHeight = ConcentrationModel.DATE_CONCENTRATION_RANGE.getLength() /
+    // to automatically hold all possible concentration values associated with dates, or with the years on the timeline
+    // when it is used.
+    const dateConcentrationRange = yearProperty ?
+                                   ConcentrationModel.TIMELINE_CONCENTRATION_RANGE :
+                                   ConcentrationModel.DATE_CONCENTRATION_RANGE;
+    const macroBoxProportionateHeight = dateConcentrationRange.getLength() /
                                         ConcentrationModel.CONCENTRATION_RANGE.getLength() *
                                         1.2;
-    const macroBoxProportionateCenterY = ConcentrationModel.DATE_CONCENTRATION_RANGE.getCenter() /
+    const macroBoxProportionateCenterY = dateConcentrationRange.getCenter() /
                                          ConcentrationModel.CONCENTRATION_RANGE.getLength();
     const macroValueBox = new Rectangle(
       0,
@@ -363,14 +419,102 @@ class DateControl extends HBox {
       }
     );
 
-    // Put the graphical zoom in representation and the radio buttons next to each other in an HBox.
+    // Put the graphical zoom in representation and the date selection controls next to each other in an HBox.
     super( {
-      children: [ concentrationRangeGraphic, dateRadioButtonGroup ],
+      children: [ concentrationRangeGraphic, dateSelectionNode ],
       spacing: CONTENT_SPACING
     } );
   }
 }
 
+/**
+ * Inner class with a readout of the selected year and a vertical slider for choosing a year on a continuous timeline
+ * that runs from the last ice age to the end of this century.  This is used in place of the date radio buttons when the
+ * timeline is enabled.  The slider is nonlinear so that the recent past, when the concentrations change quickly, takes
+ * up a reasonable portion of the track.
+ */
+class TimelineControl extends VBox {
+
+  public constructor( yearProperty: NumberProperty, tandem: Tandem ) {
+
+    // the year as it is shown to the user, with years before the common era labeled as such
+    const yearStringProperty = new DerivedProperty(
+      [ yearProperty, yearBCEPatternStringProperty ],
+      ( year, yearBCEPattern ) => year < 0 ? StringUtils.fillIn( yearBCEPattern, { year: -year } ) : `${year}`
+    );
+    const yearText = new Text( yearStringProperty, {
+      font: GreenhouseEffectConstants.LABEL_FONT,
+      maxWidth: 100
+    } );
+
+    // The position of the slider thumb along the track, from 0 at the bottom to 1 at the top, which is kept in sync
+    // with the year.
+    const positionProperty = new NumberProperty( interpolate( TIMELINE_SLIDER_POINTS, yearProperty.value ), {
+      range: new Range( 0, 1 )
+    } );
+    let updating = false;
+    yearProperty.lazyLink( year => {
+      if ( !updating ) {
+        updating = true;
+        positionProperty.set( interpolate( TIMELINE_SLIDER_POINTS, year ) );
+        updating = false;
+      }
+    } );
+    positionProperty.lazyLink( position => {
+      if ( !updating ) {
+        updating = true;
+        yearProperty.set( Utils.roundSymmetric( interpolate( TIMELINE_SLIDER_INVERSE_POINTS, position ) ) );
+        updating = false;
+      }
+    } );
+
+    const slider = new VSlider( positionProperty, positionProperty.range, {
+      trackSize: new Dimension2( 1, CONCENTRATION_SLIDER_TRACK_HEIGHT ),
+      thumbSize: GreenhouseEffectConstants.VERTICAL_SLIDER_THUMB_SIZE,
+      thumbLineWidth: SLIDER_THUMB_LINE_WIDTH,
+      majorTickLength: 10,
+
+      // pdom
+      labelContent: GreenhouseEffectFluent.a11y.concentrationPanel.timePeriod.labelStringProperty,
+      labelTagName: 'label',
+      accessibleHelpText: GreenhouseEffectFluent.a11y.concentrationPanel.timePeriod.timelineHelpTextStringProperty,
+      keyboardStep: 0.01,
+      shiftKeyboardStep: 0.002, // finer grain
+      pageKeyboardStep: 0.05, // coarser grain
+      createAriaValueText: () => yearStringProperty.value,
+
+      // phet-io
+      tandem: tandem.createTandem( 'slider' ),
+      phetioVisiblePropertyInstrumented: false
+    } );
+
+    // Label the years for the time periods that can be chosen when the timeline isn't in use, plus the end of the
+    // projections.
+    const tickLabels: [ number, TReadOnlyProperty<string> | string ][] = [
+      [ -20000, iceAgeStringProperty ],
+      [ 1750, STRING_1750 ],
+      [ 1950, STRING_1950 ],
+      [ 2020, STRING_2020 ],
+      [ 2100, STRING_2100 ]
+    ];
+    tickLabels.forEach( ( [ year, label ] ) => {
+      slider.addMajorTick(
+        interpolate( TIMELINE_SLIDER_POINTS, year ),
+        new Text( label, GreenhouseEffectConstants.TICK_MARK_TEXT_OPTIONS )
+      );
+    } );
+
+    super( {
+      children: [ yearText, slider ],
+      spacing: 5,
+
+      // phet-io
+      tandem: tandem,
+      phetioVisiblePropertyInstrumented: false
+    } );
+  }
+}
+
 /**
  * Inner class representing a labeled vertical slider that directly controls greenhouse gas concentration.
  */
@@ -411,6 +555,19 @@ class ConcentrationControl extends VBox {
     } );
     slider.scale( -1, 1 );
 
+    // When the concentration is set by the individual gases or by the emissions, this slider only shows the value.
+    const gasComposition = concentrationModel.gasComposition;
+    const carbonCycle = concentrationModel.carbonCycle;
+    Multilink.multilink(
+      [
+        gasComposition ? gasComposition.enabledProperty : new TinyProperty( false ),
+        carbonCycle ? carbonCycle.enabledProperty : new TinyProperty( false )
+      ],
+      ( gasCompositionEnabled, carbonCycleEnabled ) => {
+        slider.enabled = !gasCompositionEnabled && !carbonCycleEnabled;
+      }
+    );
+
     // labels
     const lotsText = new Text( lotsStringProperty, LABEL_OPTIONS );
     const noneText = new Text( noneStringProperty, LABEL_OPTIONS );
@@ -439,15 +596,15 @@ class ConcentrationControl extends VBox {
 
 class CompositionDataNode extends VBox {
 
-  public constructor( dateProperty: EnumerationProperty<ConcentrationDate>, panelWidth: number, tandem: Tandem ) {
+  public constructor( concentrationModel: ConcentrationModel, panelWidth: number, tandem: Tandem ) {
 
     const textOptions = {
       font: GreenhouseEffectConstants.CONTENT_FONT,
       maxWidth: panelWidth - 2 * PANEL_MARGINS
     };
 
-    // Create an object that contains the concentration data and updates as the date changes.
-    const greenhouseGasConcentrations = new GreenhouseGasConcentrations( dateProperty );
+    // Create an object that contains the concentration data and updates as the date or year changes.
+    const greenhouseGasConcentrations = new GreenhouseGasConcentrations( concentrationModel );
 
     const carbonDioxideStringProperty = new PatternStringProperty(
       carbonDioxideConcentrationPatternStringProperty,
@@ -479,6 +636,55 @@ class CompositionDataNode extends VBox {
   }
 }
 
+/**
+ * Inner class with a checkbox that turns the water vapor feedback on and off and a readout of the amount of water vapor
+ * in the atmosphere compared to today.
+ */
+class WaterVaporFeedbackNode extends VBox {
+
+  public constructor( waterVaporFeedback: WaterVaporFeedback, panelWidth: number, tandem: Tandem ) {
+
+    const checkbox = new WaterVaporFeedbackCheckbox(
+      waterVaporFeedback.enabledProperty,
+      tandem.createTandem( 'checkbox' )
+    );
+
+    // The change in the amount of water vapor is shown as a percentage, with a sign so that it is clear whether there
+    // is more or less water vapor than today.
+    const waterVaporChangeStringProperty = new PatternStringProperty(
+      waterVaporChangePatternStringProperty,
+      { value: waterVaporFeedback.waterVaporChangeProperty },
+      {
+        maps: {
+          value: ( waterVaporChange: number ) => {
+            const percentChange = Utils.roundSymmetric( waterVaporChange * 100 );
+            return percentChange > 0 ? `+${percentChange}` : `${percentChange}`;
+          }
+        },
+        tandem: tandem.createTandem( 'waterVaporChangeStringProperty' )
+      }
+    );
+    const waterVaporChangeText = new Text( waterVaporChangeStringProperty, {
+      font: GreenhouseEffectConstants.CONTENT_FONT,
+      visibleProperty: waterVaporFeedback.enabledProperty,
+
+      // pdom
+      accessibleParagraph: waterVaporChangeStringProperty
+    } );
+
+    super( {
+      children: [ checkbox, waterVaporChangeText ],
+      align: 'left',
+      spacing: 5,
+      maxWidth: panelWidth - 2 * PANEL_MARGINS,
+      visiblePropertyOptions: {
+        phetioFeatured: true
+      },
+      tandem: tandem
+    } );
+  }
+}
+
 /**
  * An inner class for the control panel that creates a RadioButtonGroup that selects between controlling concentration
  * by date or by value.
@@ -2,15 +2,18 @@
 
 /**
  * GreenhouseGasConcentrations contains a set of properties that represent the concentrations of a set of greenhouse
- * gases based on a provided date.
+ * gases based on the selected date or, when the timeline is enabled, the selected year.  When the gases are controlled
+ * individually, the concentrations in 'by value' mode are the amounts set by the user.
  *
  * @author John Blanco (PhET Interactive Simulations)
  */
 
 import DerivedProperty from '../../../../axon/js/DerivedProperty.js';
-import EnumerationProperty from '../../../../axon/js/EnumerationProperty.js';
+import TinyProperty from '../../../../axon/js/TinyProperty.js';
 import { TReadOnlyProperty } from '../../../../axon/js/TReadOnlyProperty.js';
-import { ConcentrationDate } from '../model/ConcentrationModel.js';
+import Utils from '../../../../dot/js/Utils.js';
+import ConcentrationModel, { ConcentrationControlMode, ConcentrationDate } from '../model/ConcentrationModel.js';
+import GreenhouseGasHistory from '../model/GreenhouseGasHistory.js';
 
 // gas concentration maps - all values in Parts Per Million (PPM)
 const CARBON_DIOXIDE_CONCENTRATION_DATA = new Map( [
@@ -32,6 +35,42 @@ const NITROUS_OXIDE_CONCENTRATION_DATA = new Map( [
   [ ConcentrationDate.ICE_AGE, 0.215 ]
 ] );
 
+/**
+ * Create a Property for the concentration of a single gas.  The value comes from the amount of the gas set by the user
+ * in 'by value' mode when the gases are controlled individually, from the timeline when it is enabled, and from the
+ * date otherwise.  Values from the timeline and from the user can be fractional, so the values are rounded for display.
+ * The gas Property is null when the model doesn't include the individual gases.
+ */
+const createConcentrationProperty = ( concentrationModel: ConcentrationModel,
+                                      gasProperty: TReadOnlyProperty<number> | null,
+                                      getValueForYear: ( year: number ) => number,
+                                      getValueForDate: ( date: ConcentrationDate ) => number ): TReadOnlyProperty<number> => {
+  const gasComposition = concentrationModel.gasComposition;
+  return new DerivedProperty(
+    [
+      concentrationModel.concentrationControlModeProperty,
+      concentrationModel.dateProperty,
+      concentrationModel.yearProperty,
+      gasComposition ? gasComposition.enabledProperty : new TinyProperty( false ),
+      gasProperty || new TinyProperty( 0 )
+    ],
+    ( concentrationControlMode, date, year, gasCompositionEnabled, gasValue ) => {
+      let value;
+      if ( gasCompositionEnabled && concentrationControlMode === ConcentrationControlMode.BY_VALUE ) {
+        value = gasValue;
+      }
+      else if ( concentrationModel.timelineEnabled ) {
+        value = getValueForYear( year );
+      }
+      else {
+        assert && assert( CARBON_DIOXIDE_CONCENTRATION_DATA.has( date ), 'no concentration data for date' );
+        value = getValueForDate( date );
+      }
+      return Utils.roundSymmetric( value );
+    }
+  );
+};
+
 class GreenhouseGasConcentrations {
 
   // concentration of carbon dioxide in Parts per Million (ppm)
@@ -43,28 +82,27 @@ class GreenhouseGasConcentrations {
   // concentration of carbon dioxide in Parts per Billion (ppb)
   public readonly nitrousOxideConcentrationProperty: TReadOnlyProperty<number>;
 
-  public constructor( dateProperty: EnumerationProperty<ConcentrationDate> ) {
+  public constructor( concentrationModel: ConcentrationModel ) {
 
-    this.carbonDioxideConcentrationProperty = new DerivedProperty(
-      [ dateProperty ],
-      date => {
-        assert && assert( CARBON_DIOXIDE_CONCENTRATION_DATA.has( date ), 'no concentration data for date' );
-        return CARBON_DIOXIDE_CONCENTRATION_DATA.get( date )!;
-      }
+    const gasComposition = concentrationModel.gasComposition;
+
+    this.carbonDioxideConcentrationProperty = createConcentrationProperty(
+      concentrationModel,
+      gasComposition ? gasComposition.carbonDioxideProperty : null,
+      GreenhouseGasHistory.getCarbonDioxideConcentration,
+      date => CARBON_DIOXIDE_CONCENTRATION_DATA.get( date )!
     );
-    this.methaneConcentrationProperty = new DerivedProperty(
-      [ dateProperty ],
-      date => {
-        assert && assert( CARBON_DIOXIDE_CONCENTRATION_DATA.has( date ), 'no concentration data for date' );
-        return METHANE_CONCENTRATION_DATA.get( date )! * 1000;
-      }
+    this.methaneConcentrationProperty = createConcentrationProperty(
+      concentrationModel,
+      gasComposition ? gasComposition.methaneProperty : null,
+      GreenhouseGasHistory.getMethaneConcentration,
+      date => METHANE_CONCENTRATION_DATA.get( date )! * 1000
     );
-    this.nitrousOxideConcentrationProperty = new DerivedProperty(
-      [ dateProperty ],
-      date => {
-        assert && assert( CARBON_DIOXIDE_CONCENTRATION_DATA.has( date ), 'no concentration data for date' );
-        return NITROUS_OXIDE_CONCENTRATION_DATA.get( date )! * 1000;
-      }
+    this.nitrousOxideConcentrationProperty = createConcentrationProperty(
+      concentrationModel,
+      gasComposition ? gasComposition.nitrousOxideProperty : null,
+      GreenhouseGasHistory.getNitrousOxideConcentration,
+      date => NITROUS_OXIDE_CONCENTRATION_DATA.get( date )! * 1000
     );
   }
 }
@@ -115,6 +115,36 @@ class InstrumentVisibilityPanel extends Panel {
       }
     ];
 
+    // checkbox item for controlling the graph of temperature and energy over time
+    checkboxGroupItems.push( {
+      createNode: () => new Text( GreenhouseEffectFluent.temperatureGraph.titleStringProperty, textOptions ),
+      property: model.temperatureGraphVisibleProperty,
+      options: {
+
+        // pdom
+        accessibleName: GreenhouseEffectFluent.temperatureGraph.titleStringProperty,
+        accessibleHelpText: GreenhouseEffectFluent.a11y.temperatureGraph.accessibleHelpTextStringProperty,
+        accessibleContextResponseChecked: GreenhouseEffectFluent.a11y.temperatureGraph.checkedAlertStringProperty,
+        accessibleContextResponseUnchecked: GreenhouseEffectFluent.a11y.temperatureGraph.uncheckedAlertStringProperty
+      },
+      tandemName: 'temperatureGraphCheckbox'
+    } );
+
+    // checkbox item for controlling the plot of temperature versus altitude
+    checkboxGroupItems.push( {
+      createNode: () => new Text( GreenhouseEffectFluent.temperatureProfile.titleStringProperty, textOptions ),
+      property: model.temperatureProfileVisibleProperty,
+      options: {
+
+        // pdom
+        accessibleName: GreenhouseEffectFluent.temperatureProfile.titleStringProperty,
+        accessibleHelpText: GreenhouseEffectFluent.a11y.temperatureProfile.accessibleHelpTextStringProperty,
+        accessibleContextResponseChecked: GreenhouseEffectFluent.a11y.temperatureProfile.checkedAlertStringProperty,
+        accessibleContextResponseUnchecked: GreenhouseEffectFluent.a11y.temperatureProfile.uncheckedAlertStringProperty
+      },
+      tandemName: 'temperatureProfileCheckbox'
+    } );
+
     // If the flux meter is present, add a checkbox to control its visibility.
     if ( options.includeFluxMeterCheckbox ) {
 
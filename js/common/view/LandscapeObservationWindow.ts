@@ -8,20 +8,26 @@
  * @author John Blanco (PhET Interactive Simulations)
  */
 
+import DerivedProperty from '../../../../axon/js/DerivedProperty.js';
 import Multilink from '../../../../axon/js/Multilink.js';
 import NumberProperty from '../../../../axon/js/NumberProperty.js';
+import PatternStringProperty from '../../../../axon/js/PatternStringProperty.js';
 import { TReadOnlyProperty } from '../../../../axon/js/TReadOnlyProperty.js';
 import dotRandom from '../../../../dot/js/dotRandom.js';
 import Range from '../../../../dot/js/Range.js';
 import Utils from '../../../../dot/js/Utils.js';
+import Shape from '../../../../kite/js/Shape.js';
 import PhetColorScheme from '../../../../scenery-phet/js/PhetColorScheme.js';
+import AlignBox from '../../../../scenery/js/layout/nodes/AlignBox.js';
 import Image from '../../../../scenery/js/nodes/Image.js';
 import Node from '../../../../scenery/js/nodes/Node.js';
 import Path from '../../../../scenery/js/nodes/Path.js';
 import Rectangle from '../../../../scenery/js/nodes/Rectangle.js';
+import Text from '../../../../scenery/js/nodes/Text.js';
 import Color from '../../../../scenery/js/util/Color.js';
 import DisplayedProperty from '../../../../scenery/js/util/DisplayedProperty.js';
 import LinearGradient from '../../../../scenery/js/util/LinearGradient.js';
+import Panel from '../../../../sun/js/Panel.js';
 import agriculturalLandscapeBackground_png from '../../../images/agriculturalLandscapeBackground_png.js';
 import agriculturalLandscapeForeground_png from '../../../images/agriculturalLandscapeForeground_png.js';
 import fiftiesLandscapeBackground_png from '../../../images/fiftiesLandscapeBackground_png.js';
@@ -31,8 +37,12 @@ import iceAgeLandscapeForeground_png from '../../../images/iceAgeLandscapeForegr
 import twentyTwentiesLandscapeBackground_png from '../../../images/twentyTwentiesLandscapeBackground_png.js';
 import twentyTwentiesLandscapeForeground_png from '../../../images/twentyTwentiesLandscapeForeground_png.js';
 import unadornedLandscape_png from '../../../images/unadornedLandscape_png.js';
+import GreenhouseEffectFluent from '../../GreenhouseEffectFluent.js';
+import GreenhouseEffectColors from '../GreenhouseEffectColors.js';
+import GreenhouseEffectConstants from '../GreenhouseEffectConstants.js';
 import GreenhouseEffectQueryParameters from '../GreenhouseEffectQueryParameters.js';
-import ConcentrationModel, { ConcentrationControlMode, ConcentrationDate } from '../model/ConcentrationModel.js';
+import ConcentrationModel, { CloudType, ConcentrationControlMode, ConcentrationDate } from '../model/ConcentrationModel.js';
+import PhotonCollection from '../model/PhotonCollection.js';
 import CloudNode from './CloudNode.js';
 import ConcentrationModelAlerter from './ConcentrationModelAlerter.js';
 import EnergyRepresentation from './EnergyRepresentation.js';
@@ -54,6 +64,17 @@ const SIZE = GreenhouseEffectObservationWindow.SIZE;
 // determined and can be adjusted as needed to achieve the desired visual effect.
 const SURFACE_TEMPERATURE_OPACITY_SCALING_RANGE = new Range( 250, 295 );
 
+// The opacity of the clouds in the cloud cover is scaled from the least to the most reflective of them over this range
+// so that the thin, high clouds look less substantial than the thick, low ones.  The values were empirically
+// determined.
+const CLOUD_COVER_OPACITY_RANGE = new Range( 0.4, 0.75 );
+
+// opacity of the main cloud when it is a cirrus cloud, chosen so that it looks thinner than a stratus cloud
+const CIRRUS_CLOUD_OPACITY = 0.55;
+
+// maximum width of the text in the counter for the simulated year
+const YEAR_COUNTER_MAX_WIDTH = 150;
+
 class LandscapeObservationWindow extends GreenhouseEffectObservationWindow {
   private readonly gasConcentrationAlerter: ConcentrationModelAlerter;
   private readonly isPlayingProperty: TReadOnlyProperty<boolean>;
@@ -94,6 +115,40 @@ class LandscapeObservationWindow extends GreenhouseEffectObservationWindow {
     this.controlsLayer.addChild( this.surfaceThermometer );
     this.controlsLayer.addChild( listParentNode );
 
+    // Add a counter for the simulated year if the model includes the carbon cycle.  The counter is only shown when the
+    // concentration is built up from the emissions.
+    if ( model.carbonCycle ) {
+      const yearStringProperty = new PatternStringProperty(
+        GreenhouseEffectFluent.yearPatternStringProperty,
+        { year: model.carbonCycle.yearProperty },
+        { maps: { year: year => Math.floor( year ) } }
+      );
+      const yearPanel = new Panel(
+        new Text( yearStringProperty, {
+          font: GreenhouseEffectConstants.LABEL_FONT,
+          maxWidth: YEAR_COUNTER_MAX_WIDTH
+        } ),
+        {
+          fill: GreenhouseEffectColors.controlPanelBackgroundColorProperty,
+          cornerRadius: 5,
+          visibleProperty: new DerivedProperty(
+            [ model.concentrationControlModeProperty, model.carbonCycle.enabledProperty ],
+            ( concentrationControlMode, carbonCycleEnabled ) =>
+              concentrationControlMode === ConcentrationControlMode.BY_VALUE && carbonCycleEnabled
+          ),
+
+          // pdom
+          accessibleParagraph: yearStringProperty
+        }
+      );
+      this.controlsLayer.addChild( new AlignBox( yearPanel, {
+        alignBounds: this.windowFrame.bounds,
+        margin: GreenhouseEffectObservationWindow.CONTROL_AND_INSTRUMENT_INSET,
+        xAlign: 'center',
+        yAlign: 'bottom'
+      } ) );
+    }
+
     // Create the node that will make the sky look a bit hazy as more greenhouse gases are added.  Strictly speaking,
     // most greenhouse gases do not interact with visible light, so this is a bit of "Hollywooding" to make it clear
     // that something in the atmosphere is changing.
@@ -144,8 +199,14 @@ class LandscapeObservationWindow extends GreenhouseEffectObservationWindow {
         phetioReadOnly: true,
         phetioFeatured: false
       } );
-      this.cloudNode = new CloudNode( model.cloud, this.modelViewTransform, this.cloudSeedProperty );
-      this.backgroundLayer.addChild( this.cloudNode );
+      const cloudNode = new CloudNode( model.cloud, this.modelViewTransform, this.cloudSeedProperty );
+      this.backgroundLayer.addChild( cloudNode );
+
+      // Make the cloud look thinner when it is a high, thin cirrus cloud.
+      model.cloudTypeProperty.link( cloudType => {
+        cloudNode.opacity = cloudType === CloudType.CIRRUS ? CIRRUS_CLOUD_OPACITY : 1;
+      } );
+      this.cloudNode = cloudNode;
     }
     else {
 
@@ -154,6 +215,31 @@ class LandscapeObservationWindow extends GreenhouseEffectObservationWindow {
       this.cloudNode = null;
     }
 
+    // Add the nodes for the clouds in the cloud cover if it is present in the model.  Each is seeded differently so that
+    // they don't look alike.
+    if ( model.cloudCover ) {
+      const cloudCoverClouds = model.cloudCover.clouds;
+      const visibleReflectivities = cloudCoverClouds.map( cloud => cloud.getReflectivity( true, true ) );
+      const reflectivityRange = new Range( _.min( visibleReflectivities )!, _.max( visibleReflectivities )! );
+      cloudCoverClouds.forEach( ( cloud, index ) => {
+        const opacity = reflectivityRange.getLength() > 0 ?
+                        Utils.linear(
+                          reflectivityRange.min,
+                          reflectivityRange.max,
+                          CLOUD_COVER_OPACITY_RANGE.min,
+                          CLOUD_COVER_OPACITY_RANGE.max,
+                          cloud.getReflectivity( true, true )
+                        ) :
+                        CLOUD_COVER_OPACITY_RANGE.max;
+        this.backgroundLayer.addChild( new CloudNode(
+          cloud,
+          this.modelViewTransform,
+          new DerivedProperty( [ this.cloudSeedProperty ], seed => seed + index + 1 ),
+          { fill: Color.WHITE.withAlpha( opacity ) }
+        ) );
+      } );
+    }
+
     // pdom - responsive descriptions
     this.gasConcentrationAlerter = new ConcentrationModelAlerter( model, {
       descriptionAlertNode: this,
@@ -204,6 +290,10 @@ class LandscapeObservationWindow extends GreenhouseEffectObservationWindow {
     const iceAgeLandscapeBackgroundImage = new Image( iceAgeLandscapeBackground_png, sharedImageOptions );
     const iceAgeLandscapeForegroundImage = new Image( iceAgeLandscapeForeground_png, sharedImageOptions );
 
+    // The ice age foreground contains the glacier, so it is put in a parent node that can be clipped to show a glacier
+    // of the appropriate size.
+    const iceAgeLandscapeForegroundNode = new Node( { children: [ iceAgeLandscapeForegroundImage ] } );
+
     // surface temperature node, which is meant to look like a glow on the surface
     const groundShape = GreenhouseEffectObservationWindow.createGroundShape();
     const groundShapeBounds = groundShape.getBounds();
@@ -231,10 +321,6 @@ class LandscapeObservationWindow extends GreenhouseEffectObservationWindow {
         unadornedLandscapeImage.visible = concentrationControlMode === ConcentrationControlMode.BY_VALUE ||
                                           date === ConcentrationDate.ICE_AGE ||
                                           date === ConcentrationDate.YEAR_2020;
-        iceAgeLandscapeBackgroundImage.visible = concentrationControlMode === ConcentrationControlMode.BY_DATE &&
-                                                 date === ConcentrationDate.ICE_AGE;
-        iceAgeLandscapeForegroundImage.visible = concentrationControlMode === ConcentrationControlMode.BY_DATE &&
-                                                 date === ConcentrationDate.ICE_AGE;
         agriculturalLandscapeBackgroundImage.visible = concentrationControlMode === ConcentrationControlMode.BY_DATE &&
                                                        date === ConcentrationDate.YEAR_1750;
         agriculturalLandscapeForegroundImage.visible = concentrationControlMode === ConcentrationControlMode.BY_DATE &&
@@ -250,25 +336,50 @@ class LandscapeObservationWindow extends GreenhouseEffectObservationWindow {
       }
     );
 
+    // Show the ice age artwork when a glacier is present.  The background fades in and the glacier extends from the
+    // right side of the landscape as the glacier grows.  When the glacier is full-sized, this is the ice age artwork.
+    const glacierXRange = PhotonCollection.GLACIER_X_RANGE;
+    model.glacierExtentProperty.link( glacierExtent => {
+      iceAgeLandscapeBackgroundImage.visible = glacierExtent > 0;
+      iceAgeLandscapeBackgroundImage.opacity = glacierExtent;
+      iceAgeLandscapeForegroundNode.visible = glacierExtent > 0;
+      if ( glacierExtent < 1 ) {
+        const glacierLeftEdge = this.modelViewTransform.modelToViewX(
+          glacierXRange.max - glacierExtent * glacierXRange.getLength()
+        );
+        iceAgeLandscapeForegroundNode.clipArea = Shape.rect(
+          glacierLeftEdge,
+          0,
+          SIZE.width - glacierLeftEdge,
+          SIZE.height
+        );
+      }
+      else {
+        iceAgeLandscapeForegroundNode.clipArea = null;
+      }
+    } );
+
     // Return a node that contains all the images.
     return new Node( {
       children: [
 
         // landscape image backgrounds
         unadornedLandscapeImage,
-        iceAgeLandscapeBackgroundImage,
         agriculturalLandscapeBackgroundImage,
         fiftiesLandscapeBackgroundImage,
         denseCityLandscapeBackgroundImage,
 
+        // The ice age background is in front of the others since it can fade in over them as the glacier grows.
+        iceAgeLandscapeBackgroundImage,
+
         // The surface temperature node must be between the background and foreground images for correct layering.
         surfaceTemperatureNode,
 
         // landscape image foregrounds
         agriculturalLandscapeForegroundImage,
-        iceAgeLandscapeForegroundImage,
         fiftiesLandscapeForegroundImage,
-        denseCityLandscapeForegroundImage
+        denseCityLandscapeForegroundImage,
+        iceAgeLandscapeForegroundNode
       ]
     } );
   }
@@ -316,8 +316,10 @@ class LayersModelAlerter extends Alerter {
     this.checkAndPerformImmediateAlerts();
 
     // Calculate the time experienced by the model since the last alert.  This is needed because some alerts don't need
-    // to be announced if the model hasn't changed.
-    this.timeSinceLastAlert += Math.max( this.model.totalElapsedTime - this.previousElapsedModelTime, 0 );
+    // to be announced if the model hasn't changed.  When the model is running faster than real time, the elapsed time
+    // is scaled back down so that the alerts don't come more frequently than they can be spoken.
+    this.timeSinceLastAlert += Math.max( this.model.totalElapsedTime - this.previousElapsedModelTime, 0 ) /
+                               Math.max( this.model.getTimeSpeedMultiplier(), 1 );
 
     // Use a different threshold for the time between alerts when stepping.
     const alertInterval = this.model.isPlayingProperty.value ?
@@ -3,21 +3,35 @@
 /**
  * The TimeControlNode for the screens that use the layer model. Specifically requires a sun energy source. The
  * LayersModel screens have unique descriptions for accessibility depending on whether the sun is shining to guide the
- * user to start sunlight to begin interaction with the sim.
+ * user to start sunlight to begin interaction with the sim.  This also includes a button that moves the model straight
+ * to its equilibrium state, since it can take a long time for the temperatures to settle after a change.
  *
  * @author Jesse Greenberg (PhET Interactive Simulations)
  */
 
-import optionize, { EmptySelfOptions } from '../../../../phet-core/js/optionize.js';
+import optionize from '../../../../phet-core/js/optionize.js';
+import WithRequired from '../../../../phet-core/js/types/WithRequired.js';
+import PhetFont from '../../../../scenery-phet/js/PhetFont.js';
 import TimeControlNode, { TimeControlNodeOptions } from '../../../../scenery-phet/js/TimeControlNode.js';
+import TextPushButton from '../../../../sun/js/buttons/TextPushButton.js';
 import GreenhouseEffectFluent from '../../GreenhouseEffectFluent.js';
 import LayersModel from '../model/LayersModel.js';
 
-type SelfOptions = EmptySelfOptions;
-export type LayersModelTimeControlNodeOptions = SelfOptions & TimeControlNodeOptions;
+// constants
+const SKIP_TO_EQUILIBRIUM_BUTTON_SPACING = 20;
+
+type SelfOptions = {
+
+  // whether to include the button that moves the model to equilibrium
+  includeSkipToEquilibriumButton?: boolean;
+};
+export type LayersModelTimeControlNodeOptions = SelfOptions & WithRequired<TimeControlNodeOptions, 'tandem'>;
 
 class LayersModelTimeControlNode extends TimeControlNode {
 
+  // button that moves the model to its equilibrium state, null if not included
+  public readonly skipToEquilibriumButton: TextPushButton | null = null;
+
   public constructor( model: LayersModel, providedOptions: LayersModelTimeControlNodeOptions ) {
 
     // Use slightly different descriptions for the play and pause states depending on whether the step button is used.
@@ -29,6 +43,8 @@ class LayersModelTimeControlNode extends TimeControlNode {
                                       GreenhouseEffectFluent.a11y.timeControls.playPauseButtonObservationWindowPausedDescriptionStringProperty;
 
     const options = optionize<LayersModelTimeControlNodeOptions, SelfOptions, TimeControlNodeOptions>()( {
+      includeSkipToEquilibriumButton: true,
+      timeSpeeds: model.timeSpeeds,
       speedRadioButtonGroupOptions: {
         accessibleHelpText: GreenhouseEffectFluent.a11y.timeControls.speedRadioButtonsDescriptionStringProperty
       },
@@ -63,6 +79,25 @@ class LayersModelTimeControlNode extends TimeControlNode {
     model.sunEnergySource.isShiningProperty.link( isSunShining => {
       this.pushButtonGroup.enabled = isSunShining;
     } );
+
+    if ( options.includeSkipToEquilibriumButton ) {
+
+      this.skipToEquilibriumButton = new TextPushButton( GreenhouseEffectFluent.skipToEquilibriumStringProperty, {
+        font: new PhetFont( 14 ),
+        maxTextWidth: 150,
+        enabledProperty: model.sunEnergySource.isShiningProperty,
+        listener: () => model.skipToEquilibrium(),
+        left: this.localBounds.maxX + SKIP_TO_EQUILIBRIUM_BUTTON_SPACING,
+        centerY: this.localBounds.centerY,
+
+        // pdom
+        accessibleHelpText: GreenhouseEffectFluent.a11y.timeControls.skipToEquilibriumButtonHelpTextStringProperty,
+
+        // phet-io
+        tandem: options.tandem.createTandem( 'skipToEquilibriumButton' )
+      } );
+      this.addChild( this.skipToEquilibriumButton );
+    }
   }
 }
 
@@ -0,0 +1,118 @@
+// Copyright 2026, University of Colorado Boulder
+
+/**
+ * SurfaceTypeControl is a UI component that allows the user to choose whether the ground is land or ocean using a
+ * vertical set of radio buttons.  The PDOM describes how quickly the chosen surface responds to changes, since this is
+ * the main difference between the two.  It is only created for models that include a deep ocean.
+ *
+ * @author John Blanco (PhET Interactive Simulations)
+ */
+
+import DerivedProperty from '../../../../axon/js/DerivedProperty.js';
+import Utils from '../../../../dot/js/Utils.js';
+import StringUtils from '../../../../phetcommon/js/util/StringUtils.js';
+import VBox from '../../../../scenery/js/layout/nodes/VBox.js';
+import Text from '../../../../scenery/js/nodes/Text.js';
+import AquaRadioButtonGroup, { AquaRadioButtonGroupItem } from '../../../../sun/js/AquaRadioButtonGroup.js';
+import Tandem from '../../../../tandem/js/Tandem.js';
+import GreenhouseEffectFluent from '../../GreenhouseEffectFluent.js';
+import GreenhouseEffectConstants from '../GreenhouseEffectConstants.js';
+import DeepOcean from '../model/DeepOcean.js';
+import GroundLayer from '../model/GroundLayer.js';
+import SurfaceType from '../model/SurfaceType.js';
+
+/**
+ * Format a response time, in seconds, for the description.  The land surface responds in a fraction of a second, so
+ * short times are shown with more precision.
+ */
+const formatResponseTime = ( responseTime: number ): string => Utils.toFixed( responseTime, responseTime < 10 ? 1 : 0 );
+
+class SurfaceTypeControl extends VBox {
+
+  public constructor( groundLayer: GroundLayer, deepOcean: DeepOcean, width: number, tandem: Tandem ) {
+
+    // Title
+    const titleText = new Text( GreenhouseEffectFluent.surfaceTypeStringProperty, {
+      font: GreenhouseEffectConstants.LABEL_FONT,
+      maxWidth: width
+    } );
+
+    // Options shared by the labels for all radio buttons
+    const textOptions = {
+      font: GreenhouseEffectConstants.LABEL_FONT,
+      maxWidth: width * 0.75
+    };
+
+    // Items that describe the radio buttons
+    const items: AquaRadioButtonGroupItem<SurfaceType>[] = [
+      {
+        createNode: () => new Text( GreenhouseEffectFluent.landStringProperty, textOptions ),
+        value: SurfaceType.LAND,
+        tandemName: 'landRadioButton',
+        options: {
+          accessibleName: GreenhouseEffectFluent.landStringProperty
+        }
+      },
+      {
+        createNode: () => new Text( GreenhouseEffectFluent.oceanStringProperty, textOptions ),
+        value: SurfaceType.OCEAN,
+        tandemName: 'oceanRadioButton',
+        options: {
+          accessibleName: GreenhouseEffectFluent.oceanStringProperty
+        }
+      }
+    ];
+
+    // Create the radio buttons.
+    const surfaceTypeRadioButtonGroup = new AquaRadioButtonGroup<SurfaceType>( groundLayer.surfaceTypeProperty, items, {
+      orientation: 'vertical',
+      spacing: 6,
+      touchAreaXDilation: 6,
+      touchAreaYDilation: 3,
+      radioButtonOptions: {
+        radius: 6
+      },
+      tandem: tandem.createTandem( 'surfaceTypeRadioButtonGroup' ),
+      phetioVisiblePropertyInstrumented: false,
+
+      // pdom
+      accessibleName: GreenhouseEffectFluent.surfaceTypeStringProperty,
+      accessibleHelpText: GreenhouseEffectFluent.a11y.surfaceTypeHelpTextStringProperty
+    } );
+
+    // A description of how quickly the chosen surface responds to changes, for the PDOM.  The response times depend on
+    // the emissivity of the ground, since that affects how quickly it sheds heat.
+    const accessibleParagraphProperty = new DerivedProperty(
+      [
+        groundLayer.surfaceTypeProperty,
+        groundLayer.emissivityProperty,
+        GreenhouseEffectFluent.a11y.landSurfaceResponsePatternStringProperty,
+        GreenhouseEffectFluent.a11y.oceanSurfaceResponsePatternStringProperty
+      ],
+      ( surfaceType, emissivity, landSurfaceResponsePattern, oceanSurfaceResponsePattern ) =>
+        surfaceType === SurfaceType.OCEAN ?
+        StringUtils.fillIn( oceanSurfaceResponsePattern, {
+          surfaceTime: formatResponseTime( deepOcean.getSurfaceResponseTime() ),
+          deepTime: formatResponseTime( deepOcean.getDeepOceanResponseTime() )
+        } ) :
+        StringUtils.fillIn( landSurfaceResponsePattern, {
+          surfaceTime: formatResponseTime( deepOcean.getSurfaceResponseTime() )
+        } )
+    );
+
+    super( {
+      children: [ titleText, surfaceTypeRadioButtonGroup ],
+      spacing: 5,
+      align: 'left',
+
+      // pdom
+      accessibleParagraph: accessibleParagraphProperty,
+
+      isDisposable: false,
+      tandem: tandem,
+      visiblePropertyOptions: { phetioFeatured: true }
+    } );
+  }
+}
+
+export default SurfaceTypeControl;
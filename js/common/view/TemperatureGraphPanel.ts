@@ -0,0 +1,584 @@
+// Copyright 2026, University of Colorado Boulder
+
+/**
+ * TemperatureGraphPanel is a panel that portrays the surface temperature and the energy coming in and going out at
+ * the top of the atmosphere as a function of time.  The time axis scrolls as the model runs, the amount of time shown
+ * can be zoomed in and out, and the recording of the data can be paused so that a particular portion of the graph can
+ * be examined more closely.  The temperature is shown in the units that are selected by the user.  The times at which
+ * aerosols were injected into the atmosphere, such as by a volcanic eruption, are marked on the temperature chart so
+ * that the response of the temperature can be seen.  If the model includes a deep ocean, the time at which most of the
+ * response to each change in forcing will have happened is marked too, which shows how long the warming lags behind.
+ *
+ * @author John Blanco (PhET Interactive Simulations)
+ */
+
+import BooleanProperty from '../../../../axon/js/BooleanProperty.js';
+import NumberProperty from '../../../../axon/js/NumberProperty.js';
+import PatternStringProperty from '../../../../axon/js/PatternStringProperty.js';
+import { TReadOnlyProperty } from '../../../../axon/js/TReadOnlyProperty.js';
+import ChartRectangle from '../../../../bamboo/js/ChartRectangle.js';
+import ChartTransform from '../../../../bamboo/js/ChartTransform.js';
+import GridLineSet from '../../../../bamboo/js/GridLineSet.js';
+import LinePlot from '../../../../bamboo/js/LinePlot.js';
+import TickLabelSet from '../../../../bamboo/js/TickLabelSet.js';
+import Range from '../../../../dot/js/Range.js';
+import Utils from '../../../../dot/js/Utils.js';
+import Vector2 from '../../../../dot/js/Vector2.js';
+import Shape from '../../../../kite/js/Shape.js';
+import Orientation from '../../../../phet-core/js/Orientation.js';
+import optionize, { EmptySelfOptions } from '../../../../phet-core/js/optionize.js';
+import PickRequired from '../../../../phet-core/js/types/PickRequired.js';
+import PlayPauseButton from '../../../../scenery-phet/js/buttons/PlayPauseButton.js';
+import PlusMinusZoomButtonGroup from '../../../../scenery-phet/js/PlusMinusZoomButtonGroup.js';
+import HBox from '../../../../scenery/js/layout/nodes/HBox.js';
+import VBox from '../../../../scenery/js/layout/nodes/VBox.js';
+import Line from '../../../../scenery/js/nodes/Line.js';
+import Node from '../../../../scenery/js/nodes/Node.js';
+import Path from '../../../../scenery/js/nodes/Path.js';
+import Text from '../../../../scenery/js/nodes/Text.js';
+import TColor from '../../../../scenery/js/util/TColor.js';
+import Panel, { PanelOptions } from '../../../../sun/js/Panel.js';
+import GreenhouseEffectFluent from '../../GreenhouseEffectFluent.js';
+import GreenhouseEffectColors from '../GreenhouseEffectColors.js';
+import GreenhouseEffectConstants from '../GreenhouseEffectConstants.js';
+import GreenhouseEffectUtils from '../GreenhouseEffectUtils.js';
+import EnergyAbsorbingEmittingLayer from '../model/EnergyAbsorbingEmittingLayer.js';
+import LayersModel from '../model/LayersModel.js';
+import SunEnergySource from '../model/SunEnergySource.js';
+import TemperatureUnits from '../model/TemperatureUnits.js';
+
+// constants
+const CHART_VIEW_WIDTH = 260; // view coordinates
+const CHART_VIEW_HEIGHT = 70; // view coordinates
+const SAMPLE_INTERVAL = 0.25; // in seconds of model time
+
+// The amounts of time that can be shown on the graph, in seconds, ordered from zoomed out to zoomed in.  The amount
+// of time for which data is retained is the largest of these.
+const TIME_SPANS = [ 240, 120, 60, 30 ];
+const MAX_TIME_SPAN = Math.max( ...TIME_SPANS );
+
+// The default range for the temperature axis, which is expanded in increments when needed so that all the data being
+// shown fits, since some of the planets and settings lead to temperatures well outside of the range for the Earth.  The
+// tick spacing is increased with the range so that the labels don't overlap.
+const DEFAULT_TEMPERATURE_RANGE_KELVIN = new Range( 240, 380 );
+const TEMPERATURE_RANGE_INCREMENT = 20; // in Kelvin
+const MAX_NUMBER_OF_TEMPERATURE_TICKS = 8;
+
+// range for the energy axis
+const ENERGY_RATE_RANGE = new Range( -SunEnergySource.OUTPUT_ENERGY_RATE * 2, SunEnergySource.OUTPUT_ENERGY_RATE * 2 );
+const ENERGY_RATE_TICK_SPACING = 200;
+
+const LINE_WIDTH = 1.5;
+const ERUPTION_MARKER_LINE_DASH = [ 4, 3 ];
+const RESPONSE_TIME_MARKER_LINE_DASH = [ 2, 2 ];
+const TICK_LABEL_OPTIONS = { font: GreenhouseEffectConstants.CONTENT_FONT, maxWidth: 35 };
+const AXIS_LABEL_OPTIONS = { font: GreenhouseEffectConstants.CONTENT_FONT, maxWidth: CHART_VIEW_WIDTH };
+
+type SelfOptions = EmptySelfOptions;
+export type TemperatureGraphPanelOptions = SelfOptions & PickRequired<PanelOptions, 'tandem'>;
+
+class TemperatureGraphPanel extends Panel {
+
+  private readonly model: LayersModel;
+
+  // whether new data is being added to the graph
+  private readonly isRecordingProperty: BooleanProperty;
+
+  // index into TIME_SPANS for the amount of time shown on the graph
+  private readonly zoomLevelProperty: NumberProperty;
+
+  // the recorded data, with time in seconds on the x-axis, temperature in Kelvin, and energy rates in W/m^2
+  private readonly surfaceTemperatureDataSet: ( Vector2 | null )[] = [];
+  private readonly energyInDataSet: ( Vector2 | null )[] = [];
+  private readonly energyOutDataSet: ( Vector2 | null )[] = [];
+  private readonly netEnergyDataSet: ( Vector2 | null )[] = [];
+
+  // the model times at which aerosols were injected into the atmosphere, in seconds
+  private readonly eruptionTimes: number[] = [];
+
+  // The model times, in seconds, at which all but 1/e of the response to each change in forcing will have happened.
+  // These can be later than the most recent sample.
+  private readonly responseTimes: number[] = [];
+
+  // the model time at which the most recent sample was recorded
+  private timeOfLastSample = Number.NEGATIVE_INFINITY;
+
+  // whether the plots need to be updated on the next step
+  private plotsNeedUpdate = true;
+
+  private readonly temperatureChartTransform: ChartTransform;
+  private readonly temperatureGridLines: GridLineSet;
+  private readonly temperatureTickLabels: TickLabelSet;
+  private readonly energyChartTransform: ChartTransform;
+  private readonly surfaceTemperaturePlot: LinePlot;
+  private readonly energyInPlot: LinePlot;
+  private readonly energyOutPlot: LinePlot;
+  private readonly netEnergyPlot: LinePlot;
+  private readonly eruptionMarkersPath: Path;
+  private readonly eruptionLegendItem: Node;
+  private readonly responseTimeMarkersPath: Path;
+  private readonly responseTimeLegendItem: Node;
+
+  /**
+   * @param model
+   * @param temperatureUnitsStringProperty - the units in which the temperature is shown, used in the axis label
+   * @param providedOptions
+   */
+  public constructor( model: LayersModel,
+                      temperatureUnitsStringProperty: TReadOnlyProperty<string>,
+                      providedOptions: TemperatureGraphPanelOptions ) {
+
+    const options = optionize<TemperatureGraphPanelOptions, SelfOptions, PanelOptions>()( {
+      visibleProperty: model.temperatureGraphVisibleProperty,
+      cornerRadius: 5,
+      xMargin: 10,
+      yMargin: 10,
+
+      // pdom
+      accessibleHeading: GreenhouseEffectFluent.temperatureGraph.titleStringProperty,
+
+      // phet-io
+      phetioVisiblePropertyInstrumented: false
+    }, providedOptions );
+
+    const titleText = new Text( GreenhouseEffectFluent.temperatureGraph.titleStringProperty, {
+      font: GreenhouseEffectConstants.TITLE_FONT,
+      maxWidth: CHART_VIEW_WIDTH
+    } );
+
+    const initialTimeSpan = TIME_SPANS[ 0 ];
+
+    // the chart for the surface temperature
+    const temperatureChartTransform = new ChartTransform( {
+      viewWidth: CHART_VIEW_WIDTH,
+      viewHeight: CHART_VIEW_HEIGHT,
+      modelXRange: new Range( 0, initialTimeSpan ),
+      modelYRange: DEFAULT_TEMPERATURE_RANGE_KELVIN
+    } );
+    const surfaceTemperaturePlot = new LinePlot( temperatureChartTransform, [], {
+      stroke: GreenhouseEffectColors.surfaceTemperaturePlotColorProperty,
+      lineWidth: LINE_WIDTH
+    } );
+    const temperatureGridLines = new GridLineSet( temperatureChartTransform, Orientation.VERTICAL, 20, {
+      stroke: 'lightgray'
+    } );
+    const temperatureTickLabels = new TickLabelSet( temperatureChartTransform, Orientation.VERTICAL, 20, {
+      edge: 'min',
+      createLabel: ( value: number ) => new Text( Utils.toFixed( value, 0 ), TICK_LABEL_OPTIONS )
+    } );
+    const temperatureChartRectangle = new ChartRectangle( temperatureChartTransform, {
+      fill: 'white',
+      stroke: 'gray'
+    } );
+    const eruptionMarkersPath = new Path( null, {
+      stroke: GreenhouseEffectColors.eruptionMarkerColorProperty,
+      lineWidth: 1,
+      lineDash: ERUPTION_MARKER_LINE_DASH
+    } );
+    const responseTimeMarkersPath = new Path( null, {
+      stroke: GreenhouseEffectColors.responseTimeMarkerColorProperty,
+      lineWidth: 1,
+      lineDash: RESPONSE_TIME_MARKER_LINE_DASH
+    } );
+    const temperatureChart = new Node( {
+      children: [
+        temperatureChartRectangle,
+        temperatureGridLines,
+        new Node( {
+          children: [ eruptionMarkersPath, responseTimeMarkersPath, surfaceTemperaturePlot ],
+          clipArea: temperatureChartRectangle.getShape()
+        } ),
+        temperatureTickLabels
+      ]
+    } );
+
+    // the chart for the energy coming in and going out at the top of the atmosphere
+    const energyChartTransform = new ChartTransform( {
+      viewWidth: CHART_VIEW_WIDTH,
+      viewHeight: CHART_VIEW_HEIGHT,
+      modelXRange: new Range( 0, initialTimeSpan ),
+      modelYRange: ENERGY_RATE_RANGE
+    } );
+    const energyInPlot = new LinePlot( energyChartTransform, [], {
+      stroke: GreenhouseEffectColors.energyInPlotColorProperty,
+      lineWidth: LINE_WIDTH
+    } );
+    const energyOutPlot = new LinePlot( energyChartTransform, [], {
+      stroke: GreenhouseEffectColors.energyOutPlotColorProperty,
+      lineWidth: LINE_WIDTH
+    } );
+    const netEnergyPlot = new LinePlot( energyChartTransform, [], {
+      stroke: GreenhouseEffectColors.netEnergyPlotColorProperty,
+      lineWidth: LINE_WIDTH
+    } );
+    const timeTickLabels = new TickLabelSet( energyChartTransform, Orientation.HORIZONTAL, initialTimeSpan / 4, {
+      edge: 'min',
+      createLabel: ( value: number ) => new Text( Utils.toFixed( value, 0 ), TICK_LABEL_OPTIONS )
+    } );
+    const energyChartRectangle = new ChartRectangle( energyChartTransform, {
+      fill: 'white',
+      stroke: 'gray'
+    } );
+    const energyChart = new Node( {
+      children: [
+        energyChartRectangle,
+        new GridLineSet( energyChartTransform, Orientation.VERTICAL, ENERGY_RATE_TICK_SPACING, {
+          stroke: 'lightgray'
+        } ),
+        new Node( {
+          children: [ energyInPlot, energyOutPlot, netEnergyPlot ],
+          clipArea: energyChartRectangle.getShape()
+        } ),
+        new TickLabelSet( energyChartTransform, Orientation.VERTICAL, ENERGY_RATE_TICK_SPACING, {
+          edge: 'min',
+          createLabel: ( value: number ) => new Text( Utils.toFixed( value, 0 ), TICK_LABEL_OPTIONS )
+        } ),
+        timeTickLabels
+      ]
+    } );
+
+    // Create the label for the temperature axis, which includes the units.
+    const temperatureAxisLabelStringProperty = new PatternStringProperty(
+      GreenhouseEffectFluent.temperatureGraph.surfaceTemperaturePatternStringProperty,
+      { units: temperatureUnitsStringProperty }
+    );
+
+    // The legend item for the eruption markers, which is only shown when there are markers on the chart.
+    const eruptionLegendItem = createLegendItem(
+      GreenhouseEffectFluent.temperatureGraph.eruptionStringProperty,
+      GreenhouseEffectColors.eruptionMarkerColorProperty,
+      ERUPTION_MARKER_LINE_DASH
+    );
+    eruptionLegendItem.visible = false;
+
+    // The legend item for the response time markers, which is only shown when there are markers on the chart.
+    const responseTimeLegendItem = createLegendItem(
+      GreenhouseEffectFluent.temperatureGraph.responseTimeStringProperty,
+      GreenhouseEffectColors.responseTimeMarkerColorProperty,
+      RESPONSE_TIME_MARKER_LINE_DASH
+    );
+    responseTimeLegendItem.visible = false;
+
+    // the legend for the energy chart
+    const energyLegend = new HBox( {
+      spacing: 10,
+      children: [
+        createLegendItem(
+          GreenhouseEffectFluent.energyBalancePanel.inStringProperty,
+          GreenhouseEffectColors.energyInPlotColorProperty
+        ),
+        createLegendItem(
+          GreenhouseEffectFluent.energyBalancePanel.outStringProperty,
+          GreenhouseEffectColors.energyOutPlotColorProperty
+        ),
+        createLegendItem(
+          GreenhouseEffectFluent.energyBalancePanel.netStringProperty,
+          GreenhouseEffectColors.netEnergyPlotColorProperty
+        )
+      ]
+    } );
+
+    // controls for pausing the recording of data and for zooming the time axis
+    const isRecordingProperty = new BooleanProperty( true, {
+      tandem: options.tandem.createTandem( 'isRecordingProperty' ),
+      phetioDocumentation: 'Whether new data is being added to the graph.'
+    } );
+    const zoomLevelProperty = new NumberProperty( 0, {
+      numberType: 'Integer',
+      range: new Range( 0, TIME_SPANS.length - 1 ),
+      tandem: options.tandem.createTandem( 'zoomLevelProperty' ),
+      phetioDocumentation: 'Controls the amount of time shown on the graph, larger values show less time.'
+    } );
+    const recordingButton = new PlayPauseButton( isRecordingProperty, {
+      radius: 12,
+      tandem: options.tandem.createTandem( 'recordingButton' )
+    } );
+    const zoomButtonGroup = new PlusMinusZoomButtonGroup( zoomLevelProperty, {
+      orientation: 'horizontal',
+      spacing: 5,
+      buttonOptions: {
+        xMargin: 4,
+        yMargin: 4
+      },
+      tandem: options.tandem.createTandem( 'zoomButtonGroup' )
+    } );
+
+    // The charts and their labels are right aligned so that the time axes of the two charts line up.
+    const chartsBox = new VBox( {
+      spacing: 5,
+      align: 'right',
+      children: [
+        new HBox( {
+          spacing: 10,
+          children: [
+            new Text( temperatureAxisLabelStringProperty, AXIS_LABEL_OPTIONS ),
+            eruptionLegendItem,
+            responseTimeLegendItem
+          ]
+        } ),
+        temperatureChart,
+        new HBox( {
+          spacing: 10,
+          children: [
+            new Text( GreenhouseEffectFluent.temperatureGraph.energyRateStringProperty, AXIS_LABEL_OPTIONS ),
+            energyLegend
+          ]
+        } ),
+        energyChart,
+        new HBox( {
+          spacing: 10,
+          children: [
+            recordingButton,
+            zoomButtonGroup,
+            new Text( GreenhouseEffectFluent.temperatureGraph.timeStringProperty, AXIS_LABEL_OPTIONS )
+          ]
+        } )
+      ]
+    } );
+
+    const content = new VBox( {
+      spacing: 5,
+      children: [ titleText, chartsBox ]
+    } );
+
+    super( content, options );
+
+    this.model = model;
+    this.isRecordingProperty = isRecordingProperty;
+    this.zoomLevelProperty = zoomLevelProperty;
+    this.temperatureChartTransform = temperatureChartTransform;
+    this.temperatureGridLines = temperatureGridLines;
+    this.temperatureTickLabels = temperatureTickLabels;
+    this.energyChartTransform = energyChartTransform;
+    this.surfaceTemperaturePlot = surfaceTemperaturePlot;
+    this.energyInPlot = energyInPlot;
+    this.energyOutPlot = energyOutPlot;
+    this.netEnergyPlot = netEnergyPlot;
+    this.eruptionMarkersPath = eruptionMarkersPath;
+    this.eruptionLegendItem = eruptionLegendItem;
+    this.responseTimeMarkersPath = responseTimeMarkersPath;
+    this.responseTimeLegendItem = responseTimeLegendItem;
+
+    // Update the temperature axis, which includes its range and tick spacing, when the units change.
+    model.temperatureUnitsProperty.link( () => {
+      this.plotsNeedUpdate = true;
+    } );
+
+    // Update the time axis when the zoom level changes.
+    zoomLevelProperty.link( zoomLevel => {
+      timeTickLabels.setSpacing( TIME_SPANS[ zoomLevel ] / 4 );
+      this.plotsNeedUpdate = true;
+    } );
+
+    // Mark the time of each injection of aerosols, such as by a volcanic eruption, if they are present in the model.
+    if ( model.aerosolLayer ) {
+      model.aerosolLayer.injectionEmitter.addListener( () => {
+        this.eruptionTimes.push( model.totalElapsedTime );
+        this.plotsNeedUpdate = true;
+      } );
+    }
+
+    // Mark the time by which most of the response to each change in forcing will have happened, if the model includes
+    // a deep ocean.  A marker that hasn't been reached yet is for a response that the new change interrupts, so it is
+    // replaced, which also keeps a drag of a slider from producing a marker for every step.
+    const deepOcean = model.deepOcean;
+    if ( deepOcean ) {
+      deepOcean.forcingChangeEmitter.addListener( () => {
+        const time = model.totalElapsedTime;
+        while ( this.responseTimes.length > 0 && this.responseTimes[ this.responseTimes.length - 1 ] > time ) {
+          this.responseTimes.pop();
+        }
+        this.responseTimes.push( time + deepOcean.getResponseTime() );
+        this.plotsNeedUpdate = true;
+      } );
+    }
+
+    // When recording is resumed, break the lines so that they don't connect the data on either side of the pause.
+    isRecordingProperty.lazyLink( isRecording => {
+      if ( isRecording ) {
+        this.addGapToDataSets();
+      }
+    } );
+  }
+
+  /**
+   * Record new data if enough time has passed in the model and update the plots.  This is done in a method rather than
+   * by linking to the model Properties because the latter approach would update many times per frame, see
+   * https://github.com/phetsims/greenhouse-effect/issues/265.
+   */
+  public step(): void {
+
+    const time = this.model.totalElapsedTime;
+
+    // If the model time went backwards, the model was reset or its state was set, so the recorded data is no longer
+    // valid.
+    if ( time < this.timeOfLastSample ) {
+      this.clearData();
+    }
+
+    // Record a new sample if it's time.  No data is recorded while the sun isn't shining, since nothing changes.
+    if ( this.isRecordingProperty.value &&
+         this.model.sunEnergySource.isShiningProperty.value &&
+         time - this.timeOfLastSample >= SAMPLE_INTERVAL ) {
+      this.recordSample( time );
+    }
+
+    if ( this.plotsNeedUpdate && this.visible ) {
+      this.updatePlots();
+    }
+  }
+
+  /**
+   * Add the current values from the model to the data sets and remove any data that is too old to be shown.
+   */
+  private recordSample( time: number ): void {
+
+    const energyIn = this.model.sunEnergySource.outputEnergyRateTracker.energyRateProperty.value /
+                     EnergyAbsorbingEmittingLayer.SURFACE_AREA;
+    const energyOut = this.model.outerSpace.incomingUpwardMovingEnergyRateTracker.energyRateProperty.value /
+                      EnergyAbsorbingEmittingLayer.SURFACE_AREA;
+
+    this.surfaceTemperatureDataSet.push( new Vector2( time, this.model.surfaceTemperatureKelvinProperty.value ) );
+    this.energyInDataSet.push( new Vector2( time, energyIn ) );
+    this.energyOutDataSet.push( new Vector2( time, energyOut ) );
+    this.netEnergyDataSet.push( new Vector2( time, this.model.netInflowOfEnergyProperty.value ) );
+
+    // Remove data that is older than the largest time span that can be shown.
+    [ this.surfaceTemperatureDataSet, this.energyInDataSet, this.energyOutDataSet, this.netEnergyDataSet ].forEach(
+      dataSet => {
+        while ( dataSet.length > 0 && ( dataSet[ 0 ] === null || dataSet[ 0 ].x < time - MAX_TIME_SPAN ) ) {
+          dataSet.shift();
+        }
+      }
+    );
+    [ this.eruptionTimes, this.responseTimes ].forEach( markerTimes => {
+      while ( markerTimes.length > 0 && markerTimes[ 0 ] < time - MAX_TIME_SPAN ) {
+        markerTimes.shift();
+      }
+    } );
+
+    this.timeOfLastSample = time;
+    this.plotsNeedUpdate = true;
+  }
+
+  /**
+   * Add null values to the data sets, which causes a break in the plotted lines.
+   */
+  private addGapToDataSets(): void {
+    [ this.surfaceTemperatureDataSet, this.energyInDataSet, this.energyOutDataSet, this.netEnergyDataSet ].forEach(
+      dataSet => {
+        if ( dataSet.length > 0 && dataSet[ dataSet.length - 1 ] !== null ) {
+          dataSet.push( null );
+        }
+      }
+    );
+  }
+
+  /**
+   * Update the plots and the time axis to match the recorded data.
+   */
+  private updatePlots(): void {
+
+    // Scroll the time axis so that the most recent data is at the right edge once the graph is full.
+    const timeSpan = TIME_SPANS[ this.zoomLevelProperty.value ];
+    const maxTime = Math.max( this.timeOfLastSample, timeSpan );
+    const timeRange = new Range( maxTime - timeSpan, maxTime );
+    this.temperatureChartTransform.setModelXRange( timeRange );
+    this.energyChartTransform.setModelXRange( timeRange );
+
+    // Expand the temperature range from the default if needed so that all the data in the time range is shown.
+    let minTemperature = DEFAULT_TEMPERATURE_RANGE_KELVIN.min;
+    let maxTemperature = DEFAULT_TEMPERATURE_RANGE_KELVIN.max;
+    this.surfaceTemperatureDataSet.forEach( dataPoint => {
+      if ( dataPoint !== null && dataPoint.x >= timeRange.min ) {
+        minTemperature = Math.min(
+          minTemperature,
+          Math.floor( dataPoint.y / TEMPERATURE_RANGE_INCREMENT ) * TEMPERATURE_RANGE_INCREMENT
+        );
+        maxTemperature = Math.max(
+          maxTemperature,
+          Math.ceil( dataPoint.y / TEMPERATURE_RANGE_INCREMENT ) * TEMPERATURE_RANGE_INCREMENT
+        );
+      }
+    } );
+
+    // The temperature data is recorded in Kelvin, so it needs to be converted to the units being shown.
+    const units = this.model.temperatureUnitsProperty.value;
+    const temperatureRange = new Range(
+      GreenhouseEffectUtils.kelvinToUnits( minTemperature, units ),
+      GreenhouseEffectUtils.kelvinToUnits( maxTemperature, units )
+    );
+    this.temperatureChartTransform.setModelYRange( temperatureRange );
+    const minTickSpacing = units === TemperatureUnits.FAHRENHEIT ? 40 : 20;
+    const tickSpacing = minTickSpacing *
+                        Math.ceil( temperatureRange.getLength() / minTickSpacing / MAX_NUMBER_OF_TEMPERATURE_TICKS );
+    this.temperatureGridLines.setSpacing( tickSpacing );
+    this.temperatureTickLabels.setSpacing( tickSpacing );
+
+    this.surfaceTemperaturePlot.setDataSet( this.surfaceTemperatureDataSet.map(
+      dataPoint => dataPoint === null ?
+                   null :
+                   new Vector2( dataPoint.x, GreenhouseEffectUtils.kelvinToUnits( dataPoint.y, units ) )
+    ) );
+    this.energyInPlot.setDataSet( this.energyInDataSet );
+    this.energyOutPlot.setDataSet( this.energyOutDataSet );
+    this.netEnergyPlot.setDataSet( this.netEnergyDataSet );
+
+    // Draw a vertical line at the time of each eruption and at each response time.
+    this.eruptionMarkersPath.shape = this.createMarkersShape( this.eruptionTimes );
+    this.eruptionLegendItem.visible = this.eruptionTimes.length > 0;
+    this.responseTimeMarkersPath.shape = this.createMarkersShape( this.responseTimes );
+    this.responseTimeLegendItem.visible = this.responseTimes.length > 0;
+
+    this.plotsNeedUpdate = false;
+  }
+
+  /**
+   * Create a shape with a vertical line across the temperature chart at each of the provided model times.
+   */
+  private createMarkersShape( times: number[] ): Shape {
+    const shape = new Shape();
+    times.forEach( time => {
+      const x = this.temperatureChartTransform.modelToViewX( time );
+      shape.moveTo( x, 0 ).lineTo( x, CHART_VIEW_HEIGHT );
+    } );
+    return shape;
+  }
+
+  /**
+   * Remove all recorded data.
+   */
+  private clearData(): void {
+    this.surfaceTemperatureDataSet.length = 0;
+    this.energyInDataSet.length = 0;
+    this.energyOutDataSet.length = 0;
+    this.netEnergyDataSet.length = 0;
+    this.eruptionTimes.length = 0;
+    this.responseTimes.length = 0;
+    this.timeOfLastSample = Number.NEGATIVE_INFINITY;
+    this.plotsNeedUpdate = true;
+  }
+
+  public reset(): void {
+    this.isRecordingProperty.reset();
+    this.zoomLevelProperty.reset();
+    this.clearData();
+  }
+}
+
+/**
+ * Create an item for the legend that consists of a short line in the color of the plot and a label.
+ */
+const createLegendItem = ( labelStringProperty: TReadOnlyProperty<string>,
+                           color: TColor,
+                           lineDash: number[] = [] ): Node => {
+  return new HBox( {
+    spacing: 3,
+    children: [
+      new Line( 0, 0, 12, 0, { stroke: color, lineWidth: 2, lineDash: lineDash } ),
+      new Text( labelStringProperty, { font: GreenhouseEffectConstants.CONTENT_FONT, maxWidth: 40 } )
+    ]
+  } );
+};
+
+export default TemperatureGraphPanel;
@@ -0,0 +1,274 @@
+// Copyright 2026, University of Colorado Boulder
+
+/**
+ * TemperatureProfilePanel is a panel that plots the temperature of the ground and of each of the atmosphere layers as a
+ * function of altitude.  This allows users to see how the temperature changes with height in the atmosphere (the lapse
+ * rate) and how warming is distributed vertically as the model changes.  The plot is updated as the model runs, and the
+ * temperature is shown in the units that are selected by the user.  Layers that are not active, and thus don't
+ * interact with the energy, are shown as open points that are not connected by the line, and are held at the edge of
+ * the plot when their temperature is outside of its range.  When there are aerosols in
+ * the atmosphere, such as after a volcanic eruption, their altitude is marked on the plot.
+ *
+ * @author John Blanco (PhET Interactive Simulations)
+ */
+
+import Multilink from '../../../../axon/js/Multilink.js';
+import PatternStringProperty from '../../../../axon/js/PatternStringProperty.js';
+import { TReadOnlyProperty } from '../../../../axon/js/TReadOnlyProperty.js';
+import ChartRectangle from '../../../../bamboo/js/ChartRectangle.js';
+import ChartTransform from '../../../../bamboo/js/ChartTransform.js';
+import GridLineSet from '../../../../bamboo/js/GridLineSet.js';
+import LinePlot from '../../../../bamboo/js/LinePlot.js';
+import ScatterPlot from '../../../../bamboo/js/ScatterPlot.js';
+import TickLabelSet from '../../../../bamboo/js/TickLabelSet.js';
+import Range from '../../../../dot/js/Range.js';
+import Utils from '../../../../dot/js/Utils.js';
+import Vector2 from '../../../../dot/js/Vector2.js';
+import Orientation from '../../../../phet-core/js/Orientation.js';
+import optionize, { EmptySelfOptions } from '../../../../phet-core/js/optionize.js';
+import PickRequired from '../../../../phet-core/js/types/PickRequired.js';
+import HBox from '../../../../scenery/js/layout/nodes/HBox.js';
+import VBox from '../../../../scenery/js/layout/nodes/VBox.js';
+import Line from '../../../../scenery/js/nodes/Line.js';
+import Node from '../../../../scenery/js/nodes/Node.js';
+import Text from '../../../../scenery/js/nodes/Text.js';
+import Panel, { PanelOptions } from '../../../../sun/js/Panel.js';
+import GreenhouseEffectFluent from '../../GreenhouseEffectFluent.js';
+import GreenhouseEffectColors from '../GreenhouseEffectColors.js';
+import GreenhouseEffectConstants from '../GreenhouseEffectConstants.js';
+import GreenhouseEffectUtils from '../GreenhouseEffectUtils.js';
+import LayersModel from '../model/LayersModel.js';
+import TemperatureUnits from '../model/TemperatureUnits.js';
+
+// constants
+const CHART_VIEW_WIDTH = 150; // view coordinates
+const CHART_VIEW_HEIGHT = 180; // view coordinates
+const METERS_PER_KILOMETER = 1000;
+const ALTITUDE_RANGE = new Range( 0, LayersModel.HEIGHT_OF_ATMOSPHERE / METERS_PER_KILOMETER ); // in km
+const ALTITUDE_TICK_SPACING = 10; // in km
+
+// The default range for the temperature axis, which is expanded in increments when needed so that all the temperatures
+// fit.  The tick spacing is increased with the range so that the labels don't overlap.
+const DEFAULT_TEMPERATURE_RANGE_KELVIN = new Range( 160, 380 );
+const TEMPERATURE_RANGE_INCREMENT = 40; // in Kelvin
+const MAX_NUMBER_OF_TEMPERATURE_TICKS = 6;
+const POINT_RADIUS = 3;
+const TICK_LABEL_OPTIONS = { font: GreenhouseEffectConstants.CONTENT_FONT, maxWidth: 35 };
+const AXIS_LABEL_OPTIONS = { font: GreenhouseEffectConstants.CONTENT_FONT, maxWidth: CHART_VIEW_WIDTH };
+
+type SelfOptions = EmptySelfOptions;
+export type TemperatureProfilePanelOptions = SelfOptions & PickRequired<PanelOptions, 'tandem'>;
+
+class TemperatureProfilePanel extends Panel {
+
+  private readonly model: LayersModel;
+  private readonly chartTransform: ChartTransform;
+  private readonly temperatureGridLines: GridLineSet;
+  private readonly temperatureTickLabels: TickLabelSet;
+  private readonly linePlot: LinePlot;
+  private readonly scatterPlot: ScatterPlot;
+  private readonly inactiveLayersScatterPlot: ScatterPlot;
+
+  /**
+   * @param model
+   * @param temperatureUnitsStringProperty - the units in which the temperature is shown, used in the axis label
+   * @param providedOptions
+   */
+  public constructor( model: LayersModel,
+                      temperatureUnitsStringProperty: TReadOnlyProperty<string>,
+                      providedOptions: TemperatureProfilePanelOptions ) {
+
+    const options = optionize<TemperatureProfilePanelOptions, SelfOptions, PanelOptions>()( {
+      visibleProperty: model.temperatureProfileVisibleProperty,
+      cornerRadius: 5,
+      xMargin: 10,
+      yMargin: 10,
+
+      // pdom
+      accessibleHeading: GreenhouseEffectFluent.temperatureProfile.titleStringProperty,
+
+      // phet-io
+      phetioVisiblePropertyInstrumented: false
+    }, providedOptions );
+
+    const titleText = new Text( GreenhouseEffectFluent.temperatureProfile.titleStringProperty, {
+      font: GreenhouseEffectConstants.TITLE_FONT,
+      maxWidth: CHART_VIEW_WIDTH + 40
+    } );
+
+    // Temperature is on the horizontal axis and altitude on the vertical axis, which is the conventional way of
+    // showing an atmospheric temperature profile.
+    const chartTransform = new ChartTransform( {
+      viewWidth: CHART_VIEW_WIDTH,
+      viewHeight: CHART_VIEW_HEIGHT,
+      modelXRange: DEFAULT_TEMPERATURE_RANGE_KELVIN,
+      modelYRange: ALTITUDE_RANGE
+    } );
+    const linePlot = new LinePlot( chartTransform, [], {
+      stroke: GreenhouseEffectColors.surfaceTemperaturePlotColorProperty,
+      lineWidth: 1.5
+    } );
+    const scatterPlot = new ScatterPlot( chartTransform, [], {
+      fill: GreenhouseEffectColors.surfaceTemperaturePlotColorProperty,
+      radius: POINT_RADIUS
+    } );
+    const inactiveLayersScatterPlot = new ScatterPlot( chartTransform, [], {
+      fill: 'white',
+      stroke: GreenhouseEffectColors.surfaceTemperaturePlotColorProperty,
+      radius: POINT_RADIUS
+    } );
+    const temperatureGridLines = new GridLineSet( chartTransform, Orientation.HORIZONTAL, 40, {
+      stroke: 'lightgray'
+    } );
+    const temperatureTickLabels = new TickLabelSet( chartTransform, Orientation.HORIZONTAL, 40, {
+      edge: 'min',
+      createLabel: ( value: number ) => new Text( Utils.toFixed( value, 0 ), TICK_LABEL_OPTIONS )
+    } );
+    const chartRectangle = new ChartRectangle( chartTransform, {
+      fill: 'white',
+      stroke: 'gray'
+    } );
+
+    // a marker for the altitude of the aerosols, which is only shown when they are present
+    const aerosolAltitudeMarker = new Line( 0, 0, CHART_VIEW_WIDTH, 0, {
+      stroke: GreenhouseEffectColors.eruptionMarkerColorProperty,
+      lineDash: [ 4, 3 ],
+      visible: false
+    } );
+    if ( model.aerosolLayer ) {
+      Multilink.multilink(
+        [ model.aerosolLayer.altitudeProperty, model.aerosolLayer.reflectivityProperty ],
+        ( altitude, reflectivity ) => {
+          aerosolAltitudeMarker.y = chartTransform.modelToViewY( altitude / METERS_PER_KILOMETER );
+          aerosolAltitudeMarker.visible = reflectivity > 0;
+        }
+      );
+    }
+
+    const chart = new Node( {
+      children: [
+        chartRectangle,
+        temperatureGridLines,
+        new GridLineSet( chartTransform, Orientation.VERTICAL, ALTITUDE_TICK_SPACING, {
+          stroke: 'lightgray'
+        } ),
+        aerosolAltitudeMarker,
+        new Node( {
+          children: [ linePlot, scatterPlot, inactiveLayersScatterPlot ],
+          clipArea: chartRectangle.getShape().getOffsetShape( POINT_RADIUS )
+        } ),
+        new TickLabelSet( chartTransform, Orientation.VERTICAL, ALTITUDE_TICK_SPACING, {
+          edge: 'min',
+          createLabel: ( value: number ) => new Text( Utils.toFixed( value, 0 ), TICK_LABEL_OPTIONS )
+        } ),
+        temperatureTickLabels
+      ]
+    } );
+
+    // the label for the temperature axis, which includes the units
+    const temperatureAxisLabel = new Text(
+      new PatternStringProperty( GreenhouseEffectFluent.temperatureProfile.temperaturePatternStringProperty, {
+        units: temperatureUnitsStringProperty
+      } ),
+      AXIS_LABEL_OPTIONS
+    );
+
+    // the label for the altitude axis, rotated so that it runs alongside the axis
+    const altitudeAxisLabel = new Text( GreenhouseEffectFluent.temperatureProfile.altitudeStringProperty, {
+      font: GreenhouseEffectConstants.CONTENT_FONT,
+      maxWidth: CHART_VIEW_HEIGHT,
+      rotation: -Math.PI / 2
+    } );
+
+    const content = new VBox( {
+      spacing: 5,
+      children: [
+        titleText,
+        new HBox( {
+          spacing: 5,
+          children: [ altitudeAxisLabel, chart ]
+        } ),
+        temperatureAxisLabel
+      ]
+    } );
+
+    super( content, options );
+
+    this.model = model;
+    this.chartTransform = chartTransform;
+    this.temperatureGridLines = temperatureGridLines;
+    this.temperatureTickLabels = temperatureTickLabels;
+    this.linePlot = linePlot;
+    this.scatterPlot = scatterPlot;
+    this.inactiveLayersScatterPlot = inactiveLayersScatterPlot;
+  }
+
+  /**
+   * Update the plot to match the current temperatures in the model.  This is done in a method rather than by linking
+   * to the temperature Properties because the latter approach would update many times per frame, see
+   * https://github.com/phetsims/greenhouse-effect/issues/265.
+   */
+  public step(): void {
+    if ( this.visible ) {
+      const groundLayer = this.model.groundLayer;
+
+      // The temperatures and altitudes of the ground and the active layers, which are connected by the line, and of the
+      // inactive layers, all in Kelvin and meters.  The layers are in order of increasing altitude.
+      const activeLayerValues = [ new Vector2( groundLayer.temperatureProperty.value, groundLayer.altitude ) ];
+      const inactiveLayerValues: Vector2[] = [];
+      this.model.atmosphereLayers.forEach( layer => {
+        const values = new Vector2( layer.temperatureProperty.value, layer.altitude );
+        if ( layer.isActiveProperty.value ) {
+          activeLayerValues.push( values );
+        }
+        else {
+          inactiveLayerValues.push( values );
+        }
+      } );
+
+      // Expand the temperature range from the default if needed so that the temperatures of the ground and the active
+      // layers are shown.  The inactive layers are usually at their minimum temperature, which can be far below the
+      // others, so they don't expand the range and are instead held at its edges.
+      let minTemperature = DEFAULT_TEMPERATURE_RANGE_KELVIN.min;
+      let maxTemperature = DEFAULT_TEMPERATURE_RANGE_KELVIN.max;
+      activeLayerValues.forEach( values => {
+        minTemperature = Math.min(
+          minTemperature,
+          Math.floor( values.x / TEMPERATURE_RANGE_INCREMENT ) * TEMPERATURE_RANGE_INCREMENT
+        );
+        maxTemperature = Math.max(
+          maxTemperature,
+          Math.ceil( values.x / TEMPERATURE_RANGE_INCREMENT ) * TEMPERATURE_RANGE_INCREMENT
+        );
+      } );
+
+      // Update the temperature axis for the range and the units.
+      const units = this.model.temperatureUnitsProperty.value;
+      const temperatureRange = new Range(
+        GreenhouseEffectUtils.kelvinToUnits( minTemperature, units ),
+        GreenhouseEffectUtils.kelvinToUnits( maxTemperature, units )
+      );
+      this.chartTransform.setModelXRange( temperatureRange );
+      const minTickSpacing = units === TemperatureUnits.FAHRENHEIT ? 80 : 40;
+      const tickSpacing = minTickSpacing *
+                          Math.ceil( temperatureRange.getLength() / minTickSpacing / MAX_NUMBER_OF_TEMPERATURE_TICKS );
+      this.temperatureGridLines.setSpacing( tickSpacing );
+      this.temperatureTickLabels.setSpacing( tickSpacing );
+
+      // Convert the values to the units and scale used on the chart.
+      const toDataPoint = ( values: Vector2 ) => new Vector2(
+        GreenhouseEffectUtils.kelvinToUnits( values.x, units ),
+        values.y / METERS_PER_KILOMETER
+      );
+      const activeLayersDataSet = activeLayerValues.map( toDataPoint );
+      this.linePlot.setDataSet( activeLayersDataSet );
+      this.scatterPlot.setDataSet( activeLayersDataSet );
+      this.inactiveLayersScatterPlot.setDataSet( inactiveLayerValues.map( values => toDataPoint( new Vector2(
+        Utils.clamp( values.x, minTemperature, maxTemperature ),
+        values.y
+      ) ) ) );
+    }
+  }
+}
+
+export default TemperatureProfilePanel;
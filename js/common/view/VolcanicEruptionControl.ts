@@ -0,0 +1,100 @@
+// Copyright 2026, University of Colorado Boulder
+
+/**
+ * VolcanicEruptionControl is a UI component that allows the user to trigger a volcanic eruption, which injects
+ * reflective aerosols into the atmosphere.  It consists of a title, a slider for choosing the altitude of the aerosols,
+ * and a button that triggers the eruption.  It is only created for models that include an aerosol layer.
+ *
+ * @author John Blanco (PhET Interactive Simulations)
+ */
+
+import Dimension2 from '../../../../dot/js/Dimension2.js';
+import Utils from '../../../../dot/js/Utils.js';
+import { combineOptions } from '../../../../phet-core/js/optionize.js';
+import VBox from '../../../../scenery/js/layout/nodes/VBox.js';
+import Text from '../../../../scenery/js/nodes/Text.js';
+import TextPushButton from '../../../../sun/js/buttons/TextPushButton.js';
+import HSlider from '../../../../sun/js/HSlider.js';
+import { SliderOptions } from '../../../../sun/js/Slider.js';
+import Tandem from '../../../../tandem/js/Tandem.js';
+import GreenhouseEffectFluent from '../../GreenhouseEffectFluent.js';
+import GreenhouseEffectConstants from '../GreenhouseEffectConstants.js';
+import AerosolLayer from '../model/AerosolLayer.js';
+
+// constants
+const METERS_PER_KILOMETER = 1000;
+const KEYBOARD_STEP = 1000; // in meters
+
+class VolcanicEruptionControl extends VBox {
+
+  public constructor( aerosolLayer: AerosolLayer, width: number, tandem: Tandem ) {
+
+    // convenience variable
+    const altitudeRange = aerosolLayer.altitudeProperty.range;
+
+    // Title
+    const titleText = new Text( GreenhouseEffectFluent.volcanicEruptionStringProperty, {
+      font: GreenhouseEffectConstants.LABEL_FONT,
+      maxWidth: width
+    } );
+
+    // Label for the slider
+    const altitudeLabelText = new Text( GreenhouseEffectFluent.aerosolAltitudeStringProperty, {
+      font: GreenhouseEffectConstants.LABEL_FONT,
+      maxWidth: width
+    } );
+
+    // Slider for the altitude of the aerosols
+    const altitudeSlider = new HSlider(
+      aerosolLayer.altitudeProperty,
+      altitudeRange,
+      combineOptions<SliderOptions>( {}, GreenhouseEffectConstants.SLIDER_OPTIONS, {
+        trackSize: new Dimension2( width * 0.75, 1 ),
+        keyboardStep: KEYBOARD_STEP,
+        shiftKeyboardStep: KEYBOARD_STEP / 2,
+        pageKeyboardStep: KEYBOARD_STEP * 5,
+        labelContent: GreenhouseEffectFluent.aerosolAltitudeStringProperty,
+        labelTagName: 'label',
+        accessibleHelpText: GreenhouseEffectFluent.a11y.aerosolAltitudeHelpTextStringProperty,
+        isDisposable: false,
+        tandem: tandem.createTandem( 'altitudeSlider' ),
+        phetioVisiblePropertyInstrumented: false
+      } )
+    );
+
+    // Tick marks, labeled in kilometers
+    [ altitudeRange.min, altitudeRange.max ].forEach( altitude => {
+      altitudeSlider.addMajorTick(
+        altitude,
+        new Text(
+          Utils.toFixed( altitude / METERS_PER_KILOMETER, 0 ),
+          GreenhouseEffectConstants.TICK_MARK_TEXT_OPTIONS
+        )
+      );
+    } );
+
+    // Button that triggers the eruption
+    const eruptButton = new TextPushButton( GreenhouseEffectFluent.eruptStringProperty, {
+      font: GreenhouseEffectConstants.LABEL_FONT,
+      maxTextWidth: width * 0.75,
+      listener: () => aerosolLayer.inject(),
+
+      // pdom
+      accessibleHelpText: GreenhouseEffectFluent.a11y.eruptHelpTextStringProperty,
+
+      // phet-io
+      tandem: tandem.createTandem( 'eruptButton' )
+    } );
+
+    super( {
+      children: [ titleText, altitudeLabelText, altitudeSlider, eruptButton ],
+      spacing: 5,
+      align: 'left',
+      isDisposable: false,
+      tandem: tandem,
+      visiblePropertyOptions: { phetioFeatured: true }
+    } );
+  }
+}
+
+export default VolcanicEruptionControl;
@@ -0,0 +1,32 @@
+// Copyright 2026, University of Colorado Boulder
+
+/**
+ * A checkbox that controls whether the amount of water vapor in the atmosphere changes with the surface temperature.
+ *
+ * @author John Blanco (PhET Interactive Simulations)
+ */
+
+import Property from '../../../../axon/js/Property.js';
+import Tandem from '../../../../tandem/js/Tandem.js';
+import GreenhouseEffectFluent from '../../GreenhouseEffectFluent.js';
+import GreenhouseEffectCheckbox from './GreenhouseEffectCheckbox.js';
+
+class WaterVaporFeedbackCheckbox extends GreenhouseEffectCheckbox {
+
+  public constructor( property: Property<boolean>, tandem: Tandem ) {
+
+    super( property, GreenhouseEffectFluent.concentrationPanel.waterVaporFeedbackStringProperty, {
+
+      touchAreaXDilation: 5,
+      touchAreaYDilation: 4,
+
+      // pdom
+      accessibleHelpText: GreenhouseEffectFluent.a11y.concentrationPanel.waterVaporFeedbackHelpTextStringProperty,
+
+      // phet-io
+      tandem: tandem
+    } );
+  }
+}
+
+export default WaterVaporFeedbackCheckbox;
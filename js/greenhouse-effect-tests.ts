@@ -0,0 +1,16 @@
+// Copyright 2026, University of Colorado Boulder
+
+/**
+ * Unit tests for greenhouse-effect.  Please run once in phet brand and once in brand=phet-io to cover all
+ * functionality.
+ *
+ * @author John Blanco (PhET Interactive Simulations)
+ */
+
+import qunitStart from '../../chipper/js/browser/sim-tests/qunitStart.js';
+import './common/model/LayersModelRunnerTests.js';
+import './common/model/RadiativeEquilibriumSolverTests.js';
+import './photons/model/PhotonsModelTests.js';
+
+// Since our tests are loaded asynchronously, we must direct QUnit to begin the tests
+qunitStart();
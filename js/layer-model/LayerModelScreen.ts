@@ -7,13 +7,15 @@
  */
 
 import Screen from '../../../joist/js/Screen.js';
+import { combineOptions } from '../../../phet-core/js/optionize.js';
 import Tandem from '../../../tandem/js/Tandem.js';
 import GreenhouseEffectColors from '../common/GreenhouseEffectColors.js';
 import GreenhouseEffectConstants from '../common/GreenhouseEffectConstants.js';
+import QueryParameterModelOptions from '../common/QueryParameterModelOptions.js';
 import GreenhouseEffectIconFactory from '../common/view/GreenhouseEffectIconFactory.js';
 import GreenhouseEffectKeyboardHelpContent from '../common/view/GreenhouseEffectKeyboardHelpContent.js';
 import GreenhouseEffectFluent from '../GreenhouseEffectFluent.js';
-import LayerModelModel from './model/LayerModelModel.js';
+import LayerModelModel, { LayerModelModelOptions } from './model/LayerModelModel.js';
 import LayerModelScreenView from './view/LayerModelScreenView.js';
 
 class LayerModelScreen extends Screen<LayerModelModel, LayerModelScreenView> {
@@ -32,7 +34,10 @@ class LayerModelScreen extends Screen<LayerModelModel, LayerModelScreenView> {
     };
 
     super(
-      () => new LayerModelModel( { tandem: tandem.createTandem( 'model' ) } ),
+      () => new LayerModelModel( combineOptions<LayerModelModelOptions>(
+        { tandem: tandem.createTandem( 'model' ) },
+        QueryParameterModelOptions.getLayersModelOptions()
+      ) ),
       model => new LayerModelScreenView( model, tandem.createTandem( 'view' ) ),
       options
     );
@@ -7,33 +7,46 @@
  * This is the main model class for the "Layer Model" screen and, as such, implements the behavior where sunlight
  * comes from the sky, is absorbed by the ground, re-radiated as infrared energy, which is then partially absorbed by
  * the atmosphere.  The atmosphere is modeled as a set of layers that behave much like glass (transparent to visible
- * light but absorb IR).
+ * light but absorb IR).  The settings for the sun, ground, and atmosphere can be set from presets for several planets.
  *
  * @author John Blanco (PhET Interactive Simulations)
  */
 
+import EnumerationProperty from '../../../../axon/js/EnumerationProperty.js';
 import NumberProperty from '../../../../axon/js/NumberProperty.js';
 import Range from '../../../../dot/js/Range.js';
 import optionize, { EmptySelfOptions } from '../../../../phet-core/js/optionize.js';
+import TimeSpeed from '../../../../scenery-phet/js/TimeSpeed.js';
+import isSettingPhetioStateProperty from '../../../../tandem/js/isSettingPhetioStateProperty.js';
 import IOType from '../../../../tandem/js/types/IOType.js';
 import { ConcentrationModelStateObject } from '../../common/model/ConcentrationModel.js';
 import LayersModel, { LayersModelOptions } from '../../common/model/LayersModel.js';
 import PhotonCollection from '../../common/model/PhotonCollection.js';
+import Planet from './Planet.js';
 
 type SelfOptions = EmptySelfOptions;
 type LayerModelModelOptions = SelfOptions & LayersModelOptions;
 
 // constants
+
+// The screen starts with the Earth selected, but with no absorbing layers so that students can build up the atmosphere
+// themselves.  This state is intentionally different from the Earth preset, which is applied when the Earth is
+// selected after another planet.
+const INITIAL_PLANET = Planet.EARTH;
+const INITIAL_ALBEDO = 0.3;
 const INITIAL_ABSORPTION_PROPORTION = 1.0;
 
-// This value, which is in Kelvin, is the minimum value that the ground is allowed to get to.  It was calculated by
-// using 50% sun and 0.9 albedo, since these are the values that are allowed in the UI design that would lead to the
-// lowest temperature.  This value was calculated, and then some margin was added.
-const MINIMUM_GROUND_TEMPERATURE = 125;
+// This value, which is in Kelvin, is the minimum value that the ground is allowed to get to when the sim starts.  It
+// changes when a different planet is selected, see Planet.ts.
+const MINIMUM_GROUND_TEMPERATURE = INITIAL_PLANET.minimumGroundTemperature;
 
 class LayerModelModel extends LayersModel {
   public readonly numberOfActiveAtmosphereLayersProperty: NumberProperty;
   public readonly layersInfraredAbsorbanceProperty: NumberProperty;
+
+  // the planet whose settings were most recently applied to the sun, ground, and atmosphere
+  public readonly planetProperty: EnumerationProperty<Planet>;
+
   public readonly photonCollection: PhotonCollection;
 
   public constructor( providedOptions: LayerModelModelOptions ) {
@@ -41,15 +54,18 @@ class LayerModelModel extends LayersModel {
     const options = optionize<LayerModelModelOptions, SelfOptions, LayersModelOptions>()( {
       numberOfAtmosphereLayers: 3,
       groundLayerOptions: {
-        initialAlbedo: 0.3,
+        initialAlbedo: INITIAL_ALBEDO,
         minimumTemperature: MINIMUM_GROUND_TEMPERATURE,
         albedoPhetioReadOnly: false,
+        emissivityPhetioReadOnly: false,
+        substancePhetioReadOnly: false,
         tandem: providedOptions.tandem.createTandem( 'groundLayer' )
       },
       atmosphereLayerOptions: {
         initiallyActive: false,
         initialEnergyAbsorptionProportion: INITIAL_ABSORPTION_PROPORTION,
-        supportsShowTemperature: true
+        supportsShowTemperature: true,
+        substancePhetioReadOnly: false
       },
       fluxMeterPresent: true,
       fluxMeterOptions: {
@@ -59,6 +75,13 @@ class LayerModelModel extends LayersModel {
       },
       proportionateOutputRatePropertyIsInstrumented: true, // see https://github.com/phetsims/greenhouse-effect/issues/283
 
+      // Allow PhET-iO clients to define substances for the ground and atmosphere layers, e.g. to compare panes of glass
+      // with layers of gas.
+      substanceRegistryPresent: true,
+
+      // Include a fast speed so that students don't have to wait as long for the temperatures to settle.
+      timeSpeeds: [ TimeSpeed.FAST, TimeSpeed.NORMAL, TimeSpeed.SLOW ],
+
       // phet-io
       phetioType: LayerModelModel.LayerModelModelIO,
       phetioState: true
@@ -107,12 +130,52 @@ class LayerModelModel extends LayersModel {
       phetioDocumentation: 'The number of modeled layers in the atmosphere that are absorbing some amount of IR energy'
     } );
 
+    // Include the settings that are specific to this model in the data that can be recorded and exported.
+    this.dataRecorder.addQuantity(
+      'numberOfActiveAtmosphereLayers',
+      '',
+      () => this.numberOfActiveAtmosphereLayersProperty.value
+    );
+    this.dataRecorder.addQuantity( 'layersInfraredAbsorbance', '', () => this.layersInfraredAbsorbanceProperty.value );
+
     // Activate and deactivate layers as the desired number changes.  Layers are activated from the bottom up.
     this.numberOfActiveAtmosphereLayersProperty.lazyLink( numberOfActiveLayers => {
       this.atmosphereLayers.forEach( ( layer, index ) => {
         layer.isActiveProperty.set( numberOfActiveLayers > index );
       } );
     } );
+
+    this.planetProperty = new EnumerationProperty( INITIAL_PLANET, {
+      tandem: options.tandem.createTandem( 'planetProperty' ),
+      phetioFeatured: true,
+      phetioDocumentation: 'The planet whose settings were most recently applied to the sun, ground, and ' +
+                           'atmosphere.  Changing this sets the solar constant, surface albedo, number of absorbing ' +
+                           'layers, and their infrared absorbance, all of which can then be adjusted independently.'
+    } );
+
+    // The minimum ground temperature is not part of the state, so it is always updated to match the planet.
+    this.planetProperty.link( planet => {
+      this.groundLayer.setMinimumTemperature( planet.minimumGroundTemperature );
+    } );
+
+    // Apply the settings for the planet when a new one is selected.  This is skipped while setting the PhET-iO state,
+    // since the state includes the values of the individual settings.
+    this.planetProperty.lazyLink( planet => {
+      if ( !isSettingPhetioStateProperty.value ) {
+        this.applyPlanetSettings( planet );
+      }
+    } );
+  }
+
+  /**
+   * Set the sun, ground, and atmosphere to the values for the provided planet.
+   */
+  private applyPlanetSettings( planet: Planet ): void {
+    this.sunEnergySource.solarConstantProperty.set( planet.solarConstant );
+    this.sunEnergySource.proportionateOutputRateProperty.reset();
+    this.groundLayer.albedoProperty.set( planet.albedo );
+    this.numberOfActiveAtmosphereLayersProperty.set( planet.numberOfAtmosphereLayers );
+    this.layersInfraredAbsorbanceProperty.set( planet.layersInfraredAbsorbance );
   }
 
   /**
@@ -127,6 +190,7 @@ class LayerModelModel extends LayersModel {
    * Return to initial conditions.
    */
   public override reset(): void {
+    this.planetProperty.reset();
     this.numberOfActiveAtmosphereLayersProperty.reset();
     this.layersInfraredAbsorbanceProperty.reset();
     this.photonCollection.reset();
@@ -143,4 +207,5 @@ class LayerModelModel extends LayersModel {
   } );
 }
 
+export type { LayerModelModelOptions };
 export default LayerModelModel;
@@ -0,0 +1,101 @@
+// Copyright 2026, University of Colorado Boulder
+
+/**
+ * Planet is an enumeration of the planets that can be modeled on the Layer Model screen.  Each value contains the
+ * settings that are applied to the model when the planet is selected.  These are rough approximations that are
+ * intended to produce surface temperatures in the right general range, and some of them can't be matched very well by
+ * a model with just a few atmosphere layers.  Venus, for instance, would need many more layers to reach its actual
+ * surface temperature of around 735 K.
+ *
+ * @author John Blanco (PhET Interactive Simulations)
+ */
+
+import Enumeration from '../../../../phet-core/js/Enumeration.js';
+import EnumerationValue from '../../../../phet-core/js/EnumerationValue.js';
+import SunEnergySource from '../../common/model/SunEnergySource.js';
+
+type PlanetSettings = {
+
+  // average distance from the sun in astronomical units, which determines the solar constant
+  distanceFromSun: number;
+
+  // proportion of the incoming sunlight reflected by the planet, which is applied to the ground
+  albedo: number;
+
+  // number and infrared absorbance of the atmosphere layers
+  numberOfAtmosphereLayers: number;
+  layersInfraredAbsorbance: number;
+
+  // The minimum temperature of the ground, in Kelvin.  These were calculated using 50% sun and 0.9 albedo, which are
+  // the values allowed by the UI that would lead to the lowest temperature, and then some margin was added.
+  minimumGroundTemperature: number;
+};
+
+class Planet extends EnumerationValue {
+
+  // The Earth, with a single layer that absorbs most of the infrared energy, which brings the surface to about 290 K,
+  // close to the actual average of 288 K.  This is not the state of the screen when the sim starts, which has no
+  // absorbing layers, see LayerModelModel.ts.
+  public static readonly EARTH = new Planet( {
+    distanceFromSun: 1,
+    albedo: 0.3,
+    numberOfAtmosphereLayers: 1,
+    layersInfraredAbsorbance: 0.8,
+    minimumGroundTemperature: 125
+  } );
+
+  // Venus, which is closer to the sun and has thick, reflective clouds and a very dense carbon dioxide atmosphere
+  public static readonly VENUS = new Planet( {
+    distanceFromSun: 0.723,
+    albedo: 0.76,
+    numberOfAtmosphereLayers: 3,
+    layersInfraredAbsorbance: 1,
+    minimumGroundTemperature: 145
+  } );
+
+  // Mars, which is farther from the sun and has a very thin atmosphere that produces only a slight greenhouse effect
+  public static readonly MARS = new Planet( {
+    distanceFromSun: 1.524,
+    albedo: 0.25,
+    numberOfAtmosphereLayers: 1,
+    layersInfraredAbsorbance: 0.1,
+    minimumGroundTemperature: 100
+  } );
+
+  // The Earth when covered in ice, as it may have been several times in the distant past.  The ice reflects much of
+  // the sunlight and the cold, dry atmosphere absorbs less infrared energy than it does today.
+  public static readonly SNOWBALL_EARTH = new Planet( {
+    distanceFromSun: 1,
+    albedo: 0.6,
+    numberOfAtmosphereLayers: 1,
+    layersInfraredAbsorbance: 0.8,
+    minimumGroundTemperature: 125
+  } );
+
+  // Gets a list of keys, values and mapping between them.  For use in EnumerationProperty and PhET-iO
+  public static readonly enumeration = new Enumeration( Planet, {
+    phetioDocumentation: 'The planet whose settings are used for the sun, ground, and atmosphere.'
+  } );
+
+  // intensity of the sunlight arriving at the planet, in watts per square meter
+  public readonly solarConstant: number;
+
+  public readonly albedo: number;
+  public readonly numberOfAtmosphereLayers: number;
+  public readonly layersInfraredAbsorbance: number;
+  public readonly minimumGroundTemperature: number;
+
+  public constructor( settings: PlanetSettings ) {
+    super();
+
+    // The intensity of sunlight falls off with the square of the distance from the sun.
+    this.solarConstant = SunEnergySource.SOLAR_CONSTANT / ( settings.distanceFromSun * settings.distanceFromSun );
+
+    this.albedo = settings.albedo;
+    this.numberOfAtmosphereLayers = settings.numberOfAtmosphereLayers;
+    this.layersInfraredAbsorbance = settings.layersInfraredAbsorbance;
+    this.minimumGroundTemperature = settings.minimumGroundTemperature;
+  }
+}
+
+export default Planet;
@@ -1,7 +1,8 @@
 // Copyright 2021-2026, University of Colorado Boulder
 
 /**
- * Controls for the layers in the Layers model, which controls how much infrared energy is absorbed.
+ * Controls for the layers in the Layers model, which controls how much infrared energy is absorbed, and optionally for
+ * the emissivity of the surface, which controls how much infrared energy it radiates.
  *
  * @author John Blanco (PhET Interactive Simulations)
  */
@@ -13,6 +14,7 @@ import LayerModelModel from '../model/LayerModelModel.js';
 import AbsorbingLayersControl from './AbsorbingLayersControl.js';
 import InfraredAbsorbanceControl from './InfraredAbsorbanceControl.js';
 import LayerScreenControlPanel from './LayerScreenControlPanel.js';
+import SurfaceEmissivityControl from './SurfaceEmissivityControl.js';
 
 export default class InfraredPanel extends LayerScreenControlPanel {
 
@@ -30,8 +32,14 @@ export default class InfraredPanel extends LayerScreenControlPanel {
       tandem.createTandem( 'infraredAbsorbanceControl' )
     );
 
+    const surfaceEmissivityControl = new SurfaceEmissivityControl(
+      layersModel.groundLayer.emissivityProperty,
+      new Dimension2( width * 0.75, 1 ),
+      tandem.createTandem( 'surfaceEmissivityControl' )
+    );
+
     super(
-      [ absorbingLayersControl, infraredAbsorbanceControl ],
+      [ absorbingLayersControl, infraredAbsorbanceControl, surfaceEmissivityControl ],
       width,
       layersModel,
       GreenhouseEffectFluent.infraredStringProperty,
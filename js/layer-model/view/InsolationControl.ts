@@ -0,0 +1,170 @@
+// Copyright 2026, University of Colorado Boulder
+
+/**
+ * InsolationControl controls whether the output of the sun is based on a latitude and day of the year, and if so,
+ * which ones.  It shows the resulting insolation, which is the amount of sunlight arriving at the top of the atmosphere
+ * averaged over a day, along with the average for the whole planet for comparison.  The local value is often quite a
+ * bit higher than the global average, e.g. about 437 W/m² at the equator on an equinox versus about 344 W/m², because
+ * the global average includes the polar regions and the winter hemisphere, which receive much less sunlight.  The
+ * control is only shown by default when requested via query parameter.
+ *
+ * @author John Blanco (PhET Interactive Simulations)
+ */
+
+import DerivedProperty from '../../../../axon/js/DerivedProperty.js';
+import PatternStringProperty from '../../../../axon/js/PatternStringProperty.js';
+import Property from '../../../../axon/js/Property.js';
+import TRangedProperty from '../../../../axon/js/TRangedProperty.js';
+import { TReadOnlyProperty } from '../../../../axon/js/TReadOnlyProperty.js';
+import Dimension2 from '../../../../dot/js/Dimension2.js';
+import Utils from '../../../../dot/js/Utils.js';
+import { combineOptions } from '../../../../phet-core/js/optionize.js';
+import VBox from '../../../../scenery/js/layout/nodes/VBox.js';
+import Text from '../../../../scenery/js/nodes/Text.js';
+import HSlider from '../../../../sun/js/HSlider.js';
+import { SliderOptions } from '../../../../sun/js/Slider.js';
+import Tandem from '../../../../tandem/js/Tandem.js';
+import GreenhouseEffectConstants from '../../common/GreenhouseEffectConstants.js';
+import GreenhouseEffectQueryParameters from '../../common/GreenhouseEffectQueryParameters.js';
+import SunEnergySource from '../../common/model/SunEnergySource.js';
+import GreenhouseEffectCheckbox from '../../common/view/GreenhouseEffectCheckbox.js';
+import GreenhouseEffectFluent from '../../GreenhouseEffectFluent.js';
+
+const LATITUDE_STEP_SIZE = 5; // in degrees
+const DAY_OF_YEAR_STEP_SIZE = 1;
+
+class InsolationControl extends VBox {
+
+  public constructor( sunEnergySource: SunEnergySource, sliderTrackSize: Dimension2, tandem: Tandem ) {
+
+    const latitudeControl = InsolationControl.createLabeledSlider(
+      sunEnergySource.latitudeProperty,
+      GreenhouseEffectFluent.latitudeStringProperty,
+      GreenhouseEffectFluent.a11y.layerModel.latitudeHelpTextStringProperty,
+      LATITUDE_STEP_SIZE,
+      sliderTrackSize,
+      tandem.createTandem( 'latitudeSlider' )
+    );
+
+    const dayOfYearControl = InsolationControl.createLabeledSlider(
+      sunEnergySource.dayOfYearProperty,
+      GreenhouseEffectFluent.dayOfYearStringProperty,
+      GreenhouseEffectFluent.a11y.layerModel.dayOfYearHelpTextStringProperty,
+      DAY_OF_YEAR_STEP_SIZE,
+      sliderTrackSize,
+      tandem.createTandem( 'dayOfYearSlider' )
+    );
+
+    // readouts of the resulting insolation and, for comparison, the average over the whole planet
+    const readoutTextOptions = {
+      font: GreenhouseEffectConstants.LABEL_FONT,
+      maxWidth: sliderTrackSize.width
+    };
+    const insolationReadout = new Text(
+      new PatternStringProperty( GreenhouseEffectFluent.insolationPatternStringProperty, {
+        value: sunEnergySource.insolationProperty
+      }, {
+        decimalPlaces: 0,
+        tandem: Tandem.OPT_OUT // do not instrument, the value is available from the model
+      } ),
+      readoutTextOptions
+    );
+    const globalAverageInsolationReadout = new Text(
+      new PatternStringProperty( GreenhouseEffectFluent.globalAverageInsolationPatternStringProperty, {
+        value: new DerivedProperty(
+          [ sunEnergySource.solarConstantProperty, sunEnergySource.proportionateOutputRateProperty ],
+          ( solarConstant, proportionateOutputRate ) =>
+            SunEnergySource.getGlobalMeanInsolation( solarConstant ) * proportionateOutputRate
+        )
+      }, {
+        decimalPlaces: 0,
+        tandem: Tandem.OPT_OUT // do not instrument, this is derived from values that are available from the model
+      } ),
+      readoutTextOptions
+    );
+
+    const localInsolationCheckbox = new LocalInsolationCheckbox(
+      sunEnergySource.localInsolationEnabledProperty,
+      tandem.createTandem( 'localInsolationCheckbox' )
+    );
+
+    // The controls for the location and date are only shown when the insolation is based on them.
+    const localInsolationControls = new VBox( {
+      children: [ latitudeControl, dayOfYearControl, insolationReadout, globalAverageInsolationReadout ],
+      spacing: 10,
+      visibleProperty: sunEnergySource.localInsolationEnabledProperty
+    } );
+
+    super( {
+      children: [ localInsolationCheckbox, localInsolationControls ],
+      spacing: 10,
+      visible: GreenhouseEffectQueryParameters.localInsolation,
+      tandem: tandem,
+      visiblePropertyOptions: { phetioFeatured: true }
+    } );
+  }
+
+  /**
+   * Create a slider with a label above it and tick marks at the ends of the range.
+   */
+  private static createLabeledSlider( property: TRangedProperty,
+                                      labelStringProperty: TReadOnlyProperty<string>,
+                                      helpTextStringProperty: TReadOnlyProperty<string>,
+                                      stepSize: number,
+                                      sliderTrackSize: Dimension2,
+                                      tandem: Tandem ): VBox {
+    const range = property.range;
+
+    const labelText = new Text( labelStringProperty, {
+      font: GreenhouseEffectConstants.LABEL_FONT
+    } );
+
+    const slider = new HSlider(
+      property,
+      range,
+      combineOptions<SliderOptions>( {}, GreenhouseEffectConstants.SLIDER_OPTIONS, {
+        trackSize: sliderTrackSize,
+        constrainValue: ( value: number ) => Utils.roundToInterval( value, stepSize ),
+        keyboardStep: stepSize,
+        shiftKeyboardStep: stepSize,
+        pageKeyboardStep: stepSize * 5,
+        labelContent: labelStringProperty,
+        labelTagName: 'label',
+        accessibleHelpText: helpTextStringProperty,
+        isDisposable: false,
+        tandem: tandem,
+        phetioVisiblePropertyInstrumented: false
+      } )
+    );
+    slider.addMajorTick( range.min, new Text( range.min, GreenhouseEffectConstants.TICK_MARK_TEXT_OPTIONS ) );
+    slider.addMajorTick( range.max, new Text( range.max, GreenhouseEffectConstants.TICK_MARK_TEXT_OPTIONS ) );
+
+    return new VBox( {
+      children: [ labelText, slider ],
+      spacing: 1
+    } );
+  }
+}
+
+/**
+ * A checkbox that controls whether the output of the sun is based on a latitude and day of the year.
+ */
+class LocalInsolationCheckbox extends GreenhouseEffectCheckbox {
+
+  public constructor( property: Property<boolean>, tandem: Tandem ) {
+
+    super( property, GreenhouseEffectFluent.localSunlightStringProperty, {
+
+      touchAreaXDilation: 5,
+      touchAreaYDilation: 4,
+
+      // pdom
+      accessibleHelpText: GreenhouseEffectFluent.a11y.layerModel.localSunlightHelpTextStringProperty,
+
+      // phet-io
+      tandem: tandem
+    } );
+  }
+}
+
+export default InsolationControl;
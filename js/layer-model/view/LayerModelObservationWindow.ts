@@ -8,16 +8,17 @@
  */
 
 import BooleanProperty from '../../../../axon/js/BooleanProperty.js';
+import Multilink from '../../../../axon/js/Multilink.js';
 import StringUtils from '../../../../phetcommon/js/util/StringUtils.js';
 import ManualConstraint from '../../../../scenery/js/layout/constraints/ManualConstraint.js';
 import Node from '../../../../scenery/js/nodes/Node.js';
 import Path from '../../../../scenery/js/nodes/Path.js';
+import Rectangle from '../../../../scenery/js/nodes/Rectangle.js';
 import Color from '../../../../scenery/js/util/Color.js';
 import DisplayedProperty from '../../../../scenery/js/util/DisplayedProperty.js';
 import LinearGradient from '../../../../scenery/js/util/LinearGradient.js';
 import soundManager from '../../../../tambo/js/soundManager.js';
 import Tandem from '../../../../tandem/js/Tandem.js';
-import LayersModel from '../../common/model/LayersModel.js';
 import PhotonSprites from '../../common/PhotonSprites.js';
 import AtmosphericPhotonsSoundGenerator from '../../common/view/AtmosphericPhotonsSoundGenerator.js';
 import FluxSensorAltitudeDescriptionProperty from '../../common/view/describers/FluxSensorAltitudeDescriptionProperty.js';
@@ -27,6 +28,7 @@ import LayerModelModelAlerter from '../../common/view/LayerModelModelAlerter.js'
 import ThermometerAndReadout from '../../common/view/ThermometerAndReadout.js';
 import GreenhouseEffectFluent from '../../GreenhouseEffectFluent.js';
 import LayerModelModel from '../model/LayerModelModel.js';
+import Planet from '../model/Planet.js';
 import AtmosphereLayerNode, { AtmosphereLayerNodeOptions } from './AtmosphereLayerNode.js';
 import FluxSensorLayerRelationshipProperty from './describers/FluxSensorLayerRelationshipProperty.js';
 import LayerTemperatureCheckedDescriptionProperty from './describers/LayerTemperatureCheckedDescriptionProperty.js';
@@ -39,6 +41,32 @@ import ShowTemperatureCheckbox from './ShowTemperatureCheckbox.js';
 // description spec and are intended to prevent the sensor from ever landing on the layers.
 const ALLOWED_KEYBOARD_NAV_ALTITUDES = [ 750, 5525, 10300, 14700, 18750, 22800, 27200, 31250, 35300, 39700, 44500, 49300 ];
 
+// The appearance of the sky and ground for each planet.  There is no landscape artwork for the planets, so instead the
+// sky is shaded to look roughly like that of the planet, and the ground tint is multiplied with the albedo-based shade
+// of the ground.  The sky colors go from the top of the observation window to the horizon.
+type PlanetAppearance = {
+  skyColors: ( Color | string )[];
+  groundTint: Color;
+};
+const PLANET_APPEARANCES = new Map<Planet, PlanetAppearance>( [
+  [ Planet.EARTH, {
+    skyColors: GreenhouseEffectObservationWindow.SKY_COLORS,
+    groundTint: Color.WHITE
+  } ],
+  [ Planet.VENUS, {
+    skyColors: [ '#1A1400', '#806020', '#C09040', '#E6C880' ],
+    groundTint: new Color( 255, 220, 160 )
+  } ],
+  [ Planet.MARS, {
+    skyColors: [ '#0D0805', '#6B4A33', '#A87850', '#D9B08C' ],
+    groundTint: new Color( 255, 150, 100 )
+  } ],
+  [ Planet.SNOWBALL_EARTH, {
+    skyColors: [ '#0A1419', '#4D7F99', '#8CB8CC', '#D9ECF2' ],
+    groundTint: new Color( 235, 245, 255 )
+  } ]
+] );
+
 class LayerModelObservationWindow extends GreenhouseEffectObservationWindow {
   private readonly photonsNode: PhotonSprites;
   public readonly atmosphereLayerNodes: AtmosphereLayerNode[] = [];
@@ -235,6 +263,8 @@ class LayerModelObservationWindow extends GreenhouseEffectObservationWindow {
       this.startSunlightButton,
       layerModelObservationWindowPDOMNode,
       this.energyBalancePanel,
+      this.temperatureGraphPanel,
+      this.temperatureProfilePanel,
       this.fluxMeterNode
     ];
 
@@ -272,9 +302,24 @@ class LayerModelObservationWindow extends GreenhouseEffectObservationWindow {
   }
 
   /**
-   * Create a ground node that is a shape whose color will change with the albedo.
+   * Create a sky node whose colors will change with the planet.
    */
-  protected override createGroundNode( model: LayersModel ): Node {
+  protected override createSkyNode( model: LayerModelModel ): Node {
+    const size = GreenhouseEffectObservationWindow.SIZE;
+    const skyNode = new Rectangle( 0, 0, size.width, size.height );
+
+    // Shade the sky to match the planet.
+    model.planetProperty.link( planet => {
+      skyNode.fill = GreenhouseEffectObservationWindow.createSkyGradient( PLANET_APPEARANCES.get( planet )!.skyColors );
+    } );
+
+    return skyNode;
+  }
+
+  /**
+   * Create a ground node that is a shape whose color will change with the albedo and the planet.
+   */
+  protected override createGroundNode( model: LayerModelModel ): Node {
 
     // ground shape
     const groundShape = GreenhouseEffectObservationWindow.createGroundShape();
@@ -284,10 +329,15 @@ class LayerModelObservationWindow extends GreenhouseEffectObservationWindow {
       bottom: GreenhouseEffectObservationWindow.SIZE.height
     } );
 
-    // Adjust the color of the ground as the albedo changes.
-    model.groundLayer.albedoProperty.link( albedo => {
+    // Adjust the color of the ground as the albedo and planet change.
+    Multilink.multilink( [ model.groundLayer.albedoProperty, model.planetProperty ], ( albedo, planet ) => {
       const colorBaseValue = Math.min( 255 * albedo / 0.9, 255 );
-      const baseColor = new Color( colorBaseValue, colorBaseValue, colorBaseValue );
+      const tint = PLANET_APPEARANCES.get( planet )!.groundTint;
+      const baseColor = new Color(
+        colorBaseValue * tint.red / 255,
+        colorBaseValue * tint.green / 255,
+        colorBaseValue * tint.blue / 255
+      );
       const bounds = groundNodePath.localBounds;
       groundNodePath.fill = new LinearGradient( 0, bounds.minY, 0, bounds.maxY )
         .addColorStop( 0, baseColor.colorUtilsDarker( 0.2 ) )
@@ -9,22 +9,64 @@
 
 import DerivedProperty from '../../../../axon/js/DerivedProperty.js';
 import Multilink from '../../../../axon/js/Multilink.js';
+import { TReadOnlyProperty } from '../../../../axon/js/TReadOnlyProperty.js';
 import Utils from '../../../../dot/js/Utils.js';
 import StringUtils from '../../../../phetcommon/js/util/StringUtils.js';
 import Node from '../../../../scenery/js/nodes/Node.js';
+import GreenhouseEffectQueryParameters from '../../common/GreenhouseEffectQueryParameters.js';
 import RadiationDescriber from '../../common/view/describers/RadiationDescriber.js';
 import TemperatureDescriber from '../../common/view/describers/TemperatureDescriber.js';
 import EnergyRepresentation from '../../common/view/EnergyRepresentation.js';
 import ObservationWindowPDOMNode from '../../common/view/ObservationWindowPDOMNode.js';
 import GreenhouseEffectFluent from '../../GreenhouseEffectFluent.js';
 import LayerModelModel from '../model/LayerModelModel.js';
+import Planet from '../model/Planet.js';
 import InfraredAbsorbingLayersDescriptionProperty from './describers/InfraredAbsorbingLayersDescriptionProperty.js';
+import PlanetControl from './PlanetControl.js';
+
+// descriptions of the sky and ground shown in the observation window for each planet
+const PLANET_LANDSCAPE_STRING_PROPERTIES = new Map<Planet, TReadOnlyProperty<string>>( [
+  [ Planet.EARTH, GreenhouseEffectFluent.a11y.layerModel.earthLandscapeStringProperty ],
+  [ Planet.VENUS, GreenhouseEffectFluent.a11y.layerModel.venusLandscapeStringProperty ],
+  [ Planet.MARS, GreenhouseEffectFluent.a11y.layerModel.marsLandscapeStringProperty ],
+  [ Planet.SNOWBALL_EARTH, GreenhouseEffectFluent.a11y.layerModel.snowballEarthLandscapeStringProperty ]
+] );
 
 class LayerModelObservationWindowPDOMNode extends ObservationWindowPDOMNode {
 
   public constructor( model: LayerModelModel ) {
     super( model.sunEnergySource.isShiningProperty );
 
+    // Create a scenery Node that will add the description of the planet into the PDOM.
+    const planetListItemNode = new Node( {
+      tagName: 'li'
+    } );
+    this.addChild( planetListItemNode );
+
+    // Update the PDOM item for the planet and its landscape when it or any of the strings change.  The planet is only
+    // described when it can be selected or is something other than the Earth, so that the description is otherwise
+    // unchanged.
+    Multilink.multilinkAny(
+      [
+        model.planetProperty,
+        GreenhouseEffectFluent.a11y.layerModel.planetPatternStringProperty,
+        ...Planet.enumeration.values.map( planet => PlanetControl.getPlanetNameStringProperty( planet ) ),
+        ...Array.from( PLANET_LANDSCAPE_STRING_PROPERTIES.values() )
+      ],
+      () => {
+        const planet = model.planetProperty.value;
+        planetListItemNode.innerContent = StringUtils.fillIn(
+          GreenhouseEffectFluent.a11y.layerModel.planetPatternStringProperty.value,
+          {
+            planet: PlanetControl.getPlanetNameStringProperty( planet ).value,
+            landscape: PLANET_LANDSCAPE_STRING_PROPERTIES.get( planet )!.value
+          }
+        );
+        planetListItemNode.accessibleVisible = GreenhouseEffectQueryParameters.planetSelector ||
+                                               planet !== Planet.EARTH;
+      }
+    );
+
     // Create a string Property that describes the number of infrared-absorbing layers in the atmosphere.
     const infraredAbsorbingLayersPhraseProperty = new InfraredAbsorbingLayersDescriptionProperty(
       model.numberOfActiveAtmosphereLayersProperty
@@ -8,14 +8,17 @@
 
 import Node from '../../../../scenery/js/nodes/Node.js';
 import Tandem from '../../../../tandem/js/Tandem.js';
+import DataRecorderControls from '../../common/view/DataRecorderControls.js';
 import GreenhouseEffectScreenView from '../../common/view/GreenhouseEffectScreenView.js';
 import LayersModelTimeControlNode from '../../common/view/LayersModelTimeControlNode.js';
 import MorePhotonsCheckbox from '../../common/view/MorePhotonsCheckbox.js';
+import VolcanicEruptionControl from '../../common/view/VolcanicEruptionControl.js';
 import GreenhouseEffectFluent from '../../GreenhouseEffectFluent.js';
 import LayerModelModel from '../model/LayerModelModel.js';
 import InfraredPanel from './InfraredPanel.js';
 import LayerModelObservationWindow from './LayerModelObservationWindow.js';
 import LayerModelScreenSummaryContentNode from './LayerModelScreenSummaryContentNode.js';
+import PlanetControl from './PlanetControl.js';
 import SunlightPanel from './SunlightPanel.js';
 import TemperatureUnitsControl from './TemperatureUnitsControl.js';
 
@@ -61,7 +64,23 @@ class LayerModelScreenView extends GreenhouseEffectScreenView {
     morePhotonsCheckbox.left = this.observationWindow.left;
     morePhotonsCheckbox.top = temperatureUnitsControl.bottom + 12;
 
-    // controls on the side
+    // controls for recording and exporting data from the model
+    const dataRecorderControls = new DataRecorderControls( model.dataRecorder, {
+      tandem: tandem.createTandem( 'dataRecorderControls' )
+    } );
+    dataRecorderControls.right = this.resetAllButton.left - 20;
+    dataRecorderControls.centerY = this.resetAllButton.centerY;
+    this.addChild( dataRecorderControls );
+
+    // controls on the side, starting with the planet selector, which is only shown when the corresponding query
+    // parameter is set
+    const planetControl = new PlanetControl(
+      model.planetProperty,
+      this.energyLegend.width,
+      tandem.createTandem( 'planetControl' )
+    );
+    this.legendAndControlsVBox.addChild( planetControl );
+
     const sunlightPanel = new SunlightPanel(
       this.energyLegend.width,
       model,
@@ -76,6 +95,18 @@ class LayerModelScreenView extends GreenhouseEffectScreenView {
     );
     this.legendAndControlsVBox.addChild( infraredPanel );
 
+    // Add the control for triggering a volcanic eruption if the model includes aerosols, which is only the case when
+    // the corresponding query parameter is set.
+    let volcanicEruptionControl: VolcanicEruptionControl | null = null;
+    if ( model.aerosolLayer ) {
+      volcanicEruptionControl = new VolcanicEruptionControl(
+        model.aerosolLayer,
+        this.energyLegend.width,
+        tandem.createTandem( 'volcanicEruptionControl' )
+      );
+      this.legendAndControlsVBox.addChild( volcanicEruptionControl );
+    }
+
     // Add a Node that will contain the thermometer heading and controls in the PDOM.  This will not appear in the scene
     // graph.
     const thermometerPdomSection = new Node( {
@@ -91,8 +122,10 @@ class LayerModelScreenView extends GreenhouseEffectScreenView {
     this.pdomPlayAreaNode.pdomOrder = [
       this.observationWindow,
       this.energyLegend,
+      planetControl,
       sunlightPanel,
       infraredPanel,
+      volcanicEruptionControl,
       thermometerPdomSection,
       observationWindow.instrumentVisibilityPanel,
       observationWindow.fluxMeterNode!.fluxSensorNode
@@ -106,6 +139,7 @@ class LayerModelScreenView extends GreenhouseEffectScreenView {
       temperatureUnitsControl,
       morePhotonsCheckbox,
       this.timeControlNode,
+      dataRecorderControls,
       this.resetAllButton
     ];
   }
@@ -0,0 +1,99 @@
+// Copyright 2026, University of Colorado Boulder
+
+/**
+ * PlanetControl is a UI component that allows a user to select the planet whose settings are used for the sun, ground,
+ * and atmosphere, using a vertical set of radio buttons.  It is only shown by default when requested via query
+ * parameter.
+ *
+ * @author John Blanco (PhET Interactive Simulations)
+ */
+
+import Property from '../../../../axon/js/Property.js';
+import { TReadOnlyProperty } from '../../../../axon/js/TReadOnlyProperty.js';
+import VBox from '../../../../scenery/js/layout/nodes/VBox.js';
+import Text from '../../../../scenery/js/nodes/Text.js';
+import AquaRadioButtonGroup, { AquaRadioButtonGroupItem } from '../../../../sun/js/AquaRadioButtonGroup.js';
+import Tandem from '../../../../tandem/js/Tandem.js';
+import GreenhouseEffectConstants from '../../common/GreenhouseEffectConstants.js';
+import GreenhouseEffectQueryParameters from '../../common/GreenhouseEffectQueryParameters.js';
+import GreenhouseEffectFluent from '../../GreenhouseEffectFluent.js';
+import Planet from '../model/Planet.js';
+
+// names of the planets, used for the radio buttons and the descriptions
+const PLANET_NAME_STRING_PROPERTIES = new Map<Planet, TReadOnlyProperty<string>>( [
+  [ Planet.EARTH, GreenhouseEffectFluent.planets.earthStringProperty ],
+  [ Planet.VENUS, GreenhouseEffectFluent.planets.venusStringProperty ],
+  [ Planet.MARS, GreenhouseEffectFluent.planets.marsStringProperty ],
+  [ Planet.SNOWBALL_EARTH, GreenhouseEffectFluent.planets.snowballEarthStringProperty ]
+] );
+
+class PlanetControl extends VBox {
+  public constructor( planetProperty: Property<Planet>, width: number, tandem: Tandem ) {
+
+    // Create the label that sits above the radio buttons.
+    const text = new Text( GreenhouseEffectFluent.planetStringProperty, {
+      font: GreenhouseEffectConstants.LABEL_FONT,
+      maxWidth: width
+    } );
+
+    // Options shared by the labels for all radio buttons
+    const textOptions = {
+      font: GreenhouseEffectConstants.LABEL_FONT,
+      maxWidth: width * 0.8
+    };
+
+    // Items that describe the radio buttons
+    const items: AquaRadioButtonGroupItem<Planet>[] = Planet.enumeration.values.map( planet => {
+      const planetNameStringProperty = PlanetControl.getPlanetNameStringProperty( planet );
+      return {
+        createNode: () => new Text( planetNameStringProperty, textOptions ),
+        value: planet,
+        tandemName: `${_.camelCase( planet.name )}RadioButton`,
+        options: {
+          accessibleName: planetNameStringProperty
+        }
+      };
+    } );
+
+    // Create the radio buttons.
+    const planetRadioButtonGroup = new AquaRadioButtonGroup<Planet>( planetProperty, items, {
+      orientation: 'vertical',
+      spacing: 6,
+      touchAreaXDilation: 6,
+      touchAreaYDilation: 4,
+      radioButtonOptions: {
+        radius: 6
+      },
+      tandem: tandem.createTandem( 'planetRadioButtonGroup' ),
+      phetioVisiblePropertyInstrumented: false,
+
+      // pdom
+      accessibleName: GreenhouseEffectFluent.planetStringProperty,
+      accessibleHelpText: GreenhouseEffectFluent.a11y.layerModel.planetHelpTextStringProperty
+    } );
+
+    // Put the label and radio buttons together in the VBox.
+    super( {
+      children: [ text, planetRadioButtonGroup ],
+      align: 'left',
+      spacing: 5,
+      visible: GreenhouseEffectQueryParameters.planetSelector,
+      visiblePropertyOptions: {
+        phetioFeatured: true
+      },
+      tandem: tandem,
+      isDisposable: false
+    } );
+  }
+
+  /**
+   * Get the string Property with the name of the provided planet.
+   */
+  public static getPlanetNameStringProperty( planet: Planet ): TReadOnlyProperty<string> {
+    const planetNameStringProperty = PLANET_NAME_STRING_PROPERTIES.get( planet );
+    assert && assert( planetNameStringProperty, `no name for planet: ${planet.name}` );
+    return planetNameStringProperty!;
+  }
+}
+
+export default PlanetControl;
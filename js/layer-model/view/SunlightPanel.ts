@@ -1,15 +1,18 @@
 // Copyright 2021-2026, University of Colorado Boulder
 
 /**
- * Controls for the output level of the sun and the albedo (i.e. reflection level) of the ground.
+ * Controls for the output level of the sun and the albedo (i.e. reflection level) of the ground, and optionally for the
+ * location and date on which the sunlight is based and for the day/night cycle.
  *
  * @author John Blanco (PhET Interactive Simulations)
  */
 
 import Dimension2 from '../../../../dot/js/Dimension2.js';
 import Tandem from '../../../../tandem/js/Tandem.js';
+import DiurnalCycleControl from '../../common/view/DiurnalCycleControl.js';
 import GreenhouseEffectFluent from '../../GreenhouseEffectFluent.js';
 import LayerModelModel from '../model/LayerModelModel.js';
+import InsolationControl from './InsolationControl.js';
 import LayerScreenControlPanel from './LayerScreenControlPanel.js';
 import SolarIntensityControl from './SolarIntensityControl.js';
 import SurfaceAlbedoControl from './SurfaceAlbedoControl.js';
@@ -34,8 +37,20 @@ export default class SunlightPanel extends LayerScreenControlPanel {
       tandem.createTandem( 'surfaceAlbedoControl' )
     );
 
+    const insolationControl = new InsolationControl(
+      layersModel.sunEnergySource,
+      sliderTrackSize,
+      tandem.createTandem( 'insolationControl' )
+    );
+
+    const diurnalCycleControl = new DiurnalCycleControl(
+      layersModel.sunEnergySource,
+      width,
+      tandem.createTandem( 'diurnalCycleControl' )
+    );
+
     super(
-      [ solarIntensityControl, surfaceAlbedoControl ],
+      [ solarIntensityControl, insolationControl, diurnalCycleControl, surfaceAlbedoControl ],
       width,
       layersModel,
       GreenhouseEffectFluent.sunlightStringProperty,
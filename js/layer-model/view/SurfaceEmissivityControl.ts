@@ -0,0 +1,81 @@
+// Copyright 2026, University of Colorado Boulder
+
+/**
+ * SurfaceEmissivityControl controls the emissivity of the surface (ground), which determines how much infrared energy
+ * it radiates at a given temperature.  It is a labeled slider with the standard slider sounds.
+ *
+ * @author John Blanco (PhET Interactive Simulations)
+ */
+
+import TRangedProperty from '../../../../axon/js/TRangedProperty.js';
+import Dimension2 from '../../../../dot/js/Dimension2.js';
+import Utils from '../../../../dot/js/Utils.js';
+import { combineOptions } from '../../../../phet-core/js/optionize.js';
+import VBox from '../../../../scenery/js/layout/nodes/VBox.js';
+import Text from '../../../../scenery/js/nodes/Text.js';
+import HSlider from '../../../../sun/js/HSlider.js';
+import { SliderOptions } from '../../../../sun/js/Slider.js';
+import Tandem from '../../../../tandem/js/Tandem.js';
+import GreenhouseEffectConstants from '../../common/GreenhouseEffectConstants.js';
+import GreenhouseEffectQueryParameters from '../../common/GreenhouseEffectQueryParameters.js';
+import GreenhouseEffectFluent from '../../GreenhouseEffectFluent.js';
+
+const SURFACE_EMISSIVITY_SLIDER_STEP_SIZE = 0.1;
+
+export default class SurfaceEmissivityControl extends VBox {
+
+  public constructor( surfaceEmissivityProperty: TRangedProperty, sliderTrackSize: Dimension2, tandem: Tandem ) {
+
+    // convenience variable
+    const surfaceEmissivityRange = surfaceEmissivityProperty.range;
+
+    // Label
+    const labelText = new Text( GreenhouseEffectFluent.surfaceEmissivityStringProperty, {
+      font: GreenhouseEffectConstants.LABEL_FONT
+    } );
+
+    // Slider
+    const slider = new HSlider(
+      surfaceEmissivityProperty,
+      surfaceEmissivityRange,
+      combineOptions<SliderOptions>( {}, GreenhouseEffectConstants.SLIDER_OPTIONS, {
+        trackSize: sliderTrackSize,
+        constrainValue: ( value: number ) => Utils.roundToInterval( value, SURFACE_EMISSIVITY_SLIDER_STEP_SIZE ),
+        keyboardStep: SURFACE_EMISSIVITY_SLIDER_STEP_SIZE,
+        shiftKeyboardStep: SURFACE_EMISSIVITY_SLIDER_STEP_SIZE,
+        pageKeyboardStep: SURFACE_EMISSIVITY_SLIDER_STEP_SIZE * 2,
+        labelContent: GreenhouseEffectFluent.surfaceEmissivityStringProperty,
+        labelTagName: 'label',
+        accessibleHelpText: GreenhouseEffectFluent.a11y.layerModel.surfaceEmissivityHelpTextStringProperty,
+        valueChangeSoundGeneratorOptions: {
+          numberOfMiddleThresholds: 8
+        },
+        isDisposable: false,
+        tandem: tandem.createTandem( 'slider' ),
+        phetioVisiblePropertyInstrumented: false
+      } )
+    );
+
+    // Tick marks
+    slider.addMajorTick(
+      surfaceEmissivityRange.min,
+      new Text( surfaceEmissivityRange.min, GreenhouseEffectConstants.TICK_MARK_TEXT_OPTIONS )
+    );
+    slider.addMajorTick(
+      surfaceEmissivityRange.max,
+      new Text( surfaceEmissivityRange.max, GreenhouseEffectConstants.TICK_MARK_TEXT_OPTIONS )
+    );
+    const distanceBetweenMinorTicks = 0.1;
+    _.times( Utils.roundSymmetric( surfaceEmissivityRange.getLength() / distanceBetweenMinorTicks ) - 1, index => {
+      slider.addMinorTick( surfaceEmissivityRange.min + ( index + 1 ) * distanceBetweenMinorTicks );
+    } );
+
+    super( {
+      children: [ labelText, slider ],
+      spacing: 1,
+      visible: GreenhouseEffectQueryParameters.surfaceEmissivityControl,
+      tandem: tandem,
+      visiblePropertyOptions: { phetioFeatured: true }
+    } );
+  }
+}
@@ -7,13 +7,15 @@
  */
 
 import Screen from '../../../joist/js/Screen.js';
+import { combineOptions } from '../../../phet-core/js/optionize.js';
 import Tandem from '../../../tandem/js/Tandem.js';
 import GreenhouseEffectColors from '../common/GreenhouseEffectColors.js';
 import GreenhouseEffectConstants from '../common/GreenhouseEffectConstants.js';
+import QueryParameterModelOptions from '../common/QueryParameterModelOptions.js';
 import GreenhouseEffectIconFactory from '../common/view/GreenhouseEffectIconFactory.js';
 import GreenhouseEffectKeyboardHelpContent from '../common/view/GreenhouseEffectKeyboardHelpContent.js';
 import GreenhouseEffectFluent from '../GreenhouseEffectFluent.js';
-import PhotonsModel from './model/PhotonsModel.js';
+import PhotonsModel, { PhotonModelOptions } from './model/PhotonsModel.js';
 import PhotonsScreenView from './view/PhotonsScreenView.js';
 
 class PhotonsScreen extends Screen<PhotonsModel, PhotonsScreenView> {
@@ -32,7 +34,10 @@ class PhotonsScreen extends Screen<PhotonsModel, PhotonsScreenView> {
     };
 
     super(
-      () => new PhotonsModel( { tandem: tandem.createTandem( 'model' ) } ),
+      () => new PhotonsModel( combineOptions<PhotonModelOptions>(
+        { tandem: tandem.createTandem( 'model' ) },
+        QueryParameterModelOptions.getConcentrationModelOptions()
+      ) ),
       model => new PhotonsScreenView( model, tandem.createTandem( 'view' ) ),
       options
     );
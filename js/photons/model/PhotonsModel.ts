@@ -7,12 +7,14 @@
  * @author Jesse Greenberg (PhET Interactive Simulations)
  */
 
-import DerivedProperty from '../../../../axon/js/DerivedProperty.js';
-import Bounds2, { Bounds2StateObject } from '../../../../dot/js/Bounds2.js';
 import dotRandom from '../../../../dot/js/dotRandom.js';
+import Vector2 from '../../../../dot/js/Vector2.js';
 import optionize, { EmptySelfOptions } from '../../../../phet-core/js/optionize.js';
+import TimeSpeed from '../../../../scenery-phet/js/TimeSpeed.js';
 import IOType from '../../../../tandem/js/types/IOType.js';
-import ConcentrationModel, { ConcentrationControlMode, ConcentrationDate, ConcentrationModelOptions, ConcentrationModelStateObject } from '../../common/model/ConcentrationModel.js';
+import AerosolLayer from '../../common/model/AerosolLayer.js';
+import Cloud from '../../common/model/Cloud.js';
+import ConcentrationModel, { ConcentrationModelOptions, ConcentrationModelStateObject } from '../../common/model/ConcentrationModel.js';
 import isVisible from '../../common/model/isVisible.js';
 import Photon from '../../common/model/Photon.js';
 import PhotonCollection from '../../common/model/PhotonCollection.js';
@@ -24,6 +26,11 @@ type PhotonModelOptions = SelfOptions & ConcentrationModelOptions;
 const MAX_REFLECTION_ADJUSTMENT = Math.PI * 0.25; // empirically determined by what looked good
 const MIN_REFLECTION_ADJUSTMENT = MAX_REFLECTION_ADJUSTMENT * 0.2; // empirically determined by what looked good
 
+// The probability that a visible photon hitting the main cloud is reflected when it is a stratus cloud.  The value is
+// taken from "The impact of clouds on the brightness of the night sky" by Tomasz Ściężor, then tweaked a little based
+// on designer input.
+const MAIN_CLOUD_REFLECTION_PROBABILITY = 0.65;
+
 /**
  * @constructor
  */
@@ -32,41 +39,40 @@ class PhotonsModel extends ConcentrationModel {
   // the collection of visible and IR photons that move around and interact with the ground and atmosphere
   public readonly photonCollection: PhotonCollection;
 
-  // set of photons that are passing through the cloud
-  private photonsPassingThroughCloud: Photon[] = [];
+  // all the clouds in the model, whether enabled or not
+  private readonly clouds: Cloud[];
 
-  // bounds of the cloud, calculated during construction to save time later
-  private readonly cloudBounds: Bounds2;
+  // A map of each cloud to the photons that are passing through it.  These are tracked separately for each cloud so
+  // that a photon that has interacted with one cloud can still interact with another one that it reaches later.
+  private readonly cloudToPassingPhotonsMap: Map<Cloud, Photon[]>;
 
   public constructor( providedOptions: PhotonModelOptions ) {
 
     const options = optionize<PhotonModelOptions, SelfOptions, ConcentrationModelOptions>()( {
       fluxMeterPresent: true,
+
+      // Include a fast speed so that students don't have to wait as long for the temperature to settle.
+      timeSpeeds: [ TimeSpeed.FAST, TimeSpeed.NORMAL, TimeSpeed.SLOW ],
+
       phetioType: PhotonsModel.PhotonsModelIO,
       phetioState: true
     }, providedOptions );
 
     super( options );
 
-    // derived Property that is true when a glacier is present on the ground, false otherwise
-    const glacierPresentProperty = new DerivedProperty(
-      [ this.concentrationControlModeProperty, this.dateProperty ],
-      ( concentrationControlMode, date ) => concentrationControlMode === ConcentrationControlMode.BY_DATE &&
-                                            date === ConcentrationDate.ICE_AGE
-    );
-
     this.photonCollection = new PhotonCollection( this.sunEnergySource, this.groundLayer, this.atmosphereLayers, {
       photonAbsorbingEmittingLayerOptions: {
         photonAbsorptionTime: 0.1,
         photonMaxLateralJumpProportion: 0,
         absorbanceMultiplier: 10 // empirically determined to give us the desired visual behavior, adjust as needed
       },
-      glacierPresentProperty: glacierPresentProperty,
+      glacierExtentProperty: this.glacierExtentProperty,
       tandem: options.tandem.createTandem( 'photonCollection' )
     } );
 
     assert && assert( this.cloud, 'The cloud should always be present in the PhotonsModel' );
-    this.cloudBounds = this.cloud!.modelShape.bounds;
+    this.clouds = this.getClouds();
+    this.cloudToPassingPhotonsMap = new Map( this.clouds.map( cloud => [ cloud, [] ] ) );
   }
 
   /**
@@ -76,18 +82,19 @@ class PhotonsModel extends ConcentrationModel {
   public override stepModel( dt: number ): void {
     this.photonCollection.step( dt );
 
-    // Check for interaction between the photons and the cloud.  This will cause some photons to reflect off the cloud.
-    if ( this.cloud?.enabledProperty.value ) {
-
-      assert && assert(
-        this.cloud,
-        'The model should never be in a state where the cloud is enabled but there is no cloud model'
-      );
+    // Check for interaction between the photons and the clouds.  This will cause some visible photons to reflect off
+    // the tops of the clouds and some IR photons to reflect off the bottoms.
+    if ( this.clouds.some( cloud => cloud.enabledProperty.value ) ) {
 
-      // Check if any photons are hitting the cloud and either reflect them or let them pass through.
+      // Check if any photons are hitting the clouds and either reflect them or let them pass through.
       this.checkForCloudPhotonInteractions();
     }
 
+    // If there are aerosols in the atmosphere, check for visible photons reflecting off of them.
+    if ( this.aerosolLayer && this.aerosolLayer.reflectivityProperty.value > 0 ) {
+      this.checkForAerosolPhotonInteractions( this.aerosolLayer );
+    }
+
     super.stepModel( dt );
   }
 
@@ -96,87 +103,138 @@ class PhotonsModel extends ConcentrationModel {
    */
   public override reset(): void {
     this.photonCollection.reset();
+    this.cloudToPassingPhotonsMap.forEach( passingPhotons => { passingPhotons.length = 0; } );
     super.reset();
   }
 
   /**
-   * Check for photon-cloud interactions and reflect photons off the cloud when appropriate.
+   * Check for photon-cloud interactions and reflect photons off the clouds when appropriate.  Visible photons can
+   * reflect off the tops of the clouds and IR photons can reflect off the bottoms.  The clouds can move, so the
+   * interactions are based on where each cloud is at the time of the check.
    */
   private checkForCloudPhotonInteractions(): void {
 
-    // Get a list of all photons that could potentially reflect off of the cloud.
-    const photonsThatCouldReflect = this.photonCollection.photons.filter(
-      photon => isVisible( photon ) &&
-                photon.velocity.y < 0 &&
-                !this.photonsPassingThroughCloud.includes( photon ) &&
-                this.cloud!.modelShape.containsPoint( photon.positionProperty.value )
-    );
+    this.clouds.forEach( cloud => {
+
+      const passingPhotons = this.cloudToPassingPhotonsMap.get( cloud )!;
+
+      if ( cloud.enabledProperty.value ) {
+
+        // Get a list of all photons that could potentially reflect off of this cloud.
+        const modelShape = cloud.modelShape;
+        const photonsThatCouldReflect = this.photonCollection.photons.filter(
+          photon => !passingPhotons.includes( photon ) && modelShape.containsPoint( photon.positionProperty.value )
+        );
+
+        // For each of these photons, decide whether to reflect it.  This is done randomly based on the reflectivity of
+        // the cloud for the type of photon and the side of the cloud that it hit.
+        photonsThatCouldReflect.forEach( photon => {
+          const movingDown = photon.velocity.y < 0;
+          const reflectionProbability = PhotonsModel.getReflectionProbability( cloud, isVisible( photon ), movingDown );
+          if ( dotRandom.nextDouble() < reflectionProbability ) {
+
+            // Reflect the photon by reversing the vertical component of its velocity.
+            photon.velocity.y = -photon.velocity.y;
+
+            // Make the reflection look a little more natural by changing the angle.  This rotates the velocity vector
+            // of the reflected photon a little to the right if it reflected off the right side of the cloud and a
+            // little to the left if reflected off the left side.  The rotation is in the opposite direction for photons
+            // that are reflected downward.
+            const normalizedSignedDistanceFromCenter = ( photon.positionProperty.value.x - cloud.position.x ) * 2 /
+                                                       modelShape.bounds.width;
+            const reflectionAngleAdjustment = -Math.sign( normalizedSignedDistanceFromCenter ) *
+                                              MIN_REFLECTION_ADJUSTMENT +
+                                              -normalizedSignedDistanceFromCenter *
+                                              ( MAX_REFLECTION_ADJUSTMENT - MIN_REFLECTION_ADJUSTMENT );
+            photon.velocity.rotate( movingDown ? reflectionAngleAdjustment : -reflectionAngleAdjustment );
+          }
+
+          // Add this photon to the pass-through list so that it can leave the cloud, either by going all the way
+          // through or by heading back the way it came, without interacting with it again.
+          passingPhotons.push( photon );
+        } );
+      }
 
-    // For each of these photons, decide whether to reflect it or add it to the pass-through list.  This is done
-    // randomly based on the albedo of the cloud.  The albedo value is taken from "The impact of clouds on the
-    // brightness of the night sky" by Tomasz Ściężor, then tweaked a little based on designer input.
-    photonsThatCouldReflect.forEach( photon => {
-      if ( dotRandom.nextDouble() < 0.65 ) {
+      // Remove any photons from the pass-through list that have fully transited the cloud.
+      PhotonsModel.filterOutTransitedPhotons( passingPhotons, cloud );
+    } );
+  }
 
-        // Reflect the photon by reversing the vertical component of its velocity.
-        photon.velocity.y = -photon.velocity.y;
+  /**
+   * Check for visible photons that are crossing the altitude of the aerosols and randomly reflect some of them.  The
+   * reflection probability uses the same tuning as the clouds.  The aerosols span the full width of the sky, so there
+   * is no adjustment of the angle of the reflected photons like there is for the clouds.
+   */
+  private checkForAerosolPhotonInteractions( aerosolLayer: AerosolLayer ): void {
 
-        // Make the reflection look a little more natural by changing the angle.  This rotates the velocity vector of
-        // the reflected photon a little to the right if it reflected off the right side of the cloud and a little to
-        // the left if reflected off the left side.
-        const normalizedSignedDistanceFromCenter = ( photon.positionProperty.value.x - this.cloud!.position.x ) * 2 /
-                                                   this.cloud!.modelShape.bounds.width;
-        const reflectionAngleAdjustment = -Math.sign( normalizedSignedDistanceFromCenter ) * MIN_REFLECTION_ADJUSTMENT +
-                                          -normalizedSignedDistanceFromCenter *
-                                          ( MAX_REFLECTION_ADJUSTMENT - MIN_REFLECTION_ADJUSTMENT );
-        photon.velocity.rotate( reflectionAngleAdjustment );
-      }
-      else {
+    const altitude = aerosolLayer.altitudeProperty.value;
+    const reflectionProbability = Math.min(
+      MAIN_CLOUD_REFLECTION_PROBABILITY * aerosolLayer.reflectivityProperty.value /
+      ConcentrationModel.CLOUD_VISIBLE_REFLECTIVITY,
+      1
+    );
+
+    this.photonCollection.photons.forEach( photon => {
+      const previousY = photon.previousPosition.y;
+      const y = photon.positionProperty.value.y;
+      if ( isVisible( photon ) &&
+           ( ( previousY > altitude && y <= altitude ) || ( previousY < altitude && y >= altitude ) ) &&
+           dotRandom.nextDouble() < reflectionProbability ) {
 
-        // Add this photon to the pass-through list so that it can go all the way through the cloud without reflecting.
-        this.photonsPassingThroughCloud.push( photon );
+        // Reflect the photon by reversing the vertical component of its velocity, and move it back to the altitude of
+        // the aerosols so that it doesn't cross it again during the next step.
+        photon.velocity.y = -photon.velocity.y;
+        photon.position = new Vector2( photon.positionProperty.value.x, altitude );
       }
     } );
+  }
 
-    // Remove any photons from the pass-through list that have fully transited the cloud.
-    this.filterOutTransitedPhotons();
+  /**
+   * Get the probability that a photon that hits the provided cloud will be reflected by it.  The probability for
+   * visible photons hitting the main cloud was tuned for the look of the photons, so the other cases use the same
+   * tuning scaled by the reflectivity of the cloud relative to that of the main cloud.
+   * @param cloud
+   * @param visible - true for visible photons, false for IR
+   * @param fromAbove - true for photons that hit the cloud from above, false for those that hit it from below
+   */
+  private static getReflectionProbability( cloud: Cloud, visible: boolean, fromAbove: boolean ): number {
+    return Math.min(
+      MAIN_CLOUD_REFLECTION_PROBABILITY * cloud.getReflectivity( visible, fromAbove ) /
+      ConcentrationModel.CLOUD_VISIBLE_REFLECTIVITY,
+      1
+    );
   }
 
   /**
-   * Go through the list of photons that are transiting the cloud and remove any that have gone all the way through.
+   * Go through the list of photons that are transiting the provided cloud and remove any that have left the altitudes
+   * that it currently spans.
    * This exists as a performance optimization so that the array of transiting photons doesn't have to be re-allocated
    * at every step, thus reducing memory allocations.
    */
-  private filterOutTransitedPhotons(): void {
+  private static filterOutTransitedPhotons( passingPhotons: Photon[], cloud: Cloud ): void {
+    const cloudBounds = cloud.modelShape.bounds;
     let i = 0;
     let j = 0;
-    while ( i < this.photonsPassingThroughCloud.length ) {
-      const photon = this.photonsPassingThroughCloud[ i ];
-      if ( photon.positionProperty.value.y >= this.cloudBounds.minY ) {
-        this.photonsPassingThroughCloud[ j++ ] = photon;
+    while ( i < passingPhotons.length ) {
+      const photon = passingPhotons[ i ];
+      const photonY = photon.positionProperty.value.y;
+      if ( photonY >= cloudBounds.minY && photonY <= cloudBounds.maxY ) {
+        passingPhotons[ j++ ] = photon;
       }
       i++;
     }
-    this.photonsPassingThroughCloud.length = j;
+    passingPhotons.length = j;
   }
 
   /**
    * PhotonsModelIO handles PhET-iO serialization of the PhotonsModel using reference-type serialization.  This approach
    * is used because instances of this type exist for the lifetime of the sim.
    */
-  public static readonly PhotonsModelIO = new IOType<PhotonsModel, PhotonsModelStateObject, PhotonsModelSelfStateObject>( 'PhotonsModelIO', {
+  public static readonly PhotonsModelIO = new IOType<PhotonsModel, ConcentrationModelStateObject>( 'PhotonsModelIO', {
     valueType: PhotonsModel,
-    supertype: ConcentrationModel.ConcentrationModelIO,
-    stateSchema: {
-      cloudBounds: Bounds2.Bounds2IO
-    }
+    supertype: ConcentrationModel.ConcentrationModelIO
   } );
 }
 
-type PhotonsModelSelfStateObject = {
-  cloudBounds: Bounds2StateObject;
-};
-type PhotonsModelStateObject = PhotonsModelSelfStateObject & ConcentrationModelStateObject;
-
 export type { PhotonModelOptions };
 export default PhotonsModel;
@@ -0,0 +1,79 @@
+// Copyright 2026, University of Colorado Boulder
+
+/**
+ * QUnit tests for PhotonsModel, which check that the photons interact with the clouds where the clouds currently are.
+ *
+ * @author John Blanco (PhET Interactive Simulations)
+ */
+
+import dotRandom from '../../../../dot/js/dotRandom.js';
+import Vector2 from '../../../../dot/js/Vector2.js';
+import Tandem from '../../../../tandem/js/Tandem.js';
+import Photon from '../../common/model/Photon.js';
+import PhotonsModel from './PhotonsModel.js';
+
+// number of photons sent towards the cloud, which is enough that some are sure to be reflected
+const NUMBER_OF_PHOTONS = 100;
+
+// time step for the model, in seconds
+const DT = 0.02;
+
+// Number of steps to run the model, which is enough for the photons that aren't reflected to make it all the way
+// through the cloud.
+const NUMBER_OF_STEPS = 40;
+
+// Create visible photons that are spread across the middle of the provided horizontal span and are headed down from
+// just above the provided altitude.
+const createPhotons = ( centerX: number, width: number, altitude: number ): Photon[] => _.times(
+  NUMBER_OF_PHOTONS,
+  index => new Photon(
+    new Vector2( centerX + ( index / ( NUMBER_OF_PHOTONS - 1 ) - 0.5 ) * width / 4, altitude + 50 ),
+    Photon.VISIBLE_WAVELENGTH,
+    { initialVelocity: new Vector2( 0, -Photon.SPEED ) }
+  )
+);
+
+QUnit.module( 'PhotonsModel' );
+
+QUnit.test( 'photons are reflected by a cloud at its new altitude after it moves', assert => {
+  dotRandom.setSeed( 42 );
+  const model = new PhotonsModel( { cloudCoverPresent: true, tandem: Tandem.OPT_OUT } );
+  const cloudCover = model.cloudCover!;
+  cloudCover.coverageProperty.value = cloudCover.coverageProperty.range.max;
+
+  // Raise the highest of the clouds above the altitudes that any of the clouds occupied before the move.
+  const cloud = cloudCover.clouds[ 1 ];
+  const previousTop = cloud.modelShape.bounds.maxY;
+  cloudCover.altitudeOffsetProperty.value = cloudCover.altitudeOffsetProperty.range.max;
+  assert.ok( cloud.modelShape.bounds.minY > previousTop, 'the cloud should be entirely above where it was' );
+
+  const photonsAtNewAltitude = createPhotons( cloud.position.x, cloud.width, cloud.modelShape.bounds.maxY );
+  const photonsAtPreviousAltitude = createPhotons( cloud.position.x, cloud.width, previousTop );
+  const photons = [ ...photonsAtNewAltitude, ...photonsAtPreviousAltitude ];
+  photons.forEach( photon => model.photonCollection.photons.push( photon ) );
+
+  // Count the number of times that each photon reverses its vertical direction.
+  const reversalCounts = new Map<Photon, number>( photons.map( photon => [ photon, 0 ] ) );
+  _.times( NUMBER_OF_STEPS, () => {
+    const movingDownBeforeStep = photons.map( photon => photon.velocity.y < 0 );
+    model.stepModel( DT );
+    photons.forEach( ( photon, index ) => {
+      if ( ( photon.velocity.y < 0 ) !== movingDownBeforeStep[ index ] ) {
+        reversalCounts.set( photon, reversalCounts.get( photon )! + 1 );
+      }
+    } );
+  } );
+
+  assert.ok(
+    photonsAtNewAltitude.some( photon => reversalCounts.get( photon )! > 0 ),
+    'some of the photons should be reflected by the cloud at its new altitude'
+  );
+  assert.ok(
+    photonsAtNewAltitude.every( photon => reversalCounts.get( photon )! <= 1 ),
+    'each photon should be reflected at most once as it passes through the cloud'
+  );
+  assert.ok(
+    photonsAtPreviousAltitude.every( photon => reversalCounts.get( photon )! === 0 ),
+    'no photons should be reflected at the altitude where the cloud was'
+  );
+} );
@@ -99,6 +99,8 @@ class PhotonLandscapeObservationWindow extends LandscapeObservationWindow {
       this.startSunlightButton,
       observationWindowPDOMNode,
       this.energyBalancePanel,
+      this.temperatureGraphPanel,
+      this.temperatureProfilePanel,
       this.fluxMeterNode
     ];
 
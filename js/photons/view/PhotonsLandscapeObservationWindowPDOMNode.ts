@@ -11,10 +11,11 @@
  */
 
 import Multilink from '../../../../axon/js/Multilink.js';
+import TinyProperty from '../../../../axon/js/TinyProperty.js';
 import { TReadOnlyProperty } from '../../../../axon/js/TReadOnlyProperty.js';
 import StringUtils from '../../../../phetcommon/js/util/StringUtils.js';
 import Node from '../../../../scenery/js/nodes/Node.js';
-import { ConcentrationControlMode, ConcentrationDate } from '../../common/model/ConcentrationModel.js';
+import { ConcentrationControlMode } from '../../common/model/ConcentrationModel.js';
 import RadiationDescriber from '../../common/view/describers/RadiationDescriber.js';
 import EnergyRepresentation from '../../common/view/EnergyRepresentation.js';
 import GreenhouseGasConcentrations from '../../common/view/GreenhouseGasConcentrations.js';
@@ -58,15 +59,23 @@ export default class PhotonsLandscapeObservationWindowPDOMNode extends Landscape
     // The density item is requested to come before the surface temperature item.
     this.insertChild( this.indexOfChild( this.surfaceTemperatureItemNode ), this.densityItemNode );
 
-    const gasConcentrations = new GreenhouseGasConcentrations( model.dateProperty );
+    const gasConcentrations = new GreenhouseGasConcentrations( model );
     PhotonsLandscapeObservationWindowPDOMNode.registerConcentrationListener( gasConcentrations.carbonDioxideConcentrationProperty, this.carbonDioxidePPMItemNode, GreenhouseEffectFluent.a11y.carbonDioxidePPMPatternStringProperty );
     PhotonsLandscapeObservationWindowPDOMNode.registerConcentrationListener( gasConcentrations.methaneConcentrationProperty, this.methanePPMItemNode, GreenhouseEffectFluent.a11y.methanePPMPatternStringProperty );
     PhotonsLandscapeObservationWindowPDOMNode.registerConcentrationListener( gasConcentrations.nitrousOxideConcentrationProperty, this.nitrousOxidePPMItemNode, GreenhouseEffectFluent.a11y.nitrousOxidePPMPatternStringProperty );
 
-    // Gas concentration descriptions are only visible when in time period mode.
-    model.concentrationControlModeProperty.link( concentrationControlMode => {
-      ppmItemParentNode.visible = concentrationControlMode === ConcentrationControlMode.BY_DATE;
-    } );
+    // Gas concentration descriptions are only visible when in time period mode, or when the gases are controlled
+    // individually.
+    Multilink.multilink(
+      [
+        model.concentrationControlModeProperty,
+        model.gasComposition ? model.gasComposition.enabledProperty : new TinyProperty( false )
+      ],
+      ( concentrationControlMode, gasCompositionEnabled ) => {
+        ppmItemParentNode.visible = concentrationControlMode === ConcentrationControlMode.BY_DATE ||
+                                    gasCompositionEnabled;
+      }
+    );
 
     // The description for concentration is the same as the WavesLandscapeObservationWindowPDOMNode, but needs
     // to be assigned to a different Node to accomplish the required HTML structure.
@@ -103,13 +112,9 @@ export default class PhotonsLandscapeObservationWindowPDOMNode extends Landscape
         [
           model.cloud.enabledProperty,
           model.sunEnergySource.isShiningProperty,
-          model.concentrationControlModeProperty,
-          model.dateProperty
+          model.glacierPresentProperty
         ],
-        ( cloudEnabled, isShining, concentrationControlMode, date ) => {
-
-          const isGlacierPresent = concentrationControlMode === ConcentrationControlMode.BY_DATE &&
-                                   date === ConcentrationDate.ICE_AGE;
+        ( cloudEnabled, isShining, isGlacierPresent ) => {
           this.sunlightItemNode.innerContent = RadiationDescriber.getSunlightTravelDescription(
             cloudEnabled,
             isGlacierPresent,
@@ -9,12 +9,21 @@
 import VBox from '../../../../scenery/js/layout/nodes/VBox.js';
 import Tandem from '../../../../tandem/js/Tandem.js';
 import GreenhouseEffectConstants from '../../common/GreenhouseEffectConstants.js';
+import ClimateResponseReadout from '../../common/view/ClimateResponseReadout.js';
 import CloudCheckbox from '../../common/view/CloudCheckbox.js';
+import CloudCoverControl from '../../common/view/CloudCoverControl.js';
+import CloudTypeControl from '../../common/view/CloudTypeControl.js';
+import DataRecorderControls from '../../common/view/DataRecorderControls.js';
+import DiurnalCycleControl from '../../common/view/DiurnalCycleControl.js';
+import EmissionsScenarioControl from '../../common/view/EmissionsScenarioControl.js';
 import GreenhouseEffectScreenView from '../../common/view/GreenhouseEffectScreenView.js';
+import GreenhouseGasCompositionControl from '../../common/view/GreenhouseGasCompositionControl.js';
 import GreenhouseGasConcentrationPanel from '../../common/view/GreenhouseGasConcentrationPanel.js';
 import LayersModelTimeControlNode from '../../common/view/LayersModelTimeControlNode.js';
 import MorePhotonsCheckbox from '../../common/view/MorePhotonsCheckbox.js';
 import SurfaceThermometerCheckbox from '../../common/view/SurfaceThermometerCheckbox.js';
+import SurfaceTypeControl from '../../common/view/SurfaceTypeControl.js';
+import VolcanicEruptionControl from '../../common/view/VolcanicEruptionControl.js';
 import PhotonsModel from '../model/PhotonsModel.js';
 import PhotonLandscapeObservationWindow from './PhotonLandscapeObservationWindow.js';
 import PhotonsScreenSummaryContentNode from './PhotonsScreenSummaryContentNode.js';
@@ -72,6 +81,101 @@ class PhotonsScreenView extends GreenhouseEffectScreenView {
     // Add the concentration controls.  It goes into a VBox to support dynamic layout.
     this.legendAndControlsVBox.addChild( greenhouseGasConcentrationPanel );
 
+    // Add the controls for the amounts of the individual greenhouse gases if the model includes them, which is only the
+    // case when the corresponding query parameter is set.  The controls are only shown when the gases set the
+    // concentration.
+    let greenhouseGasCompositionControl: GreenhouseGasCompositionControl | null = null;
+    if ( model.gasComposition ) {
+      greenhouseGasCompositionControl = new GreenhouseGasCompositionControl(
+        model.gasComposition,
+        model.concentrationControlModeProperty,
+        this.energyLegend.width,
+        tandem.createTandem( 'greenhouseGasCompositionControl' )
+      );
+      this.legendAndControlsVBox.addChild( greenhouseGasCompositionControl );
+    }
+
+    // Add the controls for setting the concentration through the emissions if the model includes the carbon cycle,
+    // which is only the case when the corresponding query parameter is set.
+    let emissionsScenarioControl: EmissionsScenarioControl | null = null;
+    if ( model.carbonCycle ) {
+      emissionsScenarioControl = new EmissionsScenarioControl(
+        model.carbonCycle,
+        model.concentrationControlModeProperty,
+        this.energyLegend.width,
+        tandem.createTandem( 'emissionsScenarioControl' )
+      );
+      this.legendAndControlsVBox.addChild( emissionsScenarioControl );
+    }
+
+    // Add the control for the type of the main cloud, which is only shown when the corresponding query parameter is
+    // set.
+    const cloudTypeControl = new CloudTypeControl(
+      model.cloudTypeInManualConcentrationModeProperty,
+      model.concentrationControlModeProperty,
+      this.energyLegend.width,
+      tandem.createTandem( 'cloudTypeControl' )
+    );
+    this.legendAndControlsVBox.addChild( cloudTypeControl );
+
+    // Add the controls for the additional clouds if the model includes them, which is only the case when the
+    // corresponding query parameter is set.
+    let cloudCoverControl: CloudCoverControl | null = null;
+    if ( model.cloudCover ) {
+      cloudCoverControl = new CloudCoverControl(
+        model.cloudCover,
+        this.energyLegend.width,
+        tandem.createTandem( 'cloudCoverControl' )
+      );
+      this.legendAndControlsVBox.addChild( cloudCoverControl );
+    }
+
+    // Add the control for triggering a volcanic eruption if the model includes aerosols, which is only the case when
+    // the corresponding query parameter is set.
+    let volcanicEruptionControl: VolcanicEruptionControl | null = null;
+    if ( model.aerosolLayer ) {
+      volcanicEruptionControl = new VolcanicEruptionControl(
+        model.aerosolLayer,
+        this.energyLegend.width,
+        tandem.createTandem( 'volcanicEruptionControl' )
+      );
+      this.legendAndControlsVBox.addChild( volcanicEruptionControl );
+    }
+
+    // Add the control for choosing whether the ground is land or ocean if the model includes a deep ocean, which is
+    // only the case when the corresponding query parameter is set.
+    let surfaceTypeControl: SurfaceTypeControl | null = null;
+    if ( model.deepOcean ) {
+      surfaceTypeControl = new SurfaceTypeControl(
+        model.groundLayer,
+        model.deepOcean,
+        this.energyLegend.width,
+        tandem.createTandem( 'surfaceTypeControl' )
+      );
+      this.legendAndControlsVBox.addChild( surfaceTypeControl );
+    }
+
+    // Add the controls for the day/night cycle of the sun, which are only shown when the corresponding query parameter
+    // is set.
+    const diurnalCycleControl = new DiurnalCycleControl(
+      model.sunEnergySource,
+      this.energyLegend.width,
+      tandem.createTandem( 'diurnalCycleControl' )
+    );
+    this.legendAndControlsVBox.addChild( diurnalCycleControl );
+
+    // Add the readouts for the radiative forcing and the resulting warming if the model includes them, which is only
+    // the case when the corresponding query parameter is set.
+    let climateResponseReadout: ClimateResponseReadout | null = null;
+    if ( model.climateResponse ) {
+      climateResponseReadout = new ClimateResponseReadout(
+        model.climateResponse,
+        this.energyLegend.width,
+        tandem.createTandem( 'climateResponseReadout' )
+      );
+      this.legendAndControlsVBox.addChild( climateResponseReadout );
+    }
+
     // Create the cloud-control checkbox.
     const cloudCheckbox = new CloudCheckbox(
       model.cloudEnabledInManualConcentrationModeProperty,
@@ -95,6 +199,17 @@ class PhotonsScreenView extends GreenhouseEffectScreenView {
     );
     this.addChild( cloudCheckbox );
 
+    // Keep the legends and controls above the cloud checkbox.
+    this.legendAndControlsVBox.maxHeight = cloudCheckbox.top - this.legendAndControlsVBox.top - 10;
+
+    // controls for recording and exporting data from the model
+    const dataRecorderControls = new DataRecorderControls( model.dataRecorder, {
+      tandem: tandem.createTandem( 'dataRecorderControls' )
+    } );
+    dataRecorderControls.right = this.resetAllButton.left - 20;
+    dataRecorderControls.centerY = this.resetAllButton.centerY;
+    this.addChild( dataRecorderControls );
+
     greenhouseGasConcentrationPanel.leftTop = this.energyLegend.leftBottom.plusXY( 0, 10 );
 
     // pdom - override the pdomOrders for the supertype to insert subtype components in the desired order
@@ -102,6 +217,14 @@ class PhotonsScreenView extends GreenhouseEffectScreenView {
       this.observationWindow,
       this.energyLegend,
       greenhouseGasConcentrationPanel,
+      greenhouseGasCompositionControl,
+      emissionsScenarioControl,
+      cloudTypeControl,
+      cloudCoverControl,
+      volcanicEruptionControl,
+      surfaceTypeControl,
+      diurnalCycleControl,
+      climateResponseReadout,
       observationWindow.instrumentVisibilityPanel,
       observationWindow.fluxMeterNode!.fluxSensorNode,
       cloudCheckbox
@@ -110,6 +233,7 @@ class PhotonsScreenView extends GreenhouseEffectScreenView {
       observationWindow.surfaceThermometer,
       visibilityBox,
       this.timeControlNode,
+      dataRecorderControls,
       this.resetAllButton
     ];
   }
@@ -7,13 +7,15 @@
  */
 
 import Screen from '../../../joist/js/Screen.js';
+import { combineOptions } from '../../../phet-core/js/optionize.js';
 import Tandem from '../../../tandem/js/Tandem.js';
 import GreenhouseEffectColors from '../common/GreenhouseEffectColors.js';
 import GreenhouseEffectConstants from '../common/GreenhouseEffectConstants.js';
+import QueryParameterModelOptions from '../common/QueryParameterModelOptions.js';
 import GreenhouseEffectIconFactory from '../common/view/GreenhouseEffectIconFactory.js';
 import GreenhouseEffectKeyboardHelpContent from '../common/view/GreenhouseEffectKeyboardHelpContent.js';
 import GreenhouseEffectFluent from '../GreenhouseEffectFluent.js';
-import WavesModel from './model/WavesModel.js';
+import WavesModel, { WaveModelOptions } from './model/WavesModel.js';
 import WavesScreenView from './view/WavesScreenView.js';
 
 class WavesScreen extends Screen<WavesModel, WavesScreenView> {
@@ -32,7 +34,10 @@ class WavesScreen extends Screen<WavesModel, WavesScreenView> {
     };
 
     super(
-      () => new WavesModel( { tandem: tandem.createTandem( 'model' ) } ),
+      () => new WavesModel( combineOptions<WaveModelOptions>(
+        { tandem: tandem.createTandem( 'model' ) },
+        QueryParameterModelOptions.getConcentrationModelOptions()
+      ) ),
       model => new WavesScreenView( model, tandem.createTandem( 'view' ) ),
       options
     );
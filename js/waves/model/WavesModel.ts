@@ -16,12 +16,16 @@ import Range from '../../../../dot/js/Range.js';
 import Vector2 from '../../../../dot/js/Vector2.js';
 import { Line } from '../../../../kite/js/segments/Segment.js';
 import optionize, { combineOptions, EmptySelfOptions } from '../../../../phet-core/js/optionize.js';
+import TimeSpeed from '../../../../scenery-phet/js/TimeSpeed.js';
 import PhetioGroup from '../../../../tandem/js/PhetioGroup.js';
 import IOType from '../../../../tandem/js/types/IOType.js';
 import MapIO, { MapStateObject } from '../../../../tandem/js/types/MapIO.js';
 import ReferenceIO, { ReferenceIOState } from '../../../../tandem/js/types/ReferenceIO.js';
 import GreenhouseEffectConstants from '../../common/GreenhouseEffectConstants.js';
+import AerosolLayer from '../../common/model/AerosolLayer.js';
 import AtmosphereLayer from '../../common/model/AtmosphereLayer.js';
+import AtmosphereLayerSpacing from '../../common/model/AtmosphereLayerSpacing.js';
+import Cloud from '../../common/model/Cloud.js';
 import ConcentrationModel, { ConcentrationModelOptions, ConcentrationModelStateObject } from '../../common/model/ConcentrationModel.js';
 import EnergyAbsorbingEmittingLayer from '../../common/model/EnergyAbsorbingEmittingLayer.js';
 import GroundLayer from '../../common/model/GroundLayer.js';
@@ -47,6 +51,11 @@ const REAL_TO_RENDERING_WAVELENGTH_MAP = new Map( [
 
 const WAVE_AMPLITUDE_FOR_RENDERING = 2000;
 
+// The reflectivity value used visually for the main cloud is NOT the actual value used in the cloud model.  This is
+// because the actual value didn't produce enough of a visible wave.  In other words, this value is "Hollywooded" to get
+// the look we wanted.  See https://github.com/phetsims/greenhouse-effect/issues/82.
+const MAIN_CLOUD_VISUAL_REFLECTIVITY = 0.5;
+
 class WavesModel extends ConcentrationModel {
 
   // phet-io group that is used to track and create the individual wave instances
@@ -61,15 +70,24 @@ class WavesModel extends ConcentrationModel {
   // source of the IR waves that come from the ground
   private readonly groundWaveSource: GroundWaveSource;
 
-  // a JS Map where the key is a wave coming into the cloud and the value is the reflected wave
+  // a JS Map where the key is a wave coming into a cloud and the value is the reflected wave
   private cloudReflectedWavesMap: Map<Wave, Wave>;
 
+  // a JS Map where the key is an IR wave coming into the bottom of a cloud and the value is the reflected wave
+  private cloudReflectedInfraredWavesMap: Map<Wave, Wave>;
+
+  // a JS Map where the key is a wave of sunlight reaching the aerosols and the value is the reflected wave
+  private aerosolReflectedWavesMap: Map<Wave, Wave>;
+
+  // all the clouds in the model, whether enabled or not
+  private readonly clouds: Cloud[];
+
   // a JS Map where the key is a wave coming into contact with the glacier and the value is the reflected wave
   private glacierReflectedWavesMap: Map<Wave, Wave>;
 
-  // A JS Map containing atmospheric layers and ranges that define the x coordinate within which IR waves should
-  // interact with that layer.
-  private readonly atmosphereLayerToXRangeMap: Map<EnergyAbsorbingEmittingLayer, Range>;
+  // A JS Map containing atmospheric layers and the ranges that define the x coordinates within which IR waves should
+  // interact with that layer.  A layer can have more than one range when interaction areas share the same layer.
+  private readonly atmosphereLayerToXRangesMap: Map<EnergyAbsorbingEmittingLayer, Range[]>;
 
   // the set of all places where the waves in the model are interacting with layers in the atmosphere
   public readonly waveAtmosphereInteractions: ObservableArray<WaveAtmosphereInteraction>;
@@ -86,6 +104,10 @@ class WavesModel extends ConcentrationModel {
   public constructor( providedOptions: WaveModelOptions ) {
 
     const options = optionize<WaveModelOptions, SelfOptions, ConcentrationModelOptions>()( {
+
+      // Include a fast speed so that students don't have to wait as long for the temperature to settle.
+      timeSpeeds: [ TimeSpeed.FAST, TimeSpeed.NORMAL, TimeSpeed.SLOW ],
+
       phetioType: WavesModel.WavesModelIO,
       phetioState: true
     }, providedOptions );
@@ -135,29 +157,53 @@ class WavesModel extends ConcentrationModel {
     );
 
     this.cloudReflectedWavesMap = new Map<Wave, Wave>();
+    this.cloudReflectedInfraredWavesMap = new Map<Wave, Wave>();
+    this.aerosolReflectedWavesMap = new Map<Wave, Wave>();
+    this.clouds = this.getClouds();
     this.glacierReflectedWavesMap = new Map<Wave, Wave>();
 
-    this.atmosphereLayerToXRangeMap = new Map(
+    // When a cloud moves up or down, stop the interactions with the waves at its previous altitude.  They will be
+    // recreated at the new altitude the next time the interactions are updated.
+    this.clouds.forEach( cloud => {
+      cloud.positionProperty.lazyLink( () => this.removeWaveCloudInteractions( cloud ) );
+    } );
+
+    // The interaction areas are at the altitudes of specific layers in the default layer configuration.  The nearest
+    // layers are used so that this works if the number or spacing of the layers is changed.  When there are few layers,
+    // more than one area can be nearest to the same layer, in which case that layer gets the combined range so that
+    // none of the areas are lost.
+    const defaultLayerAltitudes = LayersModel.getAtmosphereLayerAltitudes(
+      LayersModel.DEFAULT_NUMBER_OF_ATMOSPHERE_LAYERS,
+      AtmosphereLayerSpacing.EVEN
+    );
+    const interactionAreas: [ number, Range ][] = [
+
+      // leftmost interaction area
+      [
+        defaultLayerAltitudes[ 4 ],
+        new Range( -LayersModel.SUNLIGHT_SPAN.width / 2, -LayersModel.SUNLIGHT_SPAN.width / 4 )
+      ],
+
+      // central interaction area
+      [
+        defaultLayerAltitudes[ 6 ],
+        new Range( -LayersModel.SUNLIGHT_SPAN.width / 4, LayersModel.SUNLIGHT_SPAN.width / 4 )
+      ],
+
+      // rightmost interaction area
       [
-        // leftmost interaction area
-        [
-          this.atmosphereLayers[ 4 ],
-          new Range( -LayersModel.SUNLIGHT_SPAN.width / 2, -LayersModel.SUNLIGHT_SPAN.width / 4 )
-        ],
-
-        // central interaction area
-        [
-          this.atmosphereLayers[ 6 ],
-          new Range( -LayersModel.SUNLIGHT_SPAN.width / 4, LayersModel.SUNLIGHT_SPAN.width / 4 )
-        ],
-
-        // rightmost interaction area
-        [
-          this.atmosphereLayers[ 3 ],
-          new Range( LayersModel.SUNLIGHT_SPAN.width * 0.25, LayersModel.SUNLIGHT_SPAN.width )
-        ]
+        defaultLayerAltitudes[ 3 ],
+        new Range( LayersModel.SUNLIGHT_SPAN.width * 0.25, LayersModel.SUNLIGHT_SPAN.width )
       ]
-    );
+    ];
+    // When there are only a few atmosphere layers, more than one interaction area can map to the same layer.  The
+    // ranges for these are kept separate, since combining them would also cover any areas in between.
+    this.atmosphereLayerToXRangesMap = new Map<EnergyAbsorbingEmittingLayer, Range[]>();
+    interactionAreas.forEach( ( [ altitude, xRange ] ) => {
+      const layer = this.getAtmosphereLayerNearestAltitude( altitude );
+      const xRanges = this.atmosphereLayerToXRangesMap.get( layer ) || [];
+      this.atmosphereLayerToXRangesMap.set( layer, [ ...xRanges, xRange ] );
+    } );
 
     // (read-only) {ObservableArrayDef.<WaveAtmosphereInteraction>} - An array of the interactions that are
     // currently occurring between IR waves and the atmosphere.
@@ -187,6 +233,10 @@ class WavesModel extends ConcentrationModel {
     this.groundWaveSource.step();
     this.waveGroup.forEach( wave => wave.step( dt ) );
     this.updateWaveCloudInteractions();
+    this.updateInfraredWaveCloudInteractions();
+    if ( this.aerosolLayer ) {
+      this.updateWaveAerosolInteractions( this.aerosolLayer );
+    }
     this.updateWaveAtmosphereInteractions();
     this.updateWaveGlacierInteractions();
 
@@ -202,29 +252,23 @@ class WavesModel extends ConcentrationModel {
   }
 
   /**
-   * Update the interactions between light waves and the cloud.
+   * Update the interactions between the waves of sunlight and the tops of the clouds.
    */
   private updateWaveCloudInteractions(): void {
 
-    if ( this.cloud ) {
-
-      const cloud = this.cloud; // convenience var
-
-      // The reflectivity value used visually is NOT the actual value used in the cloud model.  This is because the actual
-      // value didn't produce enough of a visible wave.  In other words, this value is "Hollywooded" to get the look we
-      // wanted.  See https://github.com/phetsims/greenhouse-effect/issues/82.
-      const visualCloudReflectivity = 0.5;
+    // See if any of the currently reflected waves should stop reflecting.
+    this.cloudReflectedWavesMap.forEach( ( reflectedWave, sourceWave ) => {
+      const cloud = this.getCloudAtX( sourceWave.origin.x );
+      if ( !cloud || !cloud.enabledProperty.value || sourceWave.startPoint.y < cloud.position.y ) {
 
-      // See if any of the currently reflected waves should stop reflecting.
-      this.cloudReflectedWavesMap.forEach( ( reflectedWave, sourceWave ) => {
-        if ( !cloud.enabledProperty.value || sourceWave.startPoint.y < cloud.position.y ) {
+        // Either the cloud has disappeared or the wave from the sun that was being reflected has gone all the way
+        // through the cloud.  In either case, it's time to stop reflecting the wave.
+        reflectedWave.isSourced = false;
+        this.cloudReflectedWavesMap.delete( sourceWave );
+      }
+    } );
 
-          // Either the cloud has disappeared or the wave from the sun that was being reflected has gone all the way
-          // through the cloud.  In either case, it's time to stop reflecting the wave.
-          reflectedWave.isSourced = false;
-          this.cloudReflectedWavesMap.delete( sourceWave );
-        }
-      } );
+    this.clouds.forEach( cloud => {
 
       if ( cloud.enabledProperty.value ) {
 
@@ -239,6 +283,8 @@ class WavesModel extends ConcentrationModel {
           wave.startPoint.x < cloud.position.x + cloud.width / 2
         );
 
+        const cloudVisualReflectivity = WavesModel.getVisualReflectivity( cloud, true, true );
+
         // Check if reflected waves and attenuators are in place for this cloud and, if not, add them.
         wavesCrossingTheCloud.forEach( incidentWave => {
 
@@ -252,22 +298,35 @@ class WavesModel extends ConcentrationModel {
               new Vector2( incidentWave.origin.x, cloud.position.y ),
               direction,
               LayersModel.HEIGHT_OF_ATMOSPHERE, {
-                intensityAtStart: incidentWave.intensityAtStart * visualCloudReflectivity,
+                intensityAtStart: incidentWave.intensityAtStart * cloudVisualReflectivity,
                 initialPhaseOffset: ( incidentWave.getPhaseAt( incidentWave.origin.y - cloud.position.y ) + Math.PI ) %
                                     ( 2 * Math.PI )
               }
             );
             this.cloudReflectedWavesMap.set( incidentWave, reflectedWave );
           }
+          else {
 
-          // If there is no attenuation of this wave as it passes through the cloud, create it.
+            // Make sure the intensity of the reflected wave is correct, since the reflectivity of the cloud can change.
+            const reflectedWave = this.cloudReflectedWavesMap.get( incidentWave )!;
+            const reflectedWaveIntensity = incidentWave.intensityAtStart * cloudVisualReflectivity;
+            if ( reflectedWave.intensityAtStart !== reflectedWaveIntensity ) {
+              reflectedWave.setIntensityAtStart( reflectedWaveIntensity );
+            }
+          }
+
+          // If there is no attenuation of this wave as it passes through the cloud, create it, otherwise make sure that
+          // it is correct.
           if ( !incidentWave.hasAttenuator( cloud ) ) {
             incidentWave.addAttenuator(
               incidentWave.startPoint.y - cloud.position.y,
-              visualCloudReflectivity,
+              cloudVisualReflectivity,
               cloud
             );
           }
+          else {
+            incidentWave.setAttenuation( cloud, cloudVisualReflectivity );
+          }
         } );
       }
       else {
@@ -280,9 +339,224 @@ class WavesModel extends ConcentrationModel {
           }
         } );
       }
+    } );
+  }
+
+  /**
+   * Remove all reflections and attenuation of the waves caused by the provided cloud.
+   */
+  private removeWaveCloudInteractions( cloud: Cloud ): void {
+    [ this.cloudReflectedWavesMap, this.cloudReflectedInfraredWavesMap ].forEach( reflectedWavesMap => {
+      reflectedWavesMap.forEach( ( reflectedWave, sourceWave ) => {
+        if ( sourceWave.hasAttenuator( cloud ) ) {
+          reflectedWave.isSourced = false;
+          reflectedWavesMap.delete( sourceWave );
+        }
+      } );
+    } );
+    this.waveGroup.forEach( wave => {
+      if ( wave.hasAttenuator( cloud ) ) {
+        wave.removeAttenuator( cloud );
+      }
+    } );
+  }
+
+  /**
+   * Get the cloud that spans the provided horizontal position, if there is one.  The clouds don't overlap horizontally,
+   * so there is at most one.
+   * @param x - in meters
+   */
+  private getCloudAtX( x: number ): Cloud | null {
+    return this.clouds.find( cloud => Math.abs( x - cloud.position.x ) < cloud.width / 2 ) || null;
+  }
+
+  /**
+   * Update the interactions between the IR waves coming from the ground and the bottoms of the clouds, which can
+   * reflect some of the IR back towards the ground.
+   */
+  private updateInfraredWaveCloudInteractions(): void {
+
+    // See if any of the currently reflected waves should stop reflecting, and update the ones that shouldn't.
+    this.cloudReflectedInfraredWavesMap.forEach( ( reflectedWave, sourceWave ) => {
+      const cloud = this.getCloudCrossedByWave( sourceWave );
+      const cloudVisualReflectivity = cloud ? WavesModel.getVisualReflectivity( cloud, false, false ) : 0;
+      if ( !cloud ||
+           !cloud.enabledProperty.value ||
+           cloudVisualReflectivity === 0 ||
+           !this.waveGroup.includes( sourceWave ) ||
+           sourceWave.startPoint.y > cloud.position.y ) {
+
+        // Either the cloud has disappeared or stopped reflecting IR, or the wave from the ground that was being
+        // reflected has gone all the way through the cloud.  In any case, it's time to stop reflecting the wave.
+        reflectedWave.isSourced = false;
+        if ( cloud && sourceWave.hasAttenuator( cloud ) ) {
+          sourceWave.removeAttenuator( cloud );
+        }
+        this.cloudReflectedInfraredWavesMap.delete( sourceWave );
+      }
+      else {
+
+        // Make sure the attenuation of the source wave and the intensity of the reflected wave are correct, since both
+        // the reflectivity of the cloud and the intensity of the source wave below the cloud can change.
+        sourceWave.setAttenuation( cloud, cloudVisualReflectivity );
+        const reflectedWaveIntensity = sourceWave.getIntensityAtAltitude( cloud.position.y ) * cloudVisualReflectivity;
+        if ( reflectedWave.intensityAtStart !== reflectedWaveIntensity ) {
+          reflectedWave.setIntensityAtStart( reflectedWaveIntensity );
+        }
+      }
+    } );
+
+    // Look for IR waves from the ground that are reaching the bottom of a cloud and aren't yet being reflected.
+    this.waveGroup.forEach( wave => {
+      if ( isInfrared( wave ) &&
+           wave.origin.y === 0 &&
+           wave.propagationDirection.y > 0 &&
+           !this.cloudReflectedInfraredWavesMap.has( wave ) ) {
+
+        const cloud = this.getCloudCrossedByWave( wave );
+        if ( cloud &&
+             cloud.enabledProperty.value &&
+             wave.startPoint.y < cloud.position.y &&
+             wave.getEndPoint().y > cloud.position.y &&
+             !wave.hasAttenuator( cloud ) ) {
+
+          const cloudVisualReflectivity = WavesModel.getVisualReflectivity( cloud, false, false );
+          if ( cloudVisualReflectivity > 0 ) {
+
+            const waveStartToCloudLength = ( cloud.position.y - wave.startPoint.y ) / wave.propagationDirection.y;
+            const waveOriginToCloudLength = ( cloud.position.y - wave.origin.y ) / wave.propagationDirection.y;
+
+            // Create the reflected wave, which heads back down towards the ground.
+            const reflectedWave = this.waveGroup.createNextElement(
+              wave.wavelength,
+              wave.origin.plus( wave.propagationDirection.timesScalar( waveOriginToCloudLength ) ),
+              new Vector2( wave.propagationDirection.x, -wave.propagationDirection.y ),
+              0,
+              {
+                intensityAtStart: wave.getIntensityAtAltitude( cloud.position.y ) * cloudVisualReflectivity,
+
+                // Align the phase offsets because it looks better in the view.
+                initialPhaseOffset: ( wave.getPhaseAt( waveOriginToCloudLength ) + Math.PI ) % TWO_PI
+              }
+            );
+            this.cloudReflectedInfraredWavesMap.set( wave, reflectedWave );
+
+            // Attenuate the wave from the ground where it passes through the cloud.
+            wave.addAttenuator( waveStartToCloudLength, cloudVisualReflectivity, cloud );
+          }
+        }
+      }
+    } );
+  }
+
+  /**
+   * Get the enabled or disabled cloud, if any, whose horizontal span includes the point where the provided wave reaches
+   * the altitude of the cloud.
+   */
+  private getCloudCrossedByWave( wave: Wave ): Cloud | null {
+    return this.clouds.find( cloud => {
+      const distanceToCloudAltitude = ( cloud.position.y - wave.origin.y ) / wave.propagationDirection.y;
+      const xAtCloudAltitude = wave.origin.x + wave.propagationDirection.x * distanceToCloudAltitude;
+      return distanceToCloudAltitude > 0 && Math.abs( xAtCloudAltitude - cloud.position.x ) < cloud.width / 2;
+    } ) || null;
+  }
+
+  /**
+   * Update the interactions between the waves of sunlight and the aerosols.  The aerosols span the full width of the
+   * sky, so every wave of sunlight that reaches them is partially reflected back up and attenuated below them.  The
+   * visual reflectivity uses the same tuning as the clouds.
+   */
+  private updateWaveAerosolInteractions( aerosolLayer: AerosolLayer ): void {
+
+    const altitude = aerosolLayer.altitudeProperty.value;
+    const aerosolVisualReflectivity = Math.min(
+      MAIN_CLOUD_VISUAL_REFLECTIVITY * aerosolLayer.reflectivityProperty.value /
+      ConcentrationModel.CLOUD_VISIBLE_REFLECTIVITY,
+      1
+    );
+
+    // See if any of the currently reflected waves should stop reflecting.
+    this.aerosolReflectedWavesMap.forEach( ( reflectedWave, sourceWave ) => {
+      if ( aerosolVisualReflectivity === 0 ||
+           reflectedWave.origin.y !== altitude ||
+           sourceWave.startPoint.y < altitude ) {
+
+        // The aerosols have decayed away or moved, or the wave from the sun has gone all the way through them.  In
+        // any case, it's time to stop reflecting the wave.
+        reflectedWave.isSourced = false;
+        if ( sourceWave.hasAttenuator( aerosolLayer ) ) {
+          sourceWave.removeAttenuator( aerosolLayer );
+        }
+        this.aerosolReflectedWavesMap.delete( sourceWave );
+      }
+    } );
+
+    if ( aerosolVisualReflectivity > 0 ) {
+
+      // Make a list of waves that originated from the sun and are currently passing through the aerosols.
+      const wavesCrossingTheAerosols = this.waveGroup.filter( wave =>
+        isVisible( wave ) &&
+        wave.origin.y === this.sunWaveSource.waveStartAltitude &&
+        wave.propagationDirection.y < 0 &&
+        wave.startPoint.y > altitude &&
+        wave.startPoint.y - wave.length < altitude
+      );
+
+      wavesCrossingTheAerosols.forEach( incidentWave => {
+
+        // If there is no reflected wave for this incident wave, create one, otherwise make sure that its intensity is
+        // correct, since the reflectivity of the aerosols decays over time.
+        if ( !this.aerosolReflectedWavesMap.has( incidentWave ) ) {
+          const reflectedWave = this.waveGroup.createNextElement(
+            incidentWave.wavelength,
+            new Vector2( incidentWave.origin.x, altitude ),
+            GreenhouseEffectConstants.STRAIGHT_UP_NORMALIZED_VECTOR,
+            LayersModel.HEIGHT_OF_ATMOSPHERE, {
+              intensityAtStart: incidentWave.intensityAtStart * aerosolVisualReflectivity,
+              initialPhaseOffset: ( incidentWave.getPhaseAt( incidentWave.origin.y - altitude ) + Math.PI ) % TWO_PI
+            }
+          );
+          this.aerosolReflectedWavesMap.set( incidentWave, reflectedWave );
+        }
+        else {
+          const reflectedWave = this.aerosolReflectedWavesMap.get( incidentWave )!;
+          const reflectedWaveIntensity = incidentWave.intensityAtStart * aerosolVisualReflectivity;
+          if ( reflectedWave.intensityAtStart !== reflectedWaveIntensity ) {
+            reflectedWave.setIntensityAtStart( reflectedWaveIntensity );
+          }
+        }
+
+        // Attenuate the incident wave below the aerosols.
+        if ( !incidentWave.hasAttenuator( aerosolLayer ) ) {
+          incidentWave.addAttenuator(
+            incidentWave.startPoint.y - altitude,
+            aerosolVisualReflectivity,
+            aerosolLayer
+          );
+        }
+        else {
+          incidentWave.setAttenuation( aerosolLayer, aerosolVisualReflectivity );
+        }
+      } );
     }
   }
 
+  /**
+   * Get the reflectivity to use when depicting the waves that are reflected by the provided cloud.  The visual
+   * reflectivity of the main cloud for sunlight was chosen to get the desired look, so the other cases use the same
+   * value scaled by the reflectivity of the cloud relative to that of the main cloud.
+   * @param cloud
+   * @param visible - true for visible light, false for infrared
+   * @param fromAbove - true for light that hits the cloud from above, false for light that hits it from below
+   */
+  private static getVisualReflectivity( cloud: Cloud, visible: boolean, fromAbove: boolean ): number {
+    return Math.min(
+      MAIN_CLOUD_VISUAL_REFLECTIVITY * cloud.getReflectivity( visible, fromAbove ) /
+      ConcentrationModel.CLOUD_VISIBLE_REFLECTIVITY,
+      1
+    );
+  }
+
   /**
    * Update the interactions between IR waves and the atmosphere.
    */
@@ -351,57 +625,59 @@ class WavesModel extends ConcentrationModel {
         this.waveLine.setEnd( this.waveLineEnd );
 
         // Check if this wave is crossing any of the atmosphere interaction areas.
-        this.atmosphereLayerToXRangeMap.forEach( ( xRange, layer ) => {
+        this.atmosphereLayerToXRangesMap.forEach( ( xRanges, layer ) => {
 
           if ( layer.energyAbsorptionProportionProperty.value > 0 ) {
-
-            // Establish the line in the atmosphere against which the wave is to be tested.
-            this.atmosphereLineStart.setXY( xRange.min, layer.altitude );
-            this.atmosphereLineEnd.setXY( xRange.max, layer.altitude );
-            this.atmosphereLine.setStart( this.atmosphereLineStart );
-            this.atmosphereLine.setEnd( this.atmosphereLineEnd );
-
-            // See if there is an intersection and create a new wave if so.
-            const intersection = Line.intersect( this.waveLine, this.atmosphereLine );
-            if ( intersection.length > 0 ) {
-
-              assert && assert( intersection.length === 1, 'multiple intersections are not expected' );
-
-              const waveStartToIntersectionLength = ( this.atmosphereLine.start.y - waveFromTheGround.startPoint.y ) /
-                                                    waveFromTheGround.propagationDirection.y;
-              const waveOriginToIntersectionLength = ( this.atmosphereLine.start.y - waveFromTheGround.origin.y ) /
-                                                     waveFromTheGround.propagationDirection.y;
-
-              // Create the new emitted wave.
-              const waveFromAtmosphericInteraction = this.waveGroup.createNextElement(
-                waveFromTheGround.wavelength,
-                intersection[ 0 ].point,
-                new Vector2( waveFromTheGround.propagationDirection.x, -waveFromTheGround.propagationDirection.y ),
-                0,
-                {
-                  // The emitted wave's intensity is a proportion of the wave that causes the interaction.
-                  intensityAtStart: waveFromTheGround.intensityAtStart * irWaveAttenuation,
-
-                  // Align the phase offsets because it looks better in the view.
-                  initialPhaseOffset: ( waveFromTheGround.getPhaseAt( waveOriginToIntersectionLength ) + Math.PI ) %
-                                      ( 2 * Math.PI )
-                }
-              );
-
-              // Add an attenuator on the source wave.
-              waveFromTheGround.addAttenuator(
-                waveStartToIntersectionLength,
-                this.concentrationProperty.value * MAX_ATMOSPHERIC_INTERACTION_PROPORTION,
-                layer
-              );
-
-              // Add the wave-atmosphere interaction to our list.
-              this.waveAtmosphereInteractions.push( new WaveAtmosphereInteraction(
-                layer,
-                waveFromTheGround,
-                waveFromAtmosphericInteraction
-              ) );
-            }
+            xRanges.forEach( xRange => {
+
+              // Establish the line in the atmosphere against which the wave is to be tested.
+              this.atmosphereLineStart.setXY( xRange.min, layer.altitude );
+              this.atmosphereLineEnd.setXY( xRange.max, layer.altitude );
+              this.atmosphereLine.setStart( this.atmosphereLineStart );
+              this.atmosphereLine.setEnd( this.atmosphereLineEnd );
+
+              // See if there is an intersection and create a new wave if so.
+              const intersection = Line.intersect( this.waveLine, this.atmosphereLine );
+              if ( intersection.length > 0 ) {
+
+                assert && assert( intersection.length === 1, 'multiple intersections are not expected' );
+
+                const waveStartToIntersectionLength = ( this.atmosphereLine.start.y - waveFromTheGround.startPoint.y ) /
+                                                      waveFromTheGround.propagationDirection.y;
+                const waveOriginToIntersectionLength = ( this.atmosphereLine.start.y - waveFromTheGround.origin.y ) /
+                                                       waveFromTheGround.propagationDirection.y;
+
+                // Create the new emitted wave.
+                const waveFromAtmosphericInteraction = this.waveGroup.createNextElement(
+                  waveFromTheGround.wavelength,
+                  intersection[ 0 ].point,
+                  new Vector2( waveFromTheGround.propagationDirection.x, -waveFromTheGround.propagationDirection.y ),
+                  0,
+                  {
+                    // The emitted wave's intensity is a proportion of the wave that causes the interaction.
+                    intensityAtStart: waveFromTheGround.intensityAtStart * irWaveAttenuation,
+
+                    // Align the phase offsets because it looks better in the view.
+                    initialPhaseOffset: ( waveFromTheGround.getPhaseAt( waveOriginToIntersectionLength ) + Math.PI ) %
+                                        ( 2 * Math.PI )
+                  }
+                );
+
+                // Add an attenuator on the source wave.
+                waveFromTheGround.addAttenuator(
+                  waveStartToIntersectionLength,
+                  this.concentrationProperty.value * MAX_ATMOSPHERIC_INTERACTION_PROPORTION,
+                  layer
+                );
+
+                // Add the wave-atmosphere interaction to our list.
+                this.waveAtmosphereInteractions.push( new WaveAtmosphereInteraction(
+                  layer,
+                  waveFromTheGround,
+                  waveFromAtmosphericInteraction
+                ) );
+              }
+            } );
           }
         } );
       }
@@ -466,6 +742,8 @@ class WavesModel extends ConcentrationModel {
     this.waveGroup.clear();
     this.surfaceTemperatureVisibleProperty.reset();
     this.cloudReflectedWavesMap.clear();
+    this.cloudReflectedInfraredWavesMap.clear();
+    this.aerosolReflectedWavesMap.clear();
     this.glacierReflectedWavesMap.clear();
     this.waveAtmosphereInteractions.clear();
     if ( numberOfWavesBeforeReset > 0 ) {
@@ -482,6 +760,8 @@ class WavesModel extends ConcentrationModel {
     supertype: ConcentrationModel.ConcentrationModelIO,
     stateSchema: {
       cloudReflectedWavesMap: MapIO( ReferenceIO( Wave.WaveIO ), ReferenceIO( Wave.WaveIO ) ),
+      cloudReflectedInfraredWavesMap: MapIO( ReferenceIO( Wave.WaveIO ), ReferenceIO( Wave.WaveIO ) ),
+      aerosolReflectedWavesMap: MapIO( ReferenceIO( Wave.WaveIO ), ReferenceIO( Wave.WaveIO ) ),
       glacierReflectedWavesMap: MapIO( ReferenceIO( Wave.WaveIO ), ReferenceIO( Wave.WaveIO ) )
     }
   } );
@@ -493,6 +773,8 @@ class WavesModel extends ConcentrationModel {
 
 type WavesModelSelfStateObject = {
   cloudReflectedWavesMap: MapStateObject<ReferenceIOState, ReferenceIOState>;
+  cloudReflectedInfraredWavesMap: MapStateObject<ReferenceIOState, ReferenceIOState>;
+  aerosolReflectedWavesMap: MapStateObject<ReferenceIOState, ReferenceIOState>;
   glacierReflectedWavesMap: MapStateObject<ReferenceIOState, ReferenceIOState>;
 };
 
@@ -54,7 +54,9 @@ class WaveLandscapeObservationWindow extends LandscapeObservationWindow {
       this.focusableHeadingNode,
       this.startSunlightButton,
       greenhouseEffectObservationWindowPDOMNode,
-      this.energyBalancePanel
+      this.energyBalancePanel,
+      this.temperatureGraphPanel,
+      this.temperatureProfilePanel
     ];
   }
 }
@@ -7,7 +7,7 @@
  */
 
 import Multilink from '../../../../axon/js/Multilink.js';
-import { ConcentrationControlMode, ConcentrationDate } from '../../common/model/ConcentrationModel.js';
+import { ConcentrationControlMode } from '../../common/model/ConcentrationModel.js';
 import RadiationDescriber from '../../common/view/describers/RadiationDescriber.js';
 import EnergyRepresentation from '../../common/view/EnergyRepresentation.js';
 import LandscapeObservationWindowPDOMNode from '../../common/view/LandscapeObservationWindowPDOMNode.js';
@@ -25,13 +25,9 @@ class WaveLandscapeObservationWindowPDOMNode extends LandscapeObservationWindowP
         [
           model.sunEnergySource.isShiningProperty,
           model.cloud.enabledProperty,
-          model.concentrationControlModeProperty,
-          model.dateProperty
+          model.glacierPresentProperty
         ],
-        ( isShining, cloudEnabled, concentrationControlMode, date ) => {
-
-          const isGlacierPresent = concentrationControlMode === ConcentrationControlMode.BY_DATE &&
-                                   date === ConcentrationDate.ICE_AGE;
+        ( isShining, cloudEnabled, isGlacierPresent ) => {
           this.sunlightItemNode.innerContent = RadiationDescriber.getSunlightTravelDescription(
             cloudEnabled,
             isGlacierPresent,